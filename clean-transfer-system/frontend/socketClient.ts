@@ -4,6 +4,7 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import { TRANSFER_STATE_LABELS, TransferState } from '../../shared/transferLifecycle';
 
 // Event interfaces for type safety
 interface TransferPendingEvent {
@@ -11,9 +12,11 @@ interface TransferPendingEvent {
     id: string;
     amount: number;
     status: string;
+    transferState: TransferState;
     description: string;
     metadata: any;
   };
+  state: TransferState;
   message: string;
   timestamp: string;
   type: 'transfer_pending';
@@ -24,9 +27,11 @@ interface TransferUpdateEvent {
     id: string;
     amount: number;
     status: string;
+    transferState: TransferState;
     description: string;
     metadata: any;
   };
+  state: Extract<TransferState, 'APPROVED' | 'REJECTED'>;
   status: 'approved' | 'rejected';
   reason?: string;
   message: string;
@@ -153,9 +158,9 @@ export class TransferSocketClient {
       this.emitToListeners('transfer_update', data);
       
       // Custom UI logic for status updates
-      const isApproved = data.status === 'approved';
+      const isApproved = data.state === 'APPROVED';
       this.showNotification(
-        isApproved ? '✅ Transfer Approved' : '❌ Transfer Rejected',
+        `${isApproved ? '✅' : '❌'} Transfer ${TRANSFER_STATE_LABELS[data.state]}`,
         data.message,
         isApproved ? 'success' : 'error'
       );
@@ -12,6 +12,7 @@ import {
   createErrorResponse 
 } from '../utils/sanitizer';
 import { getSocketService } from '../services/socketService';
+import { transitionTransfer } from '../services/transferLifecycle';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -157,6 +158,13 @@ router.post('/transfers/:id/review', async (req: AuthenticatedRequest, res) => {
 
       // Process approval in database transaction
       const result = await prisma.$transaction(async (tx) => {
+        // Fails if another admin reviewed the transfer in the meantime
+        await transitionTransfer(tx, transferId, 'APPROVED', {
+          actorType: 'ADMIN',
+          actorId: req.user!.id,
+          reason: reason || 'Transfer approved by admin'
+        });
+
         // Update transaction status and metadata
         const updatedTransaction = await tx.transaction.update({
           where: { id: transferId },
@@ -193,7 +201,7 @@ router.post('/transfers/:id/review', async (req: AuthenticatedRequest, res) => {
         socketService.emitTransferUpdate(
           transaction.userId,
           result,
-          'approved',
+          'APPROVED',
           reason || 'Transfer approved and processed'
         );
         console.log(`📡 Approval notification sent via WebSocket`);
@@ -213,19 +221,27 @@ router.post('/transfers/:id/review', async (req: AuthenticatedRequest, res) => {
 
     } else if (action === 'reject') {
       // Process rejection
-      const result = await prisma.transaction.update({
-        where: { id: transferId },
-        data: {
-          status: 'REJECTED',
-          updatedAt: new Date(),
-          metadata: {
-            ...transaction.metadata,
-            status: 'rejected',
-            rejectedAt: currentTimestamp,
-            rejectedBy: req.user!.id,
-            adminReason: reason || 'Transfer rejected by admin review'
+      const result = await prisma.$transaction(async (tx) => {
+        await transitionTransfer(tx, transferId, 'REJECTED', {
+          actorType: 'ADMIN',
+          actorId: req.user!.id,
+          reason: reason || 'Transfer rejected by admin review'
+        });
+
+        return tx.transaction.update({
+          where: { id: transferId },
+          data: {
+            status: 'REJECTED',
+            updatedAt: new Date(),
+            metadata: {
+              ...transaction.metadata,
+              status: 'rejected',
+              rejectedAt: currentTimestamp,
+              rejectedBy: req.user!.id,
+              adminReason: reason || 'Transfer rejected by admin review'
+            }
           }
-        }
+        });
       });
 
       console.log(`❌ Transfer ${transferId} rejected`);
@@ -236,7 +252,7 @@ router.post('/transfers/:id/review', async (req: AuthenticatedRequest, res) => {
         socketService.emitTransferUpdate(
           transaction.userId,
           result,
-          'rejected',
+          'REJECTED',
           reason || 'Transfer rejected after admin review'
         );
         console.log(`📡 Rejection notification sent via WebSocket`);
@@ -257,6 +273,14 @@ router.post('/transfers/:id/review', async (req: AuthenticatedRequest, res) => {
 
   } catch (error) {
     console.error('❌ Admin transfer review error:', error);
+
+    // Lost a race with another review, or the transfer left review
+    if (error instanceof Error && (error.message.startsWith('Transfer cannot move') || error.message === 'Transfer was updated by another request')) {
+      return res.status(409).json(
+        createErrorResponse('Transfer has already been reviewed')
+      );
+    }
+
     res.status(500).json(
       createErrorResponse('Failed to process transfer review')
     );
@@ -12,6 +12,7 @@ import {
   createErrorResponse 
 } from '../utils/sanitizer';
 import { getSocketService } from '../services/socketService';
+import { recordSubmission, transitionTransfer } from '../services/transferLifecycle';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -74,24 +75,35 @@ router.post('/transfer', async (req: AuthenticatedRequest, res) => {
       );
     }
 
-    // Create transfer transaction
-    const transaction = await prisma.transaction.create({
-      data: {
-        userId: req.user!.id,
-        type: 'DEBIT',
-        amount: transferAmount,
-        status: 'PENDING',
-        description: description || `External bank transfer to ${bankName}`,
-        metadata: {
-          transferType: 'external_bank',
-          recipientInfo: recipientInfo.slice(-4), // Only store last 4 digits for security
-          bankName: bankName,
-          fullAccountInfo: recipientInfo, // Store full info for processing
-          riskLevel: transferAmount > 5000 ? 'HIGH' : 'MEDIUM',
-          requiresApproval: true,
-          submittedAt: new Date().toISOString()
+    // Create transfer transaction and queue it for review
+    const transaction = await prisma.$transaction(async (tx) => {
+      const created = await tx.transaction.create({
+        data: {
+          userId: req.user!.id,
+          type: 'DEBIT',
+          amount: transferAmount,
+          status: 'PENDING',
+          transferState: 'SUBMITTED',
+          description: description || `External bank transfer to ${bankName}`,
+          metadata: {
+            transferType: 'external_bank',
+            recipientInfo: recipientInfo.slice(-4), // Only store last 4 digits for security
+            bankName: bankName,
+            fullAccountInfo: recipientInfo, // Store full info for processing
+            riskLevel: transferAmount > 5000 ? 'HIGH' : 'MEDIUM',
+            requiresApproval: true,
+            submittedAt: new Date().toISOString()
+          }
         }
-      }
+      });
+
+      await recordSubmission(tx, created.id, { actorType: 'CUSTOMER', actorId: req.user!.id });
+      await transitionTransfer(tx, created.id, 'UNDER_REVIEW', {
+        actorType: 'SYSTEM',
+        reason: 'Queued for admin approval'
+      });
+
+      return tx.transaction.findUniqueOrThrow({ where: { id: created.id } });
     });
 
     console.log(`✅ Transfer created: ${transaction.id} for $${transferAmount}`);
@@ -8,6 +8,7 @@ import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { sanitizeTransactionData } from '../utils/sanitizer';
+import { toTransferEventStatus, TransferState } from '../../../shared/transferLifecycle';
 
 const prisma = new PrismaClient();
 
@@ -206,6 +207,7 @@ export class SocketService {
       
       const eventData = {
         transaction: sanitizedTransaction,
+        state: sanitizedTransaction.transferState,
         message: `Your $${sanitizedTransaction.amount} transfer is pending approval`,
         timestamp: new Date().toISOString(),
         type: 'transfer_pending'
@@ -220,19 +222,22 @@ export class SocketService {
   }
 
   /**
-   * Emit transfer_update event when admin approves/rejects a transfer
+   * Emit transfer_update event when admin approves/rejects a transfer.
+   * `status` is the lowercase form of `state` for older clients.
    */
   public emitTransferUpdate(
     userId: string, 
     transaction: any, 
-    status: 'approved' | 'rejected', 
+    state: Extract<TransferState, 'APPROVED' | 'REJECTED'>, 
     reason?: string
   ): void {
+    const status = toTransferEventStatus(state);
     try {
       const sanitizedTransaction = sanitizeTransactionData(transaction);
       
       const eventData = {
         transaction: sanitizedTransaction,
+        state: state,
         status: status,
         reason: reason,
         message: status === 'approved' 
@@ -0,0 +1,84 @@
+/**
+ * Transfer Lifecycle
+ * Moves transfers between the shared lifecycle states and records each change
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  assertTransition,
+  resolveTransferState,
+  TransferActorType,
+  TransferState
+} from '../../../shared/transferLifecycle';
+
+export interface TransitionContext {
+  actorType: TransferActorType;
+  actorId?: string;
+  reason?: string;
+}
+
+/**
+ * Records the opening entry for a transfer created in the SUBMITTED state
+ */
+export const recordSubmission = (
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  context: TransitionContext
+) => {
+  return tx.transferStateTransition.create({
+    data: {
+      transactionId,
+      fromState: null,
+      toState: 'SUBMITTED',
+      actorType: context.actorType,
+      actorId: context.actorId,
+      reason: context.reason
+    }
+  });
+};
+
+/**
+ * Moves a transfer to a new state if the lifecycle allows it. The update is
+ * guarded on the state that was read, so when two admins act at once only
+ * one succeeds. Throws when the move is not allowed.
+ */
+export const transitionTransfer = async (
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  to: TransferState,
+  context: TransitionContext
+) => {
+  const transaction = await tx.transaction.findUnique({
+    where: { id: transactionId },
+    select: { transferState: true, status: true, metadata: true }
+  });
+
+  if (!transaction) {
+    throw new Error('Transfer not found');
+  }
+
+  const from = resolveTransferState(transaction);
+  assertTransition(from, to);
+
+  const { count } = await tx.transaction.updateMany({
+    where: { id: transactionId, transferState: transaction.transferState },
+    data: { transferState: to }
+  });
+
+  if (count !== 1) {
+    throw new Error('Transfer was updated by another request');
+  }
+
+  await tx.transferStateTransition.create({
+    data: {
+      transactionId,
+      fromState: from,
+      toState: to,
+      actorType: context.actorType,
+      actorId: context.actorId,
+      reason: context.reason
+    }
+  });
+
+  return { from, to };
+};
@@ -3,6 +3,8 @@
  * Prevents circular references and ensures JSON serialization safety
  */
 
+import { resolveTransferState, TransferState } from '../../../shared/transferLifecycle';
+
 /**
  * Sanitized transaction object for API responses
  */
@@ -12,6 +14,7 @@ export interface SanitizedTransaction {
   type: string;
   amount: number;
   status: string;
+  transferState: TransferState;
   description: string;
   createdAt: string;
   updatedAt: string;
@@ -33,6 +36,7 @@ export const sanitizeTransactionData = (transaction: any): SanitizedTransaction
     type: String(transaction.type || ''),
     amount: Number(transaction.amount || 0),
     status: String(transaction.status || 'PENDING'),
+    transferState: resolveTransferState(transaction),
     description: String(transaction.description || ''),
     createdAt: transaction.createdAt ? new Date(transaction.createdAt).toISOString() : new Date().toISOString(),
     updatedAt: transaction.updatedAt ? new Date(transaction.updatedAt).toISOString() : new Date().toISOString(),
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatFinancialDate } from "@/lib/formatters";
+import { Activity, RefreshCw } from "lucide-react";
+
+type AlertStatus = "OPEN" | "FALSE_POSITIVE" | "EXPLAINED" | "ESCALATED";
+type Scenario = "STRUCTURING" | "RAPID_MOVEMENT" | "DORMANT_ACTIVITY" | "NEW_PAYEES";
+type Disposition = Exclude<AlertStatus, "OPEN">;
+
+interface AmlStatus {
+  alerts: Partial<Record<AlertStatus, number>>;
+  reportingThreshold: number;
+  dormantDays: number;
+}
+
+interface AmlAlert {
+  id: string;
+  scenario: Scenario;
+  periodStart: string;
+  periodEnd: string;
+  summary: string;
+  totalAmount: string;
+  details: {
+    lastActivityAt?: string;
+    payees?: Array<{ id: string; nickname: string; accountHolderName: string; createdAt: string }>;
+  } | null;
+  status: AlertStatus;
+  reviewNotes: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  user: { id: string; name: string; email: string; accountNumber: string | null; riskLevel: string };
+  reviewedBy: { id: string; name: string } | null;
+  transactions: Array<{
+    id: string;
+    type: "CREDIT" | "DEBIT";
+    amount: string;
+    currency: string;
+    description: string;
+    reference: string | null;
+    status: string;
+    createdAt: string;
+  }>;
+}
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  OPEN: "Open",
+  FALSE_POSITIVE: "False positive",
+  EXPLAINED: "Explained",
+  ESCALATED: "Escalated",
+};
+
+const STATUS_STYLES: Record<AlertStatus, string> = {
+  OPEN: "bg-yellow-100 text-yellow-700 border-yellow-200",
+  FALSE_POSITIVE: "bg-gray-100 text-gray-700 border-gray-200",
+  EXPLAINED: "bg-green-100 text-green-700 border-green-200",
+  ESCALATED: "bg-red-100 text-red-700 border-red-200",
+};
+
+const SCENARIO_LABELS: Record<Scenario, string> = {
+  STRUCTURING: "Structuring",
+  RAPID_MOVEMENT: "Rapid in-out",
+  DORMANT_ACTIVITY: "Dormant account",
+  NEW_PAYEES: "New payees",
+};
+
+const errorText = (error: Error) => error.message.replace(/^\d+:\s*/, "");
+
+/**
+ * Alerts from the AML monitoring job, with the transactions behind each one,
+ * for the compliance team to disposition. Escalating marks the customer high risk.
+ */
+export default function AmlAlerts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<AlertStatus>("OPEN");
+  const [scenario, setScenario] = useState<Scenario | "ALL">("ALL");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: amlStatus } = useQuery<AmlStatus>({
+    queryKey: ["/api/admin/aml/status"],
+  });
+
+  const { data: alertsData, isLoading } = useQuery<{ alerts: AmlAlert[] }>({
+    queryKey: [`/api/admin/aml/alerts?status=${status}${scenario === "ALL" ? "" : `&scenario=${scenario}`}`],
+  });
+  const alerts = alertsData?.alerts || [];
+
+  const refresh = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/aml"),
+    });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/aml/run");
+      return response.json();
+    },
+    onSuccess: (result: { created: number; updated: number }) => {
+      refresh();
+      toast({ title: "Monitoring complete", description: `${result.created} new alerts, ${result.updated} updated` });
+    },
+    onError: (error: Error) => toast({ title: "Monitoring failed", description: errorText(error), variant: "destructive" }),
+  });
+
+  const dispositionMutation = useMutation({
+    mutationFn: async ({ id, disposition }: { id: string; disposition: Disposition }) => {
+      const response = await apiRequest("POST", `/api/admin/aml/alerts/${id}/disposition`, {
+        status: disposition,
+        notes: notes[id] || "",
+      });
+      return response.json();
+    },
+    onSuccess: (_result, { id, disposition }) => {
+      setNotes((current) => ({ ...current, [id]: "" }));
+      refresh();
+      toast({ title: `Alert marked ${STATUS_LABELS[disposition].toLowerCase()}` });
+    },
+    onError: (error: Error) => {
+      refresh();
+      toast({ title: "Disposition failed", description: errorText(error), variant: "destructive" });
+    },
+  });
+
+  const disposition = (alert: AmlAlert, outcome: Disposition) => {
+    if (outcome === "ESCALATED" && !window.confirm(`Escalate this alert for a suspicious activity report? ${alert.user.name} will be marked high risk.`)) {
+      return;
+    }
+    dispositionMutation.mutate({ id: alert.id, disposition: outcome });
+  };
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-100 pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="w-8 h-8 bg-orange-50 rounded-lg flex items-center justify-center">
+                <Activity className="h-4 w-4 text-orange-600" />
+              </div>
+              <CardTitle className="text-lg font-semibold text-gray-900">Transaction Monitoring</CardTitle>
+            </div>
+            <p className="text-sm text-gray-500">
+              {amlStatus &&
+                `Structuring below ${formatCurrency(amlStatus.reportingThreshold, false)} · dormant after ${amlStatus.dormantDays} days · rapid in-out · new payee bursts`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={scenario} onValueChange={(value) => setScenario(value as Scenario | "ALL")}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All scenarios</SelectItem>
+                {(Object.keys(SCENARIO_LABELS) as Scenario[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {SCENARIO_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={(value) => setStatus(value as AlertStatus)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as AlertStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {STATUS_LABELS[value]}
+                    {amlStatus?.alerts[value] ? ` (${amlStatus.alerts[value]})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" className="gap-2" disabled={runMutation.isPending} onClick={() => runMutation.mutate()}>
+              <RefreshCw className={`h-4 w-4 ${runMutation.isPending ? "animate-spin" : ""}`} />
+              Run now
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading AML alerts...</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-gray-500">No {STATUS_LABELS[status].toLowerCase()} alerts.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {alerts.map((alert) => (
+              <div key={alert.id} className="py-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold text-gray-900">{alert.user.name}</span>
+                      <Badge variant="outline">{SCENARIO_LABELS[alert.scenario]}</Badge>
+                      <Badge className={STATUS_STYLES[alert.status]}>{STATUS_LABELS[alert.status]}</Badge>
+                      <Badge variant="outline">{alert.user.riskLevel} risk</Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {alert.user.email} · week of {formatFinancialDate(alert.periodStart)}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-400">Raised {formatFinancialDate(alert.createdAt, true)}</span>
+                </div>
+
+                <p className="text-sm text-gray-900">{alert.summary}</p>
+
+                {alert.details?.lastActivityAt && (
+                  <p className="text-xs text-gray-500">Previous activity {formatFinancialDate(alert.details.lastActivityAt)}</p>
+                )}
+
+                {alert.details?.payees && (
+                  <div className="flex flex-wrap gap-2">
+                    {alert.details.payees.map((payee) => (
+                      <Badge key={payee.id} variant="outline" className="font-normal">
+                        {payee.nickname} ({payee.accountHolderName}) · {formatFinancialDate(payee.createdAt, true)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {alert.transactions.length > 0 && (
+                  <div className="rounded-lg border border-gray-200 divide-y divide-gray-100 text-sm">
+                    {alert.transactions.map((transaction) => (
+                      <div key={transaction.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                        <div className="min-w-0">
+                          <p className="text-gray-900 truncate">{transaction.description}</p>
+                          <p className="text-xs text-gray-500">
+                            {formatFinancialDate(transaction.createdAt, true)}
+                            {transaction.reference && ` · ${transaction.reference}`}
+                            {transaction.status !== "COMPLETED" && ` · ${transaction.status.toLowerCase()}`}
+                          </p>
+                        </div>
+                        <span className={`font-medium whitespace-nowrap ${transaction.type === "CREDIT" ? "text-green-600" : "text-gray-900"}`}>
+                          {transaction.type === "CREDIT" ? "+" : "-"}
+                          {formatCurrency(transaction.amount, true, transaction.currency)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {alert.status === "OPEN" ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="Disposition notes (required)"
+                      value={notes[alert.id] || ""}
+                      onChange={(event) => setNotes((current) => ({ ...current, [alert.id]: event.target.value }))}
+                      rows={2}
+                    />
+                    <div className="flex flex-wrap justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={dispositionMutation.isPending || !notes[alert.id]?.trim()}
+                        onClick={() => disposition(alert, "FALSE_POSITIVE")}
+                      >
+                        False positive
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={dispositionMutation.isPending || !notes[alert.id]?.trim()}
+                        onClick={() => disposition(alert, "EXPLAINED")}
+                      >
+                        Explained
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-red-600 hover:bg-red-700"
+                        disabled={dispositionMutation.isPending || !notes[alert.id]?.trim()}
+                        onClick={() => disposition(alert, "ESCALATED")}
+                      >
+                        Escalate
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    {STATUS_LABELS[alert.status]} by {alert.reviewedBy?.name || "an admin"}
+                    {alert.reviewedAt && ` on ${formatFinancialDate(alert.reviewedAt, true)}`}: {alert.reviewNotes}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
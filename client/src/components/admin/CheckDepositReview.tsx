@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/useIdempotencyKey";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatFinancialDate } from "@/lib/formatters";
+import { AlertTriangle, CheckCircle, Eye, ScanLine, XCircle } from "lucide-react";
+
+export interface CheckDeposit {
+  id: string;
+  amount: string;
+  currency: string;
+  checkNumber: string;
+  checkRoutingNumber: string | null;
+  checkAccountNumber: string | null;
+  endorsementConfirmedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    riskLevel: string;
+    kycStatus: string;
+    createdAt: string;
+  };
+  duplicateOf: {
+    id: string;
+    userId: string;
+    amount: string;
+    status: string;
+    checkNumber: string;
+    createdAt: string;
+  } | null;
+}
+
+// Both sides of a check, fetched with the admin's credentials
+function CheckImages({ depositId }: { depositId: string }) {
+  const [urls, setUrls] = useState<string[]>([]);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let created: string[] = [];
+    Promise.all(["front", "back"].map(async (side) => {
+      const response = await apiRequest("GET", `/api/admin/deposits/${depositId}/images/${side}`);
+      return URL.createObjectURL(await response.blob());
+    }))
+      .then((loaded) => {
+        created = loaded;
+        setUrls(loaded);
+      })
+      .catch(() => setFailed(true));
+
+    return () => created.forEach((url) => URL.revokeObjectURL(url));
+  }, [depositId]);
+
+  if (failed) return <p className="text-sm text-red-600">Could not load the check images.</p>;
+  if (urls.length === 0) return <p className="text-sm text-gray-500">Loading images...</p>;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {urls.map((url, index) => (
+        <img key={url} src={url} alt={index === 0 ? "Front of check" : "Back of check"} className="w-full rounded-lg border border-gray-200" />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Mobile check deposits waiting for review. Approving credits the check
+ * with clearing holds; rejecting leaves the account untouched.
+ */
+export default function CheckDepositReview() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const approveIdempotency = useIdempotencyKey();
+  const [viewing, setViewing] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery<{ deposits: CheckDeposit[] }>({
+    queryKey: ["/api/admin/deposits/review-queue"],
+    refetchInterval: 30000,
+  });
+  const deposits = data?.deposits || [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/deposits/review-queue"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/dashboard"] });
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision, reason }: { id: string; decision: "approve" | "reject"; reason?: string }) => {
+      const headers = decision === "approve" ? { "Idempotency-Key": approveIdempotency.keyFor({ id }) } : undefined;
+      const response = await apiRequest("POST", `/api/admin/deposits/${id}/${decision}`, decision === "reject" ? { reason } : {}, headers);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      approveIdempotency.reset();
+      setRejecting(null);
+      setReason("");
+      refresh();
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      if (!error.message.startsWith("409")) approveIdempotency.reset();
+      refresh();
+      toast({ title: "Action failed", description: error.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border border-white/20 shadow-xl">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-orange-50 to-orange-100 rounded-xl flex items-center justify-center shadow-sm">
+              <ScanLine className="h-5 w-5 text-orange-600" />
+            </div>
+            <div>
+              <CardTitle className="text-lg font-semibold">Check Deposits</CardTitle>
+              <p className="text-sm text-gray-500 mt-1">Mobile deposits waiting for image review</p>
+            </div>
+          </div>
+          {deposits.length > 0 && (
+            <Badge className="bg-orange-100 text-orange-700 border-orange-200">{deposits.length}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading check deposits...</p>
+        ) : deposits.length === 0 ? (
+          <p className="text-sm text-gray-500">No check deposits are waiting for review.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {deposits.map((deposit) => {
+              const isBusy = decideMutation.isPending && decideMutation.variables?.id === deposit.id;
+
+              return (
+                <div key={deposit.id} className="py-3 space-y-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-gray-900">Check #{deposit.checkNumber}</span>
+                        <span className="font-bold text-gray-900">{formatCurrency(deposit.amount, true, deposit.currency)}</span>
+                        <Badge variant="outline">{deposit.user.riskLevel} risk</Badge>
+                      </div>
+                      <p className="text-sm text-gray-600 truncate">
+                        {deposit.user.name} ({deposit.user.email}) · KYC {deposit.user.kycStatus.toLowerCase()}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {deposit.checkRoutingNumber && `Routing ${deposit.checkRoutingNumber} · `}
+                        {deposit.checkAccountNumber && `Account ••${deposit.checkAccountNumber.slice(-4)} · `}
+                        Submitted {formatFinancialDate(deposit.createdAt, true)}
+                      </p>
+                      {deposit.duplicateOf && (
+                        <p className="text-xs text-red-600 flex items-center gap-1 mt-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          Possible duplicate: check #{deposit.duplicateOf.checkNumber} for {formatCurrency(deposit.duplicateOf.amount)} deposited
+                          {deposit.duplicateOf.userId === deposit.user.id ? " by this user" : " by another user"} on {formatFinancialDate(deposit.duplicateOf.createdAt)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button size="sm" variant="outline" onClick={() => setViewing(viewing === deposit.id ? null : deposit.id)}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        {viewing === deposit.id ? "Hide" : "Images"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                        disabled={isBusy}
+                        onClick={() => decideMutation.mutate({ id: deposit.id, decision: "approve" })}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isBusy}
+                        onClick={() => { setRejecting(deposit.id); setReason(""); }}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                  {viewing === deposit.id && <CheckImages depositId={deposit.id} />}
+                  {rejecting === deposit.id && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        placeholder="Reason shown to the customer, e.g. image is blurry"
+                        maxLength={500}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        disabled={isBusy}
+                      />
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={isBusy || !reason.trim()}
+                        onClick={() => decideMutation.mutate({ id: deposit.id, decision: "reject", reason: reason.trim() })}
+                      >
+                        Reject check
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRejecting(null)} disabled={isBusy}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatFinancialDate } from "@/lib/formatters";
+import { FileText, Landmark, RefreshCw } from "lucide-react";
+
+type EddStatus = "AWAITING_DOCUMENTS" | "SUBMITTED" | "APPROVED" | "DISMISSED";
+type EddAction = "request-info" | "sign-off" | "dismiss";
+
+interface PepStatus {
+  entries: number;
+  importedAt: string | null;
+  cases: Partial<Record<EddStatus, number>>;
+  threshold: number;
+  reviewIntervalDays: number;
+  canSignOff: boolean;
+}
+
+interface PepMatch {
+  externalId: string;
+  name: string;
+  matchedName: string;
+  position: string | null;
+  country: string | null;
+  nameScore: number;
+  dateOfBirthCheck: "exact" | "year" | "mismatch" | "unknown";
+  countryCheck: "match" | "different" | "unknown";
+  score: number;
+}
+
+interface EddCase {
+  id: string;
+  reason: "PEP_SCREENING" | "ADMIN_FLAG" | "PERIODIC_REVIEW";
+  status: EddStatus;
+  pepMatches: PepMatch[] | null;
+  sourceOfWealth: string | null;
+  submittedAt: string | null;
+  notes: string | null;
+  informationRequest: string | null;
+  signedOffAt: string | null;
+  signOffNotes: string | null;
+  nextReviewAt: string | null;
+  createdAt: string;
+  user: { id: string; name: string; email: string; accountNumber: string | null; nationality: string | null; country: string | null };
+  openedBy: { id: string; name: string } | null;
+  signedOffBy: { id: string; name: string } | null;
+  documents: Array<{ id: string; originalName: string; url: string; uploadedAt: string }>;
+}
+
+const STATUS_LABELS: Record<EddStatus, string> = {
+  AWAITING_DOCUMENTS: "Awaiting documents",
+  SUBMITTED: "Awaiting sign-off",
+  APPROVED: "Signed off",
+  DISMISSED: "Dismissed",
+};
+
+const STATUS_STYLES: Record<EddStatus, string> = {
+  AWAITING_DOCUMENTS: "bg-blue-100 text-blue-700 border-blue-200",
+  SUBMITTED: "bg-yellow-100 text-yellow-700 border-yellow-200",
+  APPROVED: "bg-green-100 text-green-700 border-green-200",
+  DISMISSED: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+const REASON_LABELS: Record<EddCase["reason"], string> = {
+  PEP_SCREENING: "PEP list match",
+  ADMIN_FLAG: "Flagged by admin",
+  PERIODIC_REVIEW: "Periodic review",
+};
+
+const DOB_LABELS: Record<PepMatch["dateOfBirthCheck"], string> = {
+  exact: "Date of birth matches",
+  year: "Birth year matches",
+  mismatch: "Date of birth differs",
+  unknown: "Date of birth not compared",
+};
+
+const COUNTRY_LABELS: Record<PepMatch["countryCheck"], string> = {
+  match: "country matches",
+  different: "country differs",
+  unknown: "country not compared",
+};
+
+const ACTION_MESSAGES: Record<EddAction, string> = {
+  "request-info": "More information requested from the customer",
+  "sign-off": "EDD signed off",
+  dismiss: "PEP flag removed",
+};
+
+const errorText = (error: Error) => error.message.replace(/^\d+:\s*/, "");
+
+/**
+ * Enhanced due diligence on politically exposed persons. Customers send
+ * their source of wealth; any admin can ask for more, and a senior admin
+ * signs the case off or rules the customer is not a PEP.
+ */
+export default function EnhancedDueDiligence() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<EddStatus>("SUBMITTED");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: pepStatus } = useQuery<PepStatus>({
+    queryKey: ["/api/admin/pep/status"],
+  });
+
+  const { data: casesData, isLoading } = useQuery<{ cases: EddCase[] }>({
+    queryKey: [`/api/admin/pep/cases?status=${status}`],
+  });
+  const cases = casesData?.cases || [];
+
+  const refresh = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/pep"),
+    });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/pep/import");
+      return response.json();
+    },
+    onSuccess: (result: { imported: number; skipped: number }) => {
+      refresh();
+      toast({
+        title: "PEP list imported",
+        description: `${result.imported} entries${result.skipped > 0 ? `, ${result.skipped} invalid rows skipped` : ""}`,
+      });
+    },
+    onError: (error: Error) => toast({ title: "Import failed", description: errorText(error), variant: "destructive" }),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: EddAction }) => {
+      const response = await apiRequest("POST", `/api/admin/pep/cases/${id}/${action}`, { notes: notes[id] || "" });
+      return response.json();
+    },
+    onSuccess: (_result, { id, action }) => {
+      setNotes((current) => ({ ...current, [id]: "" }));
+      refresh();
+      toast({ title: ACTION_MESSAGES[action] });
+    },
+    onError: (error: Error) => {
+      refresh();
+      toast({ title: "Action failed", description: errorText(error), variant: "destructive" });
+    },
+  });
+
+  const act = (eddCase: EddCase, action: EddAction) => {
+    if (action === "dismiss" && !window.confirm(`Remove the PEP flag from ${eddCase.user.name}? Their PEP limits and reviews stop.`)) {
+      return;
+    }
+    actionMutation.mutate({ id: eddCase.id, action });
+  };
+
+  const canSignOff = pepStatus?.canSignOff ?? false;
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-100 pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="w-8 h-8 bg-purple-50 rounded-lg flex items-center justify-center">
+                <Landmark className="h-4 w-4 text-purple-600" />
+              </div>
+              <CardTitle className="text-lg font-semibold text-gray-900">Enhanced Due Diligence</CardTitle>
+            </div>
+            <p className="text-sm text-gray-500">
+              {pepStatus && `PEP list: ${pepStatus.entries} entries`}
+              {pepStatus?.importedAt && ` (${formatFinancialDate(pepStatus.importedAt, true)})`}
+              {pepStatus && ` · matches flag at ${pepStatus.threshold}+ · re-reviewed every ${pepStatus.reviewIntervalDays} days`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={status} onValueChange={(value) => setStatus(value as EddStatus)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as EddStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {STATUS_LABELS[value]}
+                    {pepStatus?.cases[value] ? ` (${pepStatus.cases[value]})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" className="gap-2" disabled={importMutation.isPending} onClick={() => importMutation.mutate()}>
+              <RefreshCw className={`h-4 w-4 ${importMutation.isPending ? "animate-spin" : ""}`} />
+              Import list
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading EDD cases...</p>
+        ) : cases.length === 0 ? (
+          <p className="text-sm text-gray-500">No cases {STATUS_LABELS[status].toLowerCase()}.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {cases.map((eddCase) => {
+              const open = eddCase.status === "AWAITING_DOCUMENTS" || eddCase.status === "SUBMITTED";
+              const busy = actionMutation.isPending || !notes[eddCase.id]?.trim();
+
+              return (
+                <div key={eddCase.id} className="py-4 space-y-3">
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                    <div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold text-gray-900">{eddCase.user.name}</span>
+                        <Badge variant="outline">{REASON_LABELS[eddCase.reason]}</Badge>
+                        <Badge className={STATUS_STYLES[eddCase.status]}>{STATUS_LABELS[eddCase.status]}</Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {eddCase.user.email}
+                        {(eddCase.user.nationality || eddCase.user.country) && ` · ${eddCase.user.nationality || eddCase.user.country}`}
+                        {eddCase.openedBy && ` · flagged by ${eddCase.openedBy.name}`}
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-400">Opened {formatFinancialDate(eddCase.createdAt, true)}</span>
+                  </div>
+
+                  {eddCase.notes && <p className="text-sm text-gray-700">{eddCase.notes}</p>}
+
+                  {eddCase.pepMatches && eddCase.pepMatches.length > 0 && (
+                    <div className="space-y-2">
+                      {eddCase.pepMatches.map((match) => (
+                        <div key={match.externalId} className="rounded-lg border border-gray-200 p-3 text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-gray-900">
+                              {match.name}
+                              {match.matchedName !== match.name && <span className="text-gray-500"> (alias {match.matchedName})</span>}
+                            </span>
+                            <Badge variant="outline">{match.score}</Badge>
+                          </div>
+                          <p className="text-gray-600">
+                            {[match.position, match.country, `#${match.externalId}`].filter(Boolean).join(" · ")}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Name {match.nameScore}% alike · {DOB_LABELS[match.dateOfBirthCheck]} · {COUNTRY_LABELS[match.countryCheck]}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {eddCase.sourceOfWealth && (
+                    <div className="rounded-lg bg-gray-50 p-3 text-sm space-y-2">
+                      <p className="font-medium text-gray-900">
+                        Source of wealth
+                        {eddCase.submittedAt && <span className="font-normal text-gray-500"> · submitted {formatFinancialDate(eddCase.submittedAt, true)}</span>}
+                      </p>
+                      <p className="text-gray-700 whitespace-pre-line">{eddCase.sourceOfWealth}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {eddCase.documents.map((document) => (
+                          <a
+                            key={document.id}
+                            href={document.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                          >
+                            <FileText className="h-3 w-3" />
+                            {document.originalName}
+                          </a>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {eddCase.informationRequest && open && (
+                    <p className="text-sm text-gray-600">Asked the customer for: {eddCase.informationRequest}</p>
+                  )}
+
+                  {open ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        placeholder={eddCase.status === "SUBMITTED" ? "Sign-off notes, or what more the customer must provide" : "Why the customer is not a PEP"}
+                        value={notes[eddCase.id] || ""}
+                        onChange={(event) => setNotes((current) => ({ ...current, [eddCase.id]: event.target.value }))}
+                        rows={2}
+                      />
+                      <div className="flex flex-wrap items-center justify-end gap-2">
+                        {!canSignOff && <span className="text-xs text-gray-500 mr-auto">A senior admin must sign off or dismiss this case.</span>}
+                        {eddCase.status === "SUBMITTED" && (
+                          <Button variant="outline" size="sm" disabled={busy} onClick={() => act(eddCase, "request-info")}>
+                            Request more information
+                          </Button>
+                        )}
+                        {canSignOff && (
+                          <Button variant="outline" size="sm" disabled={busy} onClick={() => act(eddCase, "dismiss")}>
+                            Not a PEP
+                          </Button>
+                        )}
+                        {canSignOff && eddCase.status === "SUBMITTED" && (
+                          <Button size="sm" className="bg-green-600 hover:bg-green-700" disabled={busy} onClick={() => act(eddCase, "sign-off")}>
+                            Sign off
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600">
+                      {eddCase.status === "APPROVED" ? "Signed off" : "Dismissed"} by {eddCase.signedOffBy?.name || "an admin"}
+                      {eddCase.signedOffAt && ` on ${formatFinancialDate(eddCase.signedOffAt, true)}`}: {eddCase.signOffNotes}
+                      {eddCase.nextReviewAt && ` · next review ${formatFinancialDate(eddCase.nextReviewAt)}`}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
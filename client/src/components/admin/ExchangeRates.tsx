@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatFinancialDate } from "@/lib/formatters";
+import { SUPPORTED_CURRENCIES } from "@shared/money";
+import { ArrowRightLeft, Edit, Upload } from "lucide-react";
+
+interface ExchangeRate {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  source: string;
+  updatedAt: string;
+  updatedBy: { id: string; name: string } | null;
+}
+
+const emptyForm = () => ({ baseCurrency: "USD", quoteCurrency: "EUR", rate: "" });
+
+/**
+ * The FX rate table used to quote conversions. Rates can be set pair by pair
+ * or reloaded from the rates file on the server.
+ */
+export default function ExchangeRates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState("");
+
+  const { data, isLoading } = useQuery<{ rates: ExchangeRate[] }>({
+    queryKey: ["/api/admin/fx/rates"],
+  });
+  const rates = data?.rates || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/fx/rates"] });
+
+  const setRateMutation = useMutation({
+    mutationFn: async (payload: ReturnType<typeof emptyForm>) => {
+      const response = await apiRequest("PUT", "/api/admin/fx/rates", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      setForm(emptyForm());
+      setFormError("");
+      invalidate();
+      toast({ title: "Exchange rate updated" });
+    },
+    onError: (error: Error) => setFormError(error.message.replace(/^\d+:\s*/, "")),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/fx/rates/import");
+      return response.json();
+    },
+    onSuccess: (result: { message: string; skipped: number }) => {
+      invalidate();
+      toast({
+        title: result.message,
+        description: result.skipped > 0 ? `${result.skipped} invalid row(s) were skipped` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  const editRate = (rate: ExchangeRate) => {
+    setForm({ baseCurrency: rate.baseCurrency, quoteCurrency: rate.quoteCurrency, rate: rate.rate });
+    setFormError("");
+  };
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-100 pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="w-8 h-8 bg-teal-50 rounded-lg flex items-center justify-center">
+                <ArrowRightLeft className="h-4 w-4 text-teal-600" />
+              </div>
+              <CardTitle className="text-lg font-semibold text-gray-900">Exchange Rates</CardTitle>
+            </div>
+            <p className="text-sm text-gray-500">Mid-market rates used to quote currency conversions</p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate()}
+            disabled={importMutation.isPending}
+            className="gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            {importMutation.isPending ? "Importing..." : "Import from file"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <div className="grid sm:grid-cols-4 gap-3 items-end">
+          <div>
+            <Label htmlFor="fx-base" className="text-gray-700">Base</Label>
+            <Select value={form.baseCurrency} onValueChange={(value) => setForm({ ...form, baseCurrency: value })}>
+              <SelectTrigger id="fx-base"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="fx-quote" className="text-gray-700">Quote</Label>
+            <Select value={form.quoteCurrency} onValueChange={(value) => setForm({ ...form, quoteCurrency: value })}>
+              <SelectTrigger id="fx-quote"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="fx-rate" className="text-gray-700">Rate</Label>
+            <Input
+              id="fx-rate"
+              inputMode="decimal"
+              placeholder="0.92150000"
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value })}
+            />
+          </div>
+          <Button
+            onClick={() => setRateMutation.mutate(form)}
+            disabled={setRateMutation.isPending || !form.rate.trim()}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {setRateMutation.isPending ? "Saving..." : "Save Rate"}
+          </Button>
+        </div>
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading rates...</p>
+        ) : rates.length === 0 ? (
+          <p className="text-sm text-gray-500">No exchange rates yet. Set a rate or import the rates file.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 pr-4 font-medium">Pair</th>
+                  <th className="py-2 pr-4 font-medium">Rate</th>
+                  <th className="py-2 pr-4 font-medium">Source</th>
+                  <th className="py-2 pr-4 font-medium">Updated</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rates.map((rate) => (
+                  <tr key={rate.id} className="border-b border-gray-50 last:border-b-0">
+                    <td className="py-2 pr-4 font-semibold text-gray-900">{rate.baseCurrency}/{rate.quoteCurrency}</td>
+                    <td className="py-2 pr-4 font-mono text-gray-900">{rate.rate}</td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="outline">{rate.source}</Badge>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-500">
+                      {formatFinancialDate(rate.updatedAt, true)}
+                      {rate.updatedBy && ` by ${rate.updatedBy.name}`}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button variant="ghost" size="sm" onClick={() => editRate(rate)} aria-label={`Edit ${rate.baseCurrency}/${rate.quoteCurrency}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,409 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatFinancialDate } from "@/lib/formatters";
+import { describeFraudCondition, type FraudCondition, type FraudDecision } from "@shared/fraudRules";
+import { FlaskConical, Plus, ShieldAlert, Trash2 } from "lucide-react";
+
+interface FraudRule {
+  id: string;
+  key: string;
+  condition: FraudCondition;
+  score: number;
+  reason: string;
+  enabled: boolean;
+}
+
+interface FraudRuleSet {
+  id: string;
+  version: number;
+  status: "DRAFT" | "ACTIVE" | "RETIRED";
+  notes: string | null;
+  activatedAt: string | null;
+  createdAt: string;
+  rules: FraudRule[];
+}
+
+interface FraudRuleSetSummary extends Omit<FraudRuleSet, "rules"> {
+  _count: { rules: number };
+  createdBy: { id: string; name: string } | null;
+  activatedBy: { id: string; name: string } | null;
+}
+
+interface ReplayedScore {
+  riskScore: number;
+  riskFactors: string[];
+  decision: FraudDecision;
+}
+
+interface DryRunResult {
+  days: number;
+  replayed: number;
+  truncated: boolean;
+  decisions: Record<"ruleSet" | "active", Record<FraudDecision, number>>;
+  changedCount: number;
+  changes: Array<{
+    transactionId: string;
+    amount: string;
+    transferType: string;
+    createdAt: string;
+    active: ReplayedScore;
+    ruleSet: ReplayedScore;
+  }>;
+  ruleHits: Array<{ key: string; reason: string; enabled: boolean; hits: number }>;
+}
+
+const DECISIONS: FraudDecision[] = ["ALLOW", "REVIEW", "BLOCK"];
+
+const DECISION_STYLES: Record<FraudDecision, string> = {
+  ALLOW: "bg-green-100 text-green-700 border-green-200",
+  REVIEW: "bg-yellow-100 text-yellow-700 border-yellow-200",
+  BLOCK: "bg-red-100 text-red-700 border-red-200",
+};
+
+const emptyRule = () => ({ key: "", reason: "", score: "1", condition: '{ "fact": "amount", "operator": "gt", "value": 5000 }' });
+
+const errorText = (error: Error) => error.message.replace(/^\d+:\s*/, "");
+
+function RuleRow({ rule, editable, busy, onToggle, onDelete }: {
+  rule: FraudRule;
+  editable: boolean;
+  busy: boolean;
+  onToggle: (enabled: boolean) => void;
+  onDelete?: () => void;
+}) {
+  return (
+    <div className="py-3 flex items-start justify-between gap-3">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-gray-900">{rule.reason}</span>
+          <Badge variant="outline">{rule.score > 0 ? `+${rule.score}` : rule.score}</Badge>
+          <span className="text-xs font-mono text-gray-400">{rule.key}</span>
+        </div>
+        <p className="text-sm text-gray-600">{describeFraudCondition(rule.condition)}</p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <Switch checked={rule.enabled} disabled={busy} onCheckedChange={onToggle} aria-label={`Enable ${rule.key}`} />
+        {editable && onDelete && (
+          <Button variant="ghost" size="sm" disabled={busy} onClick={onDelete} aria-label={`Remove ${rule.key}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Versioned fraud scoring rules. Live rules can be switched on and off, which
+ * publishes a new version; bigger changes are made on a draft, dry-run against
+ * recent transfers and then activated.
+ */
+export default function FraudRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [ruleForm, setRuleForm] = useState(emptyRule);
+  const [formError, setFormError] = useState("");
+  const [days, setDays] = useState("30");
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+
+  const { data: versionsData, isLoading } = useQuery<{ ruleSets: FraudRuleSetSummary[] }>({
+    queryKey: ["/api/admin/fraud-rules"],
+  });
+  const versions = versionsData?.ruleSets || [];
+  const draftSummary = versions.find((ruleSet) => ruleSet.status === "DRAFT");
+
+  const { data: activeData } = useQuery<{ ruleSet: FraudRuleSet | null }>({
+    queryKey: ["/api/admin/fraud-rules/active"],
+  });
+  const active = activeData?.ruleSet;
+
+  const { data: draftData } = useQuery<{ ruleSet: FraudRuleSet }>({
+    queryKey: [`/api/admin/fraud-rules/${draftSummary?.id}`],
+    enabled: !!draftSummary,
+  });
+  const draft = draftSummary ? draftData?.ruleSet : undefined;
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/fraud-rules"] });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ method, url, body }: { method: string; url: string; body?: unknown }) => {
+      const response = await apiRequest(method, url, body);
+      return response.json();
+    },
+    onSuccess: (result: { message?: string }) => {
+      refresh();
+      if (result.message) toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      refresh();
+      toast({ title: "Action failed", description: errorText(error), variant: "destructive" });
+    },
+  });
+
+  const addRuleMutation = useMutation({
+    mutationFn: async () => {
+      let condition: unknown;
+      try {
+        condition = JSON.parse(ruleForm.condition);
+      } catch {
+        throw new Error("Condition must be valid JSON");
+      }
+      const response = await apiRequest("POST", `/api/admin/fraud-rules/${draft!.id}/rules`, {
+        key: ruleForm.key.trim(),
+        reason: ruleForm.reason.trim(),
+        score: Number(ruleForm.score),
+        condition,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRuleForm(emptyRule());
+      setFormError("");
+      refresh();
+      toast({ title: "Rule added to the draft" });
+    },
+    onError: (error: Error) => setFormError(errorText(error)),
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async (ruleSetId: string) => {
+      const response = await apiRequest("POST", `/api/admin/fraud-rules/${ruleSetId}/dry-run`, { days: Number(days) || 30 });
+      return response.json();
+    },
+    onSuccess: (result: DryRunResult) => setDryRun(result),
+    onError: (error: Error) => toast({ title: "Dry run failed", description: errorText(error), variant: "destructive" }),
+  });
+
+  const busy = actionMutation.isPending;
+  const toggle = (rule: FraudRule, enabled: boolean) =>
+    actionMutation.mutate({ method: "POST", url: `/api/admin/fraud-rules/rules/${rule.id}/toggle`, body: { enabled } });
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-100 pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="w-8 h-8 bg-red-50 rounded-lg flex items-center justify-center">
+                <ShieldAlert className="h-4 w-4 text-red-600" />
+              </div>
+              <CardTitle className="text-lg font-semibold text-gray-900">Fraud Rules</CardTitle>
+            </div>
+            <p className="text-sm text-gray-500">
+              {active ? `Version ${active.version} scores every transfer` : "No active rule set"}
+              {active?.activatedAt && ` · activated ${formatFinancialDate(active.activatedAt, true)}`}
+            </p>
+          </div>
+          {!draftSummary && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              disabled={busy}
+              onClick={() => actionMutation.mutate({ method: "POST", url: "/api/admin/fraud-rules/drafts", body: {} })}
+            >
+              <Plus className="h-4 w-4" />
+              New draft
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-8">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading fraud rules...</p>
+        ) : (
+          <>
+            {active && (
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-1">Live rules</h3>
+                <p className="text-xs text-gray-500 mb-2">Switching a live rule publishes a new version straight away.</p>
+                <div className="divide-y divide-gray-100">
+                  {active.rules.map((rule) => (
+                    <RuleRow key={rule.id} rule={rule} editable={false} busy={busy} onToggle={(enabled) => toggle(rule, enabled)} />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {draft && (
+              <div className="space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">Draft version {draft.version}</h3>
+                    {draft.notes && <p className="text-xs text-gray-500">{draft.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => actionMutation.mutate({ method: "DELETE", url: `/api/admin/fraud-rules/${draft.id}` })}
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-blue-600 hover:bg-blue-700"
+                      disabled={busy}
+                      onClick={() => {
+                        if (window.confirm(`Activate version ${draft.version}? It will score every transfer from now on.`)) {
+                          actionMutation.mutate({ method: "POST", url: `/api/admin/fraud-rules/${draft.id}/activate` });
+                          setDryRun(null);
+                        }
+                      }}
+                    >
+                      Activate
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="divide-y divide-gray-100">
+                  {draft.rules.map((rule) => (
+                    <RuleRow
+                      key={rule.id}
+                      rule={rule}
+                      editable
+                      busy={busy}
+                      onToggle={(enabled) => toggle(rule, enabled)}
+                      onDelete={() => actionMutation.mutate({ method: "DELETE", url: `/api/admin/fraud-rules/rules/${rule.id}` })}
+                    />
+                  ))}
+                </div>
+
+                <div className="grid sm:grid-cols-3 gap-3 p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <Label htmlFor="fraud-rule-key" className="text-gray-700">Key</Label>
+                    <Input id="fraud-rule-key" placeholder="large_p2p" value={ruleForm.key} onChange={(e) => setRuleForm({ ...ruleForm, key: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="fraud-rule-reason" className="text-gray-700">Reason</Label>
+                    <Input id="fraud-rule-reason" placeholder="Large transfer to another customer" value={ruleForm.reason} onChange={(e) => setRuleForm({ ...ruleForm, reason: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="fraud-rule-score" className="text-gray-700">Score</Label>
+                    <Input id="fraud-rule-score" inputMode="numeric" value={ruleForm.score} onChange={(e) => setRuleForm({ ...ruleForm, score: e.target.value })} />
+                  </div>
+                  <div className="sm:col-span-3">
+                    <Label htmlFor="fraud-rule-condition" className="text-gray-700">Condition (JSON)</Label>
+                    <Textarea
+                      id="fraud-rule-condition"
+                      className="font-mono text-xs"
+                      rows={3}
+                      value={ruleForm.condition}
+                      onChange={(e) => setRuleForm({ ...ruleForm, condition: e.target.value })}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Compare a fact with a value or another fact, e.g. {'{ "fact": "amount", "operator": "gt", "value": { "fact": "averageDebit30d", "multiplier": 5 } }'}.
+                      Combine conditions with {'{ "all": [...] }'} or {'{ "any": [...] }'}.
+                    </p>
+                  </div>
+                  {formError && <p className="sm:col-span-3 text-sm text-red-600">{formError}</p>}
+                  <div className="sm:col-span-3">
+                    <Button
+                      size="sm"
+                      onClick={() => addRuleMutation.mutate()}
+                      disabled={addRuleMutation.isPending || !ruleForm.key.trim() || !ruleForm.reason.trim()}
+                    >
+                      {addRuleMutation.isPending ? "Adding..." : "Add rule"}
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-end gap-3">
+                    <div>
+                      <Label htmlFor="fraud-dry-run-days" className="text-gray-700">Replay the last (days)</Label>
+                      <Input id="fraud-dry-run-days" inputMode="numeric" className="w-24" value={days} onChange={(e) => setDays(e.target.value)} />
+                    </div>
+                    <Button variant="outline" className="gap-2" disabled={dryRunMutation.isPending} onClick={() => dryRunMutation.mutate(draft.id)}>
+                      <FlaskConical className="h-4 w-4" />
+                      {dryRunMutation.isPending ? "Replaying..." : "Dry run"}
+                    </Button>
+                  </div>
+
+                  {dryRun && (
+                    <div className="space-y-3 text-sm">
+                      <p className="text-gray-600">
+                        Replayed {dryRun.replayed} transfer(s) from the last {dryRun.days} days
+                        {dryRun.truncated && " (newest only)"}. {dryRun.changedCount} would get a different decision.
+                      </p>
+                      <table className="w-full">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b border-gray-100">
+                            <th className="py-1 pr-4 font-medium" />
+                            {DECISIONS.map((decision) => <th key={decision} className="py-1 pr-4 font-medium">{decision.toLowerCase()}</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          <tr>
+                            <td className="py-1 pr-4 text-gray-500">Live rules</td>
+                            {DECISIONS.map((decision) => <td key={decision} className="py-1 pr-4">{dryRun.decisions.active[decision]}</td>)}
+                          </tr>
+                          <tr>
+                            <td className="py-1 pr-4 text-gray-500">Draft</td>
+                            {DECISIONS.map((decision) => <td key={decision} className="py-1 pr-4 font-semibold">{dryRun.decisions.ruleSet[decision]}</td>)}
+                          </tr>
+                        </tbody>
+                      </table>
+                      <div className="flex flex-wrap gap-2">
+                        {dryRun.ruleHits.map((hit) => (
+                          <Badge key={hit.key} variant="outline" className={hit.enabled ? "" : "opacity-50"}>
+                            {hit.key}: {hit.hits}
+                          </Badge>
+                        ))}
+                      </div>
+                      {dryRun.changes.length > 0 && (
+                        <div className="divide-y divide-gray-100">
+                          {dryRun.changes.map((change) => (
+                            <div key={change.transactionId} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                              <span className="text-gray-700">
+                                {formatCurrency(change.amount)} {change.transferType.replace("_", " ")} · {formatFinancialDate(change.createdAt, true)}
+                              </span>
+                              <span className="flex items-center gap-2">
+                                <Badge className={DECISION_STYLES[change.active.decision]}>{change.active.decision.toLowerCase()} ({change.active.riskScore})</Badge>
+                                →
+                                <Badge className={DECISION_STYLES[change.ruleSet.decision]}>{change.ruleSet.decision.toLowerCase()} ({change.ruleSet.riskScore})</Badge>
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {versions.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">History</h3>
+                <div className="divide-y divide-gray-100 text-sm">
+                  {versions.map((ruleSet) => (
+                    <div key={ruleSet.id} className="py-2 flex items-center justify-between gap-3">
+                      <span className="text-gray-700">
+                        Version {ruleSet.version} · {ruleSet._count.rules} rule(s)
+                        {ruleSet.notes && ` · ${ruleSet.notes}`}
+                      </span>
+                      <span className="flex items-center gap-2 text-gray-500">
+                        {ruleSet.activatedAt && `${formatFinancialDate(ruleSet.activatedAt, true)}${ruleSet.activatedBy ? ` by ${ruleSet.activatedBy.name}` : ""}`}
+                        <Badge variant="outline">{ruleSet.status.toLowerCase()}</Badge>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -28,12 +28,13 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { authManager } from "@/lib/auth";
+import { formatCurrency, toMoney } from "@/lib/formatters";
 
 interface AdminLog {
   id: string;
   action: string;
   targetUserId: string | null;
-  amount: number | null;
+  amount: string | null;
   description: string | null;
   createdAt: string;
   admin: {
@@ -78,9 +79,9 @@ const convertLogToNotification = (log: AdminLog): Notification => {
     
     case 'BALANCE_UPDATED':
       type = 'transaction';
-      priority = log.amount && Math.abs(log.amount) > 10000 ? 'high' : 'medium';
+      priority = log.amount && toMoney(log.amount).abs().gt('10000') ? 'high' : 'medium';
       title = 'Balance Updated';
-      message = `${adminName} updated ${targetUserName}'s balance by $${log.amount?.toLocaleString() || '0'}`;
+      message = `${adminName} updated ${targetUserName}'s balance by ${formatCurrency(log.amount)}`;
       break;
     
     case 'USER_DEACTIVATED':
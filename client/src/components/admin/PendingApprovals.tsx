@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/useIdempotencyKey";
+import { apiRequest } from "@/lib/queryClient";
+import { authManager } from "@/lib/auth";
+import { formatCurrency, formatFinancialDate } from "@/lib/formatters";
+import { CheckCircle, ShieldCheck, XCircle } from "lucide-react";
+
+interface ApprovalUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  type: "TRANSFER_APPROVAL" | "BALANCE_ADJUSTMENT";
+  status: "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+  amount: string;
+  currency: string;
+  reason: string | null;
+  payload: { action?: "ADD" | "SUBTRACT"; description?: string };
+  createdAt: string;
+  targetUser: ApprovalUser;
+  initiatedBy: ApprovalUser;
+}
+
+const describeRequest = (request: ApprovalRequest) => {
+  if (request.type === "TRANSFER_APPROVAL") return "External transfer";
+  return request.payload.action === "SUBTRACT" ? "Balance debit" : "Balance credit";
+};
+
+/**
+ * Maker-checker queue: actions above the dual-approval threshold that a
+ * second admin must approve. Admins cannot approve what they started.
+ */
+export default function PendingApprovals() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const approveIdempotency = useIdempotencyKey();
+  const currentAdminId = authManager.getState().user?.id;
+
+  const { data, isLoading } = useQuery<{ approvals: ApprovalRequest[]; threshold: string }>({
+    queryKey: ["/api/admin/approvals"],
+    refetchInterval: 30000,
+  });
+  const approvals = data?.approvals || [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/approvals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/pending-transfers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/dashboard"] });
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "approve" | "reject" }) => {
+      const headers = decision === "approve" ? { "Idempotency-Key": approveIdempotency.keyFor({ id }) } : undefined;
+      const response = await apiRequest("POST", `/api/admin/approvals/${id}/${decision}`, {}, headers);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      approveIdempotency.reset();
+      refresh();
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      if (!error.message.startsWith("409")) approveIdempotency.reset();
+      refresh();
+      toast({ title: "Action failed", description: error.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border border-white/20 shadow-xl">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-amber-50 to-amber-100 rounded-xl flex items-center justify-center shadow-sm">
+              <ShieldCheck className="h-5 w-5 text-amber-600" />
+            </div>
+            <div>
+              <CardTitle className="text-lg font-semibold">Pending Approvals</CardTitle>
+              <p className="text-sm text-gray-500 mt-1">
+                {data?.threshold
+                  ? `Actions of ${formatCurrency(data.threshold)} or more need a second admin`
+                  : "Actions that need a second admin"}
+              </p>
+            </div>
+          </div>
+          {approvals.length > 0 && (
+            <Badge className="bg-amber-100 text-amber-700 border-amber-200">{approvals.length}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading approvals...</p>
+        ) : approvals.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing is waiting for a second approval.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {approvals.map((request) => {
+              const isInitiator = request.initiatedBy.id === currentAdminId;
+              const isBusy = decideMutation.isPending && decideMutation.variables?.id === request.id;
+
+              return (
+                <div key={request.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-gray-900">{describeRequest(request)}</span>
+                      <span className="font-bold text-gray-900">{formatCurrency(request.amount, true, request.currency)}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">
+                      {request.targetUser.name} ({request.targetUser.email})
+                      {request.reason && ` · ${request.reason}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Requested by {isInitiator ? "you" : request.initiatedBy.name} · {formatFinancialDate(request.createdAt, true)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {isInitiator ? (
+                      <span className="text-xs text-gray-500">Awaiting another admin</span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                        disabled={isBusy}
+                        onClick={() => decideMutation.mutate({ id: request.id, decision: "approve" })}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isBusy}
+                      onClick={() => decideMutation.mutate({ id: request.id, decision: "reject" })}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      {isInitiator ? "Withdraw" : "Reject"}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatFinancialDate } from "@/lib/formatters";
+import { RefreshCw, ShieldCheck } from "lucide-react";
+
+type CaseStatus = "OPEN" | "CLEARED" | "CONFIRMED";
+
+interface SanctionsStatus {
+  lists: Array<{ list: string; entries: number; importedAt: string | null }>;
+  openCases: number;
+  threshold: number;
+}
+
+interface SanctionsMatch {
+  list: string;
+  externalId: string;
+  entryType: string;
+  name: string;
+  matchedName: string;
+  programs: string[];
+  nameScore: number;
+  dateOfBirth: "exact" | "year" | "mismatch" | "unknown";
+  country: "match" | "different" | "unknown";
+  score: number;
+}
+
+interface SanctionsCase {
+  id: string;
+  trigger: "REGISTRATION" | "KYC_SUBMISSION" | "NAME_CHANGE" | "BENEFICIARY";
+  subjectType: "CUSTOMER" | "BENEFICIARY";
+  subjectName: string;
+  dateOfBirth: string | null;
+  country: string | null;
+  topScore: number;
+  matches: SanctionsMatch[];
+  status: CaseStatus;
+  reviewNotes: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  user: { id: string; name: string; email: string; accountNumber: string | null };
+  reviewedBy: { id: string; name: string } | null;
+}
+
+const TRIGGER_LABELS: Record<SanctionsCase["trigger"], string> = {
+  REGISTRATION: "Registration",
+  KYC_SUBMISSION: "KYC submission",
+  NAME_CHANGE: "Name change",
+  BENEFICIARY: "Beneficiary",
+};
+
+const STATUS_STYLES: Record<CaseStatus, string> = {
+  OPEN: "bg-yellow-100 text-yellow-700 border-yellow-200",
+  CLEARED: "bg-green-100 text-green-700 border-green-200",
+  CONFIRMED: "bg-red-100 text-red-700 border-red-200",
+};
+
+const DOB_LABELS: Record<SanctionsMatch["dateOfBirth"], string> = {
+  exact: "Date of birth matches",
+  year: "Birth year matches",
+  mismatch: "Date of birth differs",
+  unknown: "Date of birth not compared",
+};
+
+const COUNTRY_LABELS: Record<SanctionsMatch["country"], string> = {
+  match: "country matches",
+  different: "country differs",
+  unknown: "country not compared",
+};
+
+const errorText = (error: Error) => error.message.replace(/^\d+:\s*/, "");
+
+/**
+ * Sanctions list status and the cases screening has opened. A cleared case
+ * is a false positive; a confirmed one blocks the customer's transfers.
+ */
+export default function SanctionsScreening() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<CaseStatus>("OPEN");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: listStatus } = useQuery<SanctionsStatus>({
+    queryKey: ["/api/admin/sanctions/status"],
+  });
+
+  const { data: casesData, isLoading } = useQuery<{ cases: SanctionsCase[] }>({
+    queryKey: [`/api/admin/sanctions/cases?status=${status}`],
+  });
+  const cases = casesData?.cases || [];
+
+  const refresh = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/sanctions"),
+    });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/sanctions/import");
+      return response.json();
+    },
+    onSuccess: (result: { results: Array<{ list: string; source: string | null; imported: number }> }) => {
+      refresh();
+      toast({
+        title: "Sanctions lists imported",
+        description: result.results
+          .map((item) => (item.source ? `${item.list}: ${item.imported} entries` : `${item.list}: file not found`))
+          .join(" · "),
+      });
+    },
+    onError: (error: Error) => toast({ title: "Import failed", description: errorText(error), variant: "destructive" }),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, outcome }: { id: string; outcome: "clear" | "confirm" }) => {
+      const response = await apiRequest("POST", `/api/admin/sanctions/cases/${id}/${outcome}`, { notes: notes[id] || "" });
+      return response.json();
+    },
+    onSuccess: (_result, { id, outcome }) => {
+      setNotes((current) => ({ ...current, [id]: "" }));
+      refresh();
+      toast({ title: outcome === "clear" ? "Case cleared as a false positive" : "Match confirmed" });
+    },
+    onError: (error: Error) => {
+      refresh();
+      toast({ title: "Review failed", description: errorText(error), variant: "destructive" });
+    },
+  });
+
+  const review = (sanctionsCase: SanctionsCase, outcome: "clear" | "confirm") => {
+    if (outcome === "confirm" && !window.confirm(`Confirm ${sanctionsCase.subjectName} as a sanctions match? Transfers involving them will be blocked.`)) {
+      return;
+    }
+    reviewMutation.mutate({ id: sanctionsCase.id, outcome });
+  };
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-100 pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="w-8 h-8 bg-red-50 rounded-lg flex items-center justify-center">
+                <ShieldCheck className="h-4 w-4 text-red-600" />
+              </div>
+              <CardTitle className="text-lg font-semibold text-gray-900">Sanctions Screening</CardTitle>
+            </div>
+            <p className="text-sm text-gray-500">
+              {listStatus?.lists
+                .map((list) => `${list.list}: ${list.entries} entries${list.importedAt ? ` (${formatFinancialDate(list.importedAt, true)})` : ""}`)
+                .join(" · ")}
+              {listStatus && ` · cases open at ${listStatus.threshold}+`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={status} onValueChange={(value) => setStatus(value as CaseStatus)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="OPEN">Open{listStatus ? ` (${listStatus.openCases})` : ""}</SelectItem>
+                <SelectItem value="CLEARED">Cleared</SelectItem>
+                <SelectItem value="CONFIRMED">Confirmed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" className="gap-2" disabled={importMutation.isPending} onClick={() => importMutation.mutate()}>
+              <RefreshCw className={`h-4 w-4 ${importMutation.isPending ? "animate-spin" : ""}`} />
+              Import lists
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading sanctions cases...</p>
+        ) : cases.length === 0 ? (
+          <p className="text-sm text-gray-500">No {status.toLowerCase()} cases.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {cases.map((sanctionsCase) => (
+              <div key={sanctionsCase.id} className="py-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold text-gray-900">{sanctionsCase.subjectName}</span>
+                      <Badge variant="outline">{sanctionsCase.subjectType === "CUSTOMER" ? "Customer" : "Beneficiary"}</Badge>
+                      <Badge className={STATUS_STYLES[sanctionsCase.status]}>{sanctionsCase.status}</Badge>
+                      <Badge variant="outline">Score {sanctionsCase.topScore}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {TRIGGER_LABELS[sanctionsCase.trigger]} · {sanctionsCase.user.name} ({sanctionsCase.user.email})
+                      {sanctionsCase.dateOfBirth && ` · born ${formatFinancialDate(sanctionsCase.dateOfBirth)}`}
+                      {sanctionsCase.country && ` · ${sanctionsCase.country}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-400">{formatFinancialDate(sanctionsCase.createdAt, true)}</span>
+                </div>
+
+                <div className="space-y-2">
+                  {sanctionsCase.matches.map((match) => (
+                    <div key={`${match.list}-${match.externalId}`} className="rounded-lg border border-gray-200 p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900">
+                          {match.name}
+                          {match.matchedName !== match.name && <span className="text-gray-500"> (alias {match.matchedName})</span>}
+                        </span>
+                        <Badge variant="outline">{match.score}</Badge>
+                      </div>
+                      <p className="text-gray-600">
+                        {match.list} #{match.externalId} · {match.entryType}
+                        {match.programs.length > 0 && ` · ${match.programs.join(", ")}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Name {match.nameScore}% alike · {DOB_LABELS[match.dateOfBirth]} · {COUNTRY_LABELS[match.country]}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                {sanctionsCase.status === "OPEN" ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="Review notes (required)"
+                      value={notes[sanctionsCase.id] || ""}
+                      onChange={(event) => setNotes((current) => ({ ...current, [sanctionsCase.id]: event.target.value }))}
+                      rows={2}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={reviewMutation.isPending || !notes[sanctionsCase.id]?.trim()}
+                        onClick={() => review(sanctionsCase, "clear")}
+                      >
+                        Clear as false positive
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-red-600 hover:bg-red-700"
+                        disabled={reviewMutation.isPending || !notes[sanctionsCase.id]?.trim()}
+                        onClick={() => review(sanctionsCase, "confirm")}
+                      >
+                        Confirm match
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    {sanctionsCase.status === "CLEARED" ? "Cleared" : "Confirmed"} by {sanctionsCase.reviewedBy?.name || "an admin"}
+                    {sanctionsCase.reviewedAt && ` on ${formatFinancialDate(sanctionsCase.reviewedAt, true)}`}: {sanctionsCase.reviewNotes}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -13,7 +13,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { formatCurrency } from "@/lib/formatters";
+import { authManager } from "@/lib/auth";
+import { socketClient, initializeSocketConnection, type ReviewQueueRemoval } from "@/services/socketClient";
+import { formatCurrency, toMoney } from "@/lib/formatters";
+import { FRAUD_FACTS, type FraudDecision, type FraudFactName, type FraudFactor, type FraudFacts } from "@shared/fraudRules";
 import { 
   Clock, 
   AlertTriangle, 
@@ -37,7 +40,7 @@ import {
 interface Transfer {
   id: string;
   userId: string;
-  amount: number;
+  amount: string;
   description: string;
   createdAt: string;
   status: string;
@@ -50,16 +53,27 @@ interface Transfer {
     submittedAt: string;
     riskLevel: string;
     reason: string;
+    payeeId?: string;
+    payeeAddedAt?: string;
   };
   user: {
     id: string;
     name: string;
     email: string;
     accountNumber: string;
-    balance: number;
+    balance: string;
     riskLevel: string;
     kycStatus: string;
   };
+  riskAssessment?: {
+    ruleSetVersion: number | null;
+    inputs: FraudFacts | null;
+    score: number;
+    riskLevel: string;
+    factors: FraudFactor[];
+    decision: FraudDecision;
+    createdAt: string;
+  } | null;
   riskScore?: number;
   riskFactors?: string[];
   urgency?: string;
@@ -67,9 +81,9 @@ interface Transfer {
 }
 
 interface TransferStats {
-  pending: { count: number; amount: number };
+  pending: { count: number; amount: string };
   today: { approved: number; rejected: number };
-  thisWeek: { count: number; amount: number };
+  thisWeek: { count: number; amount: string };
   highRiskPending: number;
 }
 
@@ -77,7 +91,22 @@ const RISK_COLORS = {
   LOW: 'bg-green-100 text-green-700 border-green-200',
   MEDIUM: 'bg-yellow-100 text-yellow-700 border-yellow-200',
   HIGH: 'bg-orange-100 text-orange-700 border-orange-200',
-  URGENT: 'bg-red-100 text-red-700 border-red-200'
+  URGENT: 'bg-red-100 text-red-700 border-red-200',
+  CRITICAL: 'bg-red-100 text-red-700 border-red-200'
+};
+
+// Transfers submitted before risk assessments were stored fall back to the computed priority
+const riskLabel = (transfer: Transfer) => transfer.riskAssessment?.riskLevel || transfer.priority || 'LOW';
+
+const formatFact = (name: FraudFactName, value: FraudFacts[FraudFactName]) => {
+  switch (FRAUD_FACTS[name].kind) {
+    case 'money':
+      return formatCurrency(String(value));
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value).replace('_', ' ');
+  }
 };
 
 const STATUS_COLORS = {
@@ -126,6 +155,37 @@ export default function TransferReview() {
     refetchInterval: 60000 // Refresh every minute
   });
 
+  // Drop transfers from the queue as soon as customers cancel them
+  const selectedTransferId = useRef<string | null>(null);
+  selectedTransferId.current = selectedTransfer?.id ?? null;
+
+  useEffect(() => {
+    const { token } = authManager.getState();
+    if (token) {
+      initializeSocketConnection(token);
+    }
+
+    const handleRemoval = (data: ReviewQueueRemoval) => {
+      queryClient.setQueriesData<Transfer[]>({ queryKey: ['/api/admin/pending-transfers'] }, (current) =>
+        Array.isArray(current) ? current.filter((transfer) => transfer.id !== data.transferId) : current
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/transfers/stats'] });
+
+      if (selectedTransferId.current === data.transferId) {
+        setReviewDialogOpen(false);
+        setSelectedTransfer(null);
+        setReviewReason('');
+        toast({
+          title: "Transfer withdrawn",
+          description: "The customer cancelled this transfer before it was reviewed.",
+        });
+      }
+    };
+
+    socketClient.on('review_queue_removed', handleRemoval);
+    return () => socketClient.off('review_queue_removed', handleRemoval);
+  }, [queryClient, toast]);
+
   // Review transfer mutation
   const reviewMutation = useMutation({
     mutationFn: async ({ transferId, action, reason }: { transferId: string; action: string; reason?: string }) => {
@@ -137,10 +197,11 @@ export default function TransferReview() {
     },
     onSuccess: (data) => {
       toast({
-        title: "Transfer reviewed successfully",
+        title: data.data?.approval ? "Awaiting second approval" : "Transfer reviewed successfully",
         description: data.message,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/pending-transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/approvals'] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/transfers/stats'] });
       setReviewDialogOpen(false);
       setSelectedTransfer(null);
@@ -179,6 +240,7 @@ export default function TransferReview() {
     switch (riskLevel) {
       case 'HIGH':
       case 'URGENT':
+      case 'CRITICAL':
         return <AlertTriangle className="h-4 w-4" />;
       case 'MEDIUM':
         return <AlertCircle className="h-4 w-4" />;
@@ -187,6 +249,11 @@ export default function TransferReview() {
     }
   };
 
+  // Transfers to a payee saved less than a day before deserve a closer look
+  const isNewPayee = (transfer: Transfer) =>
+    !!transfer.metadata.payeeAddedAt &&
+    new Date(transfer.createdAt).getTime() - new Date(transfer.metadata.payeeAddedAt).getTime() < 24 * 60 * 60 * 1000;
+
   const getUrgencyColor = (urgency: string) => {
     switch (urgency) {
       case 'HIGH':
@@ -220,9 +287,9 @@ export default function TransferReview() {
 
   const transfers: Transfer[] = transfersData || [];
   const transferStats: TransferStats = stats || {
-    pending: { count: 0, amount: 0 },
+    pending: { count: 0, amount: '0.00' },
     today: { approved: 0, rejected: 0 },
-    thisWeek: { count: 0, amount: 0 },
+    thisWeek: { count: 0, amount: '0.00' },
     highRiskPending: 0
   };
 
@@ -326,7 +393,6 @@ export default function TransferReview() {
                     <SelectItem value="LOW">Low</SelectItem>
                     <SelectItem value="MEDIUM">Medium</SelectItem>
                     <SelectItem value="HIGH">High</SelectItem>
-                    <SelectItem value="URGENT">Urgent</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -387,8 +453,8 @@ export default function TransferReview() {
             <div className="space-y-4">
               {transfers.map((transfer) => (
                 <Card key={transfer.id} className={`border-l-4 hover:shadow-md transition-shadow ${
-                  transfer.priority === 'URGENT' ? 'border-l-red-500' :
-                  transfer.priority === 'HIGH' ? 'border-l-orange-500' :
+                  ['URGENT', 'CRITICAL'].includes(riskLabel(transfer)) ? 'border-l-red-500' :
+                  riskLabel(transfer) === 'HIGH' ? 'border-l-orange-500' :
                   'border-l-blue-500'
                 }`}>
                   <CardContent className="p-6">
@@ -397,9 +463,9 @@ export default function TransferReview() {
                         <div className="flex flex-col">
                           <div className="flex items-center gap-2">
                             <h3 className="font-semibold text-lg">{formatCurrency(transfer.amount)}</h3>
-                            <Badge className={RISK_COLORS[transfer.priority as keyof typeof RISK_COLORS] || RISK_COLORS.LOW}>
-                              {getRiskIcon(transfer.priority || 'LOW')}
-                              <span className="ml-1">{transfer.priority || 'Normal'}</span>
+                            <Badge className={RISK_COLORS[riskLabel(transfer) as keyof typeof RISK_COLORS] || RISK_COLORS.LOW}>
+                              {getRiskIcon(riskLabel(transfer))}
+                              <span className="ml-1">{transfer.riskAssessment || transfer.priority ? riskLabel(transfer) : 'Normal'}</span>
                             </Badge>
                             {transfer.urgency && (
                               <Badge variant="outline" className={getUrgencyColor(transfer.urgency)}>
@@ -407,6 +473,12 @@ export default function TransferReview() {
                                 {transfer.urgency}
                               </Badge>
                             )}
+                            {isNewPayee(transfer) && (
+                              <Badge variant="outline" className="text-orange-600 border-orange-200">
+                                <User className="h-3 w-3 mr-1" />
+                                New payee
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-sm text-gray-600">
                             To {transfer.metadata.bankName} • {formatDate(transfer.createdAt)}
@@ -462,10 +534,10 @@ export default function TransferReview() {
                                 <div>
                                   <Label className="text-sm font-medium text-gray-600">User Balance</Label>
                                   <div className="mt-1">
-                                    <span className={transfer.user.balance >= transfer.amount ? 'text-green-600' : 'text-red-600'}>
+                                    <span className={toMoney(transfer.user.balance).gte(transfer.amount) ? 'text-green-600' : 'text-red-600'}>
                                       {formatCurrency(transfer.user.balance)}
                                     </span>
-                                    {transfer.user.balance < transfer.amount && (
+                                    {toMoney(transfer.user.balance).lt(transfer.amount) && (
                                       <p className="text-xs text-red-500">Insufficient funds</p>
                                     )}
                                   </div>
@@ -483,8 +555,52 @@ export default function TransferReview() {
                                 </div>
                               </div>
 
-                              {/* Risk Assessment */}
-                              {transfer.riskFactors && transfer.riskFactors.length > 0 && (
+                              {/* Risk Assessment, as stored when the transfer was submitted */}
+                              {transfer.riskAssessment ? (
+                                <div className="space-y-3">
+                                  <div className="flex items-center justify-between">
+                                    <Label className="text-sm font-medium text-gray-600">Risk Assessment</Label>
+                                    <span className="text-xs text-gray-500">
+                                      {transfer.riskAssessment.ruleSetVersion !== null
+                                        ? `Fraud rules version ${transfer.riskAssessment.ruleSetVersion}`
+                                        : 'No fraud rules applied'}
+                                    </span>
+                                  </div>
+                                  <div className="flex items-center gap-2">
+                                    <Badge className={RISK_COLORS[transfer.riskAssessment.riskLevel as keyof typeof RISK_COLORS] || RISK_COLORS.LOW}>
+                                      {transfer.riskAssessment.riskLevel}
+                                    </Badge>
+                                    <span className="text-sm">
+                                      Score {transfer.riskAssessment.score} • {transfer.riskAssessment.decision === 'REVIEW' ? 'Flagged for review' : 'Allowed'}
+                                    </span>
+                                  </div>
+                                  {transfer.riskAssessment.factors.length > 0 ? (
+                                    <div className="space-y-1">
+                                      {transfer.riskAssessment.factors.map((factor) => (
+                                        <div key={factor.key} className="flex items-center justify-between gap-2 text-sm">
+                                          <span className="flex items-center gap-2">
+                                            <AlertTriangle className="h-3 w-3 text-orange-500" />
+                                            {factor.reason}
+                                          </span>
+                                          <span className="font-mono text-gray-600">+{factor.score}</span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  ) : (
+                                    <p className="text-sm text-gray-600">No fraud rules matched this transfer.</p>
+                                  )}
+                                  {transfer.riskAssessment.inputs && (
+                                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 p-3 bg-gray-50 rounded-lg text-xs">
+                                      {(Object.keys(FRAUD_FACTS) as FraudFactName[]).map((name) => (
+                                        <div key={name} className="flex justify-between gap-2">
+                                          <span className="text-gray-500">{FRAUD_FACTS[name].label}</span>
+                                          <span className="font-medium text-right">{formatFact(name, transfer.riskAssessment!.inputs![name])}</span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              ) : transfer.riskFactors && transfer.riskFactors.length > 0 && (
                                 <div>
                                   <Label className="text-sm font-medium text-gray-600">Risk Factors</Label>
                                   <div className="mt-2 space-y-1">
@@ -591,7 +707,7 @@ export default function TransferReview() {
                       </div>
                       <div>
                         <span className="text-gray-600">Balance:</span>
-                        <p className={`font-medium ${transfer.user.balance >= transfer.amount ? 'text-green-600' : 'text-red-600'}`}>
+                        <p className={`font-medium ${toMoney(transfer.user.balance).gte(transfer.amount) ? 'text-green-600' : 'text-red-600'}`}>
                           {formatCurrency(transfer.user.balance)}
                         </p>
                       </div>
@@ -206,6 +206,33 @@ export default function UserVerificationDetail({ userId, onClose }: UserVerifica
     }
   });
 
+  // Flag as a politically exposed person, which opens an EDD case
+  const flagPepMutation = useMutation({
+    mutationFn: async (notes: string) => {
+      const response = await fetch(`/api/admin/pep/users/${userId}/flag`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authManager.getAuthHeader()
+        },
+        body: JSON.stringify({ notes })
+      });
+      if (!response.ok) throw new Error('Failed to flag user as a PEP');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/users/${userId}/verification-details`] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/pep') });
+    }
+  });
+
+  const handleFlagPep = () => {
+    const notes = window.prompt('Why is this customer a politically exposed person? (e.g. position held)');
+    if (notes?.trim()) {
+      flagPepMutation.mutate(notes.trim());
+    }
+  };
+
   const userData: UserVerificationData = verificationData || {
     user: {},
     verificationRequests: [],
@@ -797,6 +824,16 @@ export default function UserVerificationDetail({ userId, onClose }: UserVerifica
                         <Flag className="h-4 w-4 mr-2" />
                         Flag for Manual Review
                       </Button>
+
+                      <Button
+                        variant="outline"
+                        className="w-full justify-start"
+                        onClick={handleFlagPep}
+                        disabled={userData.user.isPep || flagPepMutation.isPending}
+                      >
+                        <Shield className="h-4 w-4 mr-2" />
+                        {userData.user.isPep ? 'Flagged as PEP' : 'Flag as Politically Exposed Person'}
+                      </Button>
                     </CardContent>
                   </Card>
                 </div>
@@ -2,7 +2,9 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { formatCurrency } from "@/lib/formatters";
+import { formatCurrency, toMoney } from "@/lib/formatters";
+import type { MoneyInput } from "@shared/money";
+import AccountSwitcher, { type AccountOption } from "./AccountSwitcher";
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -19,15 +21,15 @@ import {
 } from "lucide-react";
 
 interface AccountMetrics {
-  totalBalance: number;
-  monthlyIncome: number;
-  monthlyExpenses: number;
+  totalBalance: MoneyInput;
+  monthlyIncome: MoneyInput;
+  monthlyExpenses: MoneyInput;
   savingsRate: number;
   creditUtilization: number;
   accountHealth: 'excellent' | 'good' | 'fair' | 'needs-attention';
   goals: {
-    savingsGoal: number;
-    currentSavings: number;
+    savingsGoal: MoneyInput;
+    currentSavings: MoneyInput;
     targetDate: string;
   };
   trends: {
@@ -40,11 +42,17 @@ interface AccountMetrics {
 interface AccountOverviewWidgetProps {
   metrics: AccountMetrics;
   period?: string;
+  accounts?: AccountOption[];
+  selectedAccountId?: string;
+  onAccountChange?: (accountId: string) => void;
 }
 
 export default function AccountOverviewWidget({ 
   metrics, 
-  period = "This Month" 
+  period = "This Month",
+  accounts = [],
+  selectedAccountId,
+  onAccountChange
 }: AccountOverviewWidgetProps) {
   const [animatedMetrics, setAnimatedMetrics] = useState({
     totalBalance: 0,
@@ -56,6 +64,8 @@ export default function AccountOverviewWidget({
   });
 
   const [selectedMetric, setSelectedMetric] = useState<string | null>(null);
+  // Once the count-up finishes, amounts are shown from the exact values again
+  const [isSettled, setIsSettled] = useState(false);
 
   // Animate metrics on mount
   useEffect(() => {
@@ -63,6 +73,13 @@ export default function AccountOverviewWidget({
     const steps = 60;
     const increment = duration / steps;
     
+    const totalBalance = toMoney(metrics.totalBalance).toNumber();
+    const monthlyIncome = toMoney(metrics.monthlyIncome).toNumber();
+    const monthlyExpenses = toMoney(metrics.monthlyExpenses).toNumber();
+    const savingsGoal = toMoney(metrics.goals.savingsGoal).toNumber();
+    const currentSavings = toMoney(metrics.goals.currentSavings).toNumber();
+
+    setIsSettled(false);
     let currentStep = 0;
     const timer = setInterval(() => {
       currentStep++;
@@ -70,16 +87,17 @@ export default function AccountOverviewWidget({
       const easeOutQuart = 1 - Math.pow(1 - progress, 4);
       
       setAnimatedMetrics({
-        totalBalance: metrics.totalBalance * easeOutQuart,
-        monthlyIncome: metrics.monthlyIncome * easeOutQuart,
-        monthlyExpenses: metrics.monthlyExpenses * easeOutQuart,
+        totalBalance: totalBalance * easeOutQuart,
+        monthlyIncome: monthlyIncome * easeOutQuart,
+        monthlyExpenses: monthlyExpenses * easeOutQuart,
         savingsRate: metrics.savingsRate * easeOutQuart,
         creditUtilization: metrics.creditUtilization * easeOutQuart,
-        goalProgress: (metrics.goals.currentSavings / metrics.goals.savingsGoal) * 100 * easeOutQuart
+        goalProgress: savingsGoal > 0 ? (currentSavings / savingsGoal) * 100 * easeOutQuart : 0
       });
       
       if (currentStep >= steps) {
         clearInterval(timer);
+        setIsSettled(true);
       }
     }, increment);
 
@@ -122,8 +140,9 @@ export default function AccountOverviewWidget({
   };
 
   const healthStatus = getHealthStatus(metrics.accountHealth);
-  const netCashFlow = metrics.monthlyIncome - metrics.monthlyExpenses;
-  const goalProgress = (metrics.goals.currentSavings / metrics.goals.savingsGoal) * 100;
+  const netCashFlow = toMoney(metrics.monthlyIncome).subtract(toMoney(metrics.monthlyExpenses));
+  const savingsGoal = toMoney(metrics.goals.savingsGoal);
+  const goalProgress = savingsGoal.isPositive() ? (toMoney(metrics.goals.currentSavings).toNumber() / savingsGoal.toNumber()) * 100 : 0;
 
   return (
     <Card className="card-elevated slide-in">
@@ -139,10 +158,19 @@ export default function AccountOverviewWidget({
             </div>
           </div>
           
-          <Badge className={`${healthStatus.color} text-xs px-3 py-1`}>
-            {healthStatus.icon}
-            <span className="ml-1">{healthStatus.label}</span>
-          </Badge>
+          <div className="flex items-center gap-3">
+            {onAccountChange && selectedAccountId && (
+              <AccountSwitcher
+                accounts={accounts}
+                selectedAccountId={selectedAccountId}
+                onAccountChange={onAccountChange}
+              />
+            )}
+            <Badge className={`${healthStatus.color} text-xs px-3 py-1`}>
+              {healthStatus.icon}
+              <span className="ml-1">{healthStatus.label}</span>
+            </Badge>
+          </div>
         </div>
       </CardHeader>
 
@@ -178,7 +206,7 @@ export default function AccountOverviewWidget({
               </div>
             </div>
             <div className="text-xl sm:text-2xl font-bold text-white text-currency mb-1 break-all">
-              {formatCurrency(animatedMetrics.totalBalance)}
+              {formatCurrency(isSettled ? metrics.totalBalance : animatedMetrics.totalBalance)}
             </div>
             <div className="text-xs text-white/60 uppercase tracking-wider">
               Total Balance
@@ -214,7 +242,7 @@ export default function AccountOverviewWidget({
               </div>
             </div>
             <div className="text-xl sm:text-2xl font-bold text-white text-currency mb-1 break-all">
-              {formatCurrency(animatedMetrics.monthlyIncome)}
+              {formatCurrency(isSettled ? metrics.monthlyIncome : animatedMetrics.monthlyIncome)}
             </div>
             <div className="text-xs text-white/60 uppercase tracking-wider">
               Monthly Income
@@ -250,7 +278,7 @@ export default function AccountOverviewWidget({
               </div>
             </div>
             <div className="text-xl sm:text-2xl font-bold text-white text-currency mb-1 break-all">
-              {formatCurrency(animatedMetrics.monthlyExpenses)}
+              {formatCurrency(isSettled ? metrics.monthlyExpenses : animatedMetrics.monthlyExpenses)}
             </div>
             <div className="text-xs text-white/60 uppercase tracking-wider">
               Monthly Expenses
@@ -265,13 +293,13 @@ export default function AccountOverviewWidget({
             <div className="flex items-center justify-between mb-2">
               <div className="text-sm font-medium text-white/80">Net Cash Flow</div>
               <div className={`text-xs px-2 py-1 rounded-full ${
-                netCashFlow >= 0 ? 'bg-green-400/20 text-green-300' : 'bg-red-400/20 text-red-300'
+                !netCashFlow.isNegative() ? 'bg-green-400/20 text-green-300' : 'bg-red-400/20 text-red-300'
               }`}>
-                {netCashFlow >= 0 ? 'Positive' : 'Negative'}
+                {!netCashFlow.isNegative() ? 'Positive' : 'Negative'}
               </div>
             </div>
             <div className={`text-base sm:text-lg font-bold text-currency break-all ${
-              netCashFlow >= 0 ? 'text-green-300' : 'text-red-300'
+              !netCashFlow.isNegative() ? 'text-green-300' : 'text-red-300'
             }`}>
               {formatCurrency(netCashFlow)}
             </div>
@@ -0,0 +1,66 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/lib/formatters";
+
+export interface AccountOption {
+  id: string;
+  accountNumber: string;
+  type: string;
+  nickname: string | null;
+  balance: string;
+  currency: string;
+  // Ledger balance less funds held for pending transfers
+  availableBalance?: string;
+  heldAmount?: string;
+  status: string;
+  isPrimary: boolean;
+}
+
+interface AccountSwitcherProps {
+  accounts: AccountOption[];
+  selectedAccountId: string;
+  onAccountChange: (accountId: string) => void;
+  className?: string;
+}
+
+export const getAccountLabel = (account: AccountOption) => {
+  if (account.nickname) return account.nickname;
+  const type = account.type.charAt(0) + account.type.slice(1).toLowerCase();
+  return `${type} ••${account.accountNumber.slice(-4)}`;
+};
+
+export default function AccountSwitcher({
+  accounts,
+  selectedAccountId,
+  onAccountChange,
+  className = ""
+}: AccountSwitcherProps) {
+  if (accounts.length < 2) return null;
+
+  return (
+    <Select value={selectedAccountId} onValueChange={onAccountChange}>
+      <SelectTrigger
+        className={`h-9 w-[220px] bg-white/5 border-white/10 text-white text-sm focus-ring ${className}`}
+        aria-label="Switch account"
+      >
+        <SelectValue placeholder="Select account" />
+      </SelectTrigger>
+      <SelectContent>
+        {accounts.map((account) => (
+          <SelectItem
+            key={account.id}
+            value={account.id}
+            disabled={account.status === 'CLOSED'}
+          >
+            <span className="flex items-center justify-between gap-3 w-full">
+              <span>
+                {getAccountLabel(account)}
+                {account.isPrimary && <span className="ml-1 text-xs text-gray-500">(primary)</span>}
+              </span>
+              <span className="text-xs text-gray-500">{formatCurrency(account.balance, true, account.currency)}</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
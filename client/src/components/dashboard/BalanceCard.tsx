@@ -2,7 +2,9 @@ import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { formatCurrency } from "@/lib/formatters";
+import { formatCurrency, toMoney } from "@/lib/formatters";
+import { DEFAULT_CURRENCY, type MoneyInput } from "@shared/money";
+import AccountSwitcher, { type AccountOption } from "./AccountSwitcher";
 import { 
   Wallet, 
   Eye, 
@@ -16,30 +18,39 @@ import {
 } from "lucide-react";
 
 interface BalanceCardProps {
-  balance: number;
+  balance: MoneyInput;
+  currency?: string;
   accountType: string;
   accountNumber: string;
   monthlyChange?: {
-    amount: number;
+    amount: MoneyInput;
     percentage: number;
     trend: 'up' | 'down' | 'neutral';
   };
   quickStats?: {
-    available: number;
-    pending: number;
-    reserved: number;
+    available: MoneyInput;
+    pending: MoneyInput;
+    reserved: MoneyInput;
   };
+  accounts?: AccountOption[];
+  selectedAccountId?: string;
+  onAccountChange?: (accountId: string) => void;
 }
 
 export default function BalanceCard({ 
   balance, 
+  currency = DEFAULT_CURRENCY,
   accountType, 
   accountNumber,
   monthlyChange,
-  quickStats 
+  quickStats,
+  accounts = [],
+  selectedAccountId,
+  onAccountChange
 }: BalanceCardProps) {
   const [isBalanceVisible, setIsBalanceVisible] = useState(true);
-  const [animatedBalance, setAnimatedBalance] = useState(0);
+  // Float value used only while the counter animates; null once settled on the exact balance
+  const [animatedBalance, setAnimatedBalance] = useState<number | null>(0);
 
   // Animate balance counter on mount or balance change
   useEffect(() => {
@@ -47,8 +58,8 @@ export default function BalanceCard({
     
     let startTime: number;
     const duration = 1200; // 1.2 seconds
-    const startValue = animatedBalance;
-    const endValue = balance;
+    const startValue = animatedBalance ?? 0;
+    const endValue = toMoney(balance, currency).toNumber();
     
     const animate = (currentTime: number) => {
       if (!startTime) startTime = currentTime;
@@ -58,15 +69,16 @@ export default function BalanceCard({
       const easeOutQuart = 1 - Math.pow(1 - progress, 4);
       const currentValue = startValue + (endValue - startValue) * easeOutQuart;
       
-      setAnimatedBalance(currentValue);
-      
       if (progress < 1) {
+        setAnimatedBalance(currentValue);
         requestAnimationFrame(animate);
+      } else {
+        setAnimatedBalance(null);
       }
     };
     
     requestAnimationFrame(animate);
-  }, [balance, isBalanceVisible]);
+  }, [balance, currency, isBalanceVisible]);
 
   const toggleBalanceVisibility = () => {
     console.log('Balance visibility toggled:', !isBalanceVisible); // Debug log
@@ -131,6 +143,15 @@ export default function BalanceCard({
               </div>
             </div>
           </div>
+
+          {onAccountChange && selectedAccountId && (
+            <AccountSwitcher
+              accounts={accounts}
+              selectedAccountId={selectedAccountId}
+              onAccountChange={onAccountChange}
+              className="ml-auto mr-2 relative z-10"
+            />
+          )}
           
           <Button
             variant="ghost"
@@ -156,7 +177,7 @@ export default function BalanceCard({
           <div className="relative overflow-hidden text-center">
             {isBalanceVisible ? (
               <div className="text-balance text-3xl sm:text-4xl md:text-5xl lg:text-6xl text-white mb-2 balance-counter break-all overflow-wrap-anywhere">
-                {formatCurrency(animatedBalance)}
+                {animatedBalance === null ? formatCurrency(balance, true, currency) : formatCurrency(animatedBalance, true, currency)}
               </div>
             ) : (
               <div className="text-3xl sm:text-4xl md:text-5xl lg:text-6xl text-white mb-2 font-mono">
@@ -185,7 +206,7 @@ export default function BalanceCard({
                 </div>
                 <span className="text-white/60 text-sm">
                   {monthlyChange.trend === 'up' ? '+' : monthlyChange.trend === 'down' ? '-' : ''}
-                  {formatCurrency(Math.abs(monthlyChange.amount))} this month
+                  {formatCurrency(toMoney(monthlyChange.amount, currency).abs())} this month
                 </span>
               </div>
             )}
@@ -197,19 +218,19 @@ export default function BalanceCard({
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 sm:gap-4 pt-6 border-t border-white/10">
             <div className="text-center">
               <div className="text-lg sm:text-xl md:text-2xl font-bold text-white text-currency break-all">
-                {formatCurrency(quickStats.available)}
+                {formatCurrency(quickStats.available, true, currency)}
               </div>
               <div className="text-xs text-white/60 uppercase tracking-wide mt-1">Available</div>
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-xl md:text-2xl font-bold text-orange-300 text-currency break-all">
-                {formatCurrency(quickStats.pending)}
+                {formatCurrency(quickStats.pending, true, currency)}
               </div>
               <div className="text-xs text-white/60 uppercase tracking-wide mt-1">Pending</div>
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-xl md:text-2xl font-bold text-blue-300 text-currency break-all">
-                {formatCurrency(quickStats.reserved)}
+                {formatCurrency(quickStats.reserved, true, currency)}
               </div>
               <div className="text-xs text-white/60 uppercase tracking-wide mt-1">Reserved</div>
             </div>
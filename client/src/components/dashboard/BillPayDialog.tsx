@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/useIdempotencyKey";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, parseAmountInput } from "@/lib/formatters";
+import { BILLER_CATEGORIES, estimateDeliveryDate, type BillerCategory } from "@shared/billPay";
+import { toCalendarDate } from "@shared/businessDays";
+import { ArrowLeft, Plus, Receipt, Truck } from "lucide-react";
+
+export interface DirectoryBiller {
+  id: string;
+  name: string;
+  category: BillerCategory;
+  deliveryMethod: "ELECTRONIC" | "CHECK";
+  deliveryDays: number;
+  isActive: boolean;
+}
+
+export interface UserBiller {
+  id: string;
+  nickname: string;
+  accountLast4: string;
+  lastPaidAt: string | null;
+  biller: DirectoryBiller;
+}
+
+// Calendar dates (YYYY-MM-DD) are shown as the date itself, not shifted to local time
+export const formatBillDate = (date: string) =>
+  new Date(`${date}T00:00:00.000Z`).toLocaleDateString("en-US", { timeZone: "UTC", weekday: "short", month: "short", day: "numeric" });
+
+export const describeUserBiller = (userBiller: UserBiller) => `${userBiller.nickname} ••${userBiller.accountLast4}`;
+
+interface BillPayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fromAccountId?: string;
+  onPaid?: () => void;
+}
+
+const emptyPayment = () => ({ userBillerId: "", amount: "", sendOn: toCalendarDate(), memo: "" });
+const emptyBiller = () => ({ billerId: "", accountNumber: "", nickname: "" });
+
+/**
+ * Pay one of the user's billers now or on a later send-on date, or add a
+ * biller from the directory first
+ */
+export default function BillPayDialog({ open, onOpenChange, fromAccountId, onPaid }: BillPayDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const idempotency = useIdempotencyKey();
+  const [mode, setMode] = useState<"pay" | "add">("pay");
+  const [payment, setPayment] = useState(emptyPayment);
+  const [newBiller, setNewBiller] = useState(emptyBiller);
+  const [search, setSearch] = useState("");
+  const [error, setError] = useState("");
+
+  const { data: billersData, isLoading: billersLoading } = useQuery<{ billers: UserBiller[] }>({
+    queryKey: ["/api/user/bill-pay/billers"],
+    enabled: open,
+  });
+  const { data: directoryData } = useQuery<{ billers: DirectoryBiller[] }>({
+    queryKey: [`/api/user/bill-pay/directory?q=${encodeURIComponent(search.trim())}`],
+    enabled: open && mode === "add",
+  });
+
+  const billers = billersData?.billers || [];
+  const directory = directoryData?.billers || [];
+  const selectedBiller = billers.find((userBiller) => userBiller.id === payment.userBillerId);
+  const today = toCalendarDate();
+  const deliverBy = selectedBiller && payment.sendOn >= today
+    ? estimateDeliveryDate(payment.sendOn, selectedBiller.biller.deliveryDays)
+    : null;
+
+  const close = () => {
+    onOpenChange(false);
+    setMode("pay");
+    setPayment(emptyPayment());
+    setNewBiller(emptyBiller());
+    setSearch("");
+    setError("");
+  };
+
+  const payMutation = useMutation({
+    mutationFn: async (payload: Record<string, unknown>) => {
+      const response = await apiRequest("POST", "/api/user/bill-pay/payments", payload, {
+        "Idempotency-Key": idempotency.keyFor(payload),
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      idempotency.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/user/bill-pay/billers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/bill-pay/payments"] });
+      toast({
+        title: result.message,
+        description: `${formatCurrency(result.payment.amount)} to ${result.payment.billerName}, arriving by ${formatBillDate(result.payment.deliverBy)}`,
+      });
+      onPaid?.();
+      close();
+    },
+    onError: (error: Error) => {
+      // A rejected request can be corrected and resent; only an in-flight one keeps its key
+      if (!error.message.startsWith("409")) idempotency.reset();
+      setError(error.message.replace(/^\d+:\s*/, ""));
+    },
+  });
+
+  const addBillerMutation = useMutation({
+    mutationFn: async (payload: Record<string, unknown>) => {
+      const response = await apiRequest("POST", "/api/user/bill-pay/billers", payload);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/bill-pay/billers"] });
+      setPayment((current) => ({ ...current, userBillerId: result.biller.id }));
+      setNewBiller(emptyBiller());
+      setSearch("");
+      setMode("pay");
+    },
+    onError: (error: Error) => {
+      setError(error.message.replace(/^\d+:\s*/, ""));
+    },
+  });
+
+  const handlePay = () => {
+    setError("");
+    const amount = parseAmountInput(payment.amount);
+    if (!selectedBiller) return setError("Please select a biller");
+    if (!amount || !amount.isPositive()) return setError("Please enter a valid amount greater than 0");
+    if (payment.sendOn < today) return setError("Send-on date cannot be in the past");
+
+    payMutation.mutate({
+      userBillerId: selectedBiller.id,
+      amount: amount.toString(),
+      sendOn: payment.sendOn,
+      fromAccountId,
+      memo: payment.memo.trim() || undefined,
+    });
+  };
+
+  const handleAddBiller = () => {
+    setError("");
+    if (!newBiller.billerId) return setError("Please choose a biller");
+    if (!newBiller.accountNumber.trim()) return setError("Account number is required");
+
+    addBillerMutation.mutate({
+      billerId: newBiller.billerId,
+      accountNumber: newBiller.accountNumber,
+      nickname: newBiller.nickname.trim() || undefined,
+    });
+  };
+
+  const isBusy = payMutation.isPending || addBillerMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-md bg-gradient-to-br from-white via-purple-50/30 to-white border border-gray-200 shadow-2xl backdrop-blur-sm">
+        <DialogHeader className="border-b border-gray-200 pb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-purple-600 rounded-xl flex items-center justify-center shadow-lg">
+              <Receipt className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-xl font-bold text-gray-900">
+                {mode === "pay" ? "Pay Bills" : "Add a Biller"}
+              </DialogTitle>
+              <p className="text-sm text-gray-600">
+                {mode === "pay" ? "Pay now or choose a send-on date" : "Find the company you pay"}
+              </p>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {mode === "pay" ? (
+          <div className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="bill-biller" className="text-gray-700 font-medium">Biller *</Label>
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => { setError(""); setMode("add"); }} disabled={isBusy}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add biller
+                </Button>
+              </div>
+              <Select
+                value={payment.userBillerId}
+                onValueChange={(userBillerId) => setPayment({ ...payment, userBillerId })}
+                disabled={isBusy || billers.length === 0}
+              >
+                <SelectTrigger id="bill-biller" className="mt-1 focus-ring">
+                  <SelectValue placeholder={billersLoading ? "Loading billers..." : billers.length === 0 ? "Add a biller to get started" : "Choose a biller to pay"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {billers.map((userBiller) => (
+                    <SelectItem key={userBiller.id} value={userBiller.id} disabled={!userBiller.biller.isActive}>
+                      {describeUserBiller(userBiller)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="bill-amount" className="text-gray-700 font-medium">Amount *</Label>
+                <Input
+                  id="bill-amount"
+                  type="number"
+                  placeholder="0.00"
+                  value={payment.amount}
+                  onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                  className="mt-1 focus-ring"
+                  min="0"
+                  step="0.01"
+                  disabled={isBusy}
+                />
+              </div>
+              <div>
+                <Label htmlFor="bill-send-on" className="text-gray-700 font-medium">Send on *</Label>
+                <Input
+                  id="bill-send-on"
+                  type="date"
+                  value={payment.sendOn}
+                  min={today}
+                  onChange={(e) => setPayment({ ...payment, sendOn: e.target.value })}
+                  className="mt-1 focus-ring"
+                  disabled={isBusy}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="bill-memo" className="text-gray-700 font-medium">Memo</Label>
+              <Input
+                id="bill-memo"
+                placeholder="Optional"
+                maxLength={140}
+                value={payment.memo}
+                onChange={(e) => setPayment({ ...payment, memo: e.target.value })}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+            </div>
+            {deliverBy && selectedBiller && (
+              <div className="flex items-center gap-2 rounded-lg bg-purple-50 border border-purple-100 p-3 text-sm text-purple-800">
+                <Truck className="h-4 w-4 flex-shrink-0" />
+                <span>
+                  Estimated delivery by {formatBillDate(deliverBy)}
+                  {selectedBiller.biller.deliveryMethod === "CHECK" && " (mailed check)"}
+                </span>
+              </div>
+            )}
+            {error && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+            <div className="flex gap-2 pt-2">
+              <Button
+                onClick={handlePay}
+                className="btn-prime-primary flex-1 focus-ring shadow-lg hover:shadow-xl transition-all duration-200"
+                disabled={isBusy || !payment.userBillerId || !payment.amount}
+              >
+                {payMutation.isPending ? (
+                  <>
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Receipt className="h-4 w-4 mr-2" />
+                    {payment.sendOn > today ? "Schedule" : "Pay"} {formatCurrency(parseAmountInput(payment.amount))}
+                  </>
+                )}
+              </Button>
+              <Button variant="outline" onClick={close} disabled={isBusy} className="focus-ring">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="biller-search" className="text-gray-700 font-medium">Search billers</Label>
+              <Input
+                id="biller-search"
+                placeholder="e.g. water, mobile, mortgage"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+              <div className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-200">
+                {directory.length === 0 ? (
+                  <p className="p-3 text-sm text-gray-500">No billers match your search.</p>
+                ) : (
+                  directory.map((biller) => (
+                    <button
+                      key={biller.id}
+                      type="button"
+                      onClick={() => setNewBiller({ ...newBiller, billerId: biller.id })}
+                      className={`w-full text-left p-3 text-sm hover:bg-purple-50 ${newBiller.billerId === biller.id ? "bg-purple-50" : ""}`}
+                    >
+                      <span className="font-medium text-gray-900">{biller.name}</span>
+                      <span className="block text-xs text-gray-500">{BILLER_CATEGORIES[biller.category] || biller.category}</span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="biller-account" className="text-gray-700 font-medium">Your account number with this biller *</Label>
+              <Input
+                id="biller-account"
+                placeholder="As shown on your bill"
+                value={newBiller.accountNumber}
+                onChange={(e) => setNewBiller({ ...newBiller, accountNumber: e.target.value })}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+            </div>
+            <div>
+              <Label htmlFor="biller-nickname" className="text-gray-700 font-medium">Nickname</Label>
+              <Input
+                id="biller-nickname"
+                placeholder="Optional"
+                maxLength={50}
+                value={newBiller.nickname}
+                onChange={(e) => setNewBiller({ ...newBiller, nickname: e.target.value })}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+            <div className="flex gap-2 pt-2">
+              <Button
+                onClick={handleAddBiller}
+                className="btn-prime-primary flex-1 focus-ring"
+                disabled={isBusy || !newBiller.billerId || !newBiller.accountNumber}
+              >
+                {addBillerMutation.isPending ? <LoadingSpinner size="sm" className="mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add biller
+              </Button>
+              <Button variant="outline" onClick={() => { setError(""); setMode("pay"); }} disabled={isBusy} className="focus-ring">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
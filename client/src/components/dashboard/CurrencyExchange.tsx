@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useIdempotencyKey } from "@/hooks/useIdempotencyKey";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatExchangeRate, parseAmountInput } from "@/lib/formatters";
+import { getAccountLabel, type AccountOption } from "./AccountSwitcher";
+import { ArrowRightLeft, Clock, XCircle } from "lucide-react";
+
+export interface FxQuote {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  fromCurrency: string;
+  toCurrency: string;
+  sourceAmount: string;
+  fee: string;
+  totalDebit: string;
+  midRate: string;
+  rate: string;
+  spreadBps: number;
+  spreadAmount: string;
+  convertedAmount: string;
+  expiresAt: string;
+}
+
+interface CurrencyExchangeProps {
+  accounts: AccountOption[];
+  fromAccountId: string;
+}
+
+/**
+ * Convert between the user's accounts in different currencies. A quote locks
+ * the rate for a short time; converting after it expires needs a new quote.
+ */
+export default function CurrencyExchange({ accounts, fromAccountId }: CurrencyExchangeProps) {
+  const queryClient = useQueryClient();
+  const idempotency = useIdempotencyKey();
+  const [toAccountId, setToAccountId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [quote, setQuote] = useState<FxQuote | null>(null);
+  const [error, setError] = useState("");
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const fromAccount = accounts.find((account) => account.id === fromAccountId);
+  const destinations = accounts.filter(
+    (account) => account.status === "ACTIVE" && account.currency !== fromAccount?.currency
+  );
+
+  // A quote is only good for the account and amount it was made for
+  useEffect(() => {
+    setQuote(null);
+    setError("");
+  }, [fromAccountId, toAccountId, amount]);
+
+  useEffect(() => {
+    if (!quote) return;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((new Date(quote.expiresAt).getTime() - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  const quoteMutation = useMutation({
+    mutationFn: async (payload: { fromAccountId: string; toAccountId: string; amount: string }) => {
+      const response = await apiRequest("POST", "/api/user/fx/quotes", payload);
+      return response.json() as Promise<{ quote: FxQuote }>;
+    },
+    onSuccess: (result) => setQuote(result.quote),
+    onError: (error: Error) => setError(error.message.replace(/^\d+:\s*/, "") || "Failed to get a quote"),
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (locked: FxQuote) => {
+      const destination = accounts.find((account) => account.id === locked.toAccountId);
+      const payload = {
+        amount: locked.sourceAmount,
+        transferType: destination?.type === "SAVINGS" ? "savings" : "checking",
+        fromAccountId: locked.fromAccountId,
+        toAccountId: locked.toAccountId,
+        fxQuoteId: locked.id,
+      };
+      const response = await apiRequest("POST", "/api/user/transfer", payload, {
+        "Idempotency-Key": idempotency.keyFor(payload),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      idempotency.reset();
+      setQuote(null);
+      setAmount("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/transactions"] });
+    },
+    onError: (error: Error) => {
+      if (!error.message.startsWith("409")) idempotency.reset();
+      setError(error.message.replace(/^\d+:\s*/, "") || "Conversion failed");
+    },
+  });
+
+  if (!fromAccount || destinations.length === 0) return null;
+
+  const handleQuote = () => {
+    const parsed = parseAmountInput(amount, fromAccount.currency);
+    if (!parsed || !parsed.isPositive()) {
+      setError(`Enter a valid ${fromAccount.currency} amount`);
+      return;
+    }
+    if (!toAccountId) {
+      setError("Choose an account to convert into");
+      return;
+    }
+    quoteMutation.mutate({ fromAccountId: fromAccount.id, toAccountId, amount: parsed.toString() });
+  };
+
+  const expired = quote !== null && secondsLeft === 0;
+
+  return (
+    <Card className="card-elevated slide-in">
+      <CardHeader className="border-b border-white/10 pb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-teal-500 to-blue-600 rounded-xl flex items-center justify-center shadow-lg">
+            <ArrowRightLeft className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <CardTitle className="text-xl font-bold text-white">Currency Exchange</CardTitle>
+            <p className="text-sm text-white/60">
+              Convert from {getAccountLabel(fromAccount)} ({fromAccount.currency})
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="fx-amount" className="text-white/80">Amount ({fromAccount.currency})</Label>
+            <Input
+              id="fx-amount"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="mt-1 bg-white/5 border-white/10 text-white"
+            />
+          </div>
+          <div>
+            <Label htmlFor="fx-to-account" className="text-white/80">Convert into</Label>
+            <Select value={toAccountId} onValueChange={setToAccountId}>
+              <SelectTrigger id="fx-to-account" className="mt-1 bg-white/5 border-white/10 text-white">
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {destinations.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {getAccountLabel(account)} ({account.currency})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-400 flex items-center gap-1">
+            <XCircle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+
+        {quote && (
+          <div className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-2 text-sm">
+            <div className="flex justify-between text-white/70">
+              <span>Rate</span>
+              <span className="text-white">{formatExchangeRate(quote.rate, quote.fromCurrency, quote.toCurrency)}</span>
+            </div>
+            <div className="flex justify-between text-white/70">
+              <span>Fee</span>
+              <span className="text-white">{formatCurrency(quote.fee, true, quote.fromCurrency)}</span>
+            </div>
+            <div className="flex justify-between text-white/70">
+              <span>Total debited</span>
+              <span className="text-white">{formatCurrency(quote.totalDebit, true, quote.fromCurrency)}</span>
+            </div>
+            <div className="flex justify-between font-semibold text-white">
+              <span>You receive</span>
+              <span>{formatCurrency(quote.convertedAmount, true, quote.toCurrency)}</span>
+            </div>
+            <p className={`flex items-center gap-1 text-xs ${expired ? "text-red-400" : "text-white/50"}`}>
+              <Clock className="h-3 w-3" />
+              {expired ? "This quote has expired. Get a new quote to continue." : `Rate locked for ${secondsLeft}s`}
+            </p>
+          </div>
+        )}
+
+        {quote && !expired ? (
+          <Button
+            className="w-full"
+            onClick={() => convertMutation.mutate(quote)}
+            disabled={convertMutation.isPending}
+          >
+            {convertMutation.isPending ? "Converting..." : `Convert ${formatCurrency(quote.sourceAmount, true, quote.fromCurrency)}`}
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleQuote}
+            disabled={quoteMutation.isPending}
+          >
+            {quoteMutation.isPending ? "Getting quote..." : expired ? "Get a new quote" : "Get quote"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/useIdempotencyKey";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatFinancialDate, parseAmountInput } from "@/lib/formatters";
+import { socketClient, type DepositAvailableUpdate, type DepositReturnedUpdate } from "@/services/socketClient";
+import type { Payee } from "@/components/settings/Payees";
+import { Plus, XCircle } from "lucide-react";
+
+export type DepositMethod = "LINKED_BANK" | "WIRE" | "CASH";
+
+export const DEPOSIT_METHOD_LABELS: Record<DepositMethod, string> = {
+  LINKED_BANK: "Linked bank account",
+  WIRE: "Wire transfer",
+  CASH: "Cash at a branch",
+};
+
+export interface DepositLimits {
+  amount: string;
+  count: number;
+  usedAmount: string;
+  usedCount: number;
+  remaining: string;
+}
+
+interface DepositDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  toAccountId?: string;
+  onDeposited?: () => void;
+}
+
+const emptyDeposit = () => ({ method: "LINKED_BANK" as DepositMethod, amount: "", payeeId: "", reference: "" });
+
+/**
+ * Deposit from a linked bank account, by wire or with cash at a branch.
+ * Funds that need to clear are shown with the date they become available.
+ */
+export default function DepositDialog({ open, onOpenChange, toAccountId, onDeposited }: DepositDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const idempotency = useIdempotencyKey();
+  const [deposit, setDeposit] = useState(emptyDeposit);
+  const [error, setError] = useState("");
+
+  const { data: limitsData } = useQuery<{ limits: DepositLimits }>({
+    queryKey: ["/api/user/deposits/limits"],
+    enabled: open,
+  });
+  const { data: payeesData, isLoading: payeesLoading } = useQuery<{ payees: Payee[] }>({
+    queryKey: ["/api/user/payees"],
+    enabled: open && deposit.method === "LINKED_BANK",
+  });
+
+  const limits = limitsData?.limits;
+  const payees = (payeesData?.payees || []).filter((payee) => payee.verificationStatus !== "FAILED");
+
+  // Balances change when a clearing deposit's funds become available, or the
+  // paying bank sends a deposit back
+  useEffect(() => {
+    const handleAvailable = (update: DepositAvailableUpdate) => {
+      toast({ title: "Deposit available", description: update.message });
+      onDeposited?.();
+    };
+    const handleReturned = (update: DepositReturnedUpdate) => {
+      toast({ title: "Deposit returned", description: update.message, variant: "destructive" });
+      onDeposited?.();
+    };
+    socketClient.on("deposit_available", handleAvailable);
+    socketClient.on("deposit_returned", handleReturned);
+    return () => {
+      socketClient.off("deposit_available", handleAvailable);
+      socketClient.off("deposit_returned", handleReturned);
+    };
+  }, [toast, onDeposited]);
+
+  const close = () => {
+    onOpenChange(false);
+    setDeposit(emptyDeposit());
+    setError("");
+  };
+
+  const depositMutation = useMutation({
+    mutationFn: async (payload: Record<string, unknown>) => {
+      const response = await apiRequest("POST", "/api/user/deposits", payload, {
+        "Idempotency-Key": idempotency.keyFor(payload),
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      idempotency.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deposits/limits"] });
+      const availableAt = result.deposit.availableAt;
+      toast({
+        title: result.message,
+        description: result.deposit.status === "CLEARING" && availableAt
+          ? `Funds are fully available ${formatFinancialDate(availableAt)}.`
+          : "Funds are available now.",
+      });
+      onDeposited?.();
+      close();
+    },
+    onError: (error: Error) => {
+      // A rejected request can be corrected and resent; only an in-flight one keeps its key
+      if (!error.message.startsWith("409")) idempotency.reset();
+      setError(error.message.replace(/^\d+:\s*/, ""));
+    },
+  });
+
+  const handleDeposit = () => {
+    setError("");
+    const amount = parseAmountInput(deposit.amount);
+    if (!amount || !amount.isPositive()) return setError("Please enter a valid amount greater than 0");
+    if (limits && amount.gt(limits.remaining)) {
+      return setError(`You can deposit up to ${formatCurrency(limits.remaining)} more today`);
+    }
+    if (deposit.method === "LINKED_BANK" && !deposit.payeeId) return setError("Choose the bank account to pull funds from");
+
+    depositMutation.mutate({
+      method: deposit.method,
+      amount: amount.toString(),
+      accountId: toAccountId,
+      payeeId: deposit.method === "LINKED_BANK" ? deposit.payeeId : undefined,
+      reference: deposit.reference.trim() || undefined,
+    });
+  };
+
+  const isBusy = depositMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-md bg-gradient-to-br from-white via-gray-50 to-white border border-gray-200 shadow-2xl backdrop-blur-sm">
+        <DialogHeader className="border-b border-gray-200 pb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-green-500 to-emerald-600 rounded-xl flex items-center justify-center shadow-lg">
+              <Plus className="h-5 w-5 text-white" aria-hidden="true" />
+            </div>
+            <div>
+              <DialogTitle className="text-xl font-bold text-gray-900">Deposit Money</DialogTitle>
+              <p className="text-sm text-gray-600">Add funds to your account securely</p>
+            </div>
+          </div>
+        </DialogHeader>
+        <div className="space-y-4">
+          {error && (
+            <div className="p-4 bg-gradient-to-r from-red-50 to-red-50/50 border border-red-200 rounded-xl shadow-sm" role="alert">
+              <div className="flex items-center gap-2">
+                <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-700 font-medium">{error}</p>
+              </div>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="deposit-method" className="text-gray-700">Deposit Method</Label>
+            <Select
+              value={deposit.method}
+              onValueChange={(method) => setDeposit({ ...deposit, method: method as DepositMethod })}
+              disabled={isBusy}
+            >
+              <SelectTrigger id="deposit-method" className="mt-1 focus-ring">
+                <SelectValue placeholder="Select deposit method" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DEPOSIT_METHOD_LABELS) as DepositMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>{DEPOSIT_METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {deposit.method === "LINKED_BANK" && (
+            <div>
+              <Label htmlFor="deposit-payee" className="text-gray-700">From account *</Label>
+              <Select
+                value={deposit.payeeId}
+                onValueChange={(payeeId) => setDeposit({ ...deposit, payeeId })}
+                disabled={isBusy || payees.length === 0}
+              >
+                <SelectTrigger id="deposit-payee" className="mt-1 focus-ring">
+                  <SelectValue placeholder={payeesLoading ? "Loading accounts..." : payees.length === 0 ? "Link a bank account in Settings first" : "Choose an account"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {payees.map((payee) => (
+                    <SelectItem key={payee.id} value={payee.id}>
+                      {payee.nickname} · {payee.bankName} ••{payee.accountLast4}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="deposit-amount" className="text-gray-700">Amount *</Label>
+            <Input
+              id="deposit-amount"
+              type="number"
+              placeholder="Enter amount"
+              value={deposit.amount}
+              onChange={(e) => {
+                setDeposit({ ...deposit, amount: e.target.value });
+                if (error) setError("");
+              }}
+              className={`mt-1 focus-ring ${error ? 'border-red-300' : ''}`}
+              min="0"
+              step="0.01"
+              disabled={isBusy}
+            />
+            {limits && (
+              <p className="text-xs text-gray-500 mt-1">
+                {formatCurrency(limits.remaining)} of your {formatCurrency(limits.amount)} daily deposit limit left today
+              </p>
+            )}
+          </div>
+          {deposit.method !== "LINKED_BANK" && (
+            <div>
+              <Label htmlFor="deposit-reference" className="text-gray-700">
+                {deposit.method === "WIRE" ? "Wire reference" : "Branch receipt number"}
+              </Label>
+              <Input
+                id="deposit-reference"
+                placeholder="Optional"
+                maxLength={64}
+                value={deposit.reference}
+                onChange={(e) => setDeposit({ ...deposit, reference: e.target.value })}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+            </div>
+          )}
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleDeposit}
+              className="btn-prime-success flex-1 focus-ring shadow-lg hover:shadow-xl transition-all duration-200"
+              disabled={isBusy || !deposit.amount}
+            >
+              {isBusy ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Processing...
+                </>
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Deposit {formatCurrency(parseAmountInput(deposit.amount))}
+                </>
+              )}
+            </Button>
+            <Button variant="outline" onClick={close} disabled={isBusy} className="focus-ring">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
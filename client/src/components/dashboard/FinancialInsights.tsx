@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { formatCurrency } from "@/lib/formatters";
+import { formatCurrency, toMoney } from "@/lib/formatters";
+import { Money, type MoneyInput } from "@shared/money";
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -23,48 +24,51 @@ import {
 interface Transaction {
   id: string;
   type: string;
-  amount: number;
+  amount: MoneyInput;
   description: string;
   createdAt: string;
 }
 
 interface FinancialInsightsProps {
   transactions: Transaction[];
-  monthlySpending: number;
-  balance: number;
+  monthlySpending: MoneyInput;
+  balance: MoneyInput;
 }
 
-export default function FinancialInsights({ transactions, monthlySpending, balance }: FinancialInsightsProps) {
+export default function FinancialInsights({ transactions, monthlySpending: monthlySpendingInput, balance: balanceInput }: FinancialInsightsProps) {
+  const monthlySpending = toMoney(monthlySpendingInput);
+  const balance = toMoney(balanceInput);
+
   // Enhanced category detection with real transaction analysis
   const categorySpending = transactions
     .filter(t => t.type === 'DEBIT')
     .reduce((acc, t) => {
       const category = getEnhancedCategoryFromDescription(t.description);
       acc[category.name] = {
-        amount: (acc[category.name]?.amount || 0) + Math.abs(t.amount),
+        amount: (acc[category.name]?.amount || Money.zero()).add(toMoney(t.amount).abs()),
         icon: category.icon,
         color: category.color,
         count: (acc[category.name]?.count || 0) + 1
       };
       return acc;
-    }, {} as Record<string, { amount: number; icon: any; color: string; count: number }>);
+    }, {} as Record<string, { amount: Money; icon: any; color: string; count: number }>);
 
-  const totalSpent = Object.values(categorySpending).reduce((sum, cat) => sum + cat.amount, 0);
+  const totalSpent = Money.sum(Object.values(categorySpending).map(cat => cat.amount));
   const topCategories = Object.entries(categorySpending)
-    .sort(([,a], [,b]) => b.amount - a.amount)
+    .sort(([,a], [,b]) => b.amount.compare(a.amount))
     .slice(0, 4);
 
   // Smart spending analysis
-  const avgDailySpending = totalSpent / 30;
+  const avgDailySpending = totalSpent.toNumber() / 30;
   const projectedMonthlySpending = avgDailySpending * 30;
-  const spendingTrend = totalSpent > 0 ? ((totalSpent - projectedMonthlySpending) / projectedMonthlySpending) * 100 : 0;
+  const spendingTrend = totalSpent.isPositive() ? ((totalSpent.toNumber() - projectedMonthlySpending) / projectedMonthlySpending) * 100 : 0;
   
   // Account health assessment
-  const emergencyFundTarget = monthlySpending * 6;
-  const emergencyFundRatio = balance / emergencyFundTarget;
-  const accountHealth = balance > monthlySpending * 6 ? 'excellent' : 
-                       balance > monthlySpending * 3 ? 'good' : 
-                       balance > monthlySpending ? 'fair' : 'needs-attention';
+  const emergencyFundTarget = monthlySpending.multiply(6);
+  const emergencyFundRatio = emergencyFundTarget.isPositive() ? balance.toNumber() / emergencyFundTarget.toNumber() : 0;
+  const accountHealth = balance.gt(monthlySpending.multiply(6)) ? 'excellent' : 
+                       balance.gt(monthlySpending.multiply(3)) ? 'good' : 
+                       balance.gt(monthlySpending) ? 'fair' : 'needs-attention';
 
   return (
     <div className="space-y-8">
@@ -150,7 +154,7 @@ export default function FinancialInsights({ transactions, monthlySpending, balan
 
         <div className="space-y-4">
           {topCategories.length > 0 ? topCategories.map(([category, data], index) => {
-            const percentage = totalSpent > 0 ? (data.amount / totalSpent) * 100 : 0;
+            const percentage = totalSpent.isPositive() ? (data.amount.toNumber() / totalSpent.toNumber()) * 100 : 0;
             const IconComponent = data.icon;
             
             return (
@@ -224,8 +228,8 @@ export default function FinancialInsights({ transactions, monthlySpending, balan
                 {(emergencyFundRatio * 100).toFixed(1)}% complete
               </span>
               <span className="text-banking-muted">
-                {balance >= emergencyFundTarget ? 'Goal achieved!' : 
-                 `${formatCurrency(emergencyFundTarget - balance)} remaining`}
+                {balance.gte(emergencyFundTarget) ? 'Goal achieved!' : 
+                 `${formatCurrency(emergencyFundTarget.subtract(balance))} remaining`}
               </span>
             </div>
           </div>
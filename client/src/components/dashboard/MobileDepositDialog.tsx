@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, parseAmountInput } from "@/lib/formatters";
+import { socketClient, type DepositReviewedUpdate } from "@/services/socketClient";
+import type { DepositLimits } from "./DepositDialog";
+import { Camera, Smartphone, XCircle } from "lucide-react";
+
+interface MobileDepositDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  toAccountId?: string;
+  onDeposited?: () => void;
+}
+
+type CheckSide = "front" | "back";
+
+const emptyCheck = () => ({ amount: "", checkNumber: "", routingNumber: "", accountNumber: "", endorsed: false });
+
+/**
+ * Deposit a paper check from photos of both sides. The check waits for an
+ * admin to review it before anything is credited.
+ */
+export default function MobileDepositDialog({ open, onOpenChange, toAccountId, onDeposited }: MobileDepositDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [check, setCheck] = useState(emptyCheck);
+  const [images, setImages] = useState<Partial<Record<CheckSide, File>>>({});
+  const [previews, setPreviews] = useState<Partial<Record<CheckSide, string>>>({});
+  const [error, setError] = useState("");
+
+  const { data: limitsData } = useQuery<{ limits: DepositLimits }>({
+    queryKey: ["/api/user/deposits/limits"],
+    enabled: open,
+  });
+  const limits = limitsData?.limits;
+
+  // Let the user know when a reviewer has dealt with their check
+  useEffect(() => {
+    const handleReviewed = (update: DepositReviewedUpdate) => {
+      toast({
+        title: update.outcome === "approved" ? "Check deposit approved" : "Check deposit not accepted",
+        description: update.message,
+        variant: update.outcome === "approved" ? "default" : "destructive",
+      });
+      onDeposited?.();
+    };
+    socketClient.on("deposit_reviewed", handleReviewed);
+    return () => socketClient.off("deposit_reviewed", handleReviewed);
+  }, [toast, onDeposited]);
+
+  const selectImage = (side: CheckSide, file?: File) => {
+    setError("");
+    if (previews[side]) URL.revokeObjectURL(previews[side]!);
+    setImages((current) => ({ ...current, [side]: file }));
+    setPreviews((current) => ({ ...current, [side]: file ? URL.createObjectURL(file) : undefined }));
+  };
+
+  const close = () => {
+    onOpenChange(false);
+    Object.values(previews).forEach((url) => url && URL.revokeObjectURL(url));
+    setCheck(emptyCheck());
+    setImages({});
+    setPreviews({});
+    setError("");
+  };
+
+  const depositMutation = useMutation({
+    mutationFn: async (form: FormData) => {
+      const response = await apiRequest("POST", "/api/user/deposits/check", form);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/deposits/limits"] });
+      toast({
+        title: result.message,
+        description: "We'll let you know once it has been reviewed. Keep the check until the funds are available.",
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      setError(error.message.replace(/^\d+:\s*/, ""));
+    },
+  });
+
+  const handleDeposit = () => {
+    setError("");
+    const amount = parseAmountInput(check.amount);
+    if (!images.front || !images.back) return setError("Add photos of the front and back of the check");
+    if (!amount || !amount.isPositive()) return setError("Please enter a valid amount greater than 0");
+    if (limits && amount.gt(limits.remaining)) {
+      return setError(`You can deposit up to ${formatCurrency(limits.remaining)} more today`);
+    }
+    if (!/^\d{1,10}$/.test(check.checkNumber.trim())) return setError("Enter the check number printed on the check");
+    if (!check.endorsed) return setError('Confirm the check is endorsed "For mobile deposit only"');
+
+    const form = new FormData();
+    form.append("front", images.front);
+    form.append("back", images.back);
+    form.append("amount", amount.toString());
+    form.append("checkNumber", check.checkNumber.trim());
+    form.append("endorsed", "true");
+    if (toAccountId) form.append("accountId", toAccountId);
+    if (check.routingNumber.trim()) form.append("routingNumber", check.routingNumber.trim());
+    if (check.accountNumber.trim()) form.append("accountNumber", check.accountNumber.trim());
+
+    depositMutation.mutate(form);
+  };
+
+  const isBusy = depositMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-lg bg-gradient-to-br from-white via-orange-50/30 to-white border border-gray-200 shadow-2xl backdrop-blur-sm">
+        <DialogHeader className="border-b border-gray-200 pb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-orange-500 to-orange-600 rounded-xl flex items-center justify-center shadow-lg">
+              <Smartphone className="h-5 w-5 text-white" aria-hidden="true" />
+            </div>
+            <div>
+              <DialogTitle className="text-xl font-bold text-gray-900">Mobile Deposit</DialogTitle>
+              <p className="text-sm text-gray-600">Photograph both sides of your check</p>
+            </div>
+          </div>
+        </DialogHeader>
+        <div className="space-y-4">
+          {error && (
+            <div className="p-4 bg-gradient-to-r from-red-50 to-red-50/50 border border-red-200 rounded-xl shadow-sm" role="alert">
+              <div className="flex items-center gap-2">
+                <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-700 font-medium">{error}</p>
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            {(["front", "back"] as CheckSide[]).map((side) => (
+              <label
+                key={side}
+                htmlFor={`check-${side}`}
+                className="flex flex-col items-center justify-center h-28 rounded-lg border-2 border-dashed border-gray-300 bg-white cursor-pointer overflow-hidden hover:border-orange-400"
+              >
+                {previews[side] ? (
+                  <img src={previews[side]} alt={`${side} of check`} className="h-full w-full object-cover" />
+                ) : (
+                  <>
+                    <Camera className="h-6 w-6 text-gray-400 mb-1" />
+                    <span className="text-sm text-gray-600">{side === "front" ? "Front of check" : "Back of check"}</span>
+                  </>
+                )}
+                <input
+                  id={`check-${side}`}
+                  type="file"
+                  accept="image/jpeg,image/png"
+                  capture="environment"
+                  className="sr-only"
+                  disabled={isBusy}
+                  onChange={(e) => selectImage(side, e.target.files?.[0])}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="check-amount" className="text-gray-700">Amount *</Label>
+              <Input
+                id="check-amount"
+                type="number"
+                placeholder="0.00"
+                value={check.amount}
+                onChange={(e) => setCheck({ ...check, amount: e.target.value })}
+                className="mt-1 focus-ring"
+                min="0"
+                step="0.01"
+                disabled={isBusy}
+              />
+            </div>
+            <div>
+              <Label htmlFor="check-number" className="text-gray-700">Check number *</Label>
+              <Input
+                id="check-number"
+                inputMode="numeric"
+                placeholder="e.g. 1042"
+                maxLength={10}
+                value={check.checkNumber}
+                onChange={(e) => setCheck({ ...check, checkNumber: e.target.value })}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+          {limits && (
+            <p className="text-xs text-gray-500">
+              {formatCurrency(limits.remaining)} of your {formatCurrency(limits.amount)} daily deposit limit left today
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="check-routing" className="text-gray-700">Routing number</Label>
+              <Input
+                id="check-routing"
+                inputMode="numeric"
+                placeholder="Optional"
+                maxLength={9}
+                value={check.routingNumber}
+                onChange={(e) => setCheck({ ...check, routingNumber: e.target.value })}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+            </div>
+            <div>
+              <Label htmlFor="check-account" className="text-gray-700">Account number</Label>
+              <Input
+                id="check-account"
+                placeholder="Optional"
+                maxLength={17}
+                value={check.accountNumber}
+                onChange={(e) => setCheck({ ...check, accountNumber: e.target.value })}
+                className="mt-1 focus-ring"
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+          <div className="flex items-start space-x-3 rounded-lg bg-orange-50 border border-orange-100 p-3">
+            <Checkbox
+              id="check-endorsed"
+              checked={check.endorsed}
+              onCheckedChange={(checked) => setCheck({ ...check, endorsed: checked === true })}
+              disabled={isBusy}
+            />
+            <Label htmlFor="check-endorsed" className="text-sm text-gray-700 leading-relaxed">
+              I have signed the back of the check and written "For mobile deposit only at Prime Edge"
+            </Label>
+          </div>
+          <div className="flex gap-2 pt-2">
+            <Button
+              onClick={handleDeposit}
+              className="btn-prime-success flex-1 focus-ring shadow-lg hover:shadow-xl transition-all duration-200"
+              disabled={isBusy || !check.amount || !images.front || !images.back}
+            >
+              {isBusy ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Uploading...
+                </>
+              ) : (
+                <>
+                  <Smartphone className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Deposit {formatCurrency(parseAmountInput(check.amount))}
+                </>
+              )}
+            </Button>
+            <Button variant="outline" onClick={close} disabled={isBusy} className="focus-ring">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
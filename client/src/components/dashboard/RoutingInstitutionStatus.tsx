@@ -0,0 +1,54 @@
+import { LoadingSpinner } from "@/components/ui/loading";
+import { CheckCircle, XCircle } from "lucide-react";
+import type { useRoutingLookup } from "@/hooks/useRoutingLookup";
+
+interface RoutingInstitutionStatusProps {
+  routingNumber: string;
+  lookup: ReturnType<typeof useRoutingLookup>;
+  dark?: boolean;
+}
+
+/**
+ * The bank a routing number belongs to, shown under the routing number field
+ */
+export default function RoutingInstitutionStatus({ routingNumber, lookup, dark = false }: RoutingInstitutionStatusProps) {
+  if (routingNumber.length !== 9) return null;
+
+  const okClass = dark ? "text-green-400" : "text-green-600";
+  const errorClass = dark ? "text-red-400" : "text-red-600";
+
+  if (!lookup.checksumValid) {
+    return (
+      <p className={`text-sm mt-1 flex items-center gap-1 ${errorClass}`}>
+        <XCircle className="h-4 w-4" />
+        Routing number is not valid. Please check it and try again.
+      </p>
+    );
+  }
+
+  if (lookup.isLoading) {
+    return (
+      <p className={`text-sm mt-1 flex items-center gap-2 ${dark ? "text-gray-400" : "text-gray-500"}`}>
+        <LoadingSpinner size="sm" />
+        Looking up bank...
+      </p>
+    );
+  }
+
+  if (lookup.institution) {
+    return (
+      <p className={`text-sm mt-1 flex items-center gap-1 ${okClass}`}>
+        <CheckCircle className="h-4 w-4" />
+        {lookup.institution.name}
+        {lookup.institution.city && `, ${lookup.institution.city} ${lookup.institution.state}`}
+      </p>
+    );
+  }
+
+  return (
+    <p className={`text-sm mt-1 flex items-center gap-1 ${errorClass}`}>
+      <XCircle className="h-4 w-4" />
+      Routing number not found. Please verify it with the receiving bank.
+    </p>
+  );
+}
@@ -2,7 +2,8 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { formatCurrency } from "@/lib/formatters";
+import { formatCurrency, toMoney } from "@/lib/formatters";
+import type { MoneyInput } from "@shared/money";
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -16,7 +17,7 @@ import {
 
 interface SpendingData {
   category: string;
-  amount: number;
+  amount: MoneyInput;
   percentage: number;
   change: number;
   trend: 'up' | 'down' | 'neutral';
@@ -26,7 +27,7 @@ interface SpendingData {
 
 interface SpendingChartProps {
   data: SpendingData[];
-  totalSpent: number;
+  totalSpent: MoneyInput;
   period: string;
   showComparison?: boolean;
 }
@@ -74,7 +75,8 @@ export default function SpendingChart({
     }
   };
 
-  const maxAmount = Math.max(...data.map(item => item.amount));
+  // Bar widths are proportions only, so float precision is fine here
+  const maxAmount = Math.max(...data.map(item => toMoney(item.amount).toNumber()));
 
   return (
     <Card className="card-elevated slide-in">
@@ -110,7 +112,7 @@ export default function SpendingChart({
         <div className="space-y-4">
           {animatedData.map((item, index) => {
             const isSelected = selectedCategory === item.category;
-            const barWidth = (item.amount / maxAmount) * 100;
+            const barWidth = maxAmount > 0 ? (toMoney(item.amount).toNumber() / maxAmount) * 100 : 0;
             
             return (
               <div
@@ -204,7 +206,7 @@ export default function SpendingChart({
                       </div>
                       <div>
                         <div className="text-lg font-bold text-white text-currency">
-                          {Math.round(item.amount / (totalSpent / 30))}
+                          {Math.round(toMoney(item.amount).toNumber() / (toMoney(totalSpent).toNumber() / 30))}
                         </div>
                         <div className="text-xs text-white/60 uppercase tracking-wider">
                           Daily Avg
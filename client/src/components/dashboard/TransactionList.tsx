@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { formatCurrency, formatFinancialDate, formatTransactionAmount } from "@/lib/formatters";
+import { formatCurrency, formatExchangeRate, formatFinancialDate, formatTransactionAmount } from "@/lib/formatters";
 import { format } from "date-fns";
 import {
   ArrowUpRight,
@@ -25,13 +25,16 @@ import {
   CheckCircle2,
   AlertCircle,
   XCircle,
-  MoreHorizontal
+  MoreHorizontal,
+  Receipt
 } from "lucide-react";
+import { BILL_PAYMENT_CATEGORY } from "@shared/billPay";
 
 interface Transaction {
   id: string;
   type: string;
-  amount: number;
+  amount: string;
+  currency?: string;
   description: string;
   createdAt: string;
   status?: string; // Added for TransactionStatus enum
@@ -42,6 +45,7 @@ interface Transaction {
     recipientInfo?: string;
     approvedAt?: string;
     rejectedAt?: string;
+    cancelledAt?: string;
     approvedBy?: string;
     rejectedBy?: string;
     reason?: string;
@@ -50,6 +54,17 @@ interface Transaction {
     category?: string;
     merchant?: string;
     location?: string;
+    accountLast4?: string;
+    deliverBy?: string;
+    senderInfo?: string;
+    availableAt?: string;
+    conversion?: {
+      fromCurrency: string;
+      toCurrency: string;
+      sourceAmount: string;
+      convertedAmount: string;
+      rate: string;
+    };
   };
 }
 
@@ -58,13 +73,17 @@ interface TransactionListProps {
   title?: string;
   showSearch?: boolean;
   maxHeight?: string;
+  onCancelTransfer?: (transaction: Transaction) => void;
+  cancellingTransferId?: string | null;
 }
 
 export default function TransactionList({ 
   transactions, 
   title = "Recent Activity",
   showSearch = false,
-  maxHeight = "auto"
+  maxHeight = "auto",
+  onCancelTransfer,
+  cancellingTransferId
 }: TransactionListProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
@@ -73,6 +92,9 @@ export default function TransactionList({
     const desc = description.toLowerCase();
     const cat = category?.toLowerCase();
     
+    if (cat === BILL_PAYMENT_CATEGORY) {
+      return { icon: Receipt, color: 'from-purple-500 to-purple-600' };
+    }
     if (cat === 'groceries' || desc.includes('grocery') || desc.includes('food')) {
       return { icon: ShoppingCart, color: 'from-green-500 to-green-600' };
     }
@@ -101,24 +123,40 @@ export default function TransactionList({
     return { icon: Briefcase, color: 'from-gray-500 to-gray-600' };
   };
 
+  // External transfers keep moving after COMPLETED: sent over ACH, then settled or returned.
+  // Cancelled transfers are stored as FAILED but should not read as rejected.
+  // Deposits are PENDING while they clear.
+  const METADATA_STATUSES = ['sent', 'settled', 'returned', 'cancelled', 'clearing'];
+
+  const getEffectiveStatus = (transaction: Transaction) =>
+    METADATA_STATUSES.includes(transaction.metadata?.status ?? '')
+      ? transaction.metadata?.status
+      : transaction.status || transaction.metadata?.status;
+
   const getStatusIcon = (transaction: Transaction) => {
     // Check both transaction.status and metadata.status for comprehensive status handling
-    const status = transaction.status || transaction.metadata?.status;
+    const status = getEffectiveStatus(transaction);
     
     switch (status) {
       case 'COMPLETED':
       case 'completed':
       case 'approved':
+      case 'settled':
         return <CheckCircle2 className="h-3 w-3 text-green-400" />;
       case 'PENDING':
       case 'pending':
+      case 'clearing':
         return <Clock className="h-3 w-3 text-yellow-400" />;
       case 'FAILED':
       case 'failed':
       case 'rejected':
+      case 'returned':
         return <XCircle className="h-3 w-3 text-red-400" />;
       case 'processing':
+      case 'sent':
         return <AlertCircle className="h-3 w-3 text-blue-400" />;
+      case 'cancelled':
+        return <XCircle className="h-3 w-3 text-gray-400" />;
       default:
         return null;
     }
@@ -128,14 +166,18 @@ export default function TransactionList({
     switch (status) {
       case 'PENDING':
       case 'pending':
+      case 'clearing':
         return 'bg-yellow-500/20 text-yellow-300 border-yellow-400/30';
       case 'COMPLETED':
       case 'approved':
+      case 'settled':
         return 'bg-green-500/20 text-green-300 border-green-400/30';
       case 'FAILED':
       case 'rejected':
+      case 'returned':
         return 'bg-red-500/20 text-red-300 border-red-400/30';
       case 'processing':
+      case 'sent':
         return 'bg-blue-500/20 text-blue-300 border-blue-400/30';
       default:
         return 'bg-gray-500/20 text-gray-300 border-gray-400/30';
@@ -143,9 +185,15 @@ export default function TransactionList({
   };
 
   const getStatusDisplayText = (transaction: Transaction) => {
-    const status = transaction.status || transaction.metadata?.status;
+    const status = getEffectiveStatus(transaction);
     const requiresApproval = transaction.metadata?.requiresApproval;
     
+    if (status === 'sent') return 'Sent to Bank';
+    if (status === 'settled') return 'Settled';
+    if (status === 'returned') return 'Returned';
+    if (status === 'cancelled') return 'Cancelled';
+    if (status === 'clearing') return 'Clearing';
+    
     if (status === 'PENDING' || status === 'pending') {
       return requiresApproval ? 'Awaiting Approval' : 'Pending';
     }
@@ -158,6 +206,12 @@ export default function TransactionList({
     return status || 'Completed';
   };
 
+  const canCancel = (transaction: Transaction) =>
+    !!onCancelTransfer &&
+    transaction.type === 'DEBIT' &&
+    transaction.metadata?.transferType === 'external_bank' &&
+    transaction.metadata?.status === 'pending';
+
   const getTransferTypeDisplay = (transaction: Transaction) => {
     if (transaction.metadata?.transferType === 'external_bank') {
       return `External Transfer to ${transaction.metadata?.bankName || 'Bank'}`;
@@ -227,11 +281,12 @@ export default function TransactionList({
                 transaction.description, 
                 transaction.metadata?.category
               );
-              const formattedAmount = formatTransactionAmount(transaction.amount, transaction.type as 'CREDIT' | 'DEBIT');
+              const formattedAmount = formatTransactionAmount(transaction.amount, transaction.type as 'CREDIT' | 'DEBIT', transaction.currency);
+              const conversion = transaction.metadata?.conversion;
               const statusIcon = getStatusIcon(transaction);
               const displayDescription = getTransferTypeDisplay(transaction);
               const statusText = getStatusDisplayText(transaction);
-              const currentStatus = transaction.status || transaction.metadata?.status;
+              const currentStatus = getEffectiveStatus(transaction);
               
               return (
                 <div 
@@ -265,6 +320,12 @@ export default function TransactionList({
                             <div className={`text-lg font-bold text-currency ${formattedAmount.colorClass}`}>
                               {formattedAmount.display}
                             </div>
+                            {conversion && (
+                              <div className="text-xs text-white/50">
+                                {formatCurrency(conversion.sourceAmount, true, conversion.fromCurrency)} → {formatCurrency(conversion.convertedAmount, true, conversion.toCurrency)}
+                                <span className="block">{formatExchangeRate(conversion.rate, conversion.fromCurrency, conversion.toCurrency)}</span>
+                              </div>
+                            )}
                           </div>
                         </div>
                         
@@ -298,6 +359,18 @@ export default function TransactionList({
                               {transaction.type}
                             </Badge>
                             
+                            {canCancel(transaction) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={cancellingTransferId === transaction.id}
+                                onClick={() => onCancelTransfer?.(transaction)}
+                                className="h-6 px-2 text-xs text-red-300 hover:text-red-200 hover:bg-red-500/10"
+                              >
+                                {cancellingTransferId === transaction.id ? "Cancelling..." : "Cancel"}
+                              </Button>
+                            )}
+
                             <Button 
                               variant="ghost" 
                               size="sm" 
@@ -314,6 +387,27 @@ export default function TransactionList({
                           </div>
                         )}
                         
+                        {transaction.metadata?.category === BILL_PAYMENT_CATEGORY && (
+                          <div className="text-xs text-white/50 mt-1">
+                            {transaction.metadata.accountLast4 && <span>Account ••{transaction.metadata.accountLast4}</span>}
+                            {transaction.metadata.deliverBy && (
+                              <span> · Arrives by {new Date(`${transaction.metadata.deliverBy}T00:00:00.000Z`).toLocaleDateString('en-US', { timeZone: 'UTC' })}</span>
+                            )}
+                          </div>
+                        )}
+
+                        {transaction.metadata?.transferType === 'deposit' && (
+                          <div className="text-xs text-white/50 mt-1">
+                            {transaction.metadata.senderInfo && <span>From {transaction.metadata.senderInfo}</span>}
+                            {transaction.metadata.status === 'clearing' && transaction.metadata.availableAt && (
+                              <span>{transaction.metadata.senderInfo && ' · '}Available {formatFinancialDate(transaction.metadata.availableAt)}</span>
+                            )}
+                            {transaction.metadata.status === 'returned' && transaction.metadata.reason && (
+                              <div className="text-red-300">Returned: {transaction.metadata.reason}</div>
+                            )}
+                          </div>
+                        )}
+
                         {/* External Transfer Additional Info */}
                         {transaction.metadata?.transferType === 'external_bank' && (
                           <div className="text-xs text-white/50 mt-1 space-y-1">
@@ -334,7 +428,7 @@ export default function TransactionList({
                                 )}
                               </div>
                             )}
-                            {transaction.metadata.reason && currentStatus === 'rejected' && (
+                            {transaction.metadata.reason && (currentStatus === 'rejected' || currentStatus === 'returned') && (
                               <div className="text-red-300">Reason: {transaction.metadata.reason}</div>
                             )}
                           </div>
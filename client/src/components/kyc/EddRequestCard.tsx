@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatFinancialDate } from "@/lib/formatters";
+import { Clock, Landmark } from "lucide-react";
+
+interface EddRequest {
+  case: {
+    id: string;
+    status: "AWAITING_DOCUMENTS" | "SUBMITTED";
+    informationRequest: string | null;
+    sourceOfWealth: string | null;
+    documentIds: string[];
+    submittedAt: string | null;
+    createdAt: string;
+  } | null;
+  documents: Array<{ id: string; originalName: string; uploadedAt: string }>;
+}
+
+const errorText = (error: Error) => error.message.replace(/^\d+:\s*/, "");
+
+/**
+ * Asks the customer for their source of wealth and supporting documents
+ * while an enhanced due diligence review is open. Hidden otherwise.
+ */
+export default function EddRequestCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sourceOfWealth, setSourceOfWealth] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data } = useQuery<EddRequest>({
+    queryKey: ["/api/user/edd"],
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/edd/submit", { sourceOfWealth, documentIds: selected });
+      return response.json();
+    },
+    onSuccess: () => {
+      setSourceOfWealth("");
+      setSelected([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/edd"] });
+      toast({ title: "Documents submitted", description: "We will let you know if we need anything else." });
+    },
+    onError: (error: Error) => toast({ title: "Submission failed", description: errorText(error), variant: "destructive" }),
+  });
+
+  const eddCase = data?.case;
+  if (!eddCase) return null;
+
+  const documents = data.documents;
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, id] : current.filter((documentId) => documentId !== id)));
+
+  return (
+    <Card className="card-gradient border-white/10 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Landmark className="h-5 w-5 text-teal-400" />
+          Source of Wealth Review
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {eddCase.status === "SUBMITTED" ? (
+          <div className="flex items-start gap-3 text-blue-100">
+            <Clock className="h-5 w-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+            <p>
+              Thank you. Your documents were submitted
+              {eddCase.submittedAt && ` on ${formatFinancialDate(eddCase.submittedAt)}`} and are being reviewed.
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="text-blue-100">
+              As part of our regulatory obligations we need to understand where your wealth comes from. Please
+              describe it below and attach documents that support it, such as payslips, tax returns, sale contracts
+              or statements from investment accounts.
+            </p>
+
+            {eddCase.informationRequest && (
+              <Alert className="bg-yellow-500/10 border-yellow-500/30">
+                <AlertDescription className="text-yellow-100">{eddCase.informationRequest}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-white" htmlFor="source-of-wealth">Source of wealth</Label>
+              <Textarea
+                id="source-of-wealth"
+                className="bg-white/10 border-white/20 text-white"
+                placeholder="e.g. Salary as a senior civil servant since 2010 and the sale of a family property in 2019"
+                value={sourceOfWealth}
+                onChange={(event) => setSourceOfWealth(event.target.value)}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white">Supporting documents</Label>
+              {documents.length === 0 ? (
+                <p className="text-sm text-gray-400">Upload documents below with the type "Source of Wealth", then select them here.</p>
+              ) : (
+                documents.map((document) => (
+                  <label key={document.id} className="flex items-center gap-2 text-sm text-blue-100">
+                    <Checkbox
+                      checked={selected.includes(document.id)}
+                      onCheckedChange={(checked) => toggle(document.id, checked === true)}
+                    />
+                    {document.originalName}
+                    <span className="text-gray-400">· {formatFinancialDate(document.uploadedAt)}</span>
+                  </label>
+                ))
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                className="bg-teal-600 hover:bg-teal-700"
+                disabled={submitMutation.isPending || !sourceOfWealth.trim() || selected.length === 0}
+                onClick={() => submitMutation.mutate()}
+              >
+                Submit for review
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
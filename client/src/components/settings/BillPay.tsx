@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatFinancialDate } from "@/lib/formatters";
+import { socketClient, type BillPaymentUpdate } from "@/services/socketClient";
+import BillPayDialog, { describeUserBiller, formatBillDate, type UserBiller } from "@/components/dashboard/BillPayDialog";
+import { BILLER_CATEGORIES } from "@shared/billPay";
+import { Plus, Receipt, Trash2, Truck, X } from "lucide-react";
+
+export interface BillPayment {
+  id: string;
+  userBillerId: string | null;
+  billerName: string;
+  accountLast4: string;
+  amount: string;
+  currency: string;
+  memo: string | null;
+  sendOn: string;
+  deliverBy: string;
+  status: "SCHEDULED" | "SENT" | "FAILED" | "CANCELLED";
+  failureReason: string | null;
+  sentAt: string | null;
+}
+
+const STATUS_STYLES: Record<BillPayment["status"], string> = {
+  SCHEDULED: "bg-blue-100 text-blue-700 border-blue-200",
+  SENT: "bg-green-100 text-green-700 border-green-200",
+  FAILED: "bg-red-100 text-red-700 border-red-200",
+  CANCELLED: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+export default function BillPay() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [payOpen, setPayOpen] = useState(false);
+
+  const { data: billersData, isLoading: billersLoading } = useQuery<{ billers: UserBiller[] }>({
+    queryKey: ["/api/user/bill-pay/billers"],
+  });
+  const { data: paymentsData, isLoading: paymentsLoading } = useQuery<{ payments: BillPayment[] }>({
+    queryKey: ["/api/user/bill-pay/payments"],
+  });
+
+  const billers = billersData?.billers || [];
+  const payments = paymentsData?.payments || [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/bill-pay/billers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/bill-pay/payments"] });
+  };
+
+  // Refresh when a scheduled payment goes out (or fails) on its send-on date
+  useEffect(() => {
+    const handleUpdate = (update: BillPaymentUpdate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/bill-pay/payments"] });
+      toast({
+        title: update.outcome === "sent" ? "Bill payment sent" : "Bill payment not sent",
+        description: update.message,
+        variant: update.outcome === "sent" ? "default" : "destructive",
+      });
+    };
+    socketClient.on("bill_payment", handleUpdate);
+    return () => socketClient.off("bill_payment", handleUpdate);
+  }, [queryClient, toast]);
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/user/bill-pay/billers/${id}`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({
+        title: result.message,
+        description: result.cancelledPayments > 0 ? `${result.cancelledPayments} scheduled payment(s) were cancelled.` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to remove biller", description: error.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/user/bill-pay/payments/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      toast({ title: "Unable to cancel payment", description: error.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="card-gradient border-white/10">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-white flex items-center gap-2">
+            <Receipt className="h-5 w-5 text-purple-400" />
+            Bill Pay
+          </CardTitle>
+          <Button onClick={() => setPayOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Pay a Bill
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-300">Your billers</h3>
+          {billersLoading ? (
+            <div className="text-gray-400 text-sm">Loading billers...</div>
+          ) : billers.length === 0 ? (
+            <div className="text-gray-400 text-sm">No billers yet. Add one when you pay your first bill.</div>
+          ) : (
+            billers.map((userBiller) => (
+              <div key={userBiller.id} className="p-4 bg-white/5 rounded-lg border border-white/10 flex items-center justify-between gap-3">
+                <div>
+                  <h4 className="font-semibold text-white">{describeUserBiller(userBiller)}</h4>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400">
+                    <span>{BILLER_CATEGORIES[userBiller.biller.category] || userBiller.biller.category}</span>
+                    {userBiller.nickname !== userBiller.biller.name && <span>{userBiller.biller.name}</span>}
+                    {userBiller.lastPaidAt && <span>Last paid {formatFinancialDate(userBiller.lastPaidAt)}</span>}
+                    {!userBiller.biller.isActive && <span className="text-yellow-400">No longer available</span>}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={removeMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Remove ${userBiller.nickname}? Its scheduled payments will be cancelled.`)) {
+                      removeMutation.mutate(userBiller.id);
+                    }
+                  }}
+                  className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-300">Payments</h3>
+          {paymentsLoading ? (
+            <div className="text-gray-400 text-sm">Loading payments...</div>
+          ) : payments.length === 0 ? (
+            <div className="text-gray-400 text-sm">No bill payments yet.</div>
+          ) : (
+            payments.map((payment) => (
+              <div key={payment.id} className="p-4 bg-white/5 rounded-lg border border-white/10 flex items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="font-semibold text-white">
+                      {formatCurrency(payment.amount, true, payment.currency)} to {payment.billerName} ••{payment.accountLast4}
+                    </h4>
+                    <Badge className={STATUS_STYLES[payment.status]}>{payment.status.toLowerCase()}</Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400">
+                    <span>Send on {formatBillDate(payment.sendOn)}</span>
+                    <span className="flex items-center gap-1">
+                      <Truck className="h-3 w-3" />
+                      Arrives by {formatBillDate(payment.deliverBy)}
+                    </span>
+                    {payment.memo && <span>{payment.memo}</span>}
+                  </div>
+                  {payment.failureReason && (
+                    <p className="text-sm text-red-400 mt-1">{payment.failureReason}</p>
+                  )}
+                </div>
+                {payment.status === "SCHEDULED" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate(payment.id)}
+                    className="border-white/20 text-gray-300 hover:bg-white/10"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      <BillPayDialog open={payOpen} onOpenChange={setPayOpen} onPaid={invalidate} />
+    </Card>
+  );
+}
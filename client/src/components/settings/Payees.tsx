@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useRoutingLookup } from "@/hooks/useRoutingLookup";
+import RoutingInstitutionStatus from "@/components/dashboard/RoutingInstitutionStatus";
+import { formatCurrency, formatFinancialDate } from "@/lib/formatters";
+import { BookUser, Building2, Clock, Plus, Trash2, AlertTriangle } from "lucide-react";
+
+export interface Payee {
+  id: string;
+  nickname: string;
+  accountHolderName: string;
+  bankName: string;
+  routingNumber: string;
+  accountLast4: string;
+  verificationStatus: "UNVERIFIED" | "VERIFIED" | "FAILED";
+  verifiedAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  coolingOff: { endsAt: string; limit: string; remaining: string } | null;
+}
+
+const VERIFICATION_STYLES: Record<Payee["verificationStatus"], string> = {
+  UNVERIFIED: "bg-gray-100 text-gray-700 border-gray-200",
+  VERIFIED: "bg-green-100 text-green-700 border-green-200",
+  FAILED: "bg-red-100 text-red-700 border-red-200",
+};
+
+export const describePayee = (payee: Payee) => `${payee.nickname} (${payee.bankName} ••${payee.accountLast4})`;
+
+const emptyForm = () => ({
+  nickname: "",
+  accountHolderName: "",
+  routingNumber: "",
+  accountNumber: "",
+});
+
+export default function Payees() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const routingLookup = useRoutingLookup(form.routingNumber);
+
+  const { data, isLoading } = useQuery<{ payees: Payee[] }>({
+    queryKey: ["/api/user/payees"],
+  });
+
+  const payees = data?.payees || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/user/payees"] });
+
+  const createMutation = useMutation({
+    mutationFn: async (payload: ReturnType<typeof emptyForm>) => {
+      const response = await apiRequest("POST", "/api/user/payees", payload);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setForm(emptyForm());
+      setShowForm(false);
+      invalidate();
+      const coolingOff = result.payee?.coolingOff;
+      toast({
+        title: "Payee added",
+        description: coolingOff
+          ? `You can send up to ${formatCurrency(coolingOff.limit)} to this payee until ${formatFinancialDate(coolingOff.endsAt, true)}.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      setFormError(error.message.replace(/^\d+:\s*/, ""));
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/user/payees/${id}`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to remove payee", description: error.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = () => {
+    setFormError(null);
+    createMutation.mutate({
+      nickname: form.nickname.trim(),
+      accountHolderName: form.accountHolderName.trim(),
+      routingNumber: form.routingNumber.trim(),
+      accountNumber: form.accountNumber.trim(),
+    });
+  };
+
+  const update = (changes: Partial<ReturnType<typeof emptyForm>>) => setForm((current) => ({ ...current, ...changes }));
+
+  return (
+    <Card className="card-gradient border-white/10">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-white flex items-center gap-2">
+            <BookUser className="h-5 w-5 text-indigo-400" />
+            Saved Payees
+          </CardTitle>
+          <Button
+            onClick={() => setShowForm((open) => !open)}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Payee
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="p-4 bg-white/5 rounded-lg border border-white/10 space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Nickname</Label>
+                <Input
+                  maxLength={50}
+                  value={form.nickname}
+                  onChange={(e) => update({ nickname: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                  placeholder="e.g. Landlord"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Account holder name</Label>
+                <Input
+                  maxLength={22}
+                  value={form.accountHolderName}
+                  onChange={(e) => update({ accountHolderName: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Routing number</Label>
+                <Input
+                  inputMode="numeric"
+                  maxLength={9}
+                  value={form.routingNumber}
+                  onChange={(e) => update({ routingNumber: e.target.value.replace(/\D/g, "") })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+                <RoutingInstitutionStatus routingNumber={form.routingNumber} lookup={routingLookup} dark />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Account number</Label>
+                <Input
+                  maxLength={17}
+                  value={form.accountNumber}
+                  onChange={(e) => update({ accountNumber: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-400">
+              For your security, transfers to a new payee are limited for the first day after it is added.
+            </p>
+
+            {formError && (
+              <Alert className="bg-red-950/50 border-red-500/30">
+                <AlertTriangle className="h-4 w-4 text-red-400" />
+                <AlertDescription className="text-red-200">{formError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => { setShowForm(false); setFormError(null); }}
+                className="border-white/20 text-gray-300 hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={createMutation.isPending || routingLookup.notFound} className="bg-blue-600 hover:bg-blue-700">
+                {createMutation.isPending ? "Saving..." : "Save Payee"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-gray-400 text-sm">Loading payees...</div>
+        ) : payees.length === 0 ? (
+          <div className="text-gray-400 text-sm">No saved payees yet.</div>
+        ) : (
+          payees.map((payee) => (
+            <div key={payee.id} className="p-4 bg-white/5 rounded-lg border border-white/10">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-white">{payee.nickname}</h3>
+                    <Badge className={VERIFICATION_STYLES[payee.verificationStatus]}>{payee.verificationStatus.toLowerCase()}</Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400">
+                    <span className="flex items-center gap-1">
+                      <Building2 className="h-3 w-3" />
+                      {payee.accountHolderName} at {payee.bankName} ••{payee.accountLast4}
+                    </span>
+                    <span>Added {formatFinancialDate(payee.createdAt)}</span>
+                    {payee.lastUsedAt && <span>Last paid {formatFinancialDate(payee.lastUsedAt)}</span>}
+                  </div>
+                  {payee.coolingOff && (
+                    <p className="text-sm text-yellow-400 mt-1 flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      New payee: {formatCurrency(payee.coolingOff.remaining)} of {formatCurrency(payee.coolingOff.limit)} available
+                      until {formatFinancialDate(payee.coolingOff.endsAt, true)}
+                    </p>
+                  )}
+                  {payee.verificationStatus === "FAILED" && (
+                    <p className="text-sm text-red-400 mt-1">The receiving bank rejected these account details.</p>
+                  )}
+                </div>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={removeMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Remove ${payee.nickname} from your payees?`)) {
+                      removeMutation.mutate(payee.id);
+                    }
+                  }}
+                  className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,546 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/useIdempotencyKey";
+import { useRoutingLookup } from "@/hooks/useRoutingLookup";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatFinancialDate, parseAmountInput } from "@/lib/formatters";
+import { socketClient, type ScheduledTransferUpdate } from "@/services/socketClient";
+import { getAccountLabel, type AccountOption } from "@/components/dashboard/AccountSwitcher";
+import RoutingInstitutionStatus from "@/components/dashboard/RoutingInstitutionStatus";
+import { describePayee, type Payee } from "@/components/settings/Payees";
+import { CalendarClock, Pause, Play, Plus, Repeat, X, AlertTriangle } from "lucide-react";
+
+type Frequency = "ONCE" | "WEEKLY" | "BIWEEKLY" | "MONTHLY" | "DAY_OF_MONTH";
+type TransferType = "checking" | "savings" | "external_bank" | "p2p";
+
+export interface ScheduledTransfer {
+  id: string;
+  fromAccountId: string | null;
+  transferType: TransferType;
+  amount: string;
+  recipientInfo: string;
+  bankName: string | null;
+  recipientName: string | null;
+  note: string | null;
+  frequency: Frequency;
+  dayOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+  occurrenceCount: number;
+  onInsufficientFunds: "RETRY" | "SKIP";
+  status: "ACTIVE" | "PAUSED" | "COMPLETED" | "CANCELLED" | "FAILED";
+  nextRunDate: string | null;
+  retryAt: string | null;
+  lastRunAt: string | null;
+  lastOutcome: string | null;
+  lastError: string | null;
+}
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  ONCE: "One time",
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Every two weeks",
+  MONTHLY: "Monthly",
+  DAY_OF_MONTH: "Monthly on a specific day",
+};
+
+const STATUS_STYLES: Record<ScheduledTransfer["status"], string> = {
+  ACTIVE: "bg-green-100 text-green-700 border-green-200",
+  PAUSED: "bg-yellow-100 text-yellow-700 border-yellow-200",
+  COMPLETED: "bg-blue-100 text-blue-700 border-blue-200",
+  CANCELLED: "bg-gray-100 text-gray-700 border-gray-200",
+  FAILED: "bg-red-100 text-red-700 border-red-200",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Schedule dates are calendar days stored at midnight UTC
+const formatScheduleDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { timeZone: "UTC", month: "short", day: "numeric", year: "numeric" });
+
+const describeSchedule = (schedule: ScheduledTransfer) => {
+  if (schedule.frequency === "DAY_OF_MONTH") return `Monthly on day ${schedule.dayOfMonth}`;
+  return FREQUENCY_LABELS[schedule.frequency];
+};
+
+const describeRecipient = (schedule: ScheduledTransfer) => {
+  switch (schedule.transferType) {
+    case "external_bank":
+      return `${schedule.recipientName || "Account"} at ${schedule.bankName} ••${schedule.recipientInfo.slice(-4)}`;
+    case "p2p":
+      return schedule.recipientInfo;
+    default:
+      return `Your ${schedule.transferType} account`;
+  }
+};
+
+const emptyForm = () => ({
+  transferType: "savings" as TransferType,
+  fromAccountId: "",
+  amount: "",
+  recipientInfo: "",
+  payeeId: "",
+  routingNumber: "",
+  recipientName: "",
+  note: "",
+  frequency: "MONTHLY" as Frequency,
+  dayOfMonth: "1",
+  startDate: today(),
+  endType: "never" as "never" | "date" | "count",
+  endDate: "",
+  maxOccurrences: "",
+  onInsufficientFunds: "RETRY" as "RETRY" | "SKIP",
+});
+
+interface ScheduledTransfersProps {
+  recurringEnabled: boolean;
+}
+
+export default function ScheduledTransfers({ recurringEnabled }: ScheduledTransfersProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const idempotency = useIdempotencyKey();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const routingLookup = useRoutingLookup(form.routingNumber);
+
+  const { data, isLoading } = useQuery<{ scheduledTransfers: ScheduledTransfer[] }>({
+    queryKey: ["/api/user/scheduled-transfers"],
+  });
+  const { data: accountsData } = useQuery<{ accounts: AccountOption[] }>({
+    queryKey: ["/api/user/accounts"],
+  });
+  const { data: payeesData } = useQuery<{ payees: Payee[] }>({
+    queryKey: ["/api/user/payees"],
+  });
+
+  const scheduledTransfers = data?.scheduledTransfers || [];
+  const accounts = (accountsData?.accounts || []).filter((account) => account.status === "ACTIVE");
+  const payees = payeesData?.payees || [];
+
+  // Refresh when the scheduler runs one of the user's transfers
+  useEffect(() => {
+    const handleUpdate = (update: ScheduledTransferUpdate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/scheduled-transfers"] });
+      toast({
+        title: update.outcome === "executed" ? "Scheduled transfer sent" : "Scheduled transfer not sent",
+        description: update.message,
+        variant: update.outcome === "executed" ? "default" : "destructive",
+      });
+    };
+    socketClient.on("scheduled_transfer", handleUpdate);
+    return () => socketClient.off("scheduled_transfer", handleUpdate);
+  }, [queryClient, toast]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/user/scheduled-transfers"] });
+
+  const buildPayload = () => {
+    const amount = parseAmountInput(form.amount);
+    if (!amount || !amount.isPositive()) throw new Error("Enter a valid amount");
+
+    const isOwnAccount = form.transferType === "checking" || form.transferType === "savings";
+    const payload: Record<string, unknown> = {
+      amount: amount.toString(),
+      transferType: form.transferType,
+      recipientInfo: isOwnAccount ? `${form.transferType} account` : form.recipientInfo.trim(),
+      fromAccountId: form.fromAccountId || undefined,
+      frequency: form.frequency,
+      startDate: form.startDate,
+      onInsufficientFunds: form.onInsufficientFunds,
+      note: form.note.trim() || undefined,
+    };
+
+    if (form.transferType === "external_bank" && form.payeeId) {
+      payload.payeeId = form.payeeId;
+    } else if (form.transferType === "external_bank") {
+      payload.routingNumber = form.routingNumber.trim();
+      payload.recipientName = form.recipientName.trim();
+    }
+    if (form.frequency === "DAY_OF_MONTH") payload.dayOfMonth = parseInt(form.dayOfMonth, 10);
+    if (form.frequency !== "ONCE" && form.endType === "date") payload.endDate = form.endDate;
+    if (form.frequency !== "ONCE" && form.endType === "count") payload.maxOccurrences = parseInt(form.maxOccurrences, 10);
+
+    return payload;
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (payload: Record<string, unknown>) => {
+      const response = await apiRequest("POST", "/api/user/scheduled-transfers", payload, {
+        "Idempotency-Key": idempotency.keyFor(payload),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      idempotency.reset();
+      setForm(emptyForm());
+      setShowForm(false);
+      invalidate();
+      toast({ title: "Transfer scheduled", description: "We'll send it on the scheduled date." });
+    },
+    onError: (error: Error) => {
+      // A rejected request can be corrected and resent; only an in-flight one keeps its key
+      if (!error.message.startsWith("409")) idempotency.reset();
+      setFormError(error.message.replace(/^\d+:\s*/, ""));
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "pause" | "resume" | "cancel" }) => {
+      const response = action === "cancel"
+        ? await apiRequest("DELETE", `/api/user/scheduled-transfers/${id}`)
+        : await apiRequest("POST", `/api/user/scheduled-transfers/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to update scheduled transfer", description: error.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = () => {
+    setFormError(null);
+    try {
+      createMutation.mutate(buildPayload());
+    } catch (error) {
+      setFormError((error as Error).message);
+    }
+  };
+
+  const update = (changes: Partial<ReturnType<typeof emptyForm>>) => setForm((current) => ({ ...current, ...changes }));
+
+  return (
+    <Card className="card-gradient border-white/10">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-white flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-teal-400" />
+            Scheduled Transfers
+          </CardTitle>
+          <Button
+            onClick={() => setShowForm((open) => !open)}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Schedule Transfer
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="p-4 bg-white/5 rounded-lg border border-white/10 space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Transfer to</Label>
+                <Select value={form.transferType} onValueChange={(value) => update({ transferType: value as TransferType })}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="savings">My savings account</SelectItem>
+                    <SelectItem value="checking">My checking account</SelectItem>
+                    <SelectItem value="p2p">Another Prime Edge customer</SelectItem>
+                    <SelectItem value="external_bank">Account at another bank</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-white font-medium">From account</Label>
+                <Select value={form.fromAccountId || "primary"} onValueChange={(value) => update({ fromAccountId: value === "primary" ? "" : value })}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="primary">Primary account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{getAccountLabel(account)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Amount</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => update({ amount: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                  placeholder="0.00"
+                />
+              </div>
+
+              {form.transferType === "p2p" && (
+                <div className="space-y-2">
+                  <Label className="text-white font-medium">Recipient</Label>
+                  <Input
+                    value={form.recipientInfo}
+                    onChange={(e) => update({ recipientInfo: e.target.value })}
+                    className="bg-white/10 border-white/20 text-white"
+                    placeholder="Account number, email or phone"
+                  />
+                </div>
+              )}
+
+              {form.transferType === "external_bank" && payees.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-white font-medium">Payee</Label>
+                  <Select value={form.payeeId || "new"} onValueChange={(value) => update({ payeeId: value === "new" ? "" : value })}>
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="new">Enter account details</SelectItem>
+                      {payees.map((payee) => (
+                        <SelectItem key={payee.id} value={payee.id}>{describePayee(payee)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {form.transferType === "external_bank" && !form.payeeId && (
+                <>
+                  <div className="space-y-2">
+                    <Label className="text-white font-medium">Routing number</Label>
+                    <Input
+                      inputMode="numeric"
+                      maxLength={9}
+                      value={form.routingNumber}
+                      onChange={(e) => update({ routingNumber: e.target.value.replace(/\D/g, "") })}
+                      className="bg-white/10 border-white/20 text-white"
+                    />
+                    <RoutingInstitutionStatus routingNumber={form.routingNumber} lookup={routingLookup} dark />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-white font-medium">Account number</Label>
+                    <Input
+                      value={form.recipientInfo}
+                      onChange={(e) => update({ recipientInfo: e.target.value })}
+                      className="bg-white/10 border-white/20 text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-white font-medium">Account holder name</Label>
+                    <Input
+                      maxLength={22}
+                      value={form.recipientName}
+                      onChange={(e) => update({ recipientName: e.target.value })}
+                      className="bg-white/10 border-white/20 text-white"
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Frequency</Label>
+                <Select value={form.frequency} onValueChange={(value) => update({ frequency: value as Frequency })}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map((frequency) => (
+                      <SelectItem key={frequency} value={frequency} disabled={frequency !== "ONCE" && !recurringEnabled}>
+                        {FREQUENCY_LABELS[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.frequency === "DAY_OF_MONTH" && (
+                <div className="space-y-2">
+                  <Label className="text-white font-medium">Day of month</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={form.dayOfMonth}
+                    onChange={(e) => update({ dayOfMonth: e.target.value })}
+                    className="bg-white/10 border-white/20 text-white"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-white font-medium">{form.frequency === "ONCE" ? "Send on" : "Starting"}</Label>
+                <Input
+                  type="date"
+                  min={today()}
+                  value={form.startDate}
+                  onChange={(e) => update({ startDate: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+
+              {form.frequency !== "ONCE" && (
+                <div className="space-y-2">
+                  <Label className="text-white font-medium">Ends</Label>
+                  <div className="flex gap-2">
+                    <Select value={form.endType} onValueChange={(value) => update({ endType: value as typeof form.endType })}>
+                      <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        <SelectItem value="date">On a date</SelectItem>
+                        <SelectItem value="count">After a number of transfers</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {form.endType === "date" && (
+                      <Input
+                        type="date"
+                        min={form.startDate}
+                        value={form.endDate}
+                        onChange={(e) => update({ endDate: e.target.value })}
+                        className="bg-white/10 border-white/20 text-white"
+                      />
+                    )}
+                    {form.endType === "count" && (
+                      <Input
+                        type="number"
+                        min="1"
+                        value={form.maxOccurrences}
+                        onChange={(e) => update({ maxOccurrences: e.target.value })}
+                        className="bg-white/10 border-white/20 text-white"
+                        placeholder="Transfers"
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-white font-medium">If funds are short</Label>
+                <Select value={form.onInsufficientFunds} onValueChange={(value) => update({ onInsufficientFunds: value as "RETRY" | "SKIP" })}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="RETRY">Retry a few hours later</SelectItem>
+                    <SelectItem value="SKIP">Skip this transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Note (optional)</Label>
+                <Input
+                  maxLength={140}
+                  value={form.note}
+                  onChange={(e) => update({ note: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+            </div>
+
+            {!recurringEnabled && (
+              <p className="text-sm text-gray-400">Turn on Recurring Transfers below to repeat a transfer automatically.</p>
+            )}
+
+            {formError && (
+              <Alert className="bg-red-950/50 border-red-500/30">
+                <AlertTriangle className="h-4 w-4 text-red-400" />
+                <AlertDescription className="text-red-200">{formError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => { setShowForm(false); setFormError(null); }}
+                className="border-white/20 text-gray-300 hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={createMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+                {createMutation.isPending ? "Scheduling..." : "Schedule"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-gray-400 text-sm">Loading scheduled transfers...</div>
+        ) : scheduledTransfers.length === 0 ? (
+          <div className="text-gray-400 text-sm">No scheduled transfers yet.</div>
+        ) : (
+          scheduledTransfers.map((schedule) => (
+            <div key={schedule.id} className="p-4 bg-white/5 rounded-lg border border-white/10">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold text-white">{formatCurrency(schedule.amount)}</h3>
+                    <span className="text-gray-300">to {describeRecipient(schedule)}</span>
+                    <Badge className={STATUS_STYLES[schedule.status]}>{schedule.status.toLowerCase()}</Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400">
+                    <span className="flex items-center gap-1">
+                      <Repeat className="h-3 w-3" />
+                      {describeSchedule(schedule)}
+                    </span>
+                    {schedule.nextRunDate && <span>Next: {formatScheduleDate(schedule.nextRunDate)}</span>}
+                    {schedule.endDate && <span>Ends {formatScheduleDate(schedule.endDate)}</span>}
+                    {schedule.maxOccurrences && schedule.frequency !== "ONCE" && (
+                      <span>{schedule.occurrenceCount} of {schedule.maxOccurrences} sent</span>
+                    )}
+                  </div>
+                  {schedule.lastError && schedule.lastOutcome !== "executed" && (
+                    <p className="text-sm text-yellow-400 mt-1">
+                      {schedule.lastOutcome === "retrying" && schedule.retryAt
+                        ? `Retrying ${formatFinancialDate(schedule.retryAt, true)}: `
+                        : "Last attempt: "}
+                      {schedule.lastError}
+                    </p>
+                  )}
+                </div>
+
+                {(schedule.status === "ACTIVE" || schedule.status === "PAUSED") && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={actionMutation.isPending}
+                      onClick={() => actionMutation.mutate({ id: schedule.id, action: schedule.status === "ACTIVE" ? "pause" : "resume" })}
+                      className="border-white/20 text-gray-300 hover:bg-white/10"
+                    >
+                      {schedule.status === "ACTIVE" ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={actionMutation.isPending}
+                      onClick={() => {
+                        if (confirm("Cancel this scheduled transfer?")) {
+                          actionMutation.mutate({ id: schedule.id, action: "cancel" });
+                        }
+                      }}
+                      className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { useCallback, useRef } from 'react';
+
+const createKey = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Idempotency key for a money-moving request. Retrying the same payload reuses
+ * the key so the server replays the first result instead of moving money twice;
+ * a changed payload or a call to `reset` (after success) starts a new one.
+ */
+export function useIdempotencyKey() {
+  const current = useRef<{ payload: string; key: string } | null>(null);
+
+  const keyFor = useCallback((payload: unknown) => {
+    const serialized = JSON.stringify(payload);
+    if (!current.current || current.current.payload !== serialized) {
+      current.current = { payload: serialized, key: createKey() };
+    }
+    return current.current.key;
+  }, []);
+
+  const reset = useCallback(() => {
+    current.current = null;
+  }, []);
+
+  return { keyFor, reset };
+}
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { isValidAbaRoutingNumber } from '@shared/beneficiary';
+
+export interface RoutingInstitution {
+  routingNumber: string;
+  name: string;
+  city: string;
+  state: string;
+}
+
+/**
+ * Look a routing number up in the server's routing directory once it is a
+ * checksum-valid 9 digits. `notFound` is set when the directory has no entry.
+ */
+export function useRoutingLookup(routingNumber: string) {
+  const value = routingNumber.trim();
+  const checksumValid = isValidAbaRoutingNumber(value);
+
+  const { data, isLoading, isError } = useQuery<{ institution: RoutingInstitution }>({
+    queryKey: ['/api/user/routing-directory', value],
+    enabled: checksumValid,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  return {
+    checksumValid,
+    institution: checksumValid ? data?.institution ?? null : null,
+    isLoading: checksumValid && isLoading,
+    notFound: checksumValid && isError,
+  };
+}
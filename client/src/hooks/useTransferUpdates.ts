@@ -1,17 +1,66 @@
 import { useEffect, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/formatters';
+import {
+  isOpenTransferState,
+  resolveTransferState,
+  toTransferEventStatus,
+  TRANSFER_STATE_LABELS,
+  type TransferEventStatus,
+  type TransferState
+} from '@shared/transferLifecycle';
 
 interface TransferUpdate {
   transferId: string;
   userId: string;
-  status: 'approved' | 'rejected';
-  amount: number;
+  state: TransferState;
+  status: TransferEventStatus;
+  amount: string;
   bankName: string;
   reason?: string;
   timestamp: string;
 }
 
+// Toast for a transfer that reached a new state
+function describeUpdate(update: TransferUpdate) {
+  const amount = formatCurrency(update.amount);
+  const reason = update.reason ? `Reason: ${update.reason}` : '';
+
+  switch (update.state) {
+    case 'APPROVED':
+      return {
+        title: "Transfer Approved! 🎉",
+        description: `Your ${amount} transfer to ${update.bankName} has been approved and processed.`,
+        variant: "default" as const
+      };
+    case 'SENT':
+      return {
+        title: "Transfer Sent",
+        description: `Your ${amount} transfer to ${update.bankName} is on its way to the receiving bank.`,
+        variant: "default" as const
+      };
+    case 'SETTLED':
+      return {
+        title: "Transfer Settled",
+        description: `Your ${amount} transfer to ${update.bankName} has settled.`,
+        variant: "default" as const
+      };
+    case 'CANCELLED':
+      return {
+        title: "Transfer Cancelled",
+        description: `Your ${amount} transfer to ${update.bankName} was cancelled and the funds are available again.`,
+        variant: "default" as const
+      };
+    default:
+      return {
+        title: `Transfer ${TRANSFER_STATE_LABELS[update.state]}`,
+        description: `Your ${amount} transfer to ${update.bankName} was ${update.status}. ${reason}`,
+        variant: "destructive" as const
+      };
+  }
+}
+
 interface UseTransferUpdatesOptions {
   userId?: string;
   onTransferUpdate?: (update: TransferUpdate) => void;
@@ -108,20 +157,13 @@ export function useTransferUpdates(options: UseTransferUpdatesOptions = {}) {
         // Just validate that we have the necessary data
         const metadata = transaction.metadata || {};
         
-        // Check for status changes (approved/rejected)
-        const hasStatusChange = (
-          metadata.approvedAt || 
-          metadata.rejectedAt || 
-          transaction.status === 'COMPLETED' || 
-          transaction.status === 'REJECTED' ||
-          transaction.status === 'APPROVED'
-        );
-
-        if (!hasStatusChange) {
+        // Transfers still waiting on a decision have nothing to report
+        const state = resolveTransferState(transaction);
+        if (isOpenTransferState(state)) {
           return false;
         }
 
-        console.log(`✅ Valid transfer update: ${transaction.id} - ${metadata.status || transaction.status}`);
+        console.log(`✅ Valid transfer update: ${transaction.id} - ${state}`);
         return true;
       }) : [];
 
@@ -136,22 +178,24 @@ export function useTransferUpdates(options: UseTransferUpdatesOptions = {}) {
         updatedTransfers.forEach((transaction: any) => {
           try {
             // Validate required fields before creating update
-            if (!transaction.id || !transaction.userId || typeof transaction.amount !== 'number') {
+            if (!transaction.id || !transaction.userId || typeof transaction.amount !== 'string') {
               console.warn('Skipping invalid transaction update:', transaction.id);
               return;
             }
 
-            const metadata = transaction.metadata;
-            const isApproved = !!metadata.approvedAt;
-            
+            const metadata = transaction.metadata || {};
+            const state = resolveTransferState(transaction);
+            const status = toTransferEventStatus(state);
+
             const update: TransferUpdate = {
               transferId: transaction.id,
               userId: transaction.userId,
-              status: isApproved ? 'approved' : 'rejected',
+              state,
+              status,
               amount: transaction.amount,
               bankName: metadata.bankName || 'External Bank',
               reason: metadata.reason || undefined,
-              timestamp: metadata.approvedAt || metadata.rejectedAt || new Date().toISOString()
+              timestamp: metadata[`${status}At`] || new Date().toISOString()
             };
 
             // Call custom callback if provided
@@ -162,11 +206,7 @@ export function useTransferUpdates(options: UseTransferUpdatesOptions = {}) {
             // Show toast notification
             if (enableNotifications) {
               toast({
-                title: isApproved ? "Transfer Approved! 🎉" : "Transfer Rejected",
-                description: isApproved 
-                  ? `Your $${update.amount.toFixed(2)} transfer to ${update.bankName} has been approved and processed.`
-                  : `Your $${update.amount.toFixed(2)} transfer to ${update.bankName} was rejected. ${update.reason ? `Reason: ${update.reason}` : ''}`,
-                variant: isApproved ? "default" : "destructive",
+                ...describeUpdate(update),
                 duration: 8000, // Longer duration for important updates
               });
             }
@@ -247,13 +287,8 @@ export function useWebSocketTransferUpdates(options: UseTransferUpdatesOptions =
 
             // Show notification
             if (enableNotifications) {
-              const isApproved = update.status === 'approved';
               toast({
-                title: isApproved ? "Transfer Approved! 🎉" : "Transfer Rejected",
-                description: isApproved 
-                  ? `Your $${update.amount.toFixed(2)} transfer to ${update.bankName} has been approved and processed.`
-                  : `Your $${update.amount.toFixed(2)} transfer to ${update.bankName} was rejected. ${update.reason ? `Reason: ${update.reason}` : ''}`,
-                variant: isApproved ? "default" : "destructive",
+                ...describeUpdate(update),
                 duration: 8000,
               });
             }
@@ -5,7 +5,7 @@ interface User {
   name: string;
   email: string;
   role: 'USER' | 'ADMIN';
-  balance: number;
+  balance: string;
   createdAt?: string;
 }
 
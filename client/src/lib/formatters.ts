@@ -3,21 +3,45 @@
  * Ensures consistent currency and number formatting across the application
  */
 
+import { DEFAULT_CURRENCY, Money, type MoneyInput } from '@shared/money';
+
 /**
- * Formats a number as USD currency with proper localization
- * @param amount - The amount to format
+ * Reads an API amount (decimal string) as Money, falling back to zero for bad input
+ */
+export const toMoney = (amount: MoneyInput | null | undefined, currency: string = DEFAULT_CURRENCY): Money => {
+  if (amount === null || amount === undefined || amount === '') return Money.zero(currency);
+  try {
+    return amount instanceof Money ? amount : Money.of(amount, currency);
+  } catch {
+    return Money.zero(currency);
+  }
+};
+
+/**
+ * Parses a user-typed amount ("1,250.50", "$20") into Money
+ * @param value - Raw input value
+ * @param currency - Currency the amount is entered in (default: USD)
+ * @returns Money, or null when the input is not a valid amount
+ */
+export const parseAmountInput = (value: string, currency: string = DEFAULT_CURRENCY): Money | null => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+  try {
+    return Money.of(cleaned, currency);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Formats an amount as currency with proper localization
+ * @param amount - The amount to format (decimal string from the API, Money, or number)
  * @param showCents - Whether to show cents (default: true)
+ * @param currency - ISO 4217 code of the account the amount belongs to (default: USD)
  * @returns Formatted currency string
  */
-export const formatCurrency = (amount: number, showCents: boolean = true): string => {
-  if (isNaN(amount)) return '$0.00';
-  
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: showCents ? 2 : 0,
-    maximumFractionDigits: showCents ? 2 : 0,
-  }).format(amount);
+export const formatCurrency = (amount: MoneyInput | null | undefined, showCents: boolean = true, currency: string = DEFAULT_CURRENCY): string => {
+  return toMoney(amount, currency).format({ showCents });
 };
 
 /**
@@ -31,22 +55,22 @@ export const formatNumber = (num: number): string => {
   return new Intl.NumberFormat('en-US').format(num);
 };
 
+/**
+ * Formats an exchange rate as "1 USD = 0.9215 EUR", trimming trailing zeros
+ * @param rate - Units of the target currency per unit of the source currency
+ */
+export const formatExchangeRate = (rate: string, fromCurrency: string, toCurrency: string): string => {
+  const trimmed = rate.includes('.') ? rate.replace(/0+$/, '').replace(/\.$/, '') : rate;
+  return `1 ${fromCurrency} = ${trimmed} ${toCurrency}`;
+};
+
 /**
  * Formats a large currency amount with appropriate suffix (K, M, B)
  * @param amount - The amount to format
  * @returns Formatted currency string with suffix
  */
-export const formatCompactCurrency = (amount: number): string => {
-  if (isNaN(amount)) return '$0';
-  
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    notation: 'compact',
-    compactDisplay: 'short',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 1,
-  }).format(amount);
+export const formatCompactCurrency = (amount: MoneyInput | null | undefined): string => {
+  return toMoney(amount).format({ compact: true });
 };
 
 /**
@@ -126,10 +150,11 @@ export const formatFinancialDate = (date: Date | string, includeTime: boolean =
  * Formats a transaction amount with proper sign and color indication
  * @param amount - The transaction amount
  * @param type - Transaction type ('CREDIT' or 'DEBIT')
+ * @param currency - Currency of the account the transaction belongs to (default: USD)
  * @returns Object with formatted amount and styling info
  */
-export const formatTransactionAmount = (amount: number, type: 'CREDIT' | 'DEBIT') => {
-  const formattedAmount = formatCurrency(Math.abs(amount));
+export const formatTransactionAmount = (amount: MoneyInput, type: 'CREDIT' | 'DEBIT', currency: string = DEFAULT_CURRENCY) => {
+  const formattedAmount = formatCurrency(toMoney(amount, currency).abs());
   const sign = type === 'CREDIT' ? '+' : '-';
   const colorClass = type === 'CREDIT' ? 'text-green-400' : 'text-red-400';
   
@@ -51,7 +51,9 @@ export async function apiRequest(
   data?: unknown | undefined,
   extraHeaders?: Record<string, string>,
 ): Promise<Response> {
-  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  // Multipart bodies (file uploads) go as-is so the browser sets the boundary
+  const isFormData = data instanceof FormData;
+  const headers: Record<string, string> = data && !isFormData ? { "Content-Type": "application/json" } : {};
   
   // Add JWT auth header if available
   const token = localStorage.getItem('token');
@@ -71,7 +73,7 @@ export async function apiRequest(
   const res = await fetch(fullUrl, {
     method,
     headers: { ...headers, ...extraHeaders },
-    body: data ? JSON.stringify(data) : undefined,
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
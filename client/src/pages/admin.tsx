@@ -8,8 +8,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/useIdempotencyKey";
 import { apiRequest } from "@/lib/queryClient";
 import { authManager } from "@/lib/auth";
+import { formatCurrency, parseAmountInput } from "@/lib/formatters";
 import Navbar from "@/components/navbar";
 import EnhancedStatCard from "@/components/admin/EnhancedStatCard";
 import NotificationCenter from "@/components/admin/NotificationCenter";
@@ -17,6 +19,13 @@ import SystemStatus from "@/components/admin/SystemStatus";
 import TimeRangeFilter, { type TimeRange } from "@/components/admin/TimeRangeFilter";
 import VerificationQueue from "@/components/admin/VerificationQueue";
 import TransferReview from "@/components/admin/TransferReview";
+import ExchangeRates from "@/components/admin/ExchangeRates";
+import FraudRules from "@/components/admin/FraudRules";
+import SanctionsScreening from "@/components/admin/SanctionsScreening";
+import EnhancedDueDiligence from "@/components/admin/EnhancedDueDiligence";
+import AmlAlerts from "@/components/admin/AmlAlerts";
+import PendingApprovals from "@/components/admin/PendingApprovals";
+import CheckDepositReview from "@/components/admin/CheckDepositReview";
 import AdminKycManagement from "@/components/kyc/admin/AdminKycManagement";
 import AdminKycDashboard from "@/components/kyc/admin/AdminKycDashboard";
 import {
@@ -40,7 +49,9 @@ import {
   UserX,
   Menu,
   X,
-  Zap
+  Zap,
+  ArrowRightLeft,
+  ShieldAlert
 } from "lucide-react";
 import {
   AlertDialog,
@@ -75,7 +86,7 @@ interface User {
   name: string;
   email: string;
   role: 'USER' | 'ADMIN';
-  balance: number;
+  balance: string;
   accountType: 'CHECKING' | 'SAVINGS' | 'BUSINESS';
   isActive: boolean;
   lastLogin: string | null;
@@ -86,7 +97,7 @@ interface AdminLog {
   id: string;
   action: string;
   targetUserId: string | null;
-  amount: number | null;
+  amount: string | null;
   description: string | null;
   createdAt: string;
   admin: {
@@ -104,11 +115,11 @@ interface DashboardStats {
   activeUsers: number;
   inactiveUsers: number;
   totalTransactions: number;
-  totalBalance: number;
+  totalBalance: string;
   recentTransactions: Array<{
     id: string;
     type: 'CREDIT' | 'DEBIT';
-    amount: number;
+    amount: string;
     description: string;
     createdAt: string;
     user: {
@@ -121,6 +132,7 @@ interface DashboardStats {
 export default function AdminNew() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const balanceIdempotency = useIdempotencyKey();
   const authState = authManager.getState();
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [editModalOpen, setEditModalOpen] = useState(false);
@@ -186,29 +198,35 @@ export default function AdminNew() {
   const updateBalanceMutation = useMutation({
     mutationFn: async ({ userId, amount, action, description }: {
       userId: string;
-      amount: number;
+      amount: string;
       action: 'ADD' | 'SUBTRACT';
       description: string;
     }) => {
-      const response = await apiRequest("POST", `/api/admin/users/${userId}/balance`, {
-        amount,
-        action,
-        description,
+      const body = { amount, action, description };
+      // Re-submitting the same adjustment after a network error must not apply it twice
+      const response = await apiRequest("POST", `/api/admin/users/${userId}/balance`, body, {
+        "Idempotency-Key": balanceIdempotency.keyFor({ userId, ...body }),
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      balanceIdempotency.reset();
       queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/approvals'] });
       setBalanceModalOpen(false);
       setBalanceAmount('');
       setBalanceDescription('');
-      toast({
-        title: "Balance updated",
-        description: "User balance has been successfully updated.",
-      });
+      // Large adjustments are held until a second admin approves them
+      toast(result.approval
+        ? { title: "Awaiting second approval", description: result.message }
+        : { title: "Balance updated", description: "User balance has been successfully updated." });
     },
     onError: (error: any) => {
+      // Rejected requests changed nothing; only keep the key while the server may still be working
+      if (/^4\d\d:/.test(error.message || "") && !String(error.message).startsWith("409:")) {
+        balanceIdempotency.reset();
+      }
       toast({
         title: "Balance update failed",
         description: error.message || "Failed to update balance. Please try again.",
@@ -298,9 +316,19 @@ export default function AdminNew() {
       return;
     }
 
+    const amount = parseAmountInput(balanceAmount);
+    if (!amount || !amount.isPositive()) {
+      toast({
+        title: "Invalid amount",
+        description: "Please enter a positive amount with at most two decimal places.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     updateBalanceMutation.mutate({
       userId: selectedUser.id,
-      amount: parseFloat(balanceAmount),
+      amount: amount.toString(),
       action: balanceAction,
       description: balanceDescription,
     });
@@ -433,6 +461,28 @@ export default function AdminNew() {
                     <div className="text-sm text-gray-500">General verification requests</div>
                   </div>
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="fx" 
+                  className="flex items-center gap-3 p-4 hover:bg-teal-50 transition-colors text-left w-full border-0 bg-transparent data-[state=active]:bg-teal-50 data-[state=active]:shadow-none rounded-none border-b border-gray-100 last:border-b-0 justify-start"
+                  onClick={() => setIsMobileNavOpen(false)}
+                >
+                  <ArrowRightLeft className="h-5 w-5 text-teal-600" />
+                  <div>
+                    <div className="font-semibold text-gray-900">Exchange Rates</div>
+                    <div className="text-sm text-gray-500">FX rate table & imports</div>
+                  </div>
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="risk" 
+                  className="flex items-center gap-3 p-4 hover:bg-red-50 transition-colors text-left w-full border-0 bg-transparent data-[state=active]:bg-red-50 data-[state=active]:shadow-none rounded-none border-b border-gray-100 last:border-b-0 justify-start"
+                  onClick={() => setIsMobileNavOpen(false)}
+                >
+                  <ShieldAlert className="h-5 w-5 text-red-600" />
+                  <div>
+                    <div className="font-semibold text-gray-900">Risk & Compliance</div>
+                    <div className="text-sm text-gray-500">Fraud rules, sanctions, PEP & AML alerts</div>
+                  </div>
+                </TabsTrigger>
                 <TabsTrigger 
                   value="logs" 
                   className="flex items-center gap-3 p-4 hover:bg-orange-50 transition-colors text-left w-full border-0 bg-transparent data-[state=active]:bg-orange-50 data-[state=active]:shadow-none rounded-none border-b border-gray-100 last:border-b-0 justify-start"
@@ -449,7 +499,7 @@ export default function AdminNew() {
           </div>
           
           {/* Desktop/Tablet Navigation */}
-          <TabsList className="hidden sm:grid w-full grid-cols-6 bg-white/95 backdrop-blur-sm border border-white/20 rounded-xl p-1.5 shadow-lg overflow-hidden">
+          <TabsList className="hidden sm:grid w-full grid-cols-9 bg-white/95 backdrop-blur-sm border border-white/20 rounded-xl p-1.5 shadow-lg overflow-hidden">
             <TabsTrigger value="overview" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:shadow-md data-[state=active]:scale-[1.02] text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-all duration-200 rounded-lg font-semibold text-xs sm:text-sm lg:text-base py-3 px-2 sm:px-3 min-h-[44px] flex items-center justify-center gap-1.5">
               <BarChart3 className="h-4 w-4 sm:h-4 sm:w-4 flex-shrink-0" />
               <span className="hidden sm:inline">Overview</span>
@@ -479,6 +529,14 @@ export default function AdminNew() {
               <span className="hidden lg:inline">Other Verifications</span>
               <span className="lg:hidden text-xs font-medium">Verify</span>
             </TabsTrigger>
+            <TabsTrigger value="fx" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:shadow-md data-[state=active]:scale-[1.02] text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-all duration-200 rounded-lg font-semibold text-xs sm:text-sm lg:text-base py-3 px-2 sm:px-3 min-h-[44px] flex items-center justify-center gap-1.5">
+              <ArrowRightLeft className="h-4 w-4 sm:h-4 sm:w-4 flex-shrink-0" />
+              <span className="text-xs sm:text-sm font-medium">FX</span>
+            </TabsTrigger>
+            <TabsTrigger value="risk" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:shadow-md data-[state=active]:scale-[1.02] text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-all duration-200 rounded-lg font-semibold text-xs sm:text-sm lg:text-base py-3 px-2 sm:px-3 min-h-[44px] flex items-center justify-center gap-1.5">
+              <ShieldAlert className="h-4 w-4 sm:h-4 sm:w-4 flex-shrink-0" />
+              <span className="text-xs sm:text-sm font-medium">Risk</span>
+            </TabsTrigger>
             <TabsTrigger value="logs" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:shadow-md data-[state=active]:scale-[1.02] text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-all duration-200 rounded-lg font-semibold text-xs sm:text-sm lg:text-base py-3 px-2 sm:px-3 min-h-[44px] flex items-center justify-center gap-1.5">
               <History className="h-4 w-4 sm:h-4 sm:w-4 flex-shrink-0" />
               <span className="text-xs sm:text-sm font-medium">Logs</span>
@@ -551,7 +609,7 @@ export default function AdminNew() {
               
               <EnhancedStatCard
                 title="Total Balance"
-                value={`$${(dashboardStats?.totalBalance || 0).toLocaleString()}`}
+                value={formatCurrency(dashboardStats?.totalBalance)}
                 change={{
                   value: 8.2,
                   period: "growth",
@@ -569,6 +627,9 @@ export default function AdminNew() {
                 }}
               />
             </div>
+
+            {/* Maker-checker queue */}
+            <PendingApprovals />
             
             {/* System Status and Recent Transactions Row */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -678,7 +739,7 @@ export default function AdminNew() {
                             <p className={`text-2xl font-black mb-2 ${
                               transaction.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'
                             }`}>
-                              {transaction.type === 'CREDIT' ? '+' : ''}${transaction.amount.toLocaleString()}
+                              {transaction.type === 'CREDIT' ? '+' : ''}{formatCurrency(transaction.amount)}
                             </p>
                             <div className="flex items-center justify-end gap-2">
                               <div className={`w-3 h-3 rounded-full shadow-sm ${
@@ -784,7 +845,7 @@ export default function AdminNew() {
                                 <div className="flex items-center gap-2">
                                   <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                                   <p className="text-sm sm:text-base text-gray-700">
-                                    Balance: <span className="text-green-600 font-bold">${user.balance.toLocaleString()}</span>
+                                    Balance: <span className="text-green-600 font-bold">{formatCurrency(user.balance)}</span>
                                   </p>
                                 </div>
                                 <div className="inline-flex items-center px-3 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded-full border">
@@ -963,7 +1024,7 @@ export default function AdminNew() {
                             <p className={`text-base font-semibold ${
                               transaction.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'
                             }`}>
-                              {transaction.type === 'CREDIT' ? '+' : '-'}${transaction.amount.toLocaleString()}
+                              {transaction.type === 'CREDIT' ? '+' : '-'}{formatCurrency(transaction.amount)}
                             </p>
                             <div className="flex items-center justify-end gap-1 mt-0.5">
                               <div className={`w-1.5 h-1.5 rounded-full ${
@@ -1062,7 +1123,7 @@ export default function AdminNew() {
                           <div className="text-right">
                             {log.amount && (
                               <p className="font-semibold text-base text-green-600 mb-1">
-                                ${Number(log.amount).toLocaleString()}
+                                {formatCurrency(log.amount)}
                               </p>
                             )}
                             <p className="text-sm text-gray-500">
@@ -1099,6 +1160,20 @@ export default function AdminNew() {
           {/* Pending Transfers Tab */}
           <TabsContent value="pending-transfers" className="space-y-6">
             <TransferReview />
+            <CheckDepositReview />
+          </TabsContent>
+
+          {/* Exchange Rates Tab */}
+          <TabsContent value="fx" className="space-y-6">
+            <ExchangeRates />
+          </TabsContent>
+
+          {/* Risk Tab */}
+          <TabsContent value="risk" className="space-y-6">
+            <SanctionsScreening />
+            <EnhancedDueDiligence />
+            <AmlAlerts />
+            <FraudRules />
           </TabsContent>
 
           {/* Settings Tab */}
@@ -1140,7 +1215,7 @@ export default function AdminNew() {
             <DialogTitle className="text-gray-900 text-xl font-bold">Update User Balance</DialogTitle>
             <DialogDescription className="text-gray-600 text-base leading-relaxed">
               Update the balance for <span className="font-semibold text-gray-900">{selectedUser?.name}</span>. 
-              <br />Current balance: <span className="font-bold text-green-600">${selectedUser?.balance.toLocaleString()}</span>
+              <br />Current balance: <span className="font-bold text-green-600">{formatCurrency(selectedUser?.balance)}</span>
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-5">
@@ -1370,7 +1445,7 @@ function PendingTransfersTable() {
               <div className="flex-1">
                 <div className="flex items-center gap-3 mb-2">
                   <h3 className="font-semibold text-gray-900 text-lg">
-                    ${transfer.amount.toLocaleString()}
+                    {formatCurrency(transfer.amount)}
                   </h3>
                   <Badge variant="secondary" className="bg-orange-100 text-orange-700 border-orange-200">
                     Pending
@@ -1418,7 +1493,7 @@ function PendingTransfersTable() {
                   <AlertDialogHeader>
                     <AlertDialogTitle>Reject Transfer</AlertDialogTitle>
                     <AlertDialogDescription>
-                      Are you sure you want to reject this external bank transfer of ${transfer.amount.toLocaleString()} 
+                      Are you sure you want to reject this external bank transfer of {formatCurrency(transfer.amount)} 
                       to {transfer.metadata?.bankName}? This action cannot be undone.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
@@ -27,6 +27,7 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import Navbar from "@/components/navbar";
 import { authManager } from "@/lib/auth";
+import { formatCurrency, parseAmountInput, toMoney } from "@/lib/formatters";
 import { useToast } from "@/hooks/use-toast";
 import { 
   User, 
@@ -75,7 +76,7 @@ interface UserDetail {
   avatar?: string;
   role: 'USER' | 'ADMIN';
   accountType: 'CHECKING' | 'SAVINGS' | 'BUSINESS';
-  balance: number;
+  balance: string;
   isActive: boolean;
   kycStatus: 'pending' | 'verified' | 'rejected';
   kycDocuments: Array<{
@@ -92,7 +93,7 @@ interface UserDetail {
   riskScore: number;
   creditScore?: number;
   totalTransactions: number;
-  monthlyTransactionVolume: number;
+  monthlyTransactionVolume: string;
   flags: Array<{
     id: string;
     type: 'fraud_alert' | 'high_risk' | 'kyc_expired' | 'suspicious_activity';
@@ -106,7 +107,7 @@ interface UserDetail {
 interface Transaction {
   id: string;
   type: 'CREDIT' | 'DEBIT';
-  amount: number;
+  amount: string;
   description: string;
   status: 'completed' | 'pending' | 'failed';
   createdAt: Date;
@@ -150,7 +151,7 @@ export default function UserDetailPage() {
         },
         role: 'USER',
         accountType: 'CHECKING',
-        balance: 15420.50,
+        balance: '15420.50',
         isActive: true,
         kycStatus: 'verified',
         kycDocuments: [
@@ -176,7 +177,7 @@ export default function UserDetailPage() {
         riskScore: 23,
         creditScore: 742,
         totalTransactions: 142,
-        monthlyTransactionVolume: 8450.20,
+        monthlyTransactionVolume: '8450.20',
         flags: [
           {
             id: 'flag1',
@@ -193,7 +194,7 @@ export default function UserDetailPage() {
         {
           id: 'tx1',
           type: 'CREDIT',
-          amount: 2500.00,
+          amount: '2500.00',
           description: 'Direct Deposit - Salary',
           status: 'completed',
           createdAt: new Date('2024-07-26'),
@@ -202,7 +203,7 @@ export default function UserDetailPage() {
         {
           id: 'tx2',
           type: 'DEBIT',
-          amount: 1200.00,
+          amount: '1200.00',
           description: 'Rent Payment',
           status: 'completed',
           createdAt: new Date('2024-07-25'),
@@ -212,7 +213,7 @@ export default function UserDetailPage() {
         {
           id: 'tx3',
           type: 'DEBIT',
-          amount: 45.67,
+          amount: '45.67',
           description: 'Grocery Store Purchase',
           status: 'completed',
           createdAt: new Date('2024-07-24'),
@@ -288,10 +289,13 @@ export default function UserDetailPage() {
       setIsLoading(true);
       await new Promise(resolve => setTimeout(resolve, 1500));
       
-      const amount = parseFloat(balanceAdjustment);
+      const amount = parseAmountInput(balanceAdjustment);
+      if (!amount || !amount.isPositive()) {
+        throw new Error('Invalid adjustment amount');
+      }
       const newBalance = adjustmentType === 'ADD' 
-        ? user.balance + amount 
-        : user.balance - amount;
+        ? toMoney(user.balance).add(amount).toString()
+        : toMoney(user.balance).subtract(amount).toString();
       
       setUser(prev => prev ? { ...prev, balance: newBalance } : null);
       setBalanceAdjustment('');
@@ -299,7 +303,7 @@ export default function UserDetailPage() {
       
       toast({
         title: "Balance adjusted",
-        description: `${adjustmentType === 'ADD' ? 'Added' : 'Subtracted'} $${amount.toLocaleString()} ${adjustmentType === 'ADD' ? 'to' : 'from'} account.`,
+        description: `${adjustmentType === 'ADD' ? 'Added' : 'Subtracted'} ${amount.format()} ${adjustmentType === 'ADD' ? 'to' : 'from'} account.`,
       });
     } catch (error) {
       toast({
@@ -543,7 +547,7 @@ export default function UserDetailPage() {
                   <div className="grid md:grid-cols-3 gap-6 mb-6">
                     <div className="text-center p-4 bg-gradient-to-br from-green-50 to-green-100 rounded-lg border border-green-200">
                       <div className="text-2xl font-bold text-green-600 mb-1">
-                        ${user.balance.toLocaleString()}
+                        {formatCurrency(user.balance)}
                       </div>
                       <div className="text-sm text-green-700">Current Balance</div>
                     </div>
@@ -555,7 +559,7 @@ export default function UserDetailPage() {
                     </div>
                     <div className="text-center p-4 bg-gradient-to-br from-purple-50 to-purple-100 rounded-lg border border-purple-200">
                       <div className="text-2xl font-bold text-purple-600 mb-1">
-                        ${user.monthlyTransactionVolume.toLocaleString()}
+                        {formatCurrency(user.monthlyTransactionVolume)}
                       </div>
                       <div className="text-sm text-purple-700">Monthly Volume</div>
                     </div>
@@ -667,7 +671,7 @@ export default function UserDetailPage() {
                           <p className={`font-bold ${
                             transaction.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            {transaction.type === 'CREDIT' ? '+' : '-'}${transaction.amount.toLocaleString()}
+                            {transaction.type === 'CREDIT' ? '+' : '-'}{formatCurrency(transaction.amount)}
                           </p>
                           {transaction.recipientAccount && (
                             <p className="text-sm text-gray-500">To: {transaction.recipientAccount}</p>
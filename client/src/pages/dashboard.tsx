@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,7 +13,16 @@ import BalanceCard from "@/components/dashboard/BalanceCard";
 import TransactionList from "@/components/dashboard/TransactionList";
 import SpendingChart from "@/components/dashboard/SpendingChart";
 import AccountOverviewWidget from "@/components/dashboard/AccountOverviewWidget";
+import type { AccountOption } from "@/components/dashboard/AccountSwitcher";
+import { describePayee, type Payee } from "@/components/settings/Payees";
+import { apiRequest } from "@/lib/queryClient";
+import { createTransferPayload, safeStringify, type TransferDetails } from "@/utils/safeSerialization";
 import { useTransferUpdates } from "@/hooks/useTransferUpdates";
+import { useToast } from "@/hooks/use-toast";
+import { socketClient, initializeSocketConnection, type AccountAlertUpdate } from "@/services/socketClient";
+import { useRoutingLookup } from "@/hooks/useRoutingLookup";
+import RoutingInstitutionStatus from "@/components/dashboard/RoutingInstitutionStatus";
+import CurrencyExchange from "@/components/dashboard/CurrencyExchange";
 import { lazy, Suspense } from "react";
 import { LoadingSpinner } from "@/components/ui/loading";
 
@@ -22,13 +31,13 @@ const QuickActions = lazy(() => import("@/components/dashboard/QuickActions"));
 const FinancialInsights = lazy(() => import("@/components/dashboard/FinancialInsights"));
 import { Wallet, TrendingUp, ArrowUpRight, ArrowDownRight, ShoppingCart, CreditCard, Home, Briefcase, Send, Plus, Receipt, Smartphone, MapPin, Calculator, PiggyBank, Target, BarChart3, DollarSign, CheckCircle, XCircle, Building2, ArrowDownLeft } from "lucide-react";
 import { format } from "date-fns";
-import { useState } from "react";
-import { formatCurrency, formatAccountNumber, formatFinancialDate, formatTransactionAmount } from "@/lib/formatters";
+import { useEffect, useState } from "react";
+import { formatCurrency, formatAccountNumber, formatFinancialDate, formatTransactionAmount, toMoney } from "@/lib/formatters";
 
 interface Transaction {
   id: string;
   type: string;
-  amount: number;
+  amount: string;
   description: string;
   createdAt: string;
 }
@@ -39,15 +48,17 @@ interface DashboardData {
     name: string;
     email: string;
     role: string;
-    balance: number;
+    balance: string;
     accountNumber: string;
     accountType: string;
     lastLogin: string | null;
   };
+  account: AccountOption;
+  accounts: AccountOption[];
   recentTransactions: Transaction[];
   monthlyStats: {
-    spent: number;
-    received: number;
+    spent: string;
+    received: string;
     transactionCount: number;
   };
 }
@@ -73,19 +84,54 @@ const getTransactionColor = (type: string) => {
   return type === 'CREDIT' ? 'text-prime-success' : 'text-prime-error';
 };
 
+const ACCOUNT_ALERT_TITLES: Record<AccountAlertUpdate["type"], string> = {
+  LOW_BALANCE: "Low balance",
+  OVERDRAFT_SWEEP: "Overdraft protection used",
+  SPENDING_LIMIT: "Monthly spending limit exceeded",
+};
+
 export default function Dashboard() {
   const authState = authManager.getState();
   const [transferAmount, setTransferAmount] = useState("");
   const [recipientInfo, setRecipientInfo] = useState("");
   const [transferType, setTransferType] = useState("checking");
-  const [bankName, setBankName] = useState("");
-  const [bankValidation, setBankValidation] = useState({ isValid: false, isChecking: false });
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [routingNumber, setRoutingNumber] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [payeeId, setPayeeId] = useState("");
   const [transferOpen, setTransferOpen] = useState(false);
-  const [depositOpen, setDepositOpen] = useState(false);
-  const [billPayOpen, setBillPayOpen] = useState(false);
-  const [depositAmount, setDepositAmount] = useState("");
-  const [depositMethod, setDepositMethod] = useState("bank_transfer");
-  const [payeeSelection, setPayeeSelection] = useState("");
+
+  const queryClient = useQueryClient();
+
+  const { data: payeesData } = useQuery<{ payees: Payee[] }>({
+    queryKey: ['/api/user/payees'],
+    enabled: authState.isAuthenticated,
+  });
+  const payees = payeesData?.payees || [];
+  const selectedPayee = payees.find((payee) => payee.id === payeeId);
+  const routingLookup = useRoutingLookup(routingNumber);
+
+  // Withdraw an external transfer that is still waiting for review
+  const cancelTransferMutation = useMutation({
+    mutationFn: async (transferId: string) => {
+      const response = await apiRequest('POST', `/api/user/transfers/${transferId}/cancel`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/transactions'] });
+      alert(result.message || 'Transfer cancelled');
+    },
+    onError: (error: Error) => {
+      alert(error.message.replace(/^\d+:\s*/, '') || 'Failed to cancel transfer');
+    }
+  });
+
+  const handleCancelTransfer = (transaction: { id: string; amount: string }) => {
+    if (window.confirm(`Cancel your pending transfer of ${formatCurrency(transaction.amount)}? The funds will be available again immediately.`)) {
+      cancelTransferMutation.mutate(transaction.id);
+    }
+  };
 
   // Initialize real-time transfer updates
   useTransferUpdates({
@@ -97,161 +143,32 @@ export default function Dashboard() {
     }
   });
 
-  // List of valid banks for validation - Global including comprehensive African banks
-  const validBanks = [
-    // US Banks
-    "Chase Bank", "Bank of America", "Wells Fargo", "Citibank", "U.S. Bank",
-    "PNC Bank", "Goldman Sachs Bank", "Capital One", "TD Bank", "Truist Bank",
-    "JPMorgan Chase", "Morgan Stanley", "American Express Bank", "HSBC Bank",
-    "Charles Schwab Bank", "Ally Bank", "Discover Bank", "Marcus by Goldman Sachs",
-    "SunTrust Bank", "Regions Bank", "Fifth Third Bank", "KeyBank", "Huntington Bank",
-    "M&T Bank", "First National Bank", "Santander Bank", "Navy Federal Credit Union",
-    "USAA Bank", "First Citizens Bank", "Comerica Bank",
-    
-    // South African Banks
-    "Standard Bank", "Standard Bank Group", "Absa Bank", "Nedbank", "FirstRand Bank",
-    "FNB", "First National Bank", "Capitec Bank", "Investec", "African Bank",
-    "Discovery Bank", "Bidvest Bank", "Mercantile Bank", "Sasfin Bank", "TymeBank",
-    "Bank Zero", "Grindrod Bank", "Ithala Development Finance Corporation",
-    
-    // Nigerian Banks
-    "United Bank for Africa", "UBA", "Zenith Bank", "Access Bank", "Guaranty Trust Bank",
-    "GTCO", "GTBank", "First Bank of Nigeria", "Stanbic IBTC Bank", "Union Bank",
-    "Fidelity Bank", "Sterling Bank", "Ecobank Nigeria", "Wema Bank", "Unity Bank",
-    "Polaris Bank", "Keystone Bank", "Heritage Bank", "Providus Bank", "Jaiz Bank",
-    "SunTrust Bank Nigeria", "Coronation Merchant Bank", "Rand Merchant Bank Nigeria",
-    
-    // Egyptian Banks
-    "National Bank of Egypt", "Commercial International Bank", "CIB", "Banque Misr",
-    "Housing and Development Bank", "Credit Agricole Egypt", "Banque du Caire",
-    "Export Development Bank of Egypt", "Arab African International Bank",
-    "Egyptian Gulf Bank", "National Societe Generale Bank", "QNB Alahli",
-    "Al Baraka Bank Egypt", "Emirates NBD Egypt", "Faisal Islamic Bank",
-    
-    // Moroccan Banks
-    "Attijariwafa Bank", "Banque Centrale Populaire", "Bank of Africa", "BMCE Bank",
-    "Societe Generale Maroc", "Credit du Maroc", "Banque Marocaine du Commerce Exterieur",
-    "Credit Agricole du Maroc", "Banque Populaire", "BMCI", "Al Barid Bank",
-    "Umnia Bank", "Bank Al-Maghrib", "CFG Bank",
-    
-    // Kenyan Banks
-    "Equity Bank", "Kenya Commercial Bank", "KCB", "Safaricom", "M-Pesa",
-    "Cooperative Bank of Kenya", "Absa Bank Kenya", "Stanbic Bank Kenya",
-    "Standard Chartered Kenya", "NCBA Bank", "Diamond Trust Bank", "DTB",
-    "I&M Bank", "Commercial Bank of Africa", "CBA", "Family Bank", "NIC Bank",
-    "Prime Bank", "Guardian Bank", "Victoria Commercial Bank", "Consolidated Bank",
-    "Development Bank of Kenya", "Sidian Bank", "Credit Bank", "Middle East Bank",
-    
-    // Ghanaian Banks
-    "Ghana Commercial Bank", "GCB Bank", "Ecobank Ghana", "Standard Chartered Ghana",
-    "Absa Bank Ghana", "Access Bank Ghana", "Fidelity Bank Ghana", "Stanbic Bank Ghana",
-    "Zenith Bank Ghana", "United Bank for Africa Ghana", "CAL Bank", "Republic Bank",
-    "First National Bank Ghana", "Agricultural Development Bank", "National Investment Bank",
-    "ARB Apex Bank", "Prudential Bank", "Omni Bank", "Premium Bank", "Bank of Ghana",
-    
-    // Ethiopian Banks
-    "Awash Bank", "Commercial Bank of Ethiopia", "Awash International Bank",
-    "Dashen Bank", "Bank of Abyssinia", "Wegagen Bank", "United Bank",
-    "Nib International Bank", "Cooperative Bank of Oromia", "Lion International Bank",
-    "Zemen Bank", "Bunna International Bank", "Berhan International Bank",
-    "Abay Bank", "Addis International Bank", "Enat Bank", "Shabelle Bank",
-    "Hijra Bank", "Tsehay Bank", "Ahadu Bank", "Rammis Bank", "Goh Betoch Bank",
-    
-    // Algerian Banks
-    "Banque Nationale d'Algerie", "BNA", "BNP Paribas El Djazair", "Banque Exterieure d'Algerie",
-    "BEA", "Credit Populaire d'Algerie", "CPA", "Banque de l'Agriculture et du Developpement Rural",
-    "BADR", "Societe Generale Algerie", "Gulf Bank Algeria", "Trust Bank Algeria",
-    "Al Baraka Bank Algeria", "Bank Al-Salam Algeria", "Natixis Algerie",
-    
-    // Tunisian Banks
-    "Amen Bank", "Attijari Bank", "Banque de Tunisie", "Banque Internationale Arabe de Tunisie",
-    "BIAT", "Banque Zitouna", "Societe Tunisienne de Banque", "STB", "Union Bancaire pour le Commerce et l'Industrie",
-    "UBCI", "Arab Tunisian Bank", "ATB", "Banque de l'Habitat", "Banque Nationale Agricole",
-    "BNA Tunisie", "Citi Bank Tunisia", "Union International des Banques", "UIB",
-    
-    // Tanzanian Banks
-    "CRDB Bank", "NMB Bank", "National Bank of Commerce", "NBC", "Stanbic Bank Tanzania",
-    "Standard Chartered Tanzania", "Exim Bank Tanzania", "Diamond Trust Bank Tanzania",
-    "I&M Bank Tanzania", "TPB Bank", "Peoples Bank of Zanzibar", "PBZ", "FBME Bank",
-    "Access Bank Tanzania", "Azania Bank", "Amana Bank", "Bank of Baroda Tanzania",
-    "Citibank Tanzania", "Cooperative Development Bank", "Dar es Salaam Community Bank",
-    
-    // Ugandan Banks
-    "Stanbic Bank Uganda", "Centenary Bank", "Housing Finance Bank", "Bank of Uganda",
-    "East African Development Bank", "EADB", "Tropical Bank", "Uganda Development Bank",
-    "UDB", "Standard Chartered Uganda", "dfcu Bank", "Equity Bank Uganda", "KCB Bank Uganda",
-    "Orient Bank", "PostBank Uganda", "Pride Microfinance", "Finance Trust Bank",
-    "Cairo International Bank", "United Bank for Africa Uganda", "Absa Bank Uganda",
-    "Bank of Baroda Uganda", "Citibank Uganda", "Opportunity Bank", "NC Bank Uganda",
-    
-    // Zimbabwean Banks
-    "CBZ Bank", "Commercial Bank of Zimbabwe", "Stanbic Bank Zimbabwe", "Standard Chartered Zimbabwe",
-    "Nedbank Zimbabwe", "FBC Bank", "First Capital Bank", "CABS", "Central Africa Building Society",
-    "BancABC", "NMB Bank Zimbabwe", "Steward Bank", "Agribank", "Infrastructure Development Bank of Zimbabwe",
-    "IDBZ", "ZB Bank", "Barclays Bank Zimbabwe", "Ecobank Zimbabwe", "Metbank",
-    "People's Own Savings Bank", "POSB", "Progressive Building Society", "ZBS Bank",
-    
-    // Angolan Banks
-    "Banco Angolano de Investimentos", "BAI", "Banco BIC", "Banco de Poupança e Crédito",
-    "BPC", "Banco Comercial Angolano", "BCA", "Banco Economico", "Banco Keve",
-    "Banco Millennium Atlântico", "BMA", "Banco de Desenvolvimento de Angola", "BDA",
-    "Banco Sol", "Banco Prestígio", "Banco Regional do Keve", "Banco VTB África",
-    "Banco BAI Micro Finanças", "Finibanco Angola", "Standard Bank Angola",
-    
-    // Namibian Banks
-    "Bank Windhoek", "First National Bank Namibia", "FNB Namibia", "Standard Bank Namibia",
-    "Nedbank Namibia", "Banco Nacional de Angola Namibia", "SME Bank", "Development Bank of Namibia",
-    "DBN", "Agribank Namibia", "Capricorn Investment Holdings", "Bank of Namibia",
-    
-    // Ivorian Banks (Côte d'Ivoire)
-    "Banque Internationale pour le Commerce et l'Industrie de Côte d'Ivoire", "BICICI",
-    "Société Générale Côte d'Ivoire", "SGCI", "Ecobank Côte d'Ivoire", "Banque Atlantique Côte d'Ivoire",
-    "Coris Bank International", "Banque Populaire de Côte d'Ivoire", "UBA Côte d'Ivoire",
-    "Standard Chartered Côte d'Ivoire", "Access Bank Côte d'Ivoire", "Banque de l'Habitat de Côte d'Ivoire",
-    "BHCI", "NSIA Banque Côte d'Ivoire", "Orabank Côte d'Ivoire", "Bridge Bank Group",
-    
-    // Senegalese Banks
-    "Banque Atlantique Senegal", "Société Générale Sénégal", "CBAO", "Compagnie Bancaire de l'Afrique Occidentale",
-    "Ecobank Sénégal", "UBA Sénégal", "BICIS", "Banque Internationale pour le Commerce et l'Industrie du Sénégal",
-    "Banque de Dakar", "Crédit du Sénégal", "BSIC", "Banque Sahélo-Saharienne pour l'Investissement et le Commerce",
-    "Banque Agricole", "Banque Islamique du Sénégal", "BIS", "Orabank Sénégal",
-    
-    // Malian Banks
-    "Banque de Développement du Mali", "BDM", "Ecobank Mali", "UBA Mali", "Banque Atlantique Mali",
-    "Banque Internationale pour le Mali", "BIM", "Orabank Mali", "Société Générale Mali",
-    "Bank of Africa Mali", "Banque Malienne de Solidarité", "BMS", "Banque Nationale de Développement Agricole",
-    "BNDA", "Banque Sahélo-Saharienne pour l'Investissement et le Commerce Mali", "BSIC Mali",
-    
-    // Cameroonian Banks
-    "Afriland First Bank", "Société Générale Cameroun", "Commercial Bank of Cameroon", "CBC",
-    "Ecobank Cameroun", "UBA Cameroon", "Standard Chartered Cameroun", "Union Bank of Cameroon",
-    "Banque Internationale du Cameroun pour l'Epargne et le Crédit", "BICEC", "Crédit Lyonnais Cameroun",
-    "National Financial Credit Bank", "NFC Bank", "Banque Atlantique Cameroun", "Express Union",
-    "Micro Finance Bank", "Banque des États de l'Afrique Centrale", "BEAC"
-  ];
-
-  // Bank validation function
-  const validateBankName = async (name: string) => {
-    if (!name || name.length < 3) {
-      setBankValidation({ isValid: false, isChecking: false });
-      return;
+  // Low-balance, overdraft sweep and spending limit alerts from postings
+  const { toast } = useToast();
+  useEffect(() => {
+    if (authState.token) {
+      initializeSocketConnection(authState.token);
     }
 
-    setBankValidation({ isValid: false, isChecking: true });
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const isValid = validBanks.some(bank => 
-      bank.toLowerCase().includes(name.toLowerCase()) || 
-      name.toLowerCase().includes(bank.toLowerCase())
-    );
-    
-    setBankValidation({ isValid, isChecking: false });
-  };
+    const handleAlert = (update: AccountAlertUpdate) => {
+      toast({
+        title: ACCOUNT_ALERT_TITLES[update.type],
+        description: update.message,
+        variant: update.type === "OVERDRAFT_SWEEP" ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/dashboard'] });
+    };
+    socketClient.on("account_alert", handleAlert);
+    return () => socketClient.off("account_alert", handleAlert);
+  }, [authState.token, toast, queryClient]);
 
   const { data, isLoading, error } = useQuery<DashboardData>({
-    queryKey: ['/api/user/dashboard'],
+    queryKey: ['/api/user/dashboard', selectedAccountId],
+    queryFn: async () => {
+      const query = selectedAccountId ? `?accountId=${encodeURIComponent(selectedAccountId)}` : '';
+      const response = await apiRequest('GET', `/api/user/dashboard${query}`);
+      return response.json();
+    },
     enabled: authState.isAuthenticated,
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
@@ -314,47 +231,41 @@ export default function Dashboard() {
     );
   }
 
-  const monthlySpending = data.monthlyStats.spent;
+  // API amounts are decimal strings; all arithmetic goes through Money
+  const balance = toMoney(data.account.balance);
+  const monthlySpending = toMoney(data.monthlyStats.spent);
+  const monthlyReceived = toMoney(data.monthlyStats.received);
+  const monthlyNet = monthlyReceived.subtract(monthlySpending);
   const monthlyTransactions = data.monthlyStats.transactionCount;
 
-  const handleTransfer = async (amount?: string, recipient?: string, type?: string) => {
+  const handleTransfer = async (transfer?: TransferDetails, idempotencyKey?: string) => {
     try {
-      // Create completely clean transfer data with no circular references
-      const transferData = Object.create(null);
-      transferData.amount = Number(amount || transferAmount) || 0;
-      transferData.recipientInfo = String(recipient || recipientInfo || '');
-      transferData.transferType = String(type || transferType || '');
-      
-      const finalType = type || transferType;
-      if (finalType === 'external_bank' && bankName) {
-        transferData.bankName = String(bankName);
-      }
+      // Build the payload the same way QuickActions does so a shared
+      // idempotency key replays the original transfer instead of repeating it.
+      // Without details (the dialog below) the form state is used.
+      const details: TransferDetails = transfer?.transferType ? transfer : {
+        amount: transferAmount,
+        recipientInfo,
+        transferType,
+        routingNumber,
+        recipientName,
+        payeeId: payeeId || undefined
+      };
+      const transferData = createTransferPayload({ ...details, fromAccountId: data.account.id });
 
       // Create completely clean headers
       const headers = Object.create(null);
       headers['Content-Type'] = 'application/json';
+      if (idempotencyKey) {
+        headers['Idempotency-Key'] = idempotencyKey;
+      }
       
       const authHeader = authManager.getAuthHeader();
       if (authHeader && authHeader.Authorization) {
         headers.Authorization = String(authHeader.Authorization);
       }
 
-      // Safe stringify with error handling
-      let requestBody: string;
-      try {
-        requestBody = JSON.stringify(transferData);
-      } catch (stringifyError) {
-        console.error('Dashboard JSON.stringify error:', stringifyError);
-        // Create fallback clean object
-        const fallbackData = Object.create(null);
-        fallbackData.amount = Number(amount || transferAmount) || 0;
-        fallbackData.recipientInfo = String(recipient || recipientInfo || '');
-        fallbackData.transferType = String(type || transferType || '');
-        if ((type || transferType) === 'external_bank' && bankName) {
-          fallbackData.bankName = String(bankName);
-        }
-        requestBody = JSON.stringify(fallbackData);
-      }
+      const requestBody = safeStringify(transferData);
 
       const response = await fetch('/api/user/transfer', {
         method: 'POST',
@@ -384,8 +295,9 @@ export default function Dashboard() {
       setTransferOpen(false);
       setTransferAmount("");
       setRecipientInfo("");
-      setBankName("");
-      setBankValidation({ isValid: false, isChecking: false });
+      setRoutingNumber("");
+      setRecipientName("");
+      setPayeeId("");
       setTransferType("email");
       
       // Refresh dashboard data to show updated balance/transactions
@@ -396,19 +308,14 @@ export default function Dashboard() {
     }
   };
 
-  const handleDeposit = () => {
-    // In a real app, this would make an API call
-    console.log('Deposit:', { amount: depositAmount, method: depositMethod });
-    setDepositOpen(false);
-    setDepositAmount("");
-    setDepositMethod("bank_transfer");
+  const handleDeposited = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/user/dashboard'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user/transactions'] });
   };
 
-  const handleBillPay = () => {
-    // In a real app, this would make an API call
-    console.log('Bill Pay:', { payee: payeeSelection });
-    setBillPayOpen(false);
-    setPayeeSelection("");
+  const handleBillPaid = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/user/dashboard'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user/transactions'] });
   };
 
   return (
@@ -523,11 +430,11 @@ export default function Dashboard() {
               <div className="group p-5 bg-white/3 border border-white/5 rounded-2xl hover:bg-white/5 hover:border-white/10 transition-all duration-300">
                 <div className="text-label-secondary text-banking-subtle mb-3">Account Number</div>
                 <div className="text-metric-small text-white mb-2">
-                  {formatAccountNumber(data.user.accountNumber || '')}
+                  {formatAccountNumber(data.account.accountNumber || '')}
                 </div>
                 <div className="flex items-center gap-2">
                   <span className="text-xs font-medium text-blue-400 uppercase tracking-wider">
-                    {data.user.accountType || 'BUSINESS'}
+                    {data.account.type || 'BUSINESS'}
                   </span>
                   <span className="w-1 h-1 bg-blue-400 rounded-full"></span>
                   <span className="text-xs text-banking-muted">Account</span>
@@ -558,18 +465,22 @@ export default function Dashboard() {
           {/* Professional Balance Card - Hero Element */}
           <section aria-labelledby="balance-heading" className="mb-8">
             <BalanceCard
-              balance={data.user.balance}
-              accountType={data.user.accountType || 'BUSINESS'}
-              accountNumber={data.user.accountNumber || ''}
+              balance={data.account.balance}
+              currency={data.account.currency}
+              accountType={data.account.type || 'BUSINESS'}
+              accountNumber={data.account.accountNumber || ''}
+              accounts={data.accounts}
+              selectedAccountId={data.account.id}
+              onAccountChange={setSelectedAccountId}
               monthlyChange={{
-                amount: data.monthlyStats.received - data.monthlyStats.spent,
-                percentage: ((data.monthlyStats.received - data.monthlyStats.spent) / Math.max(data.user.balance, 1000)) * 100,
-                trend: data.monthlyStats.received > data.monthlyStats.spent ? 'up' : 'down'
+                amount: monthlyNet,
+                percentage: (monthlyNet.toNumber() / Math.max(balance.toNumber(), 1000)) * 100,
+                trend: monthlyReceived.gt(monthlySpending) ? 'up' : 'down'
               }}
               quickStats={{
-                available: data.user.balance,
-                pending: 0, // This would come from API
-                reserved: 0 // This would come from API
+                available: data.account.availableBalance ?? data.account.balance,
+                pending: data.account.heldAmount ?? '0.00',
+                reserved: '0.00' // This would come from API
               }}
             />
           </section>
@@ -651,13 +562,13 @@ export default function Dashboard() {
                   </div>
                 </div>
                 <div className={`text-2xl font-bold mb-2 text-currency ${
-                  (data.monthlyStats.received - monthlySpending) >= 0 ? 'text-green-400' : 'text-red-400'
+                  !monthlyNet.isNegative() ? 'text-green-400' : 'text-red-400'
                 }`}>
-                  {formatCurrency(data.monthlyStats.received - monthlySpending)}
+                  {formatCurrency(monthlyNet)}
                 </div>
                 <div className="flex items-center gap-2">
                   <div className={`w-2 h-2 rounded-full status-pulse ${
-                    (data.monthlyStats.received - monthlySpending) >= 0 ? 'bg-green-400' : 'bg-red-400'
+                    !monthlyNet.isNegative() ? 'bg-green-400' : 'bg-red-400'
                   }`}></div>
                   <div className="text-xs text-white/60">This Month</div>
                 </div>
@@ -672,6 +583,8 @@ export default function Dashboard() {
               title="Recent Activity"
               showSearch={true}
               maxHeight="600px"
+              onCancelTransfer={handleCancelTransfer}
+              cancellingTransferId={cancelTransferMutation.isPending ? cancelTransferMutation.variables : null}
             />
           </div>
 
@@ -680,15 +593,15 @@ export default function Dashboard() {
             {/* Account Overview Widget */}
             <AccountOverviewWidget
               metrics={{
-                totalBalance: data.user.balance,
+                totalBalance: data.account.balance,
                 monthlyIncome: data.monthlyStats.received,
                 monthlyExpenses: monthlySpending,
-                savingsRate: ((data.monthlyStats.received - monthlySpending) / data.monthlyStats.received) * 100,
+                savingsRate: monthlyReceived.isPositive() ? (monthlyNet.toNumber() / monthlyReceived.toNumber()) * 100 : 0,
                 creditUtilization: 25.5,
-                accountHealth: data.user.balance > 10000 ? 'excellent' : data.user.balance > 5000 ? 'good' : 'fair',
+                accountHealth: balance.gt('10000') ? 'excellent' : balance.gt('5000') ? 'good' : 'fair',
                 goals: {
-                  savingsGoal: 25000,
-                  currentSavings: data.user.balance * 0.6,
+                  savingsGoal: '25000.00',
+                  currentSavings: balance.multiply('0.6'),
                   targetDate: 'December 2025'
                 },
                 trends: {
@@ -698,6 +611,9 @@ export default function Dashboard() {
                 }
               }}
               period="This Month"
+              accounts={data.accounts}
+              selectedAccountId={data.account.id}
+              onAccountChange={setSelectedAccountId}
             />
 
             {/* Spending Chart */}
@@ -705,7 +621,7 @@ export default function Dashboard() {
               data={[
                 {
                   category: 'Groceries & Food',
-                  amount: monthlySpending * 0.35,
+                  amount: monthlySpending.multiply('0.35'),
                   percentage: 35,
                   change: -5.2,
                   trend: 'down' as const,
@@ -714,7 +630,7 @@ export default function Dashboard() {
                 },
                 {
                   category: 'Transportation',
-                  amount: monthlySpending * 0.20,
+                  amount: monthlySpending.multiply('0.20'),
                   percentage: 20,
                   change: 3.1,
                   trend: 'up' as const,
@@ -723,7 +639,7 @@ export default function Dashboard() {
                 },
                 {
                   category: 'Entertainment',
-                  amount: monthlySpending * 0.15,
+                  amount: monthlySpending.multiply('0.15'),
                   percentage: 15,
                   change: 1.8,
                   trend: 'up' as const,
@@ -732,7 +648,7 @@ export default function Dashboard() {
                 },
                 {
                   category: 'Utilities',
-                  amount: monthlySpending * 0.12,
+                  amount: monthlySpending.multiply('0.12'),
                   percentage: 12,
                   change: 0,
                   trend: 'neutral' as const,
@@ -741,7 +657,7 @@ export default function Dashboard() {
                 },
                 {
                   category: 'Shopping',
-                  amount: monthlySpending * 0.10,
+                  amount: monthlySpending.multiply('0.10'),
                   percentage: 10,
                   change: -8.3,
                   trend: 'down' as const,
@@ -750,7 +666,7 @@ export default function Dashboard() {
                 },
                 {
                   category: 'Other',
-                  amount: monthlySpending * 0.08,
+                  amount: monthlySpending.multiply('0.08'),
                   percentage: 8,
                   change: 4.2,
                   trend: 'up' as const,
@@ -778,9 +694,10 @@ export default function Dashboard() {
                 </Card>
               }>
                 <QuickActions 
-                  onDeposit={handleDeposit}
+                  fromAccountId={data.account.id}
+                  onDeposited={handleDeposited}
                   onTransfer={handleTransfer}
-                  onBillPay={handleBillPay}
+                  onBillPaid={handleBillPaid}
                 />
               </Suspense>
             </div>
@@ -799,12 +716,19 @@ export default function Dashboard() {
                 <FinancialInsights 
                   transactions={data.recentTransactions}
                   monthlySpending={monthlySpending}
-                  balance={data.user.balance}
+                  balance={data.account.balance}
                 />
               </Suspense>
             </div>
           </div>
 
+          {/* Conversions between accounts held in different currencies */}
+          {new Set(data.accounts.map((account) => account.currency)).size > 1 && (
+            <section className="mt-8" aria-label="Currency exchange">
+              <CurrencyExchange accounts={data.accounts} fromAccountId={data.account.id} />
+            </section>
+          )}
+
           {/* Trust Indicators */}
           <section className="mt-12" aria-label="Security and compliance information">
             <h3 className="text-lg font-semibold text-white mb-4 text-center">Your Security & Trust</h3>
@@ -855,45 +779,66 @@ export default function Dashboard() {
               </Select>
             </div>
 
-            {transferType === "external_bank" && (
+            {transferType === "external_bank" && payees.length > 0 && (
               <div>
-                <Label htmlFor="bank-name" className="text-gray-700">Bank Name *</Label>
-                <div className="relative mt-1">
+                <Label htmlFor="payee" className="text-gray-700">Payee</Label>
+                <Select value={payeeId || "new"} onValueChange={(value) => setPayeeId(value === "new" ? "" : value)}>
+                  <SelectTrigger id="payee" className="mt-1 focus-ring">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="new">Enter account details</SelectItem>
+                    {payees.map((payee) => (
+                      <SelectItem key={payee.id} value={payee.id}>{describePayee(payee)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedPayee?.coolingOff && (
+                  <p className="text-sm text-yellow-600 mt-1">
+                    New payee: up to {formatCurrency(selectedPayee.coolingOff.remaining)} can be sent until {formatFinancialDate(selectedPayee.coolingOff.endsAt, true)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {transferType === "external_bank" && !payeeId && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="routing-number" className="text-gray-700">Routing Number *</Label>
                   <Input
-                    id="bank-name"
+                    id="routing-number"
                     type="text"
-                    placeholder="Enter bank name (e.g., Chase Bank, Bank of America)"
-                    value={bankName}
-                    onChange={(e) => {
-                      setBankName(e.target.value);
-                      validateBankName(e.target.value);
-                    }}
-                    className="focus-ring pr-10"
+                    inputMode="numeric"
+                    placeholder="021000021"
+                    maxLength={9}
+                    value={routingNumber}
+                    onChange={(e) => setRoutingNumber(e.target.value.replace(/\D/g, ""))}
+                    className="mt-1 focus-ring"
                   />
-                  <div className="absolute inset-y-0 right-0 flex items-center pr-3">
-                    {bankValidation.isChecking ? (
-                      <LoadingSpinner size="sm" />
-                    ) : bankName.length >= 3 ? (
-                      bankValidation.isValid ? (
-                        <CheckCircle className="h-5 w-5 text-green-500" />
-                      ) : (
-                        <XCircle className="h-5 w-5 text-red-500" />
-                      )
-                    ) : null}
-                  </div>
                 </div>
-                {bankName.length >= 3 && !bankValidation.isChecking && (
-                  <p className={`text-sm mt-1 ${bankValidation.isValid ? 'text-green-600' : 'text-red-600'}`}>
-                    {bankValidation.isValid ? '✓ Valid bank name' : '✗ Bank not recognized'}
-                  </p>
-                )}
+                <div>
+                  <Label htmlFor="recipient-name" className="text-gray-700">Account Holder *</Label>
+                  <Input
+                    id="recipient-name"
+                    type="text"
+                    placeholder="Name on the account"
+                    maxLength={22}
+                    value={recipientName}
+                    onChange={(e) => setRecipientName(e.target.value)}
+                    className="mt-1 focus-ring"
+                  />
+                </div>
+                <div className="col-span-2 -mt-2">
+                  <RoutingInstitutionStatus routingNumber={routingNumber} lookup={routingLookup} />
+                </div>
               </div>
             )}
 
+            {!(transferType === "external_bank" && payeeId) && (
             <div>
               <Label htmlFor="recipient-info" className="text-gray-700">
                 {transferType === "email" ? "Recipient Email *" : 
-                 transferType === "external_bank" ? "Account Number/Routing Number *" :
+                 transferType === "external_bank" ? "Account Number *" :
                  transferType === "checking" ? "Checking Account" :
                  "Savings Account"}
               </Label>
@@ -902,7 +847,7 @@ export default function Dashboard() {
                 type={transferType === "email" ? "email" : "text"}
                 placeholder={
                   transferType === "email" ? "Enter recipient's email" :
-                  transferType === "external_bank" ? "Account: 1234567890, Routing: 021000021" :
+                  transferType === "external_bank" ? "1234567890" :
                   transferType === "checking" ? "Checking account (••••4721)" :
                   "Savings account (••••8932)"
                 }
@@ -923,14 +868,15 @@ export default function Dashboard() {
                 </p>
               )}
             </div>
+            )}
 
             <div className="flex gap-2 pt-4">
               <Button 
-                onClick={handleTransfer} 
+                onClick={() => handleTransfer()} 
                 className="btn-prime-primary flex-1 focus-ring"
                 disabled={!transferAmount || 
                   (transferType === "email" && !recipientInfo) ||
-                  (transferType === "external_bank" && (!recipientInfo || !bankName || !bankValidation.isValid))}
+                  (transferType === "external_bank" && !payeeId && (!recipientInfo || !routingLookup.institution || !recipientName.trim()))}
               >
                 <Send className="h-4 w-4 mr-2" aria-hidden="true" />
                 Send {formatCurrency(parseFloat(transferAmount) || 0)}
@@ -941,8 +887,9 @@ export default function Dashboard() {
                   setTransferOpen(false);
                   setTransferAmount("");
                   setRecipientInfo("");
-                  setBankName("");
-                  setBankValidation({ isValid: false, isChecking: false });
+                  setRoutingNumber("");
+                  setRecipientName("");
+                  setPayeeId("");
                   setTransferType("email");
                 }}
                 className="focus-ring"
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import Navbar from "@/components/navbar";
+import EddRequestCard from "@/components/kyc/EddRequestCard";
 import { authManager } from "@/lib/auth";
 import {
   Upload,
@@ -29,12 +30,13 @@ import {
   Loader2,
   Plus,
   Search,
-  Filter
+  Filter,
+  Landmark
 } from "lucide-react";
 
 interface Document {
   id: string;
-  type: 'DRIVERS_LICENSE' | 'PASSPORT' | 'UTILITY_BILL' | 'BANK_STATEMENT' | 'TAX_DOCUMENT' | 'IDENTITY_VERIFICATION';
+  type: 'DRIVERS_LICENSE' | 'PASSPORT' | 'UTILITY_BILL' | 'BANK_STATEMENT' | 'TAX_DOCUMENT' | 'IDENTITY_VERIFICATION' | 'SOURCE_OF_WEALTH';
   filename: string;
   originalName: string;
   mimeType: string;
@@ -62,7 +64,8 @@ const documentTypes = [
   { value: 'UTILITY_BILL', label: 'Utility Bill', icon: Home, color: 'yellow' },
   { value: 'BANK_STATEMENT', label: 'Bank Statement', icon: Receipt, color: 'purple' },
   { value: 'TAX_DOCUMENT', label: 'Tax Document', icon: FileText, color: 'orange' },
-  { value: 'IDENTITY_VERIFICATION', label: 'Identity Verification', icon: FileCheck, color: 'indigo' }
+  { value: 'IDENTITY_VERIFICATION', label: 'Identity Verification', icon: FileCheck, color: 'indigo' },
+  { value: 'SOURCE_OF_WEALTH', label: 'Source of Wealth', icon: Landmark, color: 'teal' }
 ];
 
 export default function DocumentsPage() {
@@ -121,6 +124,7 @@ export default function DocumentsPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/edd'] });
       setSelectedDocumentType('');
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -311,6 +315,9 @@ export default function DocumentsPage() {
             </Card>
           </div>
 
+          {/* Enhanced due diligence request, when one is open */}
+          <EddRequestCard />
+
           {/* Upload Section */}
           <Card className="card-gradient border-white/10 mb-8">
             <CardHeader>
@@ -428,6 +435,7 @@ export default function DocumentsPage() {
                                   typeConfig.color === 'yellow' ? 'bg-yellow-100 text-yellow-700 border-yellow-200' :
                                   typeConfig.color === 'purple' ? 'bg-purple-100 text-purple-700 border-purple-200' :
                                   typeConfig.color === 'orange' ? 'bg-orange-100 text-orange-700 border-orange-200' :
+                                  typeConfig.color === 'teal' ? 'bg-teal-100 text-teal-700 border-teal-200' :
                                   'bg-indigo-100 text-indigo-700 border-indigo-200'}`}>
                                   <typeConfig.icon className="h-3 w-3 mr-1" />
                                   {typeConfig.label}
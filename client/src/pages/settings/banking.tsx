@@ -10,7 +10,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import Navbar from "@/components/navbar";
+import ScheduledTransfers from "@/components/settings/ScheduledTransfers";
+import Payees from "@/components/settings/Payees";
+import BillPay from "@/components/settings/BillPay";
 import { authManager } from "@/lib/auth";
+import { formatCurrency, parseAmountInput, toMoney } from "@/lib/formatters";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   CreditCard,
@@ -54,20 +58,32 @@ interface BankingPreferences {
   autoSavePercentage: number;
   overdraftProtection: boolean;
   lowBalanceAlerts: boolean;
-  lowBalanceThreshold: number;
-  monthlySpendingLimit?: number;
+  lowBalanceThreshold: string;
+  monthlySpendingLimit?: string | null;
+  spendingLimitAction: 'WARN' | 'BLOCK';
   internationalTransactions: boolean;
   mobilePayments: boolean;
   contactlessPayments: boolean;
   recurringTransfers: boolean;
 }
 
+// Limits cover rolling windows; a null limit means the window is unlimited
 interface TransferLimit {
   type: 'DAILY' | 'WEEKLY' | 'MONTHLY';
-  amount: number;
-  remaining: number;
+  amount: string | null;
+  used: string;
+  remaining: string | null;
+  count: number | null;
+  usedCount: number;
+  remainingCount: number | null;
 }
 
+const LIMIT_WINDOW_LABELS: Record<TransferLimit['type'], string> = {
+  DAILY: 'Last 24 hours',
+  WEEKLY: 'Last 7 days',
+  MONTHLY: 'Last 30 days',
+};
+
 export default function BankingServicesSettings() {
   const authState = authManager.getState();
   const [, setLocation] = useLocation();
@@ -98,8 +114,9 @@ export default function BankingServicesSettings() {
             autoSavePercentage: 15,
             overdraftProtection: true,
             lowBalanceAlerts: true,
-            lowBalanceThreshold: 50,
-            monthlySpendingLimit: 5000,
+            lowBalanceThreshold: '50.00',
+            monthlySpendingLimit: '5000.00',
+            spendingLimitAction: 'WARN',
             internationalTransactions: false,
             mobilePayments: true,
             contactlessPayments: true,
@@ -127,11 +144,7 @@ export default function BankingServicesSettings() {
               provider: 'ACH'
             }
           ],
-          transferLimits: [
-            { type: 'DAILY', amount: 5000, remaining: 3500 },
-            { type: 'WEEKLY', amount: 25000, remaining: 18750 },
-            { type: 'MONTHLY', amount: 100000, remaining: 75000 }
-          ]
+          transferLimits: []
         };
       }
       return response.json();
@@ -141,6 +154,7 @@ export default function BankingServicesSettings() {
   const bankingSettings: BankingPreferences = bankingData?.settings || {} as BankingPreferences;
   const paymentMethods: PaymentMethod[] = bankingData?.paymentMethods || [];
   const transferLimits: TransferLimit[] = bankingData?.transferLimits || [];
+  const perTransactionLimit: string | null = bankingData?.perTransactionLimit ?? null;
 
   // Update banking settings
   const updateBankingMutation = useMutation({
@@ -166,8 +180,9 @@ export default function BankingServicesSettings() {
     autoSavePercentage: 10,
     overdraftProtection: true,
     lowBalanceAlerts: true,
-    lowBalanceThreshold: 100,
+    lowBalanceThreshold: '100.00',
     monthlySpendingLimit: undefined,
+    spendingLimitAction: 'WARN',
     internationalTransactions: false,
     mobilePayments: true,
     contactlessPayments: true,
@@ -182,8 +197,9 @@ export default function BankingServicesSettings() {
         autoSavePercentage: bankingSettings.autoSavePercentage ?? 10,
         overdraftProtection: bankingSettings.overdraftProtection ?? true,
         lowBalanceAlerts: bankingSettings.lowBalanceAlerts ?? true,
-        lowBalanceThreshold: bankingSettings.lowBalanceThreshold ?? 100,
+        lowBalanceThreshold: bankingSettings.lowBalanceThreshold ?? '100.00',
         monthlySpendingLimit: bankingSettings.monthlySpendingLimit,
+        spendingLimitAction: bankingSettings.spendingLimitAction ?? 'WARN',
         internationalTransactions: bankingSettings.internationalTransactions ?? false,
         mobilePayments: bankingSettings.mobilePayments ?? true,
         contactlessPayments: bankingSettings.contactlessPayments ?? true,
@@ -192,7 +208,7 @@ export default function BankingServicesSettings() {
     }
   }, [bankingSettings]);
 
-  const handlePreferenceChange = (key: keyof BankingPreferences, value: boolean | number) => {
+  const handlePreferenceChange = (key: keyof BankingPreferences, value: boolean | number | string | null | undefined) => {
     const newPreferences = { ...preferences, [key]: value };
     setPreferences(newPreferences);
     updateBankingMutation.mutate(newPreferences);
@@ -252,13 +268,6 @@ export default function BankingServicesSettings() {
     return provider.charAt(0);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900">
@@ -411,39 +420,71 @@ export default function BankingServicesSettings() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid sm:grid-cols-3 gap-6">
-                  {transferLimits.map((limit) => (
-                    <div key={limit.type} className="p-4 bg-white/5 rounded-lg border border-white/10">
-                      <div className="text-center">
-                        <h3 className="font-semibold text-white mb-2">{limit.type}</h3>
-                        <div className="space-y-2">
-                          <div className="text-2xl font-bold text-green-400">
-                            {formatCurrency(limit.remaining)}
-                          </div>
-                          <div className="text-sm text-gray-400">
-                            of {formatCurrency(limit.amount)} remaining
-                          </div>
-                          <div className="w-full bg-white/10 rounded-full h-2">
-                            <div 
-                              className="bg-green-500 h-2 rounded-full"
-                              style={{ width: `${(limit.remaining / limit.amount) * 100}%` }}
-                            />
-                          </div>
+                {transferLimits.length === 0 ? (
+                  <p className="text-sm text-gray-400">Transfer limits are unavailable right now.</p>
+                ) : (
+                  <div className="grid sm:grid-cols-3 gap-6">
+                    {transferLimits.map((limit) => (
+                      <div key={limit.type} className="p-4 bg-white/5 rounded-lg border border-white/10">
+                        <div className="text-center">
+                          <h3 className="font-semibold text-white mb-2">{LIMIT_WINDOW_LABELS[limit.type]}</h3>
+                          {limit.amount === null || limit.remaining === null ? (
+                            <div className="space-y-2">
+                              <div className="text-2xl font-bold text-green-400">No limit</div>
+                              <div className="text-sm text-gray-400">{formatCurrency(limit.used)} sent</div>
+                            </div>
+                          ) : (
+                            <div className="space-y-2">
+                              <div className="text-2xl font-bold text-green-400">
+                                {formatCurrency(limit.remaining)}
+                              </div>
+                              <div className="text-sm text-gray-400">
+                                of {formatCurrency(limit.amount)} remaining
+                              </div>
+                              <div className="w-full bg-white/10 rounded-full h-2">
+                                <div 
+                                  className="bg-green-500 h-2 rounded-full"
+                                  style={{ width: `${toMoney(limit.amount).isZero() ? 0 : (toMoney(limit.remaining).toNumber() / toMoney(limit.amount).toNumber()) * 100}%` }}
+                                />
+                              </div>
+                              <div className="text-xs text-gray-400">{formatCurrency(limit.used)} sent</div>
+                            </div>
+                          )}
+                          {limit.count !== null && (
+                            <div className="text-xs text-gray-400 mt-2">
+                              {limit.usedCount} of {limit.count} transfers used
+                            </div>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
+
+                {perTransactionLimit && (
+                  <p className="text-sm text-gray-400 mt-4">
+                    Each transfer can be up to {formatCurrency(perTransactionLimit)}.
+                  </p>
+                )}
                 
                 <Alert className="mt-6 bg-blue-950/50 border-blue-500/30">
                   <AlertTriangle className="h-4 w-4 text-blue-400" />
                   <AlertDescription className="text-blue-200">
-                    Transfer limits reset automatically. Contact support to request higher limits.
+                    Limits count the transfers you sent over each period, so room frees up as older transfers drop out. Contact support to request higher limits.
                   </AlertDescription>
                 </Alert>
               </CardContent>
             </Card>
 
+            {/* Saved Payees */}
+            <Payees />
+
+            {/* Bill Pay */}
+            <BillPay />
+
+            {/* Scheduled Transfers */}
+            <ScheduledTransfers recurringEnabled={preferences.recurringTransfers} />
+
             {/* Banking Preferences */}
             <Card className="card-gradient border-white/10">
               <CardHeader>
@@ -504,7 +545,7 @@ export default function BankingServicesSettings() {
                         <Label className="text-white font-medium block">
                           Overdraft Protection
                         </Label>
-                        <p className="text-sm text-gray-400">Prevent transactions that would overdraw your account</p>
+                        <p className="text-sm text-gray-400">Cover payments your balance can't with a transfer from your savings account. When off, those payments are declined.</p>
                       </div>
                       <Switch
                         checked={preferences.overdraftProtection}
@@ -532,7 +573,10 @@ export default function BankingServicesSettings() {
                           <Input
                             type="number"
                             value={preferences.lowBalanceThreshold}
-                            onChange={(e) => handlePreferenceChange('lowBalanceThreshold', parseInt(e.target.value))}
+                            onChange={(e) => {
+                              const threshold = parseAmountInput(e.target.value);
+                              if (threshold) handlePreferenceChange('lowBalanceThreshold', threshold.toString());
+                            }}
                             className="bg-white/10 border-white/20 text-white"
                             placeholder="100"
                           />
@@ -558,12 +602,30 @@ export default function BankingServicesSettings() {
                         <Input
                           type="number"
                           value={preferences.monthlySpendingLimit || ''}
-                          onChange={(e) => handlePreferenceChange('monthlySpendingLimit', parseInt(e.target.value) || undefined)}
+                          onChange={(e) => handlePreferenceChange('monthlySpendingLimit', parseAmountInput(e.target.value)?.toString() ?? null)}
                           className="bg-white/10 border-white/20 text-white"
                           placeholder="Enter amount (optional)"
                         />
-                        <p className="text-sm text-gray-400 mt-1">Leave empty for no limit</p>
+                        <p className="text-sm text-gray-400 mt-1">Leave empty for no limit. Transfers between your own accounts don't count.</p>
                       </div>
+
+                      {preferences.monthlySpendingLimit && (
+                        <div className="space-y-2">
+                          <Label className="text-white font-medium">When a payment goes over the limit</Label>
+                          <Select
+                            value={preferences.spendingLimitAction}
+                            onValueChange={(value) => handlePreferenceChange('spendingLimitAction', value)}
+                          >
+                            <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="WARN">Send the payment and alert me</SelectItem>
+                              <SelectItem value="BLOCK">Decline the payment</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -620,7 +682,7 @@ export default function BankingServicesSettings() {
                         <Label className="text-white font-medium block">
                           Recurring Transfers
                         </Label>
-                        <p className="text-sm text-gray-400">Automatically schedule regular transfers</p>
+                        <p className="text-sm text-gray-400">Allow weekly and monthly scheduled transfers</p>
                       </div>
                       <Switch
                         checked={preferences.recurringTransfers}
@@ -22,6 +22,8 @@ import {
 import Navbar from "@/components/navbar";
 import { authManager } from "@/lib/auth";
 import { cn } from "@/lib/utils";
+import { formatCurrency, parseAmountInput, toMoney } from "@/lib/formatters";
+import { Money } from "@shared/money";
 import { 
   Search,
   Filter,
@@ -53,7 +55,7 @@ import { format, subDays, startOfMonth, endOfMonth, isWithinInterval } from "dat
 interface Transaction {
   id: string;
   type: 'CREDIT' | 'DEBIT';
-  amount: number;
+  amount: string;
   description: string;
   category: string;
   merchant?: string;
@@ -125,7 +127,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_001',
           type: 'CREDIT',
-          amount: 3200.00,
+          amount: '3200.00',
           description: 'Direct Deposit - Salary',
           category: 'Income',
           merchant: 'TechCorp Inc.',
@@ -141,7 +143,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_002',
           type: 'DEBIT',
-          amount: 1850.00,
+          amount: '1850.00',
           description: 'Rent Payment',
           category: 'Housing',
           merchant: 'Sunset Apartments',
@@ -158,7 +160,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_003',
           type: 'DEBIT',
-          amount: 125.67,
+          amount: '125.67',
           description: 'Whole Foods Market',
           category: 'Food & Dining',
           merchant: 'Whole Foods Market',
@@ -175,7 +177,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_004',
           type: 'DEBIT',
-          amount: 45.20,
+          amount: '45.20',
           description: 'Shell Gas Station',
           category: 'Transportation',
           merchant: 'Shell',
@@ -192,7 +194,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_005',
           type: 'DEBIT',
-          amount: 2500.00,
+          amount: '2500.00',
           description: 'Transfer to Savings',
           category: 'Transfer',
           status: 'completed',
@@ -207,7 +209,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_006',
           type: 'DEBIT',
-          amount: 89.99,
+          amount: '89.99',
           description: 'Amazon Purchase',
           category: 'Shopping',
           merchant: 'Amazon.com',
@@ -223,7 +225,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_007',
           type: 'DEBIT',
-          amount: 250.00,
+          amount: '250.00',
           description: 'PG&E Electric Bill',
           category: 'Bills & Utilities',
           merchant: 'PG&E',
@@ -238,7 +240,7 @@ export default function TransactionHistory() {
         {
           id: 'tx_008',
           type: 'DEBIT',
-          amount: 12.50,
+          amount: '12.50',
           description: 'Coffee Bean & Tea Leaf',
           category: 'Food & Dining',
           merchant: 'Coffee Bean & Tea Leaf',
@@ -300,11 +302,13 @@ export default function TransactionHistory() {
     }
 
     // Amount range filter
-    if (filters.amountMin) {
-      filtered = filtered.filter(tx => tx.amount >= parseFloat(filters.amountMin));
+    const amountMin = parseAmountInput(filters.amountMin);
+    if (amountMin) {
+      filtered = filtered.filter(tx => toMoney(tx.amount).gte(amountMin));
     }
-    if (filters.amountMax) {
-      filtered = filtered.filter(tx => tx.amount <= parseFloat(filters.amountMax));
+    const amountMax = parseAmountInput(filters.amountMax);
+    if (amountMax) {
+      filtered = filtered.filter(tx => toMoney(tx.amount).lte(amountMax));
     }
 
     // Sort
@@ -317,8 +321,8 @@ export default function TransactionHistory() {
           bVal = b.createdAt.getTime();
           break;
         case 'amount':
-          aVal = a.amount;
-          bVal = b.amount;
+          aVal = toMoney(a.amount).minor;
+          bVal = toMoney(b.amount).minor;
           break;
         case 'description':
           aVal = a.description.toLowerCase();
@@ -436,10 +440,9 @@ export default function TransactionHistory() {
                   <div>
                     <p className="text-sm font-medium text-gray-600">Total Spent</p>
                     <p className="text-2xl font-bold text-red-600">
-                      ${filteredTransactions
+                      {formatCurrency(Money.sum(filteredTransactions
                         .filter(tx => tx.type === 'DEBIT')
-                        .reduce((sum, tx) => sum + tx.amount, 0)
-                        .toLocaleString()}
+                        .map(tx => tx.amount)))}
                     </p>
                   </div>
                   <div className="w-12 h-12 bg-red-100 rounded-lg flex items-center justify-center">
@@ -455,10 +458,9 @@ export default function TransactionHistory() {
                   <div>
                     <p className="text-sm font-medium text-gray-600">Total Received</p>
                     <p className="text-2xl font-bold text-green-600">
-                      ${filteredTransactions
+                      {formatCurrency(Money.sum(filteredTransactions
                         .filter(tx => tx.type === 'CREDIT')
-                        .reduce((sum, tx) => sum + tx.amount, 0)
-                        .toLocaleString()}
+                        .map(tx => tx.amount)))}
                     </p>
                   </div>
                   <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
@@ -803,7 +805,7 @@ export default function TransactionHistory() {
                                 <p className={`text-xl font-bold ${
                                   transaction.type === 'CREDIT' ? 'text-green-600' : 'text-gray-900'
                                 }`}>
-                                  {transaction.type === 'CREDIT' ? '+' : '-'}${transaction.amount.toLocaleString()}
+                                  {transaction.type === 'CREDIT' ? '+' : '-'}{formatCurrency(transaction.amount)}
                                 </p>
                                 <p className="text-sm text-gray-500">
                                   {transaction.accountNumber}
@@ -900,7 +902,7 @@ export default function TransactionHistory() {
                         <p className={`mt-1 text-2xl font-bold ${
                           selectedTransaction.type === 'CREDIT' ? 'text-green-600' : 'text-gray-900'
                         }`}>
-                          {selectedTransaction.type === 'CREDIT' ? '+' : '-'}${selectedTransaction.amount.toLocaleString()}
+                          {selectedTransaction.type === 'CREDIT' ? '+' : '-'}{formatCurrency(selectedTransaction.amount)}
                         </p>
                       </div>
                       <div>
@@ -4,10 +4,12 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import type { TransferEventStatus, TransferState } from '@shared/transferLifecycle';
 
 interface TransferUpdate {
   transaction: any;
-  status: 'approved' | 'rejected';
+  state: TransferState;
+  status: TransferEventStatus;
   reason?: string;
   message: string;
   timestamp: string;
@@ -15,10 +17,71 @@ interface TransferUpdate {
 
 interface TransferPending {
   transaction: any;
+  state: TransferState;
   message: string;
   timestamp: string;
 }
 
+interface TransferReceived {
+  transaction: any;
+  senderName: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface ScheduledTransferUpdate {
+  scheduledTransfer: any;
+  transaction: any | null;
+  outcome: 'executed' | 'retrying' | 'skipped' | 'paused';
+  reason?: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface BillPaymentUpdate {
+  billPayment: any;
+  transaction: any | null;
+  outcome: 'sent' | 'failed';
+  reason?: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface DepositAvailableUpdate {
+  deposit: any;
+  message: string;
+  timestamp: string;
+}
+
+export interface DepositReviewedUpdate {
+  deposit: any;
+  outcome: 'approved' | 'rejected';
+  reason?: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface DepositReturnedUpdate {
+  deposit: any;
+  returnCode: string;
+  reason: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface AccountAlertUpdate {
+  alert: any;
+  type: 'LOW_BALANCE' | 'OVERDRAFT_SWEEP' | 'SPENDING_LIMIT';
+  message: string;
+  timestamp: string;
+}
+
+export interface ReviewQueueRemoval {
+  transferId: string;
+  reason: 'cancelled';
+  timestamp: string;
+}
+
 export class SocketClient {
   private socket: Socket | null = null;
   private isConnecting: boolean = false;
@@ -30,6 +93,14 @@ export class SocketClient {
     this.eventListeners.set('transfer_pending', new Set());
     this.eventListeners.set('transfer_update', new Set());
     this.eventListeners.set('transfer_updates', new Set());
+    this.eventListeners.set('transfer_received', new Set());
+    this.eventListeners.set('scheduled_transfer', new Set());
+    this.eventListeners.set('bill_payment', new Set());
+    this.eventListeners.set('deposit_available', new Set());
+    this.eventListeners.set('deposit_reviewed', new Set());
+    this.eventListeners.set('deposit_returned', new Set());
+    this.eventListeners.set('account_alert', new Set());
+    this.eventListeners.set('review_queue_removed', new Set());
     this.eventListeners.set('error', new Set());
     this.eventListeners.set('disconnect', new Set());
   }
@@ -128,6 +199,47 @@ export class SocketClient {
       this.emitToListeners('transfer_updates', data);
     });
 
+    this.socket.on('transfer_received', (data: TransferReceived) => {
+      console.log('💸 Transfer received:', data);
+      this.emitToListeners('transfer_received', data);
+    });
+
+    this.socket.on('scheduled_transfer', (data: ScheduledTransferUpdate) => {
+      console.log('🗓️ Scheduled transfer:', data);
+      this.emitToListeners('scheduled_transfer', data);
+    });
+
+    this.socket.on('bill_payment', (data: BillPaymentUpdate) => {
+      console.log('🧾 Bill payment:', data);
+      this.emitToListeners('bill_payment', data);
+    });
+
+    this.socket.on('deposit_available', (data: DepositAvailableUpdate) => {
+      console.log('🏦 Deposit available:', data);
+      this.emitToListeners('deposit_available', data);
+    });
+
+    this.socket.on('deposit_reviewed', (data: DepositReviewedUpdate) => {
+      console.log('🏦 Deposit reviewed:', data);
+      this.emitToListeners('deposit_reviewed', data);
+    });
+
+    this.socket.on('deposit_returned', (data: DepositReturnedUpdate) => {
+      console.log('🏦 Deposit returned:', data);
+      this.emitToListeners('deposit_returned', data);
+    });
+
+    this.socket.on('account_alert', (data: AccountAlertUpdate) => {
+      console.log('🔔 Account alert:', data);
+      this.emitToListeners('account_alert', data);
+    });
+
+    // Admin review queue events
+    this.socket.on('review_queue_removed', (data: ReviewQueueRemoval) => {
+      console.log('🧹 Review queue removal:', data);
+      this.emitToListeners('review_queue_removed', data);
+    });
+
     // Error handling
     this.socket.on('error', (error) => {
       console.error('❌ Socket error:', error);
@@ -3,6 +3,8 @@
  * and ensure only serializable data is processed.
  */
 
+import { parseAmountInput } from "@/lib/formatters";
+
 interface SerializableValue {
   [key: string]: string | number | boolean | null | undefined | SerializableValue | SerializableValue[];
 }
@@ -120,21 +122,25 @@ export function isSerializable(obj: any): boolean {
  * Creates transfer data with guaranteed serializability
  * Specifically designed for banking transfer operations
  */
-export function createTransferPayload(data: {
+export interface TransferDetails {
   amount?: string | number;
   recipientInfo?: string;
   transferType?: string;
   bankName?: string;
-}): SerializableValue {
+  routingNumber?: string;
+  iban?: string;
+  bic?: string;
+  recipientName?: string;
+  payeeId?: string;
+  fromAccountId?: string;
+}
+
+export function createTransferPayload(data: TransferDetails): SerializableValue {
   const payload = Object.create(null);
   
-  // Amount - ensure it's a valid number
-  if (data.amount !== undefined && data.amount !== null && data.amount !== '') {
-    const numAmount = typeof data.amount === 'string' ? parseFloat(data.amount) : data.amount;
-    payload.amount = isNaN(numAmount) ? 0 : numAmount;
-  } else {
-    payload.amount = 0;
-  }
+  // Amount - sent as an exact decimal string, never a float
+  const amount = data.amount !== undefined && data.amount !== null ? parseAmountInput(String(data.amount)) : null;
+  payload.amount = amount ? amount.toString() : '0.00';
   
   // Recipient info - ensure it's a clean string
   payload.recipientInfo = data.recipientInfo ? String(data.recipientInfo).trim() : '';
@@ -142,9 +148,22 @@ export function createTransferPayload(data: {
   // Transfer type - ensure it's a clean string
   payload.transferType = data.transferType ? String(data.transferType).trim() : '';
   
-  // Bank name - only for external transfers
-  if (data.transferType === 'external_bank' && data.bankName) {
-    payload.bankName = String(data.bankName).trim();
+  // Bank details and account holder - only for external transfers. Accounts
+  // abroad are identified by IBAN and BIC instead of a routing number.
+  // A saved payee supplies them on the server instead.
+  if (data.transferType === 'external_bank' && data.payeeId) {
+    payload.payeeId = String(data.payeeId);
+  } else if (data.transferType === 'external_bank') {
+    if (data.bankName) payload.bankName = String(data.bankName).trim();
+    if (data.routingNumber) payload.routingNumber = String(data.routingNumber).replace(/\D/g, '');
+    if (data.iban) payload.iban = String(data.iban).replace(/\s+/g, '').toUpperCase();
+    if (data.bic) payload.bic = String(data.bic).trim().toUpperCase();
+    if (data.recipientName) payload.recipientName = String(data.recipientName).trim();
+  }
+
+  // Source account - omitted to use the primary account
+  if (data.fromAccountId) {
+    payload.fromAccountId = String(data.fromAccountId);
   }
   
   return payload;
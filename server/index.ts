@@ -4,6 +4,21 @@ import { registerRoutes } from "./routes/index";
 import { setupVite, serveStatic, log } from "./vite";
 import { disconnectDatabase } from "./prisma";
 import { initializeSocketService } from "./services/socketService";
+import { startHoldExpiryJob } from "./jobs/holdExpiryJob";
+import { startIdempotencyCleanupJob } from "./jobs/idempotencyCleanupJob";
+import { startAchJob } from "./jobs/achJob";
+import { startScheduledTransferJob } from "./jobs/scheduledTransferJob";
+import { startBillPaymentJob } from "./jobs/billPaymentJob";
+import { startDepositClearingJob } from "./jobs/depositClearingJob";
+import { startAccountAlertJob } from "./jobs/accountAlertJob";
+import { startEddReviewJob } from "./jobs/eddReviewJob";
+import { startAmlMonitoringJob } from "./jobs/amlMonitoringJob";
+import { BillPayService } from "./services/billPayService";
+import { LimitService } from "./services/limitService";
+import { FraudRuleService } from "./services/fraudRuleService";
+import { SanctionsService } from "./services/sanctionsService";
+import { PepService } from "./services/pepService";
+import { stopAllJobs } from "./jobs/scheduler";
 
 const app = express();
 
@@ -22,7 +37,8 @@ app.use((req, res, next) => {
   }
   
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Idempotency-Key');
+  res.setHeader('Access-Control-Expose-Headers', 'Idempotent-Replayed');
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   
   // Handle preflight requests
@@ -117,11 +133,59 @@ app.use((req, res, next) => {
     if (socketService) {
       log(`🔌 WebSocket server ready for real-time updates`);
     }
+
+    // Background jobs: release funds held for transfers nobody reviewed in
+    // time, drop idempotency keys past their replay window and send approved
+    // external transfers out over ACH
+    startHoldExpiryJob();
+    startIdempotencyCleanupJob();
+    startAchJob();
+    startScheduledTransferJob();
+
+    // Bill pay: refresh the biller directory from its file, then send
+    // payments as their send-on dates arrive
+    BillPayService.importDirectory().catch((error) => {
+      console.error("Failed to load biller directory:", error);
+    });
+    startBillPaymentJob();
+
+    // Deposits: make funds available as their clearing periods end
+    startDepositClearingJob();
+
+    // Account alerts: send low-balance, overdraft sweep and spending limit alerts
+    startAccountAlertJob();
+
+    // Transfer limits: a fresh database starts with the default policies
+    LimitService.ensureDefaultPolicies().catch((error) => {
+      console.error("Failed to install default limit policies:", error);
+    });
+
+    // Fraud rules: a fresh database starts with the default rule set
+    FraudRuleService.ensureDefaultRuleSet().catch((error) => {
+      console.error("Failed to install default fraud rules:", error);
+    });
+
+    // Sanctions screening: refresh the OFAC lists from their files
+    SanctionsService.importLists().catch((error) => {
+      console.error("Failed to load sanctions lists:", error);
+    });
+
+    // PEP screening: refresh the PEP list from its file, then reopen enhanced
+    // due diligence as sign-offs come due for review
+    PepService.importList().catch((error) => {
+      console.error("Failed to load PEP list:", error);
+    });
+    startEddReviewJob();
+
+    // AML monitoring: look back over recent activity for suspicious patterns
+    startAmlMonitoringJob();
   });
 
   // Graceful shutdown
   const gracefulShutdown = async (signal: string) => {
     log(`Received ${signal}, shutting down gracefully...`);
+
+    stopAllJobs();
     
     // Shutdown Socket.IO service first
     if (socketService) {
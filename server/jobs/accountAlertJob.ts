@@ -0,0 +1,30 @@
+import { AccountAlertService } from '../services/accountAlertService'
+import { getSocketService } from '../services/socketService'
+import { scheduleJob } from './scheduler'
+
+const ACCOUNT_ALERT_INTERVAL_MS = parseInt(process.env.ACCOUNT_ALERT_INTERVAL_MS || '30000', 10)
+
+/**
+ * Send users the low-balance, overdraft sweep and spending limit alerts raised since the last run
+ */
+export async function runAccountAlerts() {
+  const alerts = await AccountAlertService.claimPending()
+
+  for (const alert of alerts) {
+    try {
+      getSocketService().emitAccountAlert(alert.userId, alert)
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+  }
+
+  if (alerts.length > 0) {
+    console.log(`🔔 Delivered ${alerts.length} account alert(s)`)
+  }
+
+  return alerts.length
+}
+
+export function startAccountAlertJob() {
+  scheduleJob('account-alerts', ACCOUNT_ALERT_INTERVAL_MS, runAccountAlerts)
+}
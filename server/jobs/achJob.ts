@@ -0,0 +1,57 @@
+import { AchService } from '../services/achService'
+import type { AchReturnResult } from '../services/achReturnService'
+import { runSimulatedOdfi } from '../services/simulatedOdfi'
+import { getSocketService } from '../services/socketService'
+import { scheduleJob } from './scheduler'
+
+const ACH_JOB_INTERVAL_MS = parseInt(process.env.ACH_JOB_INTERVAL_MS || '60000', 10)
+
+// The simulated ODFI stands in for the real bank outside production
+const SIMULATED_ODFI_ENABLED = (process.env.ACH_SIMULATED_ODFI ?? (process.env.NODE_ENV === 'production' ? 'false' : 'true')) === 'true'
+
+/**
+ * Tell the user a transfer or deposit of theirs came back from the other bank
+ */
+export function notifyAchReturn(result: AchReturnResult) {
+  try {
+    const socketService = getSocketService()
+    if (result.kind === 'TRANSFER') {
+      socketService.emitTransferUpdate(result.transaction.userId, result.transaction, 'RETURNED', result.reason)
+    } else {
+      socketService.emitDepositReturned(result.transaction.userId, result.deposit, result.achReturn)
+    }
+  } catch {
+    // Socket service is optional; users see the change on next refresh
+  }
+}
+
+/**
+ * Send approved transfers out in a NACHA file, then apply any settlement or
+ * return results and notify the affected users
+ */
+export async function runAchCycle() {
+  await AchService.generateFile()
+
+  if (SIMULATED_ODFI_ENABLED) {
+    await runSimulatedOdfi()
+  }
+
+  const updates = await AchService.processAcknowledgements()
+
+  for (const update of updates) {
+    try {
+      getSocketService().emitTransferUpdate(update.transaction.userId, update.transaction, update.state, update.reason)
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+  }
+
+  const returns = await AchService.processReturnFiles()
+  returns.forEach(notifyAchReturn)
+
+  return updates.length + returns.length
+}
+
+export function startAchJob() {
+  scheduleJob('ach', ACH_JOB_INTERVAL_MS, runAchCycle)
+}
@@ -0,0 +1,19 @@
+import { AmlMonitoringService } from '../services/amlMonitoringService'
+import { scheduleJob } from './scheduler'
+
+const AML_MONITORING_INTERVAL_MS = parseInt(process.env.AML_MONITORING_INTERVAL_MS || '3600000', 10)
+
+/**
+ * Look for structuring, rapid movement, dormant accounts waking up and bursts of new payees
+ */
+export async function runAmlMonitoring() {
+  const { created, updated } = await AmlMonitoringService.monitor()
+  if (created > 0 || updated > 0) {
+    console.log(`🕵️ AML monitoring raised ${created} alert(s) and updated ${updated}`)
+  }
+  return created
+}
+
+export function startAmlMonitoringJob() {
+  scheduleJob('aml-monitoring', AML_MONITORING_INTERVAL_MS, runAmlMonitoring)
+}
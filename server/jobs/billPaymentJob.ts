@@ -0,0 +1,30 @@
+import { BillPayService } from '../services/billPayService'
+import { getSocketService } from '../services/socketService'
+import { scheduleJob } from './scheduler'
+
+const BILL_PAYMENT_INTERVAL_MS = parseInt(process.env.BILL_PAYMENT_INTERVAL_MS || '300000', 10)
+
+/**
+ * Send bill payments whose send-on date has arrived and tell each user what happened
+ */
+export async function runBillPayments() {
+  const runs = await BillPayService.runDue()
+
+  for (const run of runs) {
+    try {
+      getSocketService().emitBillPaymentUpdate(run.payment.userId, run.payment, run.outcome, run.reason, run.transaction)
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+  }
+
+  if (runs.length > 0) {
+    console.log(`🧾 Ran ${runs.length} bill payment(s)`)
+  }
+
+  return runs.length
+}
+
+export function startBillPaymentJob() {
+  scheduleJob('bill-payments', BILL_PAYMENT_INTERVAL_MS, runBillPayments)
+}
@@ -0,0 +1,30 @@
+import { DepositService } from '../services/depositService'
+import { getSocketService } from '../services/socketService'
+import { scheduleJob } from './scheduler'
+
+const DEPOSIT_CLEARING_INTERVAL_MS = parseInt(process.env.DEPOSIT_CLEARING_INTERVAL_MS || '300000', 10)
+
+/**
+ * Complete deposits whose clearing period has ended and tell each user their funds are available
+ */
+export async function runDepositClearing() {
+  const cleared = await DepositService.releaseCleared()
+
+  for (const deposit of cleared) {
+    try {
+      getSocketService().emitDepositAvailable(deposit.userId, deposit)
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+  }
+
+  if (cleared.length > 0) {
+    console.log(`🏦 Cleared ${cleared.length} deposit(s)`)
+  }
+
+  return cleared.length
+}
+
+export function startDepositClearingJob() {
+  scheduleJob('deposit-clearing', DEPOSIT_CLEARING_INTERVAL_MS, runDepositClearing)
+}
@@ -0,0 +1,19 @@
+import { PepService } from '../services/pepService'
+import { scheduleJob } from './scheduler'
+
+const EDD_REVIEW_INTERVAL_MS = parseInt(process.env.EDD_REVIEW_JOB_INTERVAL_MS || '3600000', 10)
+
+/**
+ * Reopen enhanced due diligence for PEPs whose sign-off has come due for review
+ */
+export async function runEddReviews() {
+  const opened = await PepService.openDueReviews()
+  if (opened > 0) {
+    console.log(`🔎 Opened ${opened} EDD re-review(s)`)
+  }
+  return opened
+}
+
+export function startEddReviewJob() {
+  scheduleJob('edd-reviews', EDD_REVIEW_INTERVAL_MS, runEddReviews)
+}
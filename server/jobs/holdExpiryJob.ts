@@ -0,0 +1,35 @@
+import { HoldService } from '../services/holdService'
+import { getSocketService } from '../services/socketService'
+import { scheduleJob } from './scheduler'
+
+const HOLD_EXPIRY_INTERVAL_MS = parseInt(process.env.HOLD_EXPIRY_INTERVAL_MS || '300000', 10)
+
+/**
+ * Expire lapsed funds holds and tell affected users their transfer failed
+ */
+export async function runHoldExpiry() {
+  const expired = await HoldService.expireHolds()
+
+  for (const transaction of expired) {
+    try {
+      getSocketService().emitTransferUpdate(
+        transaction.userId,
+        transaction,
+        'CANCELLED',
+        'Transfer expired before it was reviewed; the held funds are available again'
+      )
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+  }
+
+  if (expired.length > 0) {
+    console.log(`⏱️  Expired ${expired.length} funds hold(s)`)
+  }
+
+  return expired.length
+}
+
+export function startHoldExpiryJob() {
+  scheduleJob('hold-expiry', HOLD_EXPIRY_INTERVAL_MS, runHoldExpiry)
+}
@@ -0,0 +1,11 @@
+import { purgeExpiredIdempotencyKeys } from '../middleware/idempotency'
+import { scheduleJob } from './scheduler'
+
+const IDEMPOTENCY_CLEANUP_INTERVAL_MS = parseInt(process.env.IDEMPOTENCY_CLEANUP_INTERVAL_MS || '3600000', 10)
+
+/**
+ * Delete idempotency keys whose replay window has passed
+ */
+export function startIdempotencyCleanupJob() {
+  scheduleJob('idempotency-cleanup', IDEMPOTENCY_CLEANUP_INTERVAL_MS, purgeExpiredIdempotencyKeys)
+}
@@ -0,0 +1,38 @@
+import { ScheduledTransferService } from '../services/scheduledTransferService'
+import { getSocketService } from '../services/socketService'
+import { scheduleJob } from './scheduler'
+
+const SCHEDULED_TRANSFER_INTERVAL_MS = parseInt(process.env.SCHEDULED_TRANSFER_INTERVAL_MS || '60000', 10)
+
+/**
+ * Execute due scheduled transfers and tell each user what happened
+ */
+export async function runScheduledTransfers() {
+  const runs = await ScheduledTransferService.runDue()
+
+  for (const run of runs) {
+    try {
+      const socketService = getSocketService()
+      socketService.emitScheduledTransferUpdate(run.schedule.userId, run.schedule, run.outcome, run.reason, run.transaction)
+
+      if (run.transaction?.status === 'PENDING') {
+        socketService.emitTransferPending(run.schedule.userId, run.transaction)
+      }
+      if (run.received) {
+        socketService.emitTransferReceived(run.received.userId, run.received.transaction, run.received.senderName)
+      }
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+  }
+
+  if (runs.length > 0) {
+    console.log(`🗓️  Ran ${runs.length} scheduled transfer(s)`)
+  }
+
+  return runs.length
+}
+
+export function startScheduledTransferJob() {
+  scheduleJob('scheduled-transfers', SCHEDULED_TRANSFER_INTERVAL_MS, runScheduledTransfers)
+}
@@ -0,0 +1,40 @@
+interface ScheduledJob {
+  name: string
+  timer: NodeJS.Timeout
+}
+
+const jobs = new Map<string, ScheduledJob>()
+const running = new Set<string>()
+
+/**
+ * Run a background task on a fixed interval. A run is skipped while the
+ * previous one is still in progress, and errors are logged rather than thrown.
+ */
+export function scheduleJob(name: string, intervalMs: number, task: () => Promise<unknown>) {
+  if (jobs.has(name)) return
+
+  const run = async () => {
+    if (running.has(name)) return
+    running.add(name)
+    try {
+      await task()
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error)
+    } finally {
+      running.delete(name)
+    }
+  }
+
+  const timer = setInterval(run, intervalMs)
+  timer.unref()
+  jobs.set(name, { name, timer })
+  void run()
+}
+
+/**
+ * Stop every scheduled job (graceful shutdown)
+ */
+export function stopAllJobs() {
+  jobs.forEach(job => clearInterval(job.timer))
+  jobs.clear()
+}
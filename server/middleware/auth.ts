@@ -10,7 +10,7 @@ declare global {
         name: string
         email: string
         role: 'USER' | 'ADMIN'
-        balance: number
+        balance: string
       }
     }
   }
@@ -47,6 +47,29 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
   next()
 }
 
+// Admins who can make senior-only decisions, such as signing off enhanced due diligence
+const SENIOR_ADMIN_EMAILS = (process.env.SENIOR_ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean)
+
+export function isSeniorAdmin(user: Express.Request['user']) {
+  return user?.role === 'ADMIN' && SENIOR_ADMIN_EMAILS.includes(user.email.toLowerCase())
+}
+
+// Middleware to require a senior admin
+export function requireSeniorAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' })
+  }
+
+  if (!isSeniorAdmin(req.user)) {
+    return res.status(403).json({ message: 'Senior admin access required' })
+  }
+
+  next()
+}
+
 // Middleware to require user to access their own data or admin
 export function requireOwnershipOrAdmin(req: Request, res: Response, next: NextFunction) {
   if (!req.user) {
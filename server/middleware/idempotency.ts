@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express'
+import { Prisma } from '@prisma/client'
+import crypto from 'crypto'
+import { prisma } from '../prisma'
+
+// How long a stored response can be replayed
+const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10)
+
+const KEY_PATTERN = /^[A-Za-z0-9_\-:.]{8,255}$/
+
+// Serialize with sorted keys so property order does not change the fingerprint
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize)
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>).sort().reduce<Record<string, unknown>>((acc, key) => {
+      acc[key] = canonicalize((value as Record<string, unknown>)[key])
+      return acc
+    }, {})
+  }
+  return value
+}
+
+function fingerprint(req: Request) {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      method: req.method,
+      path: req.baseUrl + req.path,
+      body: canonicalize(req.body ?? null)
+    }))
+    .digest('hex')
+}
+
+/**
+ * Honour an optional `Idempotency-Key` header on money-moving routes. The first
+ * response for a key is stored; a retry with the same key and body gets that
+ * response back instead of running the handler again. Must run after requireAuth.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key')
+  if (!key) return next()
+
+  if (!KEY_PATTERN.test(key)) {
+    return res.status(400).json({
+      message: 'Idempotency-Key must be 8-255 letters, digits, dashes, underscores, colons or dots',
+      code: 'INVALID_IDEMPOTENCY_KEY'
+    })
+  }
+
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' })
+  }
+
+  const userId = req.user.id
+  const requestHash = fingerprint(req)
+
+  try {
+    let record = await claimKey(userId, key, req, requestHash)
+
+    if (!record) {
+      const existing = await prisma.idempotencyKey.findUnique({
+        where: { userId_key: { userId, key } }
+      })
+
+      // Expired keys are free to be used again
+      if (existing && existing.expiresAt <= new Date()) {
+        await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: existing.expiresAt } })
+        record = await claimKey(userId, key, req, requestHash)
+      }
+
+      if (!record) {
+        if (!existing || existing.requestHash !== requestHash) {
+          return res.status(422).json({
+            message: 'This idempotency key was already used for a different request',
+            code: 'IDEMPOTENCY_KEY_REUSED'
+          })
+        }
+
+        if (!existing.completedAt || existing.statusCode === null) {
+          return res.status(409).json({
+            message: 'A request with this idempotency key is still being processed',
+            code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+          })
+        }
+
+        res.setHeader('Idempotent-Replayed', 'true')
+        return res.status(existing.statusCode).json(existing.responseBody)
+      }
+    }
+
+    const recordId = record.id
+    let settled = false
+
+    // Store the response before it is sent so a retry never runs the handler twice
+    const originalJson = res.json.bind(res)
+    res.json = (body: unknown) => {
+      settled = true
+      const statusCode = res.statusCode
+
+      // Server errors are not stored; the client may retry with the same key
+      const store = statusCode >= 500
+        ? prisma.idempotencyKey.delete({ where: { id: recordId } })
+        : prisma.idempotencyKey.update({
+            where: { id: recordId },
+            data: {
+              statusCode,
+              responseBody: body === undefined ? Prisma.JsonNull : JSON.parse(JSON.stringify(body)),
+              completedAt: new Date()
+            }
+          })
+
+      store
+        .catch(error => console.error('Failed to store idempotent response:', error))
+        .finally(() => originalJson(body))
+
+      return res
+    }
+
+    // Responses that never went through res.json release the key
+    res.on('close', () => {
+      if (!settled) {
+        prisma.idempotencyKey.delete({ where: { id: recordId } }).catch(() => {})
+      }
+    })
+
+    next()
+  } catch (error) {
+    console.error('Idempotency check error:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
+
+// Insert the key; returns null if another request already holds it
+async function claimKey(userId: string, key: string, req: Request, requestHash: string) {
+  try {
+    return await prisma.idempotencyKey.create({
+      data: {
+        userId,
+        key,
+        method: req.method,
+        path: req.baseUrl + req.path,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000)
+      }
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Remove keys past their replay window
+ */
+export async function purgeExpiredIdempotencyKeys(now: Date = new Date()) {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: now } }
+  })
+  return count
+}
@@ -17,12 +17,13 @@ const UPLOAD_CONFIG = {
   ],
   ALLOWED_EXTENSIONS: ['.jpg', '.jpeg', '.png', '.pdf'],
   KYC_UPLOAD_DIR: path.join(process.cwd(), 'server', 'uploads', 'kyc'),
+  CHECK_UPLOAD_DIR: path.join(process.cwd(), 'server', 'uploads', 'checks'),
   TEMP_DIR: path.join(process.cwd(), 'server', 'uploads', 'temp')
 };
 
 // Ensure upload directories exist with proper permissions
 const ensureUploadDirectories = () => {
-  [UPLOAD_CONFIG.KYC_UPLOAD_DIR, UPLOAD_CONFIG.TEMP_DIR].forEach(dir => {
+  [UPLOAD_CONFIG.KYC_UPLOAD_DIR, UPLOAD_CONFIG.CHECK_UPLOAD_DIR, UPLOAD_CONFIG.TEMP_DIR].forEach(dir => {
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true, mode: 0o750 });
     }
@@ -107,6 +108,12 @@ export const kycUpload = upload.fields([
   { name: 'selfie', maxCount: 1 }
 ]);
 
+// Mobile check deposit upload middleware
+export const checkImageUpload = upload.fields([
+  { name: 'front', maxCount: 1 },
+  { name: 'back', maxCount: 1 }
+]);
+
 // File security validation middleware (runs after multer)
 export const validateUploadedFiles = (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -169,6 +176,46 @@ export const validateUploadedFiles = (req: Request, res: Response, next: NextFun
   }
 };
 
+// Check image validation middleware (runs after multer)
+export const validateCheckImages = (req: Request, res: Response, next: NextFunction) => {
+  const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+  const { front = [], back = [] } = files || {};
+  const allFiles = [...front, ...back];
+
+  const reject = (message: string) => {
+    cleanupUploadedFiles(allFiles);
+    return res.status(400).json({ success: false, message });
+  };
+
+  try {
+    if (front.length === 0 || back.length === 0) {
+      return reject('Photos of the front and back of the check are required');
+    }
+
+    for (const file of allFiles) {
+      // Checks are photographed, so documents such as PDFs are not accepted
+      if (!file.mimetype.startsWith('image/')) {
+        return reject(`Check images must be JPEG or PNG photos: ${file.originalname}`);
+      }
+      if (file.size === 0) {
+        return reject(`Empty file detected: ${file.originalname}`);
+      }
+      if (!validateFileSignature(fs.readFileSync(file.path), file.mimetype)) {
+        return reject(`Invalid file format detected: ${file.originalname}`);
+      }
+    }
+
+    next();
+  } catch (error) {
+    console.error('Check image validation error:', error);
+    cleanupUploadedFiles(allFiles);
+    res.status(500).json({
+      success: false,
+      message: 'File validation failed'
+    });
+  }
+};
+
 // File signature validation (magic bytes check)
 const validateFileSignature = (buffer: Buffer, mimeType: string): boolean => {
   const signatures: { [key: string]: number[][] } = {
@@ -209,6 +256,29 @@ export const moveFilesToKycDirectory = (files: Express.Multer.File[]): string[]
   return finalPaths;
 };
 
+// Move check images from temp to the check image directory
+export const moveFilesToCheckDirectory = (files: Express.Multer.File[]): string[] => {
+  return files.map(file => {
+    fs.renameSync(file.path, path.join(UPLOAD_CONFIG.CHECK_UPLOAD_DIR, file.filename));
+    return file.filename;
+  });
+};
+
+// Full path of a stored check image
+export const checkImagePath = (filename: string): string => {
+  return path.join(UPLOAD_CONFIG.CHECK_UPLOAD_DIR, path.basename(filename));
+};
+
+// Securely delete stored check images (for error cases)
+export const deleteCheckImages = (filenames: string[]) => {
+  filenames.forEach(filename => secureDeleteFile(filename, UPLOAD_CONFIG.CHECK_UPLOAD_DIR));
+};
+
+// SHA-256 of a file's contents, used to recognise the same image uploaded twice
+export const hashUploadedFile = (file: Express.Multer.File): string => {
+  return crypto.createHash('sha256').update(fs.readFileSync(file.path)).digest('hex');
+};
+
 // Clean up uploaded files (for error cases)
 export const cleanupUploadedFiles = (files: Express.Multer.File[]) => {
   files.forEach(file => {
@@ -223,9 +293,9 @@ export const cleanupUploadedFiles = (files: Express.Multer.File[]) => {
 };
 
 // GDPR compliance: Secure file deletion
-export const secureDeleteFile = (filePath: string): boolean => {
+export const secureDeleteFile = (filePath: string, directory: string = UPLOAD_CONFIG.KYC_UPLOAD_DIR): boolean => {
   try {
-    const fullPath = path.join(UPLOAD_CONFIG.KYC_UPLOAD_DIR, filePath);
+    const fullPath = path.join(directory, filePath);
     
     if (!fs.existsSync(fullPath)) {
       return true; // File already deleted
@@ -256,8 +326,14 @@ export const secureDeleteFile = (filePath: string): boolean => {
 
 export default {
   kycUpload,
+  checkImageUpload,
   validateUploadedFiles,
+  validateCheckImages,
   moveFilesToKycDirectory,
+  moveFilesToCheckDirectory,
+  checkImagePath,
+  deleteCheckImages,
+  hashUploadedFile,
   cleanupUploadedFiles,
   secureDeleteFile,
   UPLOAD_CONFIG
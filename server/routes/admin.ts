@@ -1,11 +1,25 @@
-import { Router } from 'express'
+import { Router, type Request, type Response } from 'express'
 import { AdminService } from '../services/adminService'
 import { adminUpdateUserSchema, adminUpdateBalanceSchema } from '../../shared/validation'
 import { requireAuth, requireAdmin } from '../middleware/auth'
 import { adminActionRateLimit, validateAdminReview } from '../middleware/transferValidation'
+import { idempotent } from '../middleware/idempotency'
 import { sanitizeTransactionData, createSuccessResponse, createErrorResponse } from '../utils/responseUtils'
 import { getSocketService } from '../services/socketService'
+import { LedgerService } from '../services/ledgerService'
+import { AccountService, accountStatusSchema } from '../services/accountService'
+import { TransferService } from '../services/transferService'
+import { Money } from '../../shared/money'
 import adminKycRouter from './admin/kyc'
+import { adminAchRouter } from './admin/ach'
+import { adminFxRouter } from './admin/fx'
+import { adminApprovalsRouter } from './admin/approvals'
+import { adminDepositsRouter } from './admin/deposits'
+import { adminLimitsRouter } from './admin/limits'
+import { adminFraudRulesRouter } from './admin/fraudRules'
+import { adminSanctionsRouter } from './admin/sanctions'
+import { adminPepRouter } from './admin/pep'
+import { adminAmlRouter } from './admin/aml'
 
 export const adminRouter = Router()
 
@@ -75,14 +89,22 @@ adminRouter.patch('/users/:id', async (req, res) => {
 })
 
 // POST /api/admin/users/:id/balance - Update user balance
-adminRouter.post('/users/:id/balance', async (req, res) => {
+adminRouter.post('/users/:id/balance', idempotent, async (req, res) => {
   try {
     const balanceData = adminUpdateBalanceSchema.parse({
       ...req.body,
       userId: req.params.id,
     })
     
-    const user = await AdminService.updateUserBalance(balanceData, req.user!.id)
+    const { user, approval } = await AdminService.updateUserBalance(balanceData, req.user!.id)
+
+    // Adjustments at or above the dual-approval threshold wait for a second admin
+    if (approval) {
+      return res.status(202).json({
+        message: 'Balance adjustment submitted for approval by a second admin',
+        approval,
+      })
+    }
     
     res.json({
       message: 'Balance updated successfully',
@@ -91,7 +113,7 @@ adminRouter.post('/users/:id/balance', async (req, res) => {
   } catch (error) {
     console.error('Update balance error:', error)
     
-    if (error instanceof Error && error.message === 'User not found') {
+    if (error instanceof Error && (error.message === 'User not found' || error.message === 'Account not found')) {
       return res.status(404).json({ message: error.message })
     }
     
@@ -99,6 +121,45 @@ adminRouter.post('/users/:id/balance', async (req, res) => {
   }
 })
 
+// GET /api/admin/users/:id/accounts - All deposit accounts of a user
+adminRouter.get('/users/:id/accounts', async (req, res) => {
+  try {
+    const accounts = await AccountService.listAccounts(req.params.id)
+    res.json({ accounts })
+  } catch (error) {
+    console.error('Get user accounts error:', error)
+
+    if (error instanceof Error && error.message === 'User not found') {
+      return res.status(404).json({ message: error.message })
+    }
+
+    res.status(500).json({ message: 'Internal server error' })
+  }
+})
+
+// PATCH /api/admin/accounts/:accountId/status - Freeze, unfreeze or close an account
+adminRouter.patch('/accounts/:accountId/status', async (req, res) => {
+  try {
+    const { status } = accountStatusSchema.parse(req.body)
+    const account = await AccountService.setAccountStatus(req.params.accountId, status, req.user!.id)
+    res.json({ message: 'Account status updated successfully', account })
+  } catch (error) {
+    console.error('Update account status error:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return res.status(400).json({ message: 'Invalid account status' })
+    }
+    if (error instanceof Error && error.message === 'Account not found') {
+      return res.status(404).json({ message: error.message })
+    }
+    if (error instanceof Error && error.message === 'Account balance must be zero before closing') {
+      return res.status(400).json({ message: error.message })
+    }
+
+    res.status(500).json({ message: 'Internal server error' })
+  }
+})
+
 // POST /api/admin/users/:id/toggle-status - Activate/Deactivate user
 adminRouter.post('/users/:id/toggle-status', async (req, res) => {
   try {
@@ -149,18 +210,48 @@ adminRouter.get('/logs', async (req, res) => {
   }
 })
 
+// GET /api/admin/users/:id/ledger - Journal entries behind a user's balance
+adminRouter.get('/users/:id/ledger', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = parseInt(req.query.limit as string) || 20
+
+    const accountId = req.query.accountId as string | undefined
+
+    const result = await LedgerService.getCustomerJournal(req.params.id, page, limit, accountId)
+    res.json(result)
+  } catch (error) {
+    console.error('Get user ledger error:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+})
+
+// GET /api/admin/ledger/reconcile - Trial balance and balance projection check
+adminRouter.get('/ledger/reconcile', async (req, res) => {
+  try {
+    const result = await LedgerService.reconcile()
+    res.json(result)
+  } catch (error) {
+    console.error('Ledger reconciliation error:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+})
+
 // GET /api/admin/pending-transfers - Get all pending external transfers
 adminRouter.get('/pending-transfers', async (req, res) => {
   try {
     const { prisma } = require('../prisma')
     
+    const riskLevel = typeof req.query.riskLevel === 'string' && req.query.riskLevel ? req.query.riskLevel : undefined
+
     const pendingTransfers = await prisma.transaction.findMany({
       where: {
         type: 'DEBIT',
         metadata: {
           path: ['status'],
           equals: 'pending'
-        }
+        },
+        ...(riskLevel && { riskAssessment: { riskLevel } })
       },
       include: {
         user: {
@@ -168,9 +259,13 @@ adminRouter.get('/pending-transfers', async (req, res) => {
             id: true,
             name: true,
             email: true,
-            accountNumber: true
+            accountNumber: true,
+            balance: true,
+            riskLevel: true,
+            kycStatus: true
           }
-        }
+        },
+        riskAssessment: true
       },
       orderBy: { createdAt: 'desc' }
     })
@@ -185,10 +280,10 @@ adminRouter.get('/pending-transfers', async (req, res) => {
 // POST /api/admin/transfers/:id/review - Review a pending external transfer
 adminRouter.post('/transfers/:id/review', [
   adminActionRateLimit,
+  idempotent,
   validateAdminReview
-], async (req, res) => {
+], async (req: Request, res: Response) => {
   try {
-    const { prisma } = require('../prisma')
     const transferId = req.params.id
     const { action, reason } = req.body // 'approve' or 'reject'
 
@@ -197,202 +292,69 @@ adminRouter.post('/transfers/:id/review', [
       return res.status(400).json({ message: 'Invalid action. Use "approve" or "reject"' })
     }
 
-    // Get the transaction with user info
-    const transaction = await prisma.transaction.findUnique({
-      where: { id: transferId },
-      include: {
-        user: {
-          select: { id: true, name: true, email: true, balance: true }
-        }
-      }
+    const result = await TransferService.reviewTransfer({
+      transferId,
+      adminId: req.user!.id,
+      action,
+      reason,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
     })
 
-    if (!transaction) {
-      return res.status(404).json({ message: 'Transfer not found' })
-    }
-
-    if (transaction.metadata?.status !== 'pending') {
-      return res.status(400).json({ message: 'Transfer is not pending approval' })
+    // High-value approvals wait for a second admin; the transfer stays in the queue
+    if (result.approval) {
+      const pendingResponse = createSuccessResponse(
+        { approval: result.approval },
+        'Approval recorded. A second admin must approve this transfer before it is sent.'
+      );
+      return res.status(202).json(pendingResponse.body);
     }
 
-    const currentTimestamp = new Date().toISOString()
-    const adminId = req.user!.id
-    const ipAddress = req.ip
-    const userAgent = req.get('User-Agent')
-
-    if (action === 'approve') {
-      // Validate user still has sufficient balance
-      if (transaction.user.balance < transaction.amount) {
-        return res.status(400).json({ 
-          message: 'User has insufficient balance to complete transfer' 
-        })
-      }
-
-      // Process the approval in a database transaction
-      const result = await prisma.$transaction(async (tx) => {
-        // Update transaction status to approved and completed
-        const updatedTransaction = await tx.transaction.update({
-          where: { id: transferId },
-          data: {
-            status: 'COMPLETED',
-            metadata: {
-              ...transaction.metadata,
-              status: 'approved',
-              approvedAt: currentTimestamp,
-              approvedBy: adminId,
-              processedAt: currentTimestamp,
-              reason: reason || 'External bank transfer approved and processed by admin',
-              adminNotes: reason
-            }
-          }
-        })
+    const state = action === 'approve' ? 'APPROVED' : 'REJECTED'
 
-        // Deduct funds from user balance
-        const updatedUser = await tx.user.update({
-          where: { id: transaction.userId },
-          data: {
-            balance: { decrement: transaction.amount }
-          }
-        })
-
-        // Log admin action for audit trail
-        await tx.adminLog.create({
-          data: {
-            adminId,
-            action: 'APPROVE_TRANSFER',
-            targetUserId: transaction.userId,
-            amount: transaction.amount,
-            description: `Approved external bank transfer of $${transaction.amount.toFixed(2)} to ${transaction.metadata?.bankName}`,
-          }
-        })
-
-        // Create security event for the user
-        await tx.securityEvent.create({
-          data: {
-            userId: transaction.userId,
-            eventType: 'SUSPICIOUS_ACTIVITY', // Using existing enum
-            description: `External transfer of $${transaction.amount.toFixed(2)} approved and processed`,
-            ipAddress,
-            userAgent,
-            riskLevel: 'LOW',
-            metadata: {
-              transferId,
-              adminId,
-              bankName: transaction.metadata?.bankName,
-              approvedAt: currentTimestamp
-            }
-          }
-        })
-
-        return { updatedTransaction, updatedUser }
-      })
-
-      // Emit real-time WebSocket event to user about approval
-      try {
-        const socketService = getSocketService();
-        socketService.emitTransferUpdate(
-          transaction.userId, 
-          result.updatedTransaction, 
-          'approved',
-          reason || 'Transfer approved and processed by admin'
-        );
-        console.log(`🎉 Transfer approval event emitted to user ${transaction.userId}`);
-      } catch (socketError) {
-        console.warn('⚠️  WebSocket not available for transfer approval notification:', socketError.message);
-      }
-
-      // TODO: In production, integrate with actual bank transfer API here
-      // await externalBankTransferService.processTransfer({
-      //   amount: transaction.amount,
-      //   bankName: transaction.metadata?.bankName,
-      //   accountInfo: transaction.metadata?.fullAccountInfo,
-      //   transactionId: transferId
-      // })
-
-      const sanitizedTransaction = sanitizeTransactionData(result.updatedTransaction);
-      const successResponse = createSuccessResponse(
-        { transaction: sanitizedTransaction },
-        'Transfer approved and funds processed successfully'
+    // Emit real-time WebSocket event to user about the decision
+    try {
+      const socketService = getSocketService();
+      socketService.emitTransferUpdate(
+        result.transaction.userId,
+        result.transaction,
+        state,
+        reason || (state === 'APPROVED' ? 'Transfer approved and processed by admin' : 'Transfer rejected by admin review')
       );
+    } catch (socketError) {
+      console.warn('⚠️  WebSocket not available for transfer review notification:', (socketError as Error).message);
+    }
 
-      res.status(200).json(successResponse.body);
-
-    } else if (action === 'reject') {
-      // Process the rejection
-      const result = await prisma.$transaction(async (tx) => {
-        // Update transaction status to rejected/failed
-        const updatedTransaction = await tx.transaction.update({
-          where: { id: transferId },
-          data: {
-            status: 'FAILED',
-            metadata: {
-              ...transaction.metadata,
-              status: 'rejected',
-              rejectedAt: currentTimestamp,
-              rejectedBy: adminId,
-              reason: reason || 'External bank transfer rejected by admin review',
-              adminNotes: reason
-            }
-          }
-        })
-
-        // Log admin action for audit trail
-        await tx.adminLog.create({
-          data: {
-            adminId,
-            action: 'REJECT_TRANSFER',
-            targetUserId: transaction.userId,
-            amount: transaction.amount,
-            description: `Rejected external bank transfer of $${transaction.amount.toFixed(2)} to ${transaction.metadata?.bankName}. Reason: ${reason || 'No reason provided'}`,
-          }
-        })
-
-        // Create security event for the user
-        await tx.securityEvent.create({
-          data: {
-            userId: transaction.userId,
-            eventType: 'SUSPICIOUS_ACTIVITY',
-            description: `External transfer of $${transaction.amount.toFixed(2)} rejected`,
-            ipAddress,
-            userAgent,
-            riskLevel: 'MEDIUM',
-            metadata: {
-              transferId,
-              adminId,
-              bankName: transaction.metadata?.bankName,
-              rejectedAt: currentTimestamp,
-              rejectionReason: reason
-            }
-          }
-        })
-
-        return { updatedTransaction }
-      })
+    // Approved funds now sit in external clearing; the ACH job sends the transfer
+    // to the ODFI in the next NACHA file and settles it on acknowledgement
 
-      // Emit real-time WebSocket event to user about rejection
-      try {
-        const socketService = getSocketService();
-        socketService.emitTransferUpdate(
-          transaction.userId, 
-          result.updatedTransaction, 
-          'rejected',
-          reason || 'Transfer rejected by admin review'
-        );
-        console.log(`❌ Transfer rejection event emitted to user ${transaction.userId}`);
-      } catch (socketError) {
-        console.warn('⚠️  WebSocket not available for transfer rejection notification:', socketError.message);
-      }
-
-      const sanitizedTransaction = sanitizeTransactionData(result.updatedTransaction);
-      const successResponse = createSuccessResponse(
-        { transaction: sanitizedTransaction },
-        'Transfer rejected successfully'
-      );
+    const sanitizedTransaction = sanitizeTransactionData(result.transaction);
+    const successResponse = createSuccessResponse(
+      { transaction: sanitizedTransaction },
+      status === 'approved' ? 'Transfer approved and funds processed successfully' : 'Transfer rejected successfully'
+    );
 
-      res.status(200).json(successResponse.body);
-    }
+    res.status(200).json(successResponse.body);
   } catch (error) {
     console.error('Transfer review error:', error)
+    if (error instanceof Error && error.message === 'Transfer not found') {
+      return res.status(404).json({ message: error.message })
+    }
+    if (error instanceof Error && ['Transfer is not pending approval', 'Transfer is already awaiting a second approval'].includes(error.message)) {
+      return res.status(400).json({ message: error.message })
+    }
+    if (error instanceof Error && error.message === 'Hold has expired') {
+      return res.status(400).json({ message: 'The funds hold for this transfer has expired' })
+    }
+    if (error instanceof Error && error.message === 'Transfer blocked by sanctions screening') {
+      return res.status(403).json({ message: 'A confirmed sanctions match blocks this transfer; reject it instead' })
+    }
+    if (error instanceof Error && error.message === 'Transfer has an open sanctions case') {
+      return res.status(409).json({ message: 'Review the open sanctions case before approving this transfer' })
+    }
+    if (error instanceof Error && ['Insufficient balance', 'Insufficient available balance'].includes(error.message)) {
+      return res.status(400).json({ message: 'User has insufficient balance to complete transfer' })
+    }
     res.status(500).json({ message: 'Internal server error' })
   }
 })
@@ -441,7 +403,7 @@ adminRouter.get('/transfers/stats', async (req, res) => {
 
     res.json({
       pendingCount: stats[0],
-      pendingAmount: stats[1]._sum.amount || 0,
+      pendingAmount: Money.of(stats[1]._sum.amount || '0'),
       approvedToday: stats[2],
       rejectedToday: stats[3]
     })
@@ -596,4 +558,31 @@ adminRouter.post('/users/:userId/bulk-verify', async (req, res) => {
 })
 
 // Mount KYC admin routes
-adminRouter.use('/kyc', adminKycRouter)
\ No newline at end of file
+adminRouter.use('/kyc', adminKycRouter)
+
+// Mount ACH origination routes
+adminRouter.use('/ach', adminAchRouter)
+
+// Mount exchange rate management routes
+adminRouter.use('/fx', adminFxRouter)
+
+// Mount maker-checker approval routes
+adminRouter.use('/approvals', adminApprovalsRouter)
+
+// Mount check deposit review routes
+adminRouter.use('/deposits', adminDepositsRouter)
+
+// Mount transfer limit policy and override routes
+adminRouter.use('/limits', adminLimitsRouter)
+
+// Mount fraud rule versioning and dry run routes
+adminRouter.use('/fraud-rules', adminFraudRulesRouter)
+
+// Mount sanctions list and screening case routes
+adminRouter.use('/sanctions', adminSanctionsRouter)
+
+// Mount PEP screening and enhanced due diligence routes
+adminRouter.use('/pep', adminPepRouter)
+
+// Mount AML transaction monitoring alert routes
+adminRouter.use('/aml', adminAmlRouter)
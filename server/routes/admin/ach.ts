@@ -0,0 +1,70 @@
+import { Router } from 'express'
+import { idempotent } from '../../middleware/idempotency'
+import { AchService } from '../../services/achService'
+import { AchReturnService, achReturnSchema } from '../../services/achReturnService'
+import { notifyAchReturn, runAchCycle } from '../../jobs/achJob'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminAchRouter = Router()
+
+const ACH_RETURN_ERRORS: Record<string, number> = {
+  'ACH entry not found': 404,
+  'Deposit not found': 404,
+  'Account not found': 404,
+  'Transfer has already been returned': 409,
+  'Transfer cannot be returned': 409,
+  'Deposit cannot be returned': 409,
+  'Only linked bank and check deposits can be returned': 400,
+}
+
+const handleAchReturnError = routeErrorHandler(ACH_RETURN_ERRORS, 'Invalid return details')
+
+// GET /api/admin/ach/files - Recent outbound NACHA files and their entry status
+adminAchRouter.get('/files', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+    const files = await AchService.listFiles(limit)
+    res.json({ files })
+  } catch (error) {
+    console.error('Get ACH files error:', error)
+    res.status(500).json({ message: 'Failed to fetch ACH files' })
+  }
+})
+
+// POST /api/admin/ach/run - Send approved transfers and apply acknowledgements now
+adminAchRouter.post('/run', async (req, res) => {
+  try {
+    const updates = await runAchCycle()
+    res.json({ message: 'ACH cycle completed', updates })
+  } catch (error) {
+    console.error('Run ACH cycle error:', error)
+    res.status(500).json({ message: 'Failed to run ACH cycle' })
+  }
+})
+
+// GET /api/admin/ach/returns - Recent returned transfers and deposits
+adminAchRouter.get('/returns', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+    const returns = await AchReturnService.list(limit)
+    res.json({ returns })
+  } catch (error) {
+    console.error('Get ACH returns error:', error)
+    handleAchReturnError(res, error, 'Failed to fetch ACH returns')
+  }
+})
+
+// POST /api/admin/ach/returns - Enter a return from the bank's notice and reverse the posting
+adminAchRouter.post('/returns', idempotent, async (req, res) => {
+  try {
+    const input = achReturnSchema.parse(req.body || {})
+    const result = await AchReturnService.applyReturn(input, { source: 'ADMIN', enteredById: req.user!.id })
+
+    notifyAchReturn(result)
+
+    res.json({ message: result.kind === 'TRANSFER' ? 'Transfer returned' : 'Deposit returned', achReturn: result.achReturn })
+  } catch (error) {
+    console.error('Enter ACH return error:', error)
+    handleAchReturnError(res, error, 'Failed to apply ACH return')
+  }
+})
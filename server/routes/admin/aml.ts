@@ -0,0 +1,59 @@
+import { Router } from 'express'
+import { AmlMonitoringService, amlAlertFilterSchema, amlDispositionSchema } from '../../services/amlMonitoringService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminAmlRouter = Router()
+
+const AML_ERRORS: Record<string, number> = {
+  'AML alert not found': 404,
+  'AML alert already dispositioned': 409,
+}
+
+const handleAmlError = routeErrorHandler(AML_ERRORS)
+
+// GET /api/admin/aml/status - Alert counts and the scenario thresholds
+adminAmlRouter.get('/status', async (req, res) => {
+  try {
+    res.json(await AmlMonitoringService.getStatus())
+  } catch (error) {
+    console.error('Get AML status error:', error)
+    handleAmlError(res, error, 'Failed to fetch AML monitoring status')
+  }
+})
+
+// POST /api/admin/aml/run - Run the monitoring scenarios now instead of waiting for the job
+adminAmlRouter.post('/run', async (req, res) => {
+  try {
+    res.json(await AmlMonitoringService.monitor())
+  } catch (error) {
+    console.error('Run AML monitoring error:', error)
+    handleAmlError(res, error, 'Failed to run AML monitoring')
+  }
+})
+
+// GET /api/admin/aml/alerts - Alerts with their evidence, open ones by default
+adminAmlRouter.get('/alerts', async (req, res) => {
+  try {
+    const { status, scenario } = amlAlertFilterSchema.parse({
+      status: req.query.status || undefined,
+      scenario: req.query.scenario || undefined
+    })
+    const alerts = await AmlMonitoringService.listAlerts(status, scenario)
+    res.json({ alerts })
+  } catch (error) {
+    console.error('Get AML alerts error:', error)
+    handleAmlError(res, error, 'Failed to fetch AML alerts')
+  }
+})
+
+// POST /api/admin/aml/alerts/:id/disposition - Close an alert as a false positive, explained or escalated
+adminAmlRouter.post('/alerts/:id/disposition', async (req, res) => {
+  try {
+    const data = amlDispositionSchema.parse(req.body)
+    const alert = await AmlMonitoringService.disposition(req.params.id, data, req.user!.id)
+    res.json({ alert })
+  } catch (error) {
+    console.error('Disposition AML alert error:', error)
+    handleAmlError(res, error, 'Failed to disposition AML alert')
+  }
+})
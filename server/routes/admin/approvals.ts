@@ -0,0 +1,83 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { ApprovalService } from '../../services/approvalService'
+import { getSocketService } from '../../services/socketService'
+import { idempotent } from '../../middleware/idempotency'
+import { sanitizeTransactionData } from '../../utils/responseUtils'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminApprovalsRouter = Router()
+
+const APPROVAL_ERRORS: Record<string, number> = {
+  'Approval request not found': 404,
+  'Approval request is no longer pending': 409,
+  'The initiator cannot approve their own request': 403,
+  'Transfer is not pending approval': 409,
+  'Hold has expired': 400,
+  'Transfer blocked by sanctions screening': 403,
+  'Transfer has an open sanctions case': 409,
+  'Insufficient balance': 400,
+  'Insufficient available balance': 400,
+  'Account not found': 404,
+}
+
+const statusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).default('PENDING')
+const decisionSchema = z.object({ note: z.string().trim().max(500).optional() })
+
+const handleApprovalError = routeErrorHandler(APPROVAL_ERRORS)
+
+// GET /api/admin/approvals - Approval requests, pending by default
+adminApprovalsRouter.get('/', async (req, res) => {
+  try {
+    const status = statusSchema.parse(req.query.status || undefined)
+    const approvals = await ApprovalService.list(status)
+    res.json({ approvals, threshold: ApprovalService.threshold.toString() })
+  } catch (error) {
+    console.error('Get approvals error:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid status' })
+    }
+    handleApprovalError(res, error, 'Failed to fetch approvals')
+  }
+})
+
+// POST /api/admin/approvals/:id/approve - Second admin approves and the held action runs
+adminApprovalsRouter.post('/:id/approve', idempotent, async (req, res) => {
+  try {
+    const { note } = decisionSchema.parse(req.body || {})
+    const { request, transaction } = await ApprovalService.approve(req.params.id, req.user!.id, {
+      note,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    })
+
+    if (transaction) {
+      try {
+        getSocketService().emitTransferUpdate(transaction.userId, transaction, 'APPROVED', note || 'Transfer approved and processed by admin')
+      } catch (socketError) {
+        console.warn('WebSocket not available for transfer approval notification:', (socketError as Error).message)
+      }
+    }
+
+    res.json({
+      message: 'Approved',
+      approval: request,
+      transaction: transaction ? sanitizeTransactionData(transaction) : null
+    })
+  } catch (error) {
+    console.error('Approve request error:', error)
+    handleApprovalError(res, error, 'Failed to approve request')
+  }
+})
+
+// POST /api/admin/approvals/:id/reject - Reject, or withdraw when the initiator asks
+adminApprovalsRouter.post('/:id/reject', async (req, res) => {
+  try {
+    const { note } = decisionSchema.parse(req.body || {})
+    const approval = await ApprovalService.reject(req.params.id, req.user!.id, note)
+    res.json({ message: approval.status === 'CANCELLED' ? 'Withdrawn' : 'Rejected', approval })
+  } catch (error) {
+    console.error('Reject request error:', error)
+    handleApprovalError(res, error, 'Failed to reject request')
+  }
+})
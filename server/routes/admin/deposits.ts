@@ -0,0 +1,92 @@
+import { Router } from 'express'
+import fs from 'fs'
+import { idempotent } from '../../middleware/idempotency'
+import { checkImagePath } from '../../middleware/uploadMiddleware'
+import { DepositService, checkRejectionSchema, checkReviewSchema } from '../../services/depositService'
+import { getSocketService } from '../../services/socketService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminDepositsRouter = Router()
+
+const DEPOSIT_REVIEW_ERRORS: Record<string, number> = {
+  'Deposit not found': 404,
+  'Deposit is not awaiting review': 409,
+  'Account not found': 404,
+  'Account is not active': 400,
+}
+
+const handleDepositReviewError = routeErrorHandler(DEPOSIT_REVIEW_ERRORS, 'Invalid review details')
+
+// GET /api/admin/deposits/review-queue - Check deposits waiting for review
+adminDepositsRouter.get('/review-queue', async (req, res) => {
+  try {
+    const deposits = await DepositService.listReviewQueue()
+    res.json({ deposits })
+  } catch (error) {
+    console.error('Get check review queue error:', error)
+    handleDepositReviewError(res, error, 'Failed to fetch check deposits')
+  }
+})
+
+// GET /api/admin/deposits/:id/images/:side - Front or back image of a deposited check
+adminDepositsRouter.get('/:id/images/:side', async (req, res) => {
+  try {
+    const side = req.params.side
+    if (side !== 'front' && side !== 'back') {
+      return res.status(400).json({ message: 'Invalid image side' })
+    }
+
+    const image = await DepositService.getCheckImage(req.params.id, side)
+    const filePath = checkImagePath(image.filename)
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({ message: 'Check image not found' })
+    }
+
+    await DepositService.logCheckImageView(req.user!.id, req.params.id, image.userId, side)
+
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+    res.setHeader('Cache-Control', 'private, no-cache, no-store, must-revalidate')
+    res.sendFile(filePath)
+  } catch (error) {
+    console.error('Get check image error:', error)
+    handleDepositReviewError(res, error, 'Failed to fetch check image')
+  }
+})
+
+// POST /api/admin/deposits/:id/approve - Accept a check and credit it with clearing holds
+adminDepositsRouter.post('/:id/approve', idempotent, async (req, res) => {
+  try {
+    const { note } = checkReviewSchema.parse(req.body || {})
+    const deposit = await DepositService.approveCheck(req.params.id, req.user!.id, note)
+
+    try {
+      getSocketService().emitDepositReviewed(deposit.userId, deposit, 'approved')
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+
+    res.json({ message: 'Check deposit approved', deposit })
+  } catch (error) {
+    console.error('Approve check deposit error:', error)
+    handleDepositReviewError(res, error, 'Failed to approve check deposit')
+  }
+})
+
+// POST /api/admin/deposits/:id/reject - Turn down a check deposit
+adminDepositsRouter.post('/:id/reject', async (req, res) => {
+  try {
+    const { reason } = checkRejectionSchema.parse(req.body || {})
+    const deposit = await DepositService.rejectCheck(req.params.id, req.user!.id, reason)
+
+    try {
+      getSocketService().emitDepositReviewed(deposit.userId, deposit, 'rejected', reason)
+    } catch {
+      // Socket service is optional; users see the change on next refresh
+    }
+
+    res.json({ message: 'Check deposit rejected', deposit })
+  } catch (error) {
+    console.error('Reject check deposit error:', error)
+    handleDepositReviewError(res, error, 'Failed to reject check deposit')
+  }
+})
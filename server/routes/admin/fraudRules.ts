@@ -0,0 +1,152 @@
+import { Router } from 'express'
+import {
+  FraudRuleService,
+  fraudDryRunSchema,
+  fraudRuleSchema,
+  fraudRuleSetDraftSchema,
+  fraudRuleUpdateSchema
+} from '../../services/fraudRuleService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminFraudRulesRouter = Router()
+
+const FRAUD_RULE_ERRORS: Record<string, number> = {
+  'Fraud rule set not found': 404,
+  'Fraud rule not found': 404,
+  'A draft rule set already exists': 409,
+  'A rule with this key already exists': 409,
+  'Only draft rule sets can be edited': 400,
+  'Only draft rule sets can be activated': 409,
+  'Retired rule sets cannot be changed': 400,
+}
+
+const handleFraudRuleError = routeErrorHandler(FRAUD_RULE_ERRORS, 'Invalid fraud rule')
+
+// GET /api/admin/fraud-rules - Every version of the fraud rules, newest first
+adminFraudRulesRouter.get('/', async (req, res) => {
+  try {
+    const ruleSets = await FraudRuleService.listRuleSets()
+    res.json({ ruleSets })
+  } catch (error) {
+    console.error('Get fraud rule sets error:', error)
+    handleFraudRuleError(res, error, 'Failed to fetch fraud rules')
+  }
+})
+
+// GET /api/admin/fraud-rules/active - The rules scoring transfers now
+adminFraudRulesRouter.get('/active', async (req, res) => {
+  try {
+    const ruleSet = await FraudRuleService.getActiveRuleSet()
+    res.json({ ruleSet })
+  } catch (error) {
+    console.error('Get active fraud rules error:', error)
+    handleFraudRuleError(res, error, 'Failed to fetch fraud rules')
+  }
+})
+
+// POST /api/admin/fraud-rules/drafts - Start a new version from the active rules
+adminFraudRulesRouter.post('/drafts', async (req, res) => {
+  try {
+    const data = fraudRuleSetDraftSchema.parse(req.body || {})
+    const ruleSet = await FraudRuleService.createDraft(data, req.user!.id)
+    res.status(201).json({ message: `Draft version ${ruleSet.version} created`, ruleSet })
+  } catch (error) {
+    console.error('Create fraud rule draft error:', error)
+    handleFraudRuleError(res, error, 'Failed to create draft')
+  }
+})
+
+// PATCH /api/admin/fraud-rules/rules/:ruleId - Change a draft rule's condition, score or reason
+adminFraudRulesRouter.patch('/rules/:ruleId', async (req, res) => {
+  try {
+    const data = fraudRuleUpdateSchema.parse(req.body || {})
+    const rule = await FraudRuleService.updateRule(req.params.ruleId, data, req.user!.id)
+    res.json({ message: 'Fraud rule updated', rule })
+  } catch (error) {
+    console.error('Update fraud rule error:', error)
+    handleFraudRuleError(res, error, 'Failed to update fraud rule')
+  }
+})
+
+// DELETE /api/admin/fraud-rules/rules/:ruleId - Remove a rule from a draft
+adminFraudRulesRouter.delete('/rules/:ruleId', async (req, res) => {
+  try {
+    await FraudRuleService.deleteRule(req.params.ruleId, req.user!.id)
+    res.json({ message: 'Fraud rule removed' })
+  } catch (error) {
+    console.error('Delete fraud rule error:', error)
+    handleFraudRuleError(res, error, 'Failed to remove fraud rule')
+  }
+})
+
+// POST /api/admin/fraud-rules/rules/:ruleId/toggle - Switch a rule on or off;
+// live rules are changed by publishing a new version
+adminFraudRulesRouter.post('/rules/:ruleId/toggle', async (req, res) => {
+  try {
+    if (typeof req.body?.enabled !== 'boolean') {
+      return res.status(400).json({ message: 'enabled must be true or false' })
+    }
+    const ruleSet = await FraudRuleService.setRuleEnabled(req.params.ruleId, req.body.enabled, req.user!.id)
+    res.json({ message: `Fraud rule ${req.body.enabled ? 'enabled' : 'disabled'}`, ruleSet })
+  } catch (error) {
+    console.error('Toggle fraud rule error:', error)
+    handleFraudRuleError(res, error, 'Failed to change fraud rule')
+  }
+})
+
+// GET /api/admin/fraud-rules/:id - One version with its rules
+adminFraudRulesRouter.get('/:id', async (req, res) => {
+  try {
+    const ruleSet = await FraudRuleService.getRuleSet(req.params.id)
+    res.json({ ruleSet })
+  } catch (error) {
+    console.error('Get fraud rule set error:', error)
+    handleFraudRuleError(res, error, 'Failed to fetch fraud rules')
+  }
+})
+
+// DELETE /api/admin/fraud-rules/:id - Throw away a draft
+adminFraudRulesRouter.delete('/:id', async (req, res) => {
+  try {
+    await FraudRuleService.discardDraft(req.params.id, req.user!.id)
+    res.json({ message: 'Draft discarded' })
+  } catch (error) {
+    console.error('Discard fraud rule draft error:', error)
+    handleFraudRuleError(res, error, 'Failed to discard draft')
+  }
+})
+
+// POST /api/admin/fraud-rules/:id/rules - Add a rule to a draft
+adminFraudRulesRouter.post('/:id/rules', async (req, res) => {
+  try {
+    const data = fraudRuleSchema.parse(req.body || {})
+    const rule = await FraudRuleService.addRule(req.params.id, data, req.user!.id)
+    res.status(201).json({ message: 'Fraud rule added', rule })
+  } catch (error) {
+    console.error('Add fraud rule error:', error)
+    handleFraudRuleError(res, error, 'Failed to add fraud rule')
+  }
+})
+
+// POST /api/admin/fraud-rules/:id/dry-run - Replay recent transfers against a version
+adminFraudRulesRouter.post('/:id/dry-run', async (req, res) => {
+  try {
+    const { days } = fraudDryRunSchema.parse(req.body || {})
+    const result = await FraudRuleService.dryRun(req.params.id, days)
+    res.json(result)
+  } catch (error) {
+    console.error('Fraud rule dry run error:', error)
+    handleFraudRuleError(res, error, 'Failed to run dry run')
+  }
+})
+
+// POST /api/admin/fraud-rules/:id/activate - Make a draft the live rules
+adminFraudRulesRouter.post('/:id/activate', async (req, res) => {
+  try {
+    const ruleSet = await FraudRuleService.activate(req.params.id, req.user!.id)
+    res.json({ message: `Fraud rules version ${ruleSet.version} is now active`, ruleSet })
+  } catch (error) {
+    console.error('Activate fraud rules error:', error)
+    handleFraudRuleError(res, error, 'Failed to activate fraud rules')
+  }
+})
@@ -0,0 +1,45 @@
+import { Router } from 'express'
+import { FxService, exchangeRateSchema } from '../../services/fxService'
+
+export const adminFxRouter = Router()
+
+// GET /api/admin/fx/rates - The exchange rate table
+adminFxRouter.get('/rates', async (req, res) => {
+  try {
+    const rates = await FxService.listRates()
+    res.json({ rates })
+  } catch (error) {
+    console.error('Get FX rates error:', error)
+    res.status(500).json({ message: 'Failed to fetch exchange rates' })
+  }
+})
+
+// PUT /api/admin/fx/rates - Set the rate for a currency pair
+adminFxRouter.put('/rates', async (req, res) => {
+  try {
+    const parsed = exchangeRateSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message })
+    }
+
+    const rate = await FxService.setRate(parsed.data, req.user!.id)
+    res.json({ message: 'Exchange rate updated', rate })
+  } catch (error) {
+    console.error('Set FX rate error:', error)
+    res.status(500).json({ message: 'Failed to update exchange rate' })
+  }
+})
+
+// POST /api/admin/fx/rates/import - Load rates from the configured rates file
+adminFxRouter.post('/rates/import', async (req, res) => {
+  try {
+    const result = await FxService.importRates(req.user!.id)
+    res.json({ message: `Imported ${result.imported} exchange rate(s)`, ...result })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Rates file not found') {
+      return res.status(404).json({ message: error.message })
+    }
+    console.error('Import FX rates error:', error)
+    res.status(500).json({ message: 'Failed to import exchange rates' })
+  }
+})
@@ -0,0 +1,98 @@
+import { Router } from 'express'
+import {
+  LimitService,
+  limitOverrideSchema,
+  limitPolicySchema,
+  limitPolicyUpdateSchema
+} from '../../services/limitService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminLimitsRouter = Router()
+
+const LIMIT_ERRORS: Record<string, number> = {
+  'Limit policy not found': 404,
+  'Limit override not found': 404,
+  'User not found': 404,
+}
+
+const handleLimitError = routeErrorHandler(LIMIT_ERRORS, 'Invalid limit details')
+
+// GET /api/admin/limits/policies - Every transfer limit policy
+adminLimitsRouter.get('/policies', async (req, res) => {
+  try {
+    const policies = await LimitService.listPolicies()
+    res.json({ policies })
+  } catch (error) {
+    console.error('Get limit policies error:', error)
+    handleLimitError(res, error, 'Failed to fetch limit policies')
+  }
+})
+
+// POST /api/admin/limits/policies - Add a policy
+adminLimitsRouter.post('/policies', async (req, res) => {
+  try {
+    const data = limitPolicySchema.parse(req.body || {})
+    const policy = await LimitService.createPolicy(data, req.user!.id)
+    res.status(201).json({ message: 'Limit policy created', policy })
+  } catch (error) {
+    console.error('Create limit policy error:', error)
+    handleLimitError(res, error, 'Failed to create limit policy')
+  }
+})
+
+// PATCH /api/admin/limits/policies/:id - Change a policy's keys or limits, or switch it off
+adminLimitsRouter.patch('/policies/:id', async (req, res) => {
+  try {
+    const data = limitPolicyUpdateSchema.parse(req.body || {})
+    const policy = await LimitService.updatePolicy(req.params.id, data, req.user!.id)
+    res.json({ message: 'Limit policy updated', policy })
+  } catch (error) {
+    console.error('Update limit policy error:', error)
+    handleLimitError(res, error, 'Failed to update limit policy')
+  }
+})
+
+// DELETE /api/admin/limits/policies/:id - Remove a policy
+adminLimitsRouter.delete('/policies/:id', async (req, res) => {
+  try {
+    await LimitService.deletePolicy(req.params.id, req.user!.id)
+    res.json({ message: 'Limit policy deleted' })
+  } catch (error) {
+    console.error('Delete limit policy error:', error)
+    handleLimitError(res, error, 'Failed to delete limit policy')
+  }
+})
+
+// GET /api/admin/limits/users/:userId - A user's limits, usage and overrides
+adminLimitsRouter.get('/users/:userId', async (req, res) => {
+  try {
+    const limits = await LimitService.getUserLimits(req.params.userId)
+    res.json(limits)
+  } catch (error) {
+    console.error('Get user limits error:', error)
+    handleLimitError(res, error, 'Failed to fetch user limits')
+  }
+})
+
+// POST /api/admin/limits/users/:userId/overrides - Set limits for one user
+adminLimitsRouter.post('/users/:userId/overrides', async (req, res) => {
+  try {
+    const data = limitOverrideSchema.parse(req.body || {})
+    const override = await LimitService.createOverride(req.params.userId, data, req.user!.id)
+    res.status(201).json({ message: 'Limit override created', override })
+  } catch (error) {
+    console.error('Create limit override error:', error)
+    handleLimitError(res, error, 'Failed to create limit override')
+  }
+})
+
+// DELETE /api/admin/limits/overrides/:id - Remove a user's override
+adminLimitsRouter.delete('/overrides/:id', async (req, res) => {
+  try {
+    await LimitService.deleteOverride(req.params.id, req.user!.id)
+    res.json({ message: 'Limit override removed' })
+  } catch (error) {
+    console.error('Delete limit override error:', error)
+    handleLimitError(res, error, 'Failed to remove limit override')
+  }
+})
@@ -0,0 +1,98 @@
+import { Router } from 'express'
+import { isSeniorAdmin, requireSeniorAdmin } from '../../middleware/auth'
+import { PepService, eddCaseFilterSchema, eddNotesSchema } from '../../services/pepService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminPepRouter = Router()
+
+const PEP_ERRORS: Record<string, number> = {
+  'User not found': 404,
+  'EDD case not found': 404,
+  'Customer already has an open EDD case': 409,
+  'EDD case is not awaiting sign-off': 409,
+  'EDD case is already closed': 409,
+}
+
+const handlePepError = routeErrorHandler(PEP_ERRORS)
+
+// GET /api/admin/pep/status - The loaded PEP list, case counts and whether this admin can sign off
+adminPepRouter.get('/status', async (req, res) => {
+  try {
+    const status = await PepService.getStatus()
+    res.json({ ...status, canSignOff: isSeniorAdmin(req.user) })
+  } catch (error) {
+    console.error('Get PEP status error:', error)
+    handlePepError(res, error, 'Failed to fetch PEP list status')
+  }
+})
+
+// POST /api/admin/pep/import - Reload the PEP list from its file
+adminPepRouter.post('/import', async (req, res) => {
+  try {
+    const result = await PepService.importList(req.user!.id)
+    res.json(result)
+  } catch (error) {
+    console.error('Import PEP list error:', error)
+    handlePepError(res, error, 'Failed to import PEP list')
+  }
+})
+
+// GET /api/admin/pep/cases - EDD cases, those awaiting sign-off by default
+adminPepRouter.get('/cases', async (req, res) => {
+  try {
+    const { status } = eddCaseFilterSchema.parse({ status: req.query.status || undefined })
+    const cases = await PepService.listCases(status)
+    res.json({ cases })
+  } catch (error) {
+    console.error('Get EDD cases error:', error)
+    handlePepError(res, error, 'Failed to fetch EDD cases')
+  }
+})
+
+// POST /api/admin/pep/users/:userId/flag - Mark a customer as a PEP and open an EDD case
+adminPepRouter.post('/users/:userId/flag', async (req, res) => {
+  try {
+    const { notes } = eddNotesSchema.parse(req.body)
+    const eddCase = await PepService.flagCustomer(req.params.userId, notes, req.user!.id)
+    res.status(201).json({ case: eddCase })
+  } catch (error) {
+    console.error('Flag PEP error:', error)
+    handlePepError(res, error, 'Failed to flag customer')
+  }
+})
+
+// POST /api/admin/pep/cases/:id/request-info - Ask the customer for more documents
+adminPepRouter.post('/cases/:id/request-info', async (req, res) => {
+  try {
+    const { notes } = eddNotesSchema.parse(req.body)
+    const eddCase = await PepService.requestInformation(req.params.id, notes, req.user!.id)
+    res.json({ case: eddCase })
+  } catch (error) {
+    console.error('Request EDD information error:', error)
+    handlePepError(res, error, 'Failed to request more information')
+  }
+})
+
+// POST /api/admin/pep/cases/:id/sign-off - Senior admin approves the source of wealth
+adminPepRouter.post('/cases/:id/sign-off', requireSeniorAdmin, async (req, res) => {
+  try {
+    const { notes } = eddNotesSchema.parse(req.body)
+    const eddCase = await PepService.signOff(req.params.id, notes, req.user!.id)
+    res.json({ case: eddCase })
+  } catch (error) {
+    console.error('Sign off EDD case error:', error)
+    handlePepError(res, error, 'Failed to sign off EDD case')
+  }
+})
+
+// POST /api/admin/pep/cases/:id/dismiss - Senior admin rules the customer is not a PEP
+adminPepRouter.post('/cases/:id/dismiss', requireSeniorAdmin, async (req, res) => {
+  try {
+    const { notes } = eddNotesSchema.parse(req.body)
+    const eddCase = await PepService.dismiss(req.params.id, notes, req.user!.id)
+    res.json({ case: eddCase })
+  } catch (error) {
+    console.error('Dismiss EDD case error:', error)
+    handlePepError(res, error, 'Failed to dismiss EDD case')
+  }
+})
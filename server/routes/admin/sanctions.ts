@@ -0,0 +1,69 @@
+import { Router } from 'express'
+import { SanctionsService, sanctionsCaseFilterSchema, sanctionsReviewSchema } from '../../services/sanctionsService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const adminSanctionsRouter = Router()
+
+const SANCTIONS_ERRORS: Record<string, number> = {
+  'Sanctions case not found': 404,
+  'Sanctions case already reviewed': 409,
+}
+
+const handleSanctionsError = routeErrorHandler(SANCTIONS_ERRORS)
+
+// GET /api/admin/sanctions/status - Loaded lists, open cases and the match threshold
+adminSanctionsRouter.get('/status', async (req, res) => {
+  try {
+    res.json(await SanctionsService.getStatus())
+  } catch (error) {
+    console.error('Get sanctions status error:', error)
+    handleSanctionsError(res, error, 'Failed to fetch sanctions list status')
+  }
+})
+
+// POST /api/admin/sanctions/import - Reload the lists from the files in the data directory
+adminSanctionsRouter.post('/import', async (req, res) => {
+  try {
+    const results = await SanctionsService.importLists(req.user!.id)
+    res.json({ results })
+  } catch (error) {
+    console.error('Import sanctions lists error:', error)
+    handleSanctionsError(res, error, 'Failed to import sanctions lists')
+  }
+})
+
+// GET /api/admin/sanctions/cases - Screening cases, open ones by default
+adminSanctionsRouter.get('/cases', async (req, res) => {
+  try {
+    const { status } = sanctionsCaseFilterSchema.parse({ status: req.query.status || undefined })
+    const cases = await SanctionsService.listCases(status)
+    res.json({ cases })
+  } catch (error) {
+    console.error('Get sanctions cases error:', error)
+    handleSanctionsError(res, error, 'Failed to fetch sanctions cases')
+  }
+})
+
+// POST /api/admin/sanctions/cases/:id/clear - Close a case as a false positive
+adminSanctionsRouter.post('/cases/:id/clear', async (req, res) => {
+  try {
+    const { notes } = sanctionsReviewSchema.parse(req.body)
+    const sanctionsCase = await SanctionsService.reviewCase(req.params.id, 'CLEARED', notes, req.user!.id)
+    res.json({ case: sanctionsCase })
+  } catch (error) {
+    console.error('Clear sanctions case error:', error)
+    handleSanctionsError(res, error, 'Failed to clear sanctions case')
+  }
+})
+
+// POST /api/admin/sanctions/cases/:id/confirm - Confirm a true match; the customer's transfers stay blocked
+adminSanctionsRouter.post('/cases/:id/confirm', async (req, res) => {
+  try {
+    const { notes } = sanctionsReviewSchema.parse(req.body)
+    const sanctionsCase = await SanctionsService.reviewCase(req.params.id, 'CONFIRMED', notes, req.user!.id)
+    res.json({ case: sanctionsCase })
+  } catch (error) {
+    console.error('Confirm sanctions case error:', error)
+    handleSanctionsError(res, error, 'Failed to confirm sanctions case')
+  }
+})
@@ -79,7 +79,7 @@ router.post('/upload', requireAuth, upload.single('file'), async (req, res) => {
     }
 
     // Validate document type
-    const validTypes = ['DRIVERS_LICENSE', 'PASSPORT', 'UTILITY_BILL', 'BANK_STATEMENT', 'TAX_DOCUMENT', 'IDENTITY_VERIFICATION'];
+    const validTypes = ['DRIVERS_LICENSE', 'PASSPORT', 'UTILITY_BILL', 'BANK_STATEMENT', 'TAX_DOCUMENT', 'IDENTITY_VERIFICATION', 'SOURCE_OF_WEALTH'];
     if (!validTypes.includes(type)) {
       return res.status(400).json({ error: 'Invalid document type' });
     }
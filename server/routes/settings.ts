@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth.js';
 import { prisma } from '../prisma.js';
+import { Money } from '../../shared/money.js';
+import { LimitService } from '../services/limitService.js';
+import { AccountService } from '../services/accountService.js';
+import { SanctionsService } from '../services/sanctionsService.js';
+import { PepService } from '../services/pepService.js';
 import bcrypt from 'bcryptjs';
 import speakeasy from 'speakeasy';
 import qrcode from 'qrcode';
@@ -75,6 +80,8 @@ router.put('/profile', requireAuth, async (req, res) => {
       }
     });
 
+    const previous = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+
     const updatedUser = await prisma.user.update({
       where: { id: userId },
       data: {
@@ -106,6 +113,16 @@ router.put('/profile', requireAuth, async (req, res) => {
       }
     });
 
+    // A new name is screened again
+    if (previous && updatedUser.name !== previous.name) {
+      await SanctionsService.screenCustomer(userId, 'NAME_CHANGE').catch((error) => {
+        console.error('Sanctions screening error:', error);
+      });
+      await PepService.screenCustomer(userId).catch((error) => {
+        console.error('PEP screening error:', error);
+      });
+    }
+
     res.json({ user: updatedUser });
   } catch (error) {
     console.error('Update profile error:', error);
@@ -650,17 +667,19 @@ router.get('/banking', requireAuth, async (req, res) => {
       orderBy: { isDefault: 'desc' }
     });
 
-    // Get transfer limits (mock data for now)
-    const transferLimits = [
-      { type: 'DAILY', amount: 5000, remaining: 3500 },
-      { type: 'WEEKLY', amount: 25000, remaining: 18750 },
-      { type: 'MONTHLY', amount: 100000, remaining: 75000 }
-    ];
+    // Limits that apply to transfers out of the primary account
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { id: true, kycStatus: true, riskLevel: true, isPep: true }
+    });
+    const primaryAccount = await AccountService.getPrimaryAccount(prisma, userId);
+    const limits = await LimitService.getSummary(user, { accountType: primaryAccount.type });
 
     res.json({ 
       settings: bankingSettings,
       paymentMethods,
-      transferLimits
+      transferLimits: limits.windows,
+      perTransactionLimit: limits.perTransaction
     });
   } catch (error) {
     console.error('Get banking settings error:', error);
@@ -674,6 +693,21 @@ router.put('/banking', requireAuth, async (req, res) => {
     const userId = req.user!.id;
     const settings = req.body;
 
+    // Money fields are stored as exact decimals
+    for (const field of ['lowBalanceThreshold', 'monthlySpendingLimit']) {
+      if (settings[field] !== undefined && settings[field] !== null) {
+        try {
+          settings[field] = Money.of(settings[field]).toString();
+        } catch {
+          return res.status(400).json({ error: `Invalid amount for ${field}` });
+        }
+      }
+    }
+
+    if (settings.spendingLimitAction !== undefined && !['WARN', 'BLOCK'].includes(settings.spendingLimitAction)) {
+      return res.status(400).json({ error: 'Invalid spending limit action' });
+    }
+
     const updatedSettings = await prisma.bankingSettings.upsert({
       where: { userId },
       update: settings,
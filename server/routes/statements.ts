@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth.js';
 import { prisma } from '../prisma.js';
+import { DEFAULT_CURRENCY, Money } from '../../shared/money.js';
 
 const router = Router();
 
@@ -72,8 +73,10 @@ router.post('/generate', requireAuth, async (req, res) => {
       size: Math.floor(Math.random() * 500000) + 100000, // Random size between 100KB and 600KB
       createdAt: new Date().toISOString(),
       transactionCount: transactions.length,
-      totalDebit: transactions.filter(t => t.type === 'DEBIT').reduce((sum, t) => sum + t.amount, 0),
-      totalCredit: transactions.filter(t => t.type === 'CREDIT').reduce((sum, t) => sum + t.amount, 0)
+      totalDebit: Money.sum(transactions.filter(t => t.type === 'DEBIT' && t.currency === DEFAULT_CURRENCY).map(t => t.amount)),
+      totalCredit: Money.sum(transactions.filter(t => t.type === 'CREDIT' && t.currency === DEFAULT_CURRENCY).map(t => t.amount)),
+      totalsByCurrency: summarizeByCurrency(transactions),
+      conversions: transactions.filter(t => t.fxQuoteId && t.type === 'DEBIT').map(describeConversion)
     };
 
     // In a real app, you would:
@@ -270,6 +273,40 @@ function generateStatements(userId: string, transactions: any[]) {
   return statements.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
+// Debit and credit totals for each currency the transactions were in
+function summarizeByCurrency(transactions: any[]) {
+  const totals: Record<string, { totalDebit: string; totalCredit: string }> = {};
+  const currencies = Array.from(new Set(transactions.map(t => t.currency as string)));
+
+  for (const currency of currencies) {
+    const inCurrency = transactions.filter(t => t.currency === currency);
+    totals[currency] = {
+      totalDebit: Money.sum(inCurrency.filter(t => t.type === 'DEBIT').map(t => Money.of(t.amount, currency)), currency).toString(),
+      totalCredit: Money.sum(inCurrency.filter(t => t.type === 'CREDIT').map(t => Money.of(t.amount, currency)), currency).toString()
+    };
+  }
+
+  return totals;
+}
+
+// Statement line for a currency conversion: the original and converted amounts with the rate, spread and fee
+function describeConversion(transaction: any) {
+  const conversion = transaction.metadata?.conversion || {};
+
+  return {
+    transactionId: transaction.id,
+    date: transaction.createdAt,
+    description: transaction.description,
+    originalAmount: conversion.sourceAmount,
+    originalCurrency: conversion.fromCurrency,
+    convertedAmount: conversion.convertedAmount,
+    convertedCurrency: conversion.toCurrency,
+    rate: transaction.fxRate?.toFixed(8) ?? conversion.rate,
+    spread: transaction.fxSpread?.toString() ?? null,
+    fee: transaction.fxFee?.toString() ?? null
+  };
+}
+
 // Helper function to format period
 function formatPeriod(type: string, startDate: Date, endDate: Date): string {
   switch (type) {
@@ -2,17 +2,45 @@ import { Router } from 'express'
 import { prisma } from '../prisma'
 import { requireAuth, requireOwnershipOrAdmin } from '../middleware/auth'
 import { transferRateLimit, validateTransferRequest, fraudDetection } from '../middleware/transferValidation'
+import { idempotent } from '../middleware/idempotency'
 import { TransferService } from '../services/transferService'
+import { TransferLifecycleService } from '../services/transferLifecycleService'
+import { TransferValidationService, type ValidatedTransfer } from '../services/transferValidationService'
+import { AccountService } from '../services/accountService'
+import { HoldService } from '../services/holdService'
+import { SpendingControlService } from '../services/spendingControlService'
+import { PayeeService } from '../services/payeeService'
+import { RoutingDirectoryService } from '../services/routingDirectoryService'
+import { Money } from '../../shared/money'
+import { domesticBeneficiarySchema, internationalBeneficiarySchema, routingNumberSchema } from '../../shared/beneficiary'
 import { sanitizeTransactionData, createPlainObject, createSafeJsonResponse, createErrorResponse, createSuccessResponse } from '../utils/responseUtils'
 import { getSocketService } from '../services/socketService'
+import { userAccountsRouter } from './user/accounts'
+import { userScheduledTransfersRouter } from './user/scheduledTransfers'
+import { userPayeesRouter } from './user/payees'
+import { userFxRouter } from './user/fx'
+import { userBillPayRouter } from './user/billPay'
+import { userDepositsRouter } from './user/deposits'
+import { userEddRouter } from './user/edd'
 import bcrypt from 'bcryptjs'
 import crypto from 'crypto'
 
 export const userRouter = Router()
 
+const TRANSFER_TYPES: ValidatedTransfer['transferType'][] = ['checking', 'savings', 'external_bank', 'p2p']
+
 // Apply auth middleware to all user routes
 userRouter.use(requireAuth)
 
+// Mount account and scheduled transfer management routes
+userRouter.use('/accounts', userAccountsRouter)
+userRouter.use('/scheduled-transfers', userScheduledTransfersRouter)
+userRouter.use('/payees', userPayeesRouter)
+userRouter.use('/fx', userFxRouter)
+userRouter.use('/bill-pay', userBillPayRouter)
+userRouter.use('/deposits', userDepositsRouter)
+userRouter.use('/edd', userEddRouter)
+
 // GET /api/user/profile - Get current user profile
 userRouter.get('/profile', async (req, res) => {
   try {
@@ -51,15 +79,21 @@ userRouter.get('/transactions', async (req, res) => {
 
     console.log('📄 Fetching transactions:', { page, limit, userId: req.user!.id });
 
+    // Optionally narrow to a single account
+    const accountId = req.query.accountId as string | undefined
+    const where = accountId
+      ? AccountService.transactionScope(await AccountService.resolveAccount(prisma, req.user!.id, accountId))
+      : { userId: req.user!.id }
+
     const [transactions, total] = await Promise.all([
       prisma.transaction.findMany({
-        where: { userId: req.user!.id },
+        where,
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
       }),
       prisma.transaction.count({
-        where: { userId: req.user!.id },
+        where,
       }),
     ])
 
@@ -105,8 +139,19 @@ userRouter.get('/dashboard', async (req, res) => {
       },
     })
 
+    // Scope the dashboard to the selected account (primary by default)
+    const accounts = await HoldService.getBalances(await AccountService.listAccounts(req.user!.id))
+    const accountId = req.query.accountId as string | undefined
+    const account = accountId ? accounts.find(a => a.id === accountId) : accounts.find(a => a.isPrimary)
+
+    if (!account) {
+      return res.status(404).json({ message: 'Account not found' })
+    }
+
+    const scope = AccountService.transactionScope(account)
+
     const recentTransactions = await prisma.transaction.findMany({
-      where: { userId: req.user!.id },
+      where: scope,
       take: 5,
       orderBy: { createdAt: 'desc' },
     })
@@ -118,18 +163,20 @@ userRouter.get('/dashboard', async (req, res) => {
     const monthlyStats = await prisma.transaction.groupBy({
       by: ['type'],
       where: {
-        userId: req.user!.id,
+        ...scope,
         createdAt: { gte: thirtyDaysAgo },
       },
       _sum: { amount: true },
       _count: true,
     })
 
-    const monthlySpent = monthlyStats.find(stat => stat.type === 'DEBIT')?._sum.amount || 0
-    const monthlyReceived = monthlyStats.find(stat => stat.type === 'CREDIT')?._sum.amount || 0
+    const monthlySpent = Money.of(monthlyStats.find(stat => stat.type === 'DEBIT')?._sum.amount || '0')
+    const monthlyReceived = Money.of(monthlyStats.find(stat => stat.type === 'CREDIT')?._sum.amount || '0')
 
     res.json({
       user,
+      account,
+      accounts,
       recentTransactions,
       monthlyStats: {
         spent: monthlySpent,
@@ -143,8 +190,23 @@ userRouter.get('/dashboard', async (req, res) => {
   }
 })
 
+// GET /api/user/routing-directory/:routingNumber - Look up the bank a routing number belongs to
+userRouter.get('/routing-directory/:routingNumber', async (req, res) => {
+  const parsed = routingNumberSchema.safeParse(req.params.routingNumber)
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message })
+  }
+
+  const institution = RoutingDirectoryService.lookup(parsed.data)
+  if (!institution) {
+    return res.status(404).json({ message: 'Routing number not found in the routing directory' })
+  }
+
+  res.json({ institution })
+})
+
 // POST /api/user/transfer - Create a transfer
-userRouter.post('/transfer', async (req, res) => {
+userRouter.post('/transfer', idempotent, async (req, res) => {
   try {
     console.log('📥 Transfer request received:', {
       body: req.body,
@@ -157,79 +219,150 @@ userRouter.post('/transfer', async (req, res) => {
       return res.status(400).json(errorResponse.body);
     }
 
-    const { amount, recipientInfo, transferType, bankName } = req.body
+    // A saved payee supplies the external account details
+    const payee = req.body.payeeId ? await PayeeService.get(req.user!.id, String(req.body.payeeId)) : null
+    const transferBody = payee ? { ...req.body, ...PayeeService.transferDetails(payee) } : req.body
+
+    const { amount, recipientInfo, transferType, bankName, routingNumber, recipientName, fromAccountId, toAccountId } = transferBody
 
-    // Validate required fields
-    if (!amount || !recipientInfo || !transferType) {
+    // Validate required fields (own-account transfers identify the destination by type or id)
+    const isOwnAccountTransfer = transferType === 'checking' || transferType === 'savings'
+    if (!amount || !transferType || (!recipientInfo && !isOwnAccountTransfer)) {
       const errorResponse = createErrorResponse('Amount, recipient info, and transfer type are required', 400);
       return res.status(400).json(errorResponse.body);
     }
-
-    // Additional validation for external bank transfers
-    if (transferType === 'external_bank' && !bankName) {
-      const errorResponse = createErrorResponse('Bank name is required for external bank transfers', 400);
+    if (!TRANSFER_TYPES.includes(transferType)) {
+      const errorResponse = createErrorResponse('Invalid transfer type', 400);
       return res.status(400).json(errorResponse.body);
     }
 
-    // Validate amount
-    const transferAmount = parseFloat(amount)
-    if (isNaN(transferAmount) || transferAmount <= 0) {
+    // External transfers reach US accounts over ACH by routing and account number, and
+    // accounts abroad by IBAN and BIC. The bank's name comes from the routing directory.
+    let beneficiary: { recipientInfo: string, bankName: string, recipientName: string, routingNumber?: string, iban?: string, bic?: string } | null = null
+    if (transferType === 'external_bank' && (transferBody.iban || transferBody.bic)) {
+      const parsed = internationalBeneficiarySchema.safeParse({ iban: transferBody.iban, bic: transferBody.bic, accountHolderName: recipientName })
+      if (!parsed.success) {
+        const errorResponse = createErrorResponse(parsed.error.errors[0].message, 400);
+        return res.status(400).json(errorResponse.body);
+      }
+      const { iban, bic, accountHolderName } = parsed.data
+      beneficiary = { recipientInfo: iban, bankName: String(bankName || '').trim() || `BIC ${bic}`, recipientName: accountHolderName, iban, bic }
+    } else if (transferType === 'external_bank') {
+      const parsed = domesticBeneficiarySchema.safeParse({ routingNumber, accountNumber: recipientInfo, accountHolderName: recipientName })
+      if (!parsed.success) {
+        const errorResponse = createErrorResponse(parsed.error.errors[0].message, 400);
+        return res.status(400).json(errorResponse.body);
+      }
+      const institution = RoutingDirectoryService.lookup(parsed.data.routingNumber)
+      if (!institution) {
+        const errorResponse = createErrorResponse('Routing number not found in the routing directory. Please verify it with the receiving bank.', 400);
+        return res.status(400).json(errorResponse.body);
+      }
+      const { accountNumber, accountHolderName } = parsed.data
+      beneficiary = { recipientInfo: accountNumber, bankName: institution.name, recipientName: accountHolderName, routingNumber: institution.routingNumber }
+    }
+
+    const sourceAccount = await AccountService.resolveAccount(prisma, req.user!.id, fromAccountId)
+    AccountService.assertActive(sourceAccount)
+
+    // Amounts are in the source account's currency, e.g. whole yen for a JPY account.
+    // JSON numbers are read as written, so extra decimals are rejected rather than rounded.
+    // The transfer services take its decimal figure and apply the account's currency.
+    let transferAmount: Money
+    try {
+      transferAmount = Money.of(typeof amount === 'number' ? String(amount) : amount, sourceAccount.currency)
+    } catch {
+      const errorResponse = createErrorResponse(`Invalid transfer amount for a ${sourceAccount.currency} account`, 400);
+      return res.status(400).json(errorResponse.body);
+    }
+    if (!transferAmount.isPositive()) {
       const errorResponse = createErrorResponse('Invalid transfer amount', 400);
       return res.status(400).json(errorResponse.body);
     }
 
-    // Check user balance
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.id },
-      select: { balance: true }
-    })
-
-    if (!user || user.balance < transferAmount) {
-      const errorResponse = createErrorResponse('Insufficient funds', 400);
+    // A conversion also debits the quoted fee from the source account
+    const fxQuote = typeof req.body.fxQuoteId === 'string'
+      ? await prisma.fxQuote.findFirst({ where: { id: req.body.fxQuoteId, userId: req.user!.id } })
+      : null
+    const debitAmount = fxQuote ? transferAmount.add(fxQuote.fee) : transferAmount
+
+    // Check the available balance (ledger balance less active holds) of the source
+    // account. Own-account transfers are never covered by overdraft protection.
+    const heldAmount = await HoldService.getHeldAmount(sourceAccount.id)
+    const shortfall = debitAmount.subtract(Money.of(sourceAccount.balance, sourceAccount.currency).subtract(heldAmount.toString()))
+    if (shortfall.isPositive() && (isOwnAccountTransfer || !await SpendingControlService.findSweepSource(prisma, sourceAccount, shortfall.toString()))) {
+      const errorResponse = createErrorResponse(
+        heldAmount.isZero() ? 'Insufficient funds' : 'Insufficient funds including pending transfers',
+        400
+      );
       return res.status(400).json(errorResponse.body);
     }
 
-    // For external bank transfers, we need to hold the funds but not deduct them until approved
-    if (transferType === 'external_bank') {
-      // Check if user has sufficient balance including any pending external transfers
-      const pendingExternalTransfers = await prisma.transaction.aggregate({
-        _sum: { amount: true },
-        where: {
-          userId: req.user!.id,
-          type: 'DEBIT',
-          metadata: {
-            path: ['status'],
-            equals: 'pending'
-          }
-        }
-      });
-      
-      const totalPending = pendingExternalTransfers._sum.amount || 0;
-      if (user.balance - totalPending < transferAmount) {
-        const errorResponse = createErrorResponse('Insufficient funds including pending transfers', 400);
-        return res.status(400).json(errorResponse.body);
+    // Account standing, KYC, transfer limits, the monthly spending limit and the
+    // payee's cooling-off limit, as for scheduled transfers
+    const violation = await TransferValidationService.checkTransfer(req.user!.id, {
+      amount: transferAmount,
+      recipientInfo: String(recipientInfo ?? ''),
+      transferType,
+      bankName: beneficiary?.bankName,
+      routingNumber: beneficiary?.routingNumber,
+      iban: beneficiary?.iban,
+      bic: beneficiary?.bic,
+      payeeId: payee?.id
+    }, sourceAccount.id)
+    if (violation) {
+      const errorResponse = createErrorResponse(violation.message, violation.status, { code: violation.code, ...violation.details });
+      return res.status(violation.status).json(errorResponse.body);
+    }
+
+    // Transfers to another Prime Edge customer settle immediately on both sides
+    if (transferType === 'p2p') {
+      const { debit, credit, sender, recipient } = await TransferService.createPeerTransfer(req.user!.id, {
+        amount: transferAmount.toString(),
+        recipient: String(recipientInfo),
+        fromAccountId: sourceAccount.id,
+        note: typeof req.body.note === 'string' ? req.body.note : undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      })
+
+      const cleanTransaction = sanitizeTransactionData(debit)
+
+      console.log('✅ Customer transfer completed successfully:', cleanTransaction!.id);
+
+      // Let the recipient see the incoming funds immediately
+      try {
+        const socketService = getSocketService();
+        socketService.emitTransferReceived(recipient.id, credit, sender.name);
+      } catch (socketError) {
+        console.warn('⚠️  WebSocket not available, recipient will see the transfer on next refresh:', (socketError as Error).message);
       }
 
-      // Create transaction record with enhanced metadata
-      const transaction = await prisma.transaction.create({
+      const responseData = {
+        success: true,
+        message: `Transfer to ${recipient.name} completed successfully`,
         data: {
-          userId: req.user!.id,
-          type: 'DEBIT',
-          amount: transferAmount,
-          description: `External bank transfer to ${bankName}`,
-          status: 'PENDING',
-          metadata: {
-            transferType,
-            recipientInfo: `Account ending in ${recipientInfo.slice(-4)}`,
-            bankName,
-            fullAccountInfo: recipientInfo,
-            status: 'pending',
-            reason: 'External bank transfer awaiting approval',
-            submittedAt: new Date().toISOString(),
-            requiresApproval: true,
-            riskLevel: transferAmount > 10000 ? 'HIGH' : transferAmount > 5000 ? 'MEDIUM' : 'LOW',
+          transaction: cleanTransaction,
+          recipient: {
+            name: recipient.name,
+            accountNumber: `****${recipient.accountNumber.slice(-4)}`
           }
         }
+      };
+
+      res.setHeader('Content-Type', 'application/json');
+      return res.status(200).json(responseData);
+    }
+
+    // External bank transfers place a hold on the funds; nothing is deducted until approval
+    if (transferType === 'external_bank' && beneficiary) {
+      const transaction = await TransferService.createExternalTransfer(req.user!.id, {
+        amount: transferAmount.toString(),
+        ...beneficiary,
+        fromAccountId: sourceAccount.id,
+        payeeId: payee?.id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
       })
 
       // Create clean transaction data manually
@@ -237,7 +370,7 @@ userRouter.post('/transfer', async (req, res) => {
         id: String(transaction.id),
         userId: String(transaction.userId),
         type: String(transaction.type),
-        amount: Number(transaction.amount),
+        amount: Money.of(transaction.amount).toString(),
         status: String(transaction.status),
         description: String(transaction.description),
         createdAt: transaction.createdAt.toISOString(),
@@ -268,52 +401,22 @@ userRouter.post('/transfer', async (req, res) => {
       res.setHeader('Content-Type', 'application/json');
       return res.status(200).json(responseData);
     } else {
-      // Handle internal transfers - deduct immediately
-      const transaction = await prisma.$transaction(async (tx) => {
-        const newTransaction = await tx.transaction.create({
-          data: {
-            userId: req.user!.id,
-            type: 'DEBIT',
-            amount: transferAmount,
-            description: `Internal transfer to ${transferType} account`,
-            status: 'COMPLETED',
-            metadata: {
-              transferType,
-              recipientInfo,
-              status: 'completed',
-              reason: 'Internal transfer',
-              submittedAt: new Date().toISOString(),
-              requiresApproval: false
-            }
-          }
-        })
-
-        await tx.user.update({
-          where: { id: req.user!.id },
-          data: { balance: { decrement: transferAmount } }
-        })
-
-        return newTransaction
+      // Handle transfers between the user's own accounts - both sides settle immediately
+      const { debit, to } = await AccountService.transferBetweenAccounts(req.user!.id, {
+        amount: transferAmount.toString(),
+        fromAccountId: sourceAccount.id,
+        toAccountId,
+        toAccountType: transferType === 'savings' ? 'SAVINGS' : 'CHECKING',
+        fxQuoteId: typeof req.body.fxQuoteId === 'string' ? req.body.fxQuoteId : undefined
       })
 
-      // Create clean transaction data manually
-      const cleanTransaction = {
-        id: String(transaction.id),
-        userId: String(transaction.userId),
-        type: String(transaction.type),
-        amount: Number(transaction.amount),
-        status: String(transaction.status),
-        description: String(transaction.description),
-        createdAt: transaction.createdAt.toISOString(),
-        updatedAt: transaction.updatedAt.toISOString(),
-        metadata: transaction.metadata ? JSON.parse(JSON.stringify(transaction.metadata)) : null
-      };
+      const cleanTransaction = sanitizeTransactionData(debit)
 
-      console.log('✅ Internal transfer completed successfully:', cleanTransaction.id);
+      console.log('✅ Internal transfer completed successfully:', cleanTransaction!.id);
 
       const responseData = {
         success: true,
-        message: 'Transfer completed successfully',
+        message: `Transfer to ${AccountService.label(to)} completed successfully`,
         data: {
           transaction: cleanTransaction
         }
@@ -325,7 +428,67 @@ userRouter.post('/transfer', async (req, res) => {
 
   } catch (error) {
     console.error('❌ Transfer error:', error);
-    
+
+    if (error instanceof Error && error.message === 'Insufficient balance') {
+      const errorResponse = createErrorResponse('Insufficient funds', 400);
+      return res.status(400).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient available balance') {
+      const errorResponse = createErrorResponse('Insufficient funds including pending transfers', 400);
+      return res.status(400).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Monthly spending limit reached') {
+      const errorResponse = createErrorResponse('This payment would exceed your monthly spending limit', 400, { code: 'MONTHLY_SPENDING_LIMIT_EXCEEDED' });
+      return res.status(400).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Transfer blocked by sanctions screening') {
+      const errorResponse = createErrorResponse('This transfer cannot be made. Please contact support.', 403, { code: 'SANCTIONS_BLOCKED', contactSupport: true });
+      return res.status(403).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Transfer blocked due to high risk score') {
+      const errorResponse = createErrorResponse('Transfer blocked due to high risk score. Please contact support.', 403, { code: 'HIGH_RISK_BLOCKED', contactSupport: true });
+      return res.status(403).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Transfer requires review') {
+      const errorResponse = createErrorResponse('This transfer needs a review before it can be sent. Please contact support.', 403, { code: 'REVIEW_REQUIRED', contactSupport: true });
+      return res.status(403).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Recipient not found') {
+      const errorResponse = createErrorResponse('No Prime Edge customer matches that account number, email or phone', 404);
+      return res.status(404).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && ['Cannot transfer to your own account', 'Recipient account is inactive', 'Recipient account is in a different currency', 'ACH transfers must be sent from a USD account'].includes(error.message)) {
+      const errorResponse = createErrorResponse(error.message, 400);
+      return res.status(400).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && ['A currency conversion quote is required', 'Quote has already been used', 'Quote has expired', 'Quote does not match this transfer'].includes(error.message)) {
+      const errorResponse = createErrorResponse(error.message, 400);
+      return res.status(400).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && ['Account not found', 'Payee not found', 'Quote not found'].includes(error.message)) {
+      const errorResponse = createErrorResponse(error.message, 404);
+      return res.status(404).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Destination account not found') {
+      const errorResponse = createErrorResponse(`You don't have another open ${req.body?.transferType} account to transfer to`, 400);
+      return res.status(400).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && ['Account is not active', 'Cannot transfer to the same account'].includes(error.message)) {
+      const errorResponse = createErrorResponse(error.message, 400);
+      return res.status(400).json(errorResponse.body);
+    }
+
     const errorResponse = {
       success: false,
       message: 'Internal server error',
@@ -369,6 +532,74 @@ userRouter.get('/pending-transfers', async (req, res) => {
   }
 })
 
+// POST /api/user/transfers/:id/cancel - Withdraw a pending external transfer before review
+userRouter.post('/transfers/:id/cancel', async (req, res) => {
+  try {
+    const transaction = await TransferService.cancelTransfer(req.user!.id, req.params.id, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    })
+
+    // Update the customer's other sessions and drop the transfer from the admin review queue
+    try {
+      const socketService = getSocketService();
+      socketService.emitTransferUpdate(req.user!.id, transaction, 'CANCELLED');
+      socketService.emitReviewQueueRemoval(transaction.id, 'cancelled');
+    } catch (socketError) {
+      console.warn('⚠️  WebSocket not available, admins will see the cancellation on next refresh:', (socketError as Error).message);
+    }
+
+    const successResponse = createSuccessResponse(
+      { transaction: sanitizeTransactionData(transaction) },
+      'Transfer cancelled and funds released'
+    );
+    res.status(200).json(successResponse.body);
+  } catch (error) {
+    console.error('❌ Cancel transfer error:', error);
+
+    if (error instanceof Error && error.message === 'Transfer not found') {
+      const errorResponse = createErrorResponse(error.message, 404);
+      return res.status(404).json(errorResponse.body);
+    }
+
+    if (error instanceof Error && error.message === 'Transfer is not pending approval') {
+      const errorResponse = createErrorResponse('Only transfers awaiting approval can be cancelled', 400);
+      return res.status(400).json(errorResponse.body);
+    }
+
+    const errorResponse = createErrorResponse('Failed to cancel transfer', 500);
+    res.status(500).json(errorResponse.body);
+  }
+})
+
+// GET /api/user/transfers/:id/history - State changes of one of the user's transfers
+userRouter.get('/transfers/:id/history', async (req, res) => {
+  try {
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: req.params.id, userId: req.user!.id },
+      select: { id: true }
+    })
+
+    if (!transaction) {
+      const errorResponse = createErrorResponse('Transfer not found', 404);
+      return res.status(404).json(errorResponse.body);
+    }
+
+    const history = await TransferLifecycleService.getHistory(transaction.id)
+    const successResponse = createSuccessResponse({
+      history: history.map(({ actorId, ...transition }) => ({
+        ...transition,
+        createdAt: transition.createdAt.toISOString()
+      }))
+    });
+    res.status(200).json(successResponse.body);
+  } catch (error) {
+    console.error('❌ Transfer history error:', error);
+    const errorResponse = createErrorResponse('Failed to fetch transfer history', 500);
+    res.status(500).json(errorResponse.body);
+  }
+})
+
 // GET /api/user/transfer-updates - Get latest transfer status updates (polling fallback)
 userRouter.get('/transfer-updates', async (req, res) => {
   console.log('📡 Transfer updates requested by user:', req.user?.id || 'unknown');
@@ -408,8 +639,9 @@ userRouter.get('/transfer-updates', async (req, res) => {
           id: String(t.id || ''),
           userId: String(t.userId || ''),
           type: String(t.type || ''),
-          amount: Number(t.amount || 0),
+          amount: Money.of(t.amount || '0').toString(),
           status: String(t.status || 'UNKNOWN'),
+          transferState: t.transferState || null,
           description: String(t.description || ''),
           createdAt: t.createdAt ? t.createdAt.toISOString() : new Date().toISOString(),
           updatedAt: t.updatedAt ? t.updatedAt.toISOString() : new Date().toISOString(),
@@ -421,7 +653,7 @@ userRouter.get('/transfer-updates', async (req, res) => {
           id: 'error',
           userId: req.user!.id,
           type: 'ERROR',
-          amount: 0,
+          amount: '0.00',
           status: 'ERROR',
           description: 'Error processing transaction',
           createdAt: new Date().toISOString(),
@@ -0,0 +1,79 @@
+import { Router } from 'express'
+import { prisma } from '../../prisma'
+import { AccountService, openAccountSchema, updateAccountSchema } from '../../services/accountService'
+import { HoldService } from '../../services/holdService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const userAccountsRouter = Router()
+
+const ACCOUNT_ERRORS: Record<string, number> = {
+  'Account not found': 404,
+  'Account limit reached': 400,
+  'Primary account cannot be closed': 400,
+  'Account is already closed': 400,
+  'Account balance must be zero before closing': 400,
+}
+
+const handleAccountError = routeErrorHandler(ACCOUNT_ERRORS, 'Invalid account details')
+
+// GET /api/user/accounts - List the user's accounts
+userAccountsRouter.get('/', async (req, res) => {
+  try {
+    const accounts = await AccountService.listAccounts(req.user!.id)
+    res.json({ accounts: await HoldService.getBalances(accounts) })
+  } catch (error) {
+    console.error('Get accounts error:', error)
+    handleAccountError(res, error, 'Failed to fetch accounts')
+  }
+})
+
+// POST /api/user/accounts - Open a new checking, savings or business account
+userAccountsRouter.post('/', async (req, res) => {
+  try {
+    const data = openAccountSchema.parse(req.body)
+    const account = await AccountService.openAccount(req.user!.id, data)
+    res.status(201).json({ message: 'Account opened successfully', account })
+  } catch (error) {
+    console.error('Open account error:', error)
+    handleAccountError(res, error, 'Failed to open account')
+  }
+})
+
+// GET /api/user/accounts/:id - Get a single account
+userAccountsRouter.get('/:id', async (req, res) => {
+  try {
+    const account = await AccountService.resolveAccount(prisma, req.user!.id, req.params.id)
+    const [withBalances] = await HoldService.getBalances([account])
+    const holds = await prisma.hold.findMany({
+      where: HoldService.activeWhere(account.id),
+      orderBy: { createdAt: 'desc' }
+    })
+    res.json({ account: withBalances, holds })
+  } catch (error) {
+    console.error('Get account error:', error)
+    handleAccountError(res, error, 'Failed to fetch account')
+  }
+})
+
+// PATCH /api/user/accounts/:id - Rename an account
+userAccountsRouter.patch('/:id', async (req, res) => {
+  try {
+    const data = updateAccountSchema.parse(req.body)
+    const account = await AccountService.updateAccount(req.user!.id, req.params.id, data)
+    res.json({ message: 'Account updated successfully', account })
+  } catch (error) {
+    console.error('Update account error:', error)
+    handleAccountError(res, error, 'Failed to update account')
+  }
+})
+
+// POST /api/user/accounts/:id/close - Close an empty account
+userAccountsRouter.post('/:id/close', async (req, res) => {
+  try {
+    const account = await AccountService.closeAccount(req.user!.id, req.params.id)
+    res.json({ message: 'Account closed successfully', account })
+  } catch (error) {
+    console.error('Close account error:', error)
+    handleAccountError(res, error, 'Failed to close account')
+  }
+})
@@ -0,0 +1,137 @@
+import { Router } from 'express'
+import type { BillPaymentStatus } from '@prisma/client'
+import { idempotent } from '../../middleware/idempotency'
+import {
+  BillPayService,
+  addBillerSchema,
+  billPaymentSchema,
+  billerSearchSchema,
+  updateBillerSchema
+} from '../../services/billPayService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const userBillPayRouter = Router()
+
+const BILL_PAY_ERRORS: Record<string, number> = {
+  'Biller not found': 404,
+  'Bill payment not found': 404,
+  'Account not found': 404,
+  'Biller already added': 409,
+  'Account number is not in the format this biller uses': 400,
+  'This biller is no longer available': 400,
+  'Account is not active': 400,
+  'Bills can only be paid from USD accounts': 400,
+  'Send-on date cannot be in the past': 400,
+  'Payments can be scheduled up to a year ahead': 400,
+  'Only scheduled payments can be cancelled': 400,
+  'Insufficient balance': 400,
+  'Insufficient available balance': 400,
+  'Monthly spending limit reached': 400,
+}
+
+const handleBillPayError = routeErrorHandler(BILL_PAY_ERRORS, 'Invalid bill pay details')
+
+// GET /api/user/bill-pay/directory - Search the biller directory
+userBillPayRouter.get('/directory', async (req, res) => {
+  try {
+    const filters = billerSearchSchema.parse(req.query)
+    const billers = await BillPayService.searchDirectory(filters)
+    res.json({ billers })
+  } catch (error) {
+    console.error('Search biller directory error:', error)
+    handleBillPayError(res, error, 'Failed to search billers')
+  }
+})
+
+// GET /api/user/bill-pay/billers - List the user's billers
+userBillPayRouter.get('/billers', async (req, res) => {
+  try {
+    const billers = await BillPayService.listBillers(req.user!.id)
+    res.json({ billers })
+  } catch (error) {
+    console.error('Get billers error:', error)
+    handleBillPayError(res, error, 'Failed to fetch billers')
+  }
+})
+
+// POST /api/user/bill-pay/billers - Add a directory biller with the user's account number there
+userBillPayRouter.post('/billers', async (req, res) => {
+  try {
+    const data = addBillerSchema.parse(req.body)
+    const biller = await BillPayService.addBiller(req.user!.id, data, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    })
+    res.status(201).json({ message: 'Biller added successfully', biller })
+  } catch (error) {
+    console.error('Add biller error:', error)
+    handleBillPayError(res, error, 'Failed to add biller')
+  }
+})
+
+// PATCH /api/user/bill-pay/billers/:id - Rename a biller
+userBillPayRouter.patch('/billers/:id', async (req, res) => {
+  try {
+    const changes = updateBillerSchema.parse(req.body)
+    const biller = await BillPayService.updateBiller(req.user!.id, req.params.id, changes)
+    res.json({ message: 'Biller updated successfully', biller })
+  } catch (error) {
+    console.error('Update biller error:', error)
+    handleBillPayError(res, error, 'Failed to update biller')
+  }
+})
+
+// DELETE /api/user/bill-pay/billers/:id - Remove a biller and cancel its scheduled payments
+userBillPayRouter.delete('/billers/:id', async (req, res) => {
+  try {
+    const { cancelledPayments } = await BillPayService.removeBiller(req.user!.id, req.params.id, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    })
+    res.json({ message: 'Biller removed successfully', cancelledPayments })
+  } catch (error) {
+    console.error('Remove biller error:', error)
+    handleBillPayError(res, error, 'Failed to remove biller')
+  }
+})
+
+// GET /api/user/bill-pay/payments - List the user's bill payments, optionally by status
+userBillPayRouter.get('/payments', async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined
+    if (status && !['SCHEDULED', 'SENT', 'FAILED', 'CANCELLED'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid payment status' })
+    }
+    const payments = await BillPayService.listPayments(req.user!.id, status as BillPaymentStatus | undefined)
+    res.json({ payments })
+  } catch (error) {
+    console.error('Get bill payments error:', error)
+    handleBillPayError(res, error, 'Failed to fetch bill payments')
+  }
+})
+
+// POST /api/user/bill-pay/payments - Pay a bill now or schedule it for a send-on date
+userBillPayRouter.post('/payments', idempotent, async (req, res) => {
+  try {
+    const data = billPaymentSchema.parse(req.body)
+    const { payment, transaction } = await BillPayService.schedulePayment(req.user!.id, data)
+    res.status(201).json({
+      message: transaction ? 'Bill payment sent' : 'Bill payment scheduled',
+      payment
+    })
+  } catch (error) {
+    console.error('Create bill payment error:', error)
+    handleBillPayError(res, error, 'Failed to create bill payment')
+  }
+})
+
+// POST /api/user/bill-pay/payments/:id/cancel - Cancel a payment that has not been sent
+userBillPayRouter.post('/payments/:id/cancel', async (req, res) => {
+  try {
+    const payment = await BillPayService.cancelPayment(req.user!.id, req.params.id)
+    res.json({ message: 'Bill payment cancelled', payment })
+  } catch (error) {
+    console.error('Cancel bill payment error:', error)
+    handleBillPayError(res, error, 'Failed to cancel bill payment')
+  }
+})
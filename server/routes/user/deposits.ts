@@ -0,0 +1,114 @@
+import { Router } from 'express'
+import { idempotent } from '../../middleware/idempotency'
+import {
+  checkImageUpload,
+  cleanupUploadedFiles,
+  deleteCheckImages,
+  hashUploadedFile,
+  moveFilesToCheckDirectory,
+  validateCheckImages
+} from '../../middleware/uploadMiddleware'
+import { DepositService, checkDepositSchema, depositSchema } from '../../services/depositService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const userDepositsRouter = Router()
+
+const DEPOSIT_ERRORS: Record<string, number> = {
+  'User not found': 404,
+  'Account not found': 404,
+  'Payee not found': 404,
+  'Account is not active': 400,
+  'Deposits can only be made to USD accounts': 400,
+  'This bank account cannot be used for deposits': 400,
+  'This check has already been deposited': 409,
+}
+
+const handleDepositError = routeErrorHandler(DEPOSIT_ERRORS, 'Invalid deposit details')
+
+// GET /api/user/deposits - List the user's recent deposits with their availability
+userDepositsRouter.get('/', async (req, res) => {
+  try {
+    const deposits = await DepositService.list(req.user!.id)
+    res.json({ deposits })
+  } catch (error) {
+    console.error('Get deposits error:', error)
+    handleDepositError(res, error, 'Failed to fetch deposits')
+  }
+})
+
+// GET /api/user/deposits/limits - Daily deposit limit for the user's tier and what is left today
+userDepositsRouter.get('/limits', async (req, res) => {
+  try {
+    const limits = await DepositService.getLimits(req.user!.id)
+    res.json({
+      limits: {
+        amount: limits.amount.toString(),
+        count: limits.count,
+        usedAmount: limits.usedAmount.toString(),
+        usedCount: limits.usedCount,
+        remaining: limits.remaining.toString()
+      }
+    })
+  } catch (error) {
+    console.error('Get deposit limits error:', error)
+    handleDepositError(res, error, 'Failed to fetch deposit limits')
+  }
+})
+
+// POST /api/user/deposits - Deposit from a linked bank, by wire or with cash at a branch
+userDepositsRouter.post('/', idempotent, async (req, res) => {
+  try {
+    const data = depositSchema.parse(req.body)
+
+    const violation = await DepositService.checkLimits(req.user!.id, data.amount)
+    if (violation) {
+      return res.status(400).json({ message: violation.message, code: violation.code })
+    }
+
+    const deposit = await DepositService.create(req.user!.id, data)
+    res.status(201).json({
+      message: deposit.status === 'AVAILABLE' ? 'Deposit received' : 'Deposit received and clearing',
+      deposit
+    })
+  } catch (error) {
+    console.error('Create deposit error:', error)
+    handleDepositError(res, error, 'Failed to create deposit')
+  }
+})
+
+// POST /api/user/deposits/check - Deposit a check from photos of its front and back
+// Not idempotent by key: the body is multipart, and a resubmitted check is caught by its image hashes
+userDepositsRouter.post('/check', checkImageUpload, validateCheckImages, async (req, res) => {
+  const files = req.files as { front: Express.Multer.File[]; back: Express.Multer.File[] }
+  const [front, back] = [files.front[0], files.back[0]]
+  let storedImages: string[] = []
+
+  try {
+    const data = checkDepositSchema.parse(req.body)
+
+    const violation = await DepositService.checkLimits(req.user!.id, data.amount)
+    if (violation) {
+      cleanupUploadedFiles([front, back])
+      return res.status(400).json({ message: violation.message, code: violation.code })
+    }
+
+    const [frontHash, backHash] = [hashUploadedFile(front), hashUploadedFile(back)]
+    storedImages = moveFilesToCheckDirectory([front, back])
+
+    const deposit = await DepositService.submitCheck(req.user!.id, data, {
+      frontImage: storedImages[0],
+      backImage: storedImages[1],
+      frontHash,
+      backHash
+    })
+    res.status(201).json({ message: 'Check received and waiting for review', deposit })
+  } catch (error) {
+    console.error('Create check deposit error:', error)
+    if (storedImages.length > 0) {
+      deleteCheckImages(storedImages)
+    } else {
+      cleanupUploadedFiles([front, back])
+    }
+    handleDepositError(res, error, 'Failed to deposit check')
+  }
+})
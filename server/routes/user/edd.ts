@@ -0,0 +1,34 @@
+import { Router } from 'express'
+import { PepService, eddSubmissionSchema } from '../../services/pepService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const userEddRouter = Router()
+
+const EDD_ERRORS: Record<string, number> = {
+  'No due diligence request is awaiting documents': 409,
+  'Source-of-wealth document not found': 400,
+}
+
+const handleEddError = routeErrorHandler(EDD_ERRORS, 'Invalid submission')
+
+// GET /api/user/edd - The user's open due diligence request, if any, and their source-of-wealth documents
+userEddRouter.get('/', async (req, res) => {
+  try {
+    res.json(await PepService.getCustomerCase(req.user!.id))
+  } catch (error) {
+    console.error('Get due diligence request error:', error)
+    handleEddError(res, error, 'Failed to fetch due diligence request')
+  }
+})
+
+// POST /api/user/edd/submit - Send the source of wealth and supporting documents for review
+userEddRouter.post('/submit', async (req, res) => {
+  try {
+    const data = eddSubmissionSchema.parse(req.body)
+    const result = await PepService.submitDocuments(req.user!.id, data)
+    res.json({ message: 'Documents submitted for review', ...result })
+  } catch (error) {
+    console.error('Submit due diligence documents error:', error)
+    handleEddError(res, error, 'Failed to submit documents')
+  }
+})
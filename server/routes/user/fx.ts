@@ -0,0 +1,46 @@
+import { Router } from 'express'
+import { FxService, fxQuoteRequestSchema } from '../../services/fxService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const userFxRouter = Router()
+
+const FX_ERRORS: Record<string, number> = {
+  'Account not found': 404,
+  'Account is not active': 400,
+  'Cannot transfer to the same account': 400,
+  'Both accounts are in the same currency': 400,
+  'Invalid amount': 400,
+  'Exchange rate not available': 422,
+}
+
+const handleFxError = routeErrorHandler(FX_ERRORS, 'Invalid quote request')
+
+// GET /api/user/fx/rates - Current mid-market rates
+userFxRouter.get('/rates', async (req, res) => {
+  try {
+    const rates = await FxService.listRates()
+    res.json({
+      rates: rates.map(rate => ({
+        baseCurrency: rate.baseCurrency,
+        quoteCurrency: rate.quoteCurrency,
+        rate: rate.rate.toFixed(8),
+        updatedAt: rate.updatedAt
+      }))
+    })
+  } catch (error) {
+    console.error('Get FX rates error:', error)
+    handleFxError(res, error, 'Failed to fetch exchange rates')
+  }
+})
+
+// POST /api/user/fx/quotes - Lock a rate for a transfer between two of the user's accounts
+userFxRouter.post('/quotes', async (req, res) => {
+  try {
+    const request = fxQuoteRequestSchema.parse(req.body)
+    const quote = await FxService.createQuote(req.user!.id, request)
+    res.status(201).json({ quote: FxService.present(quote) })
+  } catch (error) {
+    console.error('Create FX quote error:', error)
+    handleFxError(res, error, 'Failed to create quote')
+  }
+})
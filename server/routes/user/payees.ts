@@ -0,0 +1,76 @@
+import { Router } from 'express'
+import { PayeeService, payeeSchema, updatePayeeSchema } from '../../services/payeeService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const userPayeesRouter = Router()
+
+const PAYEE_ERRORS: Record<string, number> = {
+  'Payee not found': 404,
+  'Payee already exists': 409,
+  'Routing number not found in the routing directory': 400,
+}
+
+const handlePayeeError = routeErrorHandler(PAYEE_ERRORS, 'Invalid payee details')
+
+// GET /api/user/payees - List the user's saved payees
+userPayeesRouter.get('/', async (req, res) => {
+  try {
+    const payees = await PayeeService.list(req.user!.id)
+    res.json({ payees })
+  } catch (error) {
+    console.error('Get payees error:', error)
+    handlePayeeError(res, error, 'Failed to fetch payees')
+  }
+})
+
+// POST /api/user/payees - Save an external bank account to send money to
+userPayeesRouter.post('/', async (req, res) => {
+  try {
+    const data = payeeSchema.parse(req.body)
+    const payee = await PayeeService.create(req.user!.id, data, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    })
+    res.status(201).json({ message: 'Payee added successfully', payee: await PayeeService.present(payee) })
+  } catch (error) {
+    console.error('Create payee error:', error)
+    handlePayeeError(res, error, 'Failed to add payee')
+  }
+})
+
+// GET /api/user/payees/:id - Get a single payee
+userPayeesRouter.get('/:id', async (req, res) => {
+  try {
+    const payee = await PayeeService.get(req.user!.id, req.params.id)
+    res.json({ payee: await PayeeService.present(payee) })
+  } catch (error) {
+    console.error('Get payee error:', error)
+    handlePayeeError(res, error, 'Failed to fetch payee')
+  }
+})
+
+// PATCH /api/user/payees/:id - Rename a payee
+userPayeesRouter.patch('/:id', async (req, res) => {
+  try {
+    const changes = updatePayeeSchema.parse(req.body)
+    const payee = await PayeeService.update(req.user!.id, req.params.id, changes)
+    res.json({ message: 'Payee updated successfully', payee: await PayeeService.present(payee) })
+  } catch (error) {
+    console.error('Update payee error:', error)
+    handlePayeeError(res, error, 'Failed to update payee')
+  }
+})
+
+// DELETE /api/user/payees/:id - Remove a payee
+userPayeesRouter.delete('/:id', async (req, res) => {
+  try {
+    await PayeeService.remove(req.user!.id, req.params.id, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    })
+    res.json({ message: 'Payee removed successfully' })
+  } catch (error) {
+    console.error('Remove payee error:', error)
+    handlePayeeError(res, error, 'Failed to remove payee')
+  }
+})
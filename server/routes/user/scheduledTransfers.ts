@@ -0,0 +1,118 @@
+import { Router } from 'express'
+import { idempotent } from '../../middleware/idempotency'
+import { transferRequestSchema } from '../../services/transferValidationService'
+import { PayeeService } from '../../services/payeeService'
+import {
+  ScheduledTransferService,
+  scheduledTransferSchema,
+  updateScheduledTransferSchema
+} from '../../services/scheduledTransferService'
+import { routeErrorHandler } from '../../utils/routeErrors'
+
+export const userScheduledTransfersRouter = Router()
+
+const SCHEDULE_ERRORS: Record<string, number> = {
+  'Scheduled transfer not found': 404,
+  'Account not found': 404,
+  'Payee not found': 404,
+  'Account is not active': 400,
+  'Recurring transfers are turned off in your banking settings': 400,
+  'Start date cannot be in the past': 400,
+  'End date must be on or after the start date': 400,
+  'No transfer would run before the end date': 400,
+  'Account holder name is required for external bank transfers': 400,
+  'International transfers cannot be scheduled': 400,
+  'Transfers between currencies cannot be scheduled': 400,
+  'Routing number not found in the routing directory': 400,
+  'Scheduled transfer can no longer be changed': 400,
+  'Scheduled transfer is not active': 400,
+  'Scheduled transfer is not paused': 400,
+  'Scheduled transfer is already finished': 400,
+}
+
+const handleScheduleError = routeErrorHandler(SCHEDULE_ERRORS, 'Invalid scheduled transfer details')
+
+// GET /api/user/scheduled-transfers - List the user's scheduled transfers
+userScheduledTransfersRouter.get('/', async (req, res) => {
+  try {
+    const scheduledTransfers = await ScheduledTransferService.list(req.user!.id)
+    res.json({ scheduledTransfers })
+  } catch (error) {
+    console.error('Get scheduled transfers error:', error)
+    handleScheduleError(res, error, 'Failed to fetch scheduled transfers')
+  }
+})
+
+// POST /api/user/scheduled-transfers - Schedule a one-off or recurring transfer
+userScheduledTransfersRouter.post('/', idempotent, async (req, res) => {
+  try {
+    // A saved payee supplies the external account details
+    const payee = req.body.payeeId ? await PayeeService.get(req.user!.id, String(req.body.payeeId)) : null
+    const body = payee ? { ...req.body, ...PayeeService.transferDetails(payee) } : req.body
+
+    const transfer = transferRequestSchema.parse(body)
+    const options = scheduledTransferSchema.parse(body)
+    const scheduledTransfer = await ScheduledTransferService.create(req.user!.id, transfer, options)
+    res.status(201).json({ message: 'Transfer scheduled successfully', scheduledTransfer })
+  } catch (error) {
+    console.error('Create scheduled transfer error:', error)
+    handleScheduleError(res, error, 'Failed to schedule transfer')
+  }
+})
+
+// GET /api/user/scheduled-transfers/:id - Get a schedule with the transfers it has made
+userScheduledTransfersRouter.get('/:id', async (req, res) => {
+  try {
+    const scheduledTransfer = await ScheduledTransferService.get(req.user!.id, req.params.id)
+    const transactions = await ScheduledTransferService.getTransactions(req.user!.id, scheduledTransfer.id)
+    res.json({ scheduledTransfer, transactions })
+  } catch (error) {
+    console.error('Get scheduled transfer error:', error)
+    handleScheduleError(res, error, 'Failed to fetch scheduled transfer')
+  }
+})
+
+// PATCH /api/user/scheduled-transfers/:id - Change the amount, end or insufficient funds handling
+userScheduledTransfersRouter.patch('/:id', async (req, res) => {
+  try {
+    const changes = updateScheduledTransferSchema.parse(req.body)
+    const scheduledTransfer = await ScheduledTransferService.update(req.user!.id, req.params.id, changes)
+    res.json({ message: 'Scheduled transfer updated successfully', scheduledTransfer })
+  } catch (error) {
+    console.error('Update scheduled transfer error:', error)
+    handleScheduleError(res, error, 'Failed to update scheduled transfer')
+  }
+})
+
+// POST /api/user/scheduled-transfers/:id/pause - Stop running a schedule for now
+userScheduledTransfersRouter.post('/:id/pause', async (req, res) => {
+  try {
+    const scheduledTransfer = await ScheduledTransferService.pause(req.user!.id, req.params.id)
+    res.json({ message: 'Scheduled transfer paused', scheduledTransfer })
+  } catch (error) {
+    console.error('Pause scheduled transfer error:', error)
+    handleScheduleError(res, error, 'Failed to pause scheduled transfer')
+  }
+})
+
+// POST /api/user/scheduled-transfers/:id/resume - Resume a paused schedule
+userScheduledTransfersRouter.post('/:id/resume', async (req, res) => {
+  try {
+    const scheduledTransfer = await ScheduledTransferService.resume(req.user!.id, req.params.id)
+    res.json({ message: 'Scheduled transfer resumed', scheduledTransfer })
+  } catch (error) {
+    console.error('Resume scheduled transfer error:', error)
+    handleScheduleError(res, error, 'Failed to resume scheduled transfer')
+  }
+})
+
+// DELETE /api/user/scheduled-transfers/:id - Cancel a schedule
+userScheduledTransfersRouter.delete('/:id', async (req, res) => {
+  try {
+    const scheduledTransfer = await ScheduledTransferService.cancel(req.user!.id, req.params.id)
+    res.json({ message: 'Scheduled transfer cancelled', scheduledTransfer })
+  } catch (error) {
+    console.error('Cancel scheduled transfer error:', error)
+    handleScheduleError(res, error, 'Failed to cancel scheduled transfer')
+  }
+})
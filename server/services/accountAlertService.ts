@@ -0,0 +1,81 @@
+import type { Account, AccountAlert, AccountAlertType, Prisma } from '@prisma/client'
+import { prisma } from '../prisma'
+import { DEFAULT_CURRENCY, Money } from '../../shared/money'
+
+type AlertClient = Prisma.TransactionClient | typeof prisma
+
+// Schema defaults, used for users who never saved their banking settings
+const DEFAULT_LOW_BALANCE_THRESHOLD = '100'
+
+// Alerts delivered per run of the alert job
+const DELIVERY_BATCH_SIZE = 100
+
+export class AccountAlertService {
+  /**
+   * Record an alert for the user. Written in the caller's transaction so it is
+   * only delivered if the posting that raised it commits.
+   */
+  static async raise(client: AlertClient, alert: {
+    userId: string
+    accountId?: string
+    type: AccountAlertType
+    message: string
+    transactionId?: string
+    metadata?: Prisma.InputJsonValue
+  }) {
+    return client.accountAlert.create({ data: alert })
+  }
+
+  /**
+   * Raise a low-balance alert when a posting takes a USD account from at or
+   * above the user's threshold to below it. Balances that were already low
+   * do not alert again until they recover.
+   */
+  static async checkLowBalance(tx: Prisma.TransactionClient, account: Account, previous: Money, transactionId?: string) {
+    const current = Money.of(account.balance)
+    if (account.currency !== DEFAULT_CURRENCY || !current.lt(previous)) return null
+
+    const settings = await tx.bankingSettings.findUnique({
+      where: { userId: account.userId },
+      select: { lowBalanceAlerts: true, lowBalanceThreshold: true }
+    })
+    if (settings && !settings.lowBalanceAlerts) return null
+
+    const threshold = Money.of(settings?.lowBalanceThreshold || DEFAULT_LOW_BALANCE_THRESHOLD)
+    if (!current.lt(threshold) || previous.lt(threshold)) return null
+
+    return AccountAlertService.raise(tx, {
+      userId: account.userId,
+      accountId: account.id,
+      type: 'LOW_BALANCE',
+      message: `Your ${account.type.toLowerCase()} account balance is ${current.format()}, below your ${threshold.format()} alert threshold`,
+      transactionId,
+      metadata: { balance: current.toString(), threshold: threshold.toString() }
+    })
+  }
+
+  /**
+   * Mark the oldest undelivered alerts delivered and return them for sending.
+   * The guarded update keeps two runs from sending the same alert.
+   */
+  static async claimPending() {
+    const pending = await prisma.accountAlert.findMany({
+      where: { deliveredAt: null },
+      orderBy: { createdAt: 'asc' },
+      take: DELIVERY_BATCH_SIZE
+    })
+
+    const claimed: AccountAlert[] = []
+    for (const alert of pending) {
+      const deliveredAt = new Date()
+      const { count } = await prisma.accountAlert.updateMany({
+        where: { id: alert.id, deliveredAt: null },
+        data: { deliveredAt }
+      })
+      if (count === 1) {
+        claimed.push({ ...alert, deliveredAt })
+      }
+    }
+    return claimed
+  }
+}
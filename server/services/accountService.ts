@@ -0,0 +1,433 @@
+import { Prisma } from '@prisma/client'
+import type { Account, AccountStatus, AccountType } from '@prisma/client'
+import { prisma } from '../prisma'
+import { LedgerService } from './ledgerService'
+import { DEFAULT_CURRENCY, Money, SUPPORTED_CURRENCIES, type MoneyInput } from '../../shared/money'
+import { FxService } from './fxService'
+import { z } from 'zod'
+
+type AccountClient = Prisma.TransactionClient | typeof prisma
+
+// Validation schemas
+export const openAccountSchema = z.object({
+  type: z.enum(['CHECKING', 'SAVINGS', 'BUSINESS']),
+  nickname: z.string().trim().max(50).optional(),
+  currency: z.enum(SUPPORTED_CURRENCIES).default(DEFAULT_CURRENCY),
+})
+
+export const updateAccountSchema = z.object({
+  nickname: z.string().trim().max(50).nullable(),
+})
+
+export const accountStatusSchema = z.object({
+  status: z.enum(['ACTIVE', 'FROZEN', 'CLOSED']),
+})
+
+const MAX_ACCOUNTS_PER_USER = 10
+
+export class AccountService {
+  /**
+   * All of a user's accounts, primary first
+   */
+  static async listAccounts(userId: string, client: AccountClient = prisma) {
+    await AccountService.getPrimaryAccount(client, userId)
+
+    return client.account.findMany({
+      where: { userId },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }]
+    })
+  }
+
+  /**
+   * The user's primary account. Users created before multi-account support get
+   * one opened from their legacy accountNumber, accountType and balance.
+   */
+  static async getPrimaryAccount(client: AccountClient, userId: string) {
+    const primary = await client.account.findFirst({ where: { userId, isPrimary: true } })
+    if (primary) return primary
+
+    const user = await client.user.findUnique({
+      where: { id: userId },
+      select: { id: true, accountNumber: true, accountType: true, balance: true }
+    })
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    return client.account.upsert({
+      where: { accountNumber: user.accountNumber },
+      update: {},
+      create: {
+        userId,
+        accountNumber: user.accountNumber,
+        type: user.accountType,
+        balance: Money.of(user.balance).toString(),
+        isPrimary: true
+      }
+    })
+  }
+
+  /**
+   * Look up one of the user's accounts, falling back to the primary account
+   */
+  static async resolveAccount(client: AccountClient, userId: string, accountId?: string | null) {
+    if (!accountId) {
+      return AccountService.getPrimaryAccount(client, userId)
+    }
+
+    const account = await client.account.findFirst({ where: { id: accountId, userId } })
+    if (!account) {
+      throw new Error('Account not found')
+    }
+
+    return account
+  }
+
+  /**
+   * Money can only leave or enter an account that is open and not frozen
+   */
+  static assertActive(account: Pick<Account, 'status'>) {
+    if (account.status !== 'ACTIVE') {
+      throw new Error('Account is not active')
+    }
+  }
+
+  /**
+   * Transactions belonging to an account. Legacy transactions without an
+   * account are shown on the primary account.
+   */
+  static transactionScope(account: Pick<Account, 'id' | 'userId' | 'isPrimary'>): Prisma.TransactionWhereInput {
+    return account.isPrimary
+      ? { userId: account.userId, OR: [{ accountId: account.id }, { accountId: null }] }
+      : { userId: account.userId, accountId: account.id }
+  }
+
+  /**
+   * Open an additional account for a user
+   */
+  static async openAccount(userId: string, data: { type: AccountType; nickname?: string; currency?: string }) {
+    await AccountService.getPrimaryAccount(prisma, userId)
+
+    const openAccounts = await prisma.account.count({
+      where: { userId, status: { not: 'CLOSED' } }
+    })
+
+    if (openAccounts >= MAX_ACCOUNTS_PER_USER) {
+      throw new Error('Account limit reached')
+    }
+
+    return prisma.account.create({
+      data: {
+        userId,
+        type: data.type,
+        nickname: data.nickname || null,
+        currency: data.currency || DEFAULT_CURRENCY
+      }
+    })
+  }
+
+  /**
+   * Rename an account
+   */
+  static async updateAccount(userId: string, accountId: string, data: { nickname: string | null }) {
+    const account = await AccountService.resolveAccount(prisma, userId, accountId)
+
+    return prisma.account.update({
+      where: { id: account.id },
+      data: { nickname: data.nickname || null }
+    })
+  }
+
+  /**
+   * Close an empty, non-primary account
+   */
+  static async closeAccount(userId: string, accountId: string) {
+    const account = await AccountService.resolveAccount(prisma, userId, accountId)
+
+    if (account.isPrimary) {
+      throw new Error('Primary account cannot be closed')
+    }
+    if (account.status === 'CLOSED') {
+      throw new Error('Account is already closed')
+    }
+    if (!Money.of(account.balance).isZero()) {
+      throw new Error('Account balance must be zero before closing')
+    }
+
+    return prisma.account.update({
+      where: { id: account.id },
+      data: { status: 'CLOSED', closedAt: new Date() }
+    })
+  }
+
+  /**
+   * Admin status change (freeze, unfreeze, close) with an audit log entry
+   */
+  static async setAccountStatus(accountId: string, status: AccountStatus, adminId: string) {
+    const account = await prisma.account.findUnique({ where: { id: accountId } })
+
+    if (!account) {
+      throw new Error('Account not found')
+    }
+    if (status === 'CLOSED' && !Money.of(account.balance).isZero()) {
+      throw new Error('Account balance must be zero before closing')
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.account.update({
+        where: { id: accountId },
+        data: { status, closedAt: status === 'CLOSED' ? new Date() : null }
+      }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'ACCOUNT_STATUS_CHANGED',
+          targetUserId: account.userId,
+          description: `Account ${account.accountNumber.slice(-4)} status changed from ${account.status} to ${status}`
+        }
+      })
+    ])
+
+    return updated
+  }
+
+  /**
+   * Move money between two accounts owned by the same user. The destination is
+   * either an explicit account or the user's first open account of a given type
+   * in the same currency. Accounts in different currencies need a locked FX
+   * quote for the amount.
+   */
+  static async transferBetweenAccounts(userId: string, transferData: {
+    amount: MoneyInput
+    fromAccountId?: string | null
+    toAccountId?: string | null
+    toAccountType?: AccountType
+    description?: string
+    scheduledTransferId?: string
+    fxQuoteId?: string
+  }) {
+    const amount = Money.of(transferData.amount)
+
+    return prisma.$transaction(async (tx) => {
+      const from = await AccountService.resolveAccount(tx, userId, transferData.fromAccountId)
+
+      let to: Account | null = null
+      if (transferData.toAccountId) {
+        to = await AccountService.resolveAccount(tx, userId, transferData.toAccountId)
+      } else if (transferData.toAccountType) {
+        to = await tx.account.findFirst({
+          where: { userId, type: transferData.toAccountType, currency: from.currency, status: 'ACTIVE', id: { not: from.id } },
+          orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }]
+        })
+      }
+
+      if (!to) {
+        throw new Error('Destination account not found')
+      }
+      if (to.id === from.id) {
+        throw new Error('Cannot transfer to the same account')
+      }
+
+      AccountService.assertActive(from)
+      AccountService.assertActive(to)
+
+      const reference = `XFER-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+      const description = transferData.description?.trim() ||
+        `Transfer from ${AccountService.label(from)} to ${AccountService.label(to)}`
+
+      if (from.currency !== to.currency) {
+        if (!transferData.fxQuoteId) {
+          throw new Error('A currency conversion quote is required')
+        }
+        return AccountService.convertBetweenAccounts(tx, userId, {
+          from,
+          to,
+          amount,
+          fxQuoteId: transferData.fxQuoteId,
+          reference,
+          description,
+          scheduledTransferId: transferData.scheduledTransferId
+        })
+      }
+
+      const debit = await tx.transaction.create({
+        data: {
+          userId,
+          accountId: from.id,
+          type: 'DEBIT',
+          amount: amount.toString(),
+          currency: from.currency,
+          description,
+          reference,
+          status: 'COMPLETED',
+          metadata: {
+            transferType: 'own_account',
+            recipientInfo: AccountService.label(to),
+            counterpartyAccountId: to.id,
+            status: 'completed',
+            submittedAt: new Date().toISOString(),
+            requiresApproval: false,
+            scheduledTransferId: transferData.scheduledTransferId
+          }
+        }
+      })
+
+      const credit = await tx.transaction.create({
+        data: {
+          userId,
+          accountId: to.id,
+          type: 'CREDIT',
+          amount: amount.toString(),
+          currency: to.currency,
+          description,
+          reference,
+          status: 'COMPLETED',
+          linkedTransactionId: debit.id,
+          metadata: {
+            transferType: 'own_account',
+            senderInfo: AccountService.label(from),
+            counterpartyAccountId: from.id,
+            status: 'completed'
+          }
+        }
+      })
+
+      const linkedDebit = await tx.transaction.update({
+        where: { id: debit.id },
+        data: { linkedTransactionId: credit.id }
+      })
+
+      const fromLedger = await LedgerService.getAccountLedger(tx, from.id)
+      const toLedger = await LedgerService.getAccountLedger(tx, to.id)
+      await LedgerService.postTransfer(tx, {
+        debitAccountId: fromLedger.id,
+        creditAccountId: toLedger.id,
+        amount,
+        description,
+        reference,
+        transactionId: debit.id,
+        createdById: userId
+      })
+
+      return { debit: linkedDebit, credit, from, to }
+    })
+  }
+
+  /**
+   * Currency conversion leg of transferBetweenAccounts: the quote's amounts are
+   * used as locked, and the rate, spread and fee are recorded on both sides
+   */
+  private static async convertBetweenAccounts(tx: Prisma.TransactionClient, userId: string, conversion: {
+    from: Account
+    to: Account
+    amount: Money
+    fxQuoteId: string
+    reference: string
+    description: string
+    scheduledTransferId?: string
+  }) {
+    const { from, to, reference, description } = conversion
+    const quote = await FxService.claimQuote(tx, userId, conversion.fxQuoteId, {
+      fromAccountId: from.id,
+      toAccountId: to.id,
+      amount: conversion.amount
+    })
+
+    const sourceAmount = Money.of(quote.sourceAmount)
+    const debited = sourceAmount.add(quote.fee)
+    const fx = {
+      fxQuoteId: quote.id,
+      fxRate: quote.rate,
+      fxSpread: quote.spreadAmount,
+      fxFee: quote.fee
+    }
+    // Both amounts travel with each side so either can be shown with its counterpart
+    const conversionDetails = {
+      fromCurrency: quote.fromCurrency,
+      toCurrency: quote.toCurrency,
+      sourceAmount: sourceAmount.toString(),
+      convertedAmount: Money.of(quote.convertedAmount).toString(),
+      rate: quote.rate.toFixed(8)
+    }
+
+    const debit = await tx.transaction.create({
+      data: {
+        userId,
+        accountId: from.id,
+        type: 'DEBIT',
+        amount: debited.toString(),
+        currency: from.currency,
+        description,
+        reference,
+        status: 'COMPLETED',
+        ...fx,
+        metadata: {
+          transferType: 'own_account',
+          recipientInfo: AccountService.label(to),
+          counterpartyAccountId: to.id,
+          conversion: conversionDetails,
+          status: 'completed',
+          submittedAt: new Date().toISOString(),
+          requiresApproval: false,
+          scheduledTransferId: conversion.scheduledTransferId
+        }
+      }
+    })
+
+    const credit = await tx.transaction.create({
+      data: {
+        userId,
+        accountId: to.id,
+        type: 'CREDIT',
+        amount: Money.of(quote.convertedAmount).toString(),
+        currency: to.currency,
+        description,
+        reference,
+        status: 'COMPLETED',
+        linkedTransactionId: debit.id,
+        ...fx,
+        metadata: {
+          transferType: 'own_account',
+          senderInfo: AccountService.label(from),
+          counterpartyAccountId: from.id,
+          conversion: conversionDetails,
+          status: 'completed'
+        }
+      }
+    })
+
+    const linkedDebit = await tx.transaction.update({
+      where: { id: debit.id },
+      data: { linkedTransactionId: credit.id }
+    })
+
+    const fromLedger = await LedgerService.getAccountLedger(tx, from.id)
+    const toLedger = await LedgerService.getAccountLedger(tx, to.id)
+    await LedgerService.postConversion(tx, {
+      fromAccountId: fromLedger.id,
+      toAccountId: toLedger.id,
+      fromCurrency: quote.fromCurrency,
+      toCurrency: quote.toCurrency,
+      sourceAmount,
+      fee: quote.fee,
+      convertedAmount: quote.convertedAmount,
+      description,
+      reference,
+      transactionId: debit.id,
+      createdById: userId,
+      metadata: { fxQuoteId: quote.id, rate: conversionDetails.rate, midRate: quote.midRate.toFixed(8) }
+    })
+
+    return { debit: linkedDebit, credit, from, to }
+  }
+
+  /**
+   * Short human readable name, e.g. "Savings ••4821" or the user's nickname
+   */
+  static label(account: Pick<Account, 'type' | 'accountNumber' | 'nickname'>) {
+    if (account.nickname) return account.nickname
+    const type = account.type.charAt(0) + account.type.slice(1).toLowerCase()
+    return `${type} ••${account.accountNumber.slice(-4)}`
+  }
+}
@@ -0,0 +1,326 @@
+import type { AchEntry, AchReturn, AchReturnSource, Deposit, Prisma, Transaction } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { Money } from '../../shared/money'
+import { ACH_RETURN_CODES, describeAchReturnCode, isAchReturnCode } from '../../shared/achReturnCodes'
+import { AccountService } from './accountService'
+import { LedgerService } from './ledgerService'
+import { PayeeService } from './payeeService'
+import { TransferLifecycleService } from './transferLifecycleService'
+
+// Charged to the user for each returned item; 0 turns the fee off
+const RETURN_FEE = process.env.ACH_RETURN_FEE || '0'
+
+// Returns inside the window count towards raising the user's risk level
+const RISK_WINDOW_DAYS = parseInt(process.env.ACH_RETURN_RISK_WINDOW_DAYS || '90', 10)
+const RISK_RETURN_THRESHOLD = parseInt(process.env.ACH_RETURN_RISK_THRESHOLD || '2', 10)
+
+const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH']
+
+// Deposits the paying bank can still pull back after we credited them
+const RETURNABLE_DEPOSIT_METHODS: Deposit['method'][] = ['LINKED_BANK', 'CHECK']
+
+// Validation schemas
+// A return names either the trace number of an outgoing transfer or a deposit
+export const achReturnSchema = z.object({
+  traceNumber: z.string().trim().regex(/^\d{15}$/, 'Trace number must be 15 digits').optional(),
+  depositId: z.string().uuid().optional(),
+  returnCode: z.string().trim().toUpperCase().regex(/^R\d{2}$/, 'Return code must look like R01'),
+  returnReason: z.string().trim().max(200).optional(),
+  // Leave unset to follow ACH_RETURN_FEE; false waives the fee
+  chargeFee: z.boolean().optional(),
+  returnedAt: z.coerce.date().optional(),
+}).refine(data => Boolean(data.traceNumber) !== Boolean(data.depositId), {
+  message: 'Give either the trace number of a transfer or a deposit ID',
+  path: ['traceNumber']
+})
+
+export type AchReturnInput = z.infer<typeof achReturnSchema>
+
+interface ReturnContext {
+  source: AchReturnSource
+  enteredById?: string
+}
+
+export interface AchReturnResult {
+  kind: 'TRANSFER' | 'DEPOSIT'
+  achReturn: AchReturn
+  transaction: Transaction
+  deposit?: Deposit
+  reason: string
+}
+
+export class AchReturnService {
+  /**
+   * Reverse a transfer or deposit the other bank has returned
+   */
+  static async applyReturn(input: AchReturnInput, context: ReturnContext): Promise<AchReturnResult> {
+    return prisma.$transaction(async (tx) => {
+      if (input.traceNumber) {
+        const entry = await tx.achEntry.findUnique({
+          where: { traceNumber: input.traceNumber },
+          include: { transaction: true }
+        })
+        if (!entry) throw new Error('ACH entry not found')
+        return AchReturnService.returnTransfer(tx, entry, input, context)
+      }
+
+      const deposit = await tx.deposit.findUnique({ where: { id: input.depositId } })
+      if (!deposit) throw new Error('Deposit not found')
+      return AchReturnService.returnDeposit(tx, deposit, input, context)
+    })
+  }
+
+  /**
+   * Put a returned transfer's funds back in the customer's account. Entries
+   * still in clearing come back from there; settled ones from the settlement
+   * account the ODFI debits for late returns.
+   */
+  static async returnTransfer(
+    tx: Prisma.TransactionClient,
+    entry: AchEntry & { transaction: Transaction },
+    input: Pick<AchReturnInput, 'returnCode' | 'returnReason' | 'chargeFee' | 'returnedAt'>,
+    context: ReturnContext
+  ): Promise<AchReturnResult> {
+    const returnedAt = input.returnedAt || new Date()
+    const { count } = await tx.achEntry.updateMany({
+      where: { id: entry.id, status: { in: ['SENT', 'SETTLED'] } },
+      data: {
+        status: 'RETURNED',
+        returnCode: input.returnCode,
+        returnReason: input.returnReason || describeAchReturnCode(input.returnCode),
+        returnedAt
+      }
+    })
+    if (count === 0) throw new Error('Transfer has already been returned')
+
+    const transaction = entry.transaction
+    const metadata = (transaction.metadata || {}) as Record<string, unknown>
+    const reason = AchReturnService.describeReturn(input.returnCode, input.returnReason, entry.accountLast4)
+
+    const sourceAccount = await LedgerService.getSystemAccount(tx, entry.status === 'SENT' ? 'EXTERNAL_CLEARING' : 'ACH_SETTLEMENT')
+    const account = await AccountService.resolveAccount(tx, transaction.userId, transaction.accountId)
+    const customerLedger = await LedgerService.getAccountLedger(tx, account.id)
+    await LedgerService.postTransfer(tx, {
+      debitAccountId: sourceAccount.id,
+      creditAccountId: customerLedger.id,
+      amount: entry.amount,
+      description: `ACH return ${input.returnCode} ${entry.traceNumber}`,
+      reference: transaction.reference || undefined,
+      transactionId: transaction.id,
+      createdById: context.enteredById
+    })
+
+    const moved = await TransferLifecycleService.transition(tx, transaction.id, 'RETURNED', {
+      actorType: context.source === 'ADMIN' ? 'ADMIN' : 'SYSTEM',
+      actorId: context.enteredById,
+      reason,
+      metadata: { returnCode: input.returnCode }
+    })
+    if (!moved) throw new Error('Transfer cannot be returned')
+
+    const updated = await tx.transaction.update({
+      where: { id: transaction.id },
+      data: {
+        metadata: {
+          ...metadata,
+          status: 'returned',
+          returnedAt: returnedAt.toISOString(),
+          returnCode: input.returnCode,
+          reason
+        }
+      }
+    })
+
+    if (typeof metadata.payeeId === 'string') {
+      await PayeeService.recordAchResult(tx, metadata.payeeId, 'returned', input.returnCode)
+    }
+
+    const achReturn = await AchReturnService.record(tx, updated, input, context, reason, returnedAt, { achEntryId: entry.id })
+    return { kind: 'TRANSFER', achReturn, transaction: updated, reason }
+  }
+
+  /**
+   * Take back the credit for a returned deposit. The funds may already be
+   * spent, so the account is allowed to go negative.
+   */
+  private static async returnDeposit(tx: Prisma.TransactionClient, deposit: Deposit, input: AchReturnInput, context: ReturnContext): Promise<AchReturnResult> {
+    if (!RETURNABLE_DEPOSIT_METHODS.includes(deposit.method)) {
+      throw new Error('Only linked bank and check deposits can be returned')
+    }
+
+    const returnedAt = input.returnedAt || new Date()
+    const { count } = await tx.deposit.updateMany({
+      where: { id: deposit.id, status: { in: ['CLEARING', 'AVAILABLE'] } },
+      data: { status: 'RETURNED' }
+    })
+    if (count === 0 || !deposit.transactionId) throw new Error('Deposit cannot be returned')
+
+    // Clearing holds have nothing left to protect once the credit is reversed
+    await tx.hold.updateMany({
+      where: { depositId: deposit.id, status: 'ACTIVE' },
+      data: { status: 'RELEASED', releasedAt: returnedAt }
+    })
+
+    const transaction = await tx.transaction.findUniqueOrThrow({ where: { id: deposit.transactionId } })
+    const reason = AchReturnService.describeReturn(input.returnCode, input.returnReason)
+
+    const customerLedger = await LedgerService.getAccountLedger(tx, deposit.accountId)
+    const clearingAccount = await LedgerService.getSystemAccount(tx, 'DEPOSIT_CLEARING', deposit.currency)
+    await LedgerService.postTransfer(tx, {
+      debitAccountId: customerLedger.id,
+      creditAccountId: clearingAccount.id,
+      amount: Money.of(deposit.amount, deposit.currency),
+      description: `Deposit return ${input.returnCode}`,
+      reference: transaction.reference || undefined,
+      transactionId: transaction.id,
+      createdById: context.enteredById,
+      allowNegativeBalance: true
+    })
+
+    const updated = await tx.transaction.update({
+      where: { id: transaction.id },
+      data: {
+        status: 'FAILED',
+        metadata: {
+          ...(transaction.metadata as Record<string, unknown>),
+          status: 'returned',
+          returnedAt: returnedAt.toISOString(),
+          returnCode: input.returnCode,
+          reason
+        }
+      }
+    })
+
+    const achReturn = await AchReturnService.record(tx, updated, input, context, reason, returnedAt, { depositId: deposit.id })
+    return { kind: 'DEPOSIT', achReturn, transaction: updated, deposit: { ...deposit, status: 'RETURNED' }, reason }
+  }
+
+  /**
+   * Charge the returned item fee, raise the user's risk level if the return
+   * warrants it and keep the return on file
+   */
+  private static async record(
+    tx: Prisma.TransactionClient,
+    transaction: Transaction,
+    input: Pick<AchReturnInput, 'returnCode' | 'chargeFee'>,
+    context: ReturnContext,
+    reason: string,
+    returnedAt: Date,
+    link: { achEntryId?: string; depositId?: string }
+  ) {
+    const fee = Money.of(RETURN_FEE, transaction.currency)
+    let feeTransaction: Transaction | null = null
+
+    if ((input.chargeFee ?? true) && fee.isPositive()) {
+      const reference = `FEE-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+      feeTransaction = await tx.transaction.create({
+        data: {
+          userId: transaction.userId,
+          accountId: transaction.accountId,
+          type: 'DEBIT',
+          amount: fee.toString(),
+          currency: transaction.currency,
+          description: `Returned item fee (${input.returnCode})`,
+          reference,
+          status: 'COMPLETED',
+          metadata: {
+            transferType: 'fee',
+            category: 'fees',
+            returnCode: input.returnCode,
+            returnedTransactionId: transaction.id
+          }
+        }
+      })
+
+      const account = await AccountService.resolveAccount(tx, transaction.userId, transaction.accountId)
+      const customerLedger = await LedgerService.getAccountLedger(tx, account.id)
+      const feeAccount = await LedgerService.getSystemAccount(tx, 'FEES', transaction.currency)
+      await LedgerService.postTransfer(tx, {
+        debitAccountId: customerLedger.id,
+        creditAccountId: feeAccount.id,
+        amount: fee,
+        description: feeTransaction.description,
+        reference,
+        transactionId: feeTransaction.id,
+        createdById: context.enteredById,
+        allowNegativeBalance: true
+      })
+    }
+
+    const user = await tx.user.findUniqueOrThrow({ where: { id: transaction.userId }, select: { riskLevel: true } })
+    const windowStart = new Date(returnedAt.getTime() - RISK_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    const recentReturns = await tx.achReturn.count({
+      where: { userId: transaction.userId, returnedAt: { gte: windowStart } }
+    })
+    const unauthorized = isAchReturnCode(input.returnCode) && ACH_RETURN_CODES[input.returnCode].unauthorized
+    const riskLevelAfter = AchReturnService.nextRiskLevel(user.riskLevel, unauthorized, recentReturns + 1)
+
+    if (riskLevelAfter !== user.riskLevel) {
+      await tx.user.update({ where: { id: transaction.userId }, data: { riskLevel: riskLevelAfter } })
+    }
+
+    await tx.securityEvent.create({
+      data: {
+        userId: transaction.userId,
+        eventType: 'ACH_RETURN_RECEIVED',
+        description: `${transaction.type === 'CREDIT' ? 'Deposit' : 'Transfer'} of ${Money.of(transaction.amount, transaction.currency).format()} returned: ${reason}`,
+        riskLevel: unauthorized ? 'HIGH' : 'MEDIUM',
+        metadata: {
+          transactionId: transaction.id,
+          returnCode: input.returnCode,
+          recentReturns: recentReturns + 1,
+          riskLevelBefore: user.riskLevel,
+          riskLevelAfter
+        }
+      }
+    })
+
+    return tx.achReturn.create({
+      data: {
+        userId: transaction.userId,
+        transactionId: transaction.id,
+        ...link,
+        returnCode: input.returnCode,
+        returnReason: reason,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        fee: feeTransaction ? fee.toString() : null,
+        feeTransactionId: feeTransaction?.id,
+        source: context.source,
+        enteredById: context.enteredById,
+        riskLevelBefore: user.riskLevel,
+        riskLevelAfter,
+        returnedAt
+      }
+    })
+  }
+
+  // Unauthorized returns go straight to HIGH; repeated returns step the level up one
+  private static nextRiskLevel(current: string, unauthorized: boolean, recentReturns: number) {
+    if (unauthorized) return 'HIGH'
+    if (recentReturns < RISK_RETURN_THRESHOLD) return current
+
+    const index = RISK_LEVELS.indexOf(current)
+    return RISK_LEVELS[Math.min(Math.max(index, 0) + 1, RISK_LEVELS.length - 1)]
+  }
+
+  private static describeReturn(code: string, reason?: string, accountLast4?: string) {
+    const detail = `${code}: ${reason || describeAchReturnCode(code)}`
+    return accountLast4 ? `${detail} (account ending in ${accountLast4})` : detail
+  }
+
+  /**
+   * Recent returns with the user they were charged back to, for the admin console
+   */
+  static async list(limit = 50) {
+    return prisma.achReturn.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        user: { select: { id: true, name: true, email: true, riskLevel: true } },
+        transaction: { select: { id: true, type: true, description: true, reference: true } }
+      }
+    })
+  }
+}
@@ -0,0 +1,391 @@
+import fs from 'fs'
+import path from 'path'
+import type { Transaction } from '@prisma/client'
+import { prisma } from '../prisma'
+import { LedgerService } from './ledgerService'
+import { PayeeService } from './payeeService'
+import { AchReturnService, achReturnSchema, type AchReturnResult } from './achReturnService'
+import { TransferLifecycleService } from './transferLifecycleService'
+import { Money } from '../../shared/money'
+import type { TransferState } from '../../shared/transferLifecycle'
+import { buildNachaFile, TRANSACTION_CODES, type NachaEntryInput } from '../utils/nacha'
+
+const ACH_DIR = process.env.ACH_DIR || path.join(process.cwd(), 'server', 'ach')
+
+// outbox: files for the ODFI, inbox: acknowledgements and return files from the ODFI
+export const ACH_PATHS = {
+  outbox: path.join(ACH_DIR, 'outbox'),
+  inbox: path.join(ACH_DIR, 'inbox'),
+  archiveOutbound: path.join(ACH_DIR, 'archive', 'outbound'),
+  archiveInbound: path.join(ACH_DIR, 'archive', 'inbound'),
+  rejected: path.join(ACH_DIR, 'archive', 'rejected'),
+}
+
+const ACH_CONFIG = {
+  odfiRouting: process.env.ACH_ODFI_ROUTING || '091000019',
+  originRouting: process.env.ACH_ORIGIN_ROUTING || '121000248',
+  odfiName: process.env.ACH_ODFI_NAME || 'SIMULATED ODFI',
+  originName: process.env.ACH_ORIGIN_NAME || 'PRIME EDGE FINANCE BANK',
+  companyName: process.env.ACH_COMPANY_NAME || 'PRIME EDGE',
+  companyId: process.env.ACH_COMPANY_ID || '1234567890',
+}
+
+const FILE_ID_MODIFIERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+export interface AchAcknowledgement {
+  fileName: string
+  processedAt: string
+  results: {
+    traceNumber: string
+    status: 'SETTLED' | 'RETURNED'
+    returnCode?: string
+    returnReason?: string
+  }[]
+}
+
+// Returns the ODFI sends after the fact, one per returned transfer or deposit
+export interface AchReturnFile {
+  fileName: string
+  processedAt: string
+  returns: {
+    traceNumber?: string
+    depositId?: string
+    returnCode: string
+    returnReason?: string
+  }[]
+}
+
+export interface AchSettlementUpdate {
+  transaction: Transaction
+  state: Extract<TransferState, 'SETTLED' | 'RETURNED'>
+  reason?: string
+}
+
+export function ensureAchDirectories() {
+  Object.values(ACH_PATHS).forEach(dir => fs.mkdirSync(dir, { recursive: true, mode: 0o750 }))
+}
+
+function approvedExternalTransfersWhere() {
+  return {
+    type: 'DEBIT' as const,
+    status: 'COMPLETED' as const,
+    achEntry: null,
+    AND: [
+      { metadata: { path: ['transferType'], equals: 'external_bank' } },
+      { metadata: { path: ['status'], equals: 'approved' } }
+    ]
+  }
+}
+
+export class AchService {
+  /**
+   * Batch every approved external transfer not yet sent into one NACHA file in
+   * the outbox. Returns the file record, or null when there was nothing to send.
+   */
+  static async generateFile(now: Date = new Date()) {
+    ensureAchDirectories()
+
+    const candidates = await prisma.transaction.findMany({
+      where: approvedExternalTransfersWhere(),
+      include: { user: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const sendable = candidates.filter(transaction => {
+      const metadata = (transaction.metadata || {}) as Record<string, any>
+      // International (IBAN) transfers are sent by wire, never in a NACHA file
+      if (metadata.rail === 'international_wire') return false
+      const ok = /^\d{9}$/.test(metadata.routingNumber || '') && /^[A-Za-z0-9]{4,17}$/.test(metadata.fullAccountInfo || '')
+      if (!ok) {
+        console.warn(`ACH: transfer ${transaction.id} has no usable routing/account number and was not sent`)
+      }
+      return ok
+    })
+
+    if (sendable.length === 0) return null
+
+    const startOfDay = new Date(now)
+    startOfDay.setUTCHours(0, 0, 0, 0)
+    const filesToday = await prisma.achFile.count({ where: { createdAt: { gte: startOfDay } } })
+    if (filesToday >= FILE_ID_MODIFIERS.length) {
+      throw new Error('ACH file limit for today reached')
+    }
+
+    const fileIdModifier = FILE_ID_MODIFIERS[filesToday]
+    const fileName = `PE-${now.toISOString().slice(0, 10).replace(/-/g, '')}-${fileIdModifier}.ach`
+    const odfiIdentification = ACH_CONFIG.odfiRouting.slice(0, 8)
+    const traceStart = (await prisma.achEntry.count()) + 1
+
+    const entries: (NachaEntryInput & { transaction: typeof sendable[number] })[] = sendable.map((transaction, index) => {
+      const metadata = transaction.metadata as Record<string, any>
+      return {
+        transaction,
+        transactionCode: metadata.recipientAccountType === 'savings'
+          ? TRANSACTION_CODES.SAVINGS_CREDIT
+          : TRANSACTION_CODES.CHECKING_CREDIT,
+        routingNumber: metadata.routingNumber,
+        accountNumber: metadata.fullAccountInfo,
+        amountCents: Money.of(transaction.amount).minor,
+        individualId: transaction.reference?.slice(-15) || transaction.id.replace(/-/g, '').slice(0, 15),
+        individualName: metadata.recipientName || 'BENEFICIARY',
+        traceNumber: `${odfiIdentification}${String((traceStart + index) % 10000000).padStart(7, '0')}`,
+        paymentInfo: `TRANSFER FROM ${transaction.user.name}`
+      }
+    })
+
+    const file = buildNachaFile({
+      immediateDestination: ACH_CONFIG.odfiRouting,
+      immediateOrigin: ACH_CONFIG.originRouting,
+      destinationName: ACH_CONFIG.odfiName,
+      originName: ACH_CONFIG.originName,
+      fileIdModifier,
+      createdAt: now,
+      batches: [{
+        companyName: ACH_CONFIG.companyName,
+        companyId: ACH_CONFIG.companyId,
+        entryDescription: 'TRANSFER',
+        effectiveDate: now,
+        odfiIdentification,
+        entries
+      }]
+    })
+
+    // Write to a temp name first; the ODFI only picks up *.ach once the
+    // database says the entries were sent
+    const finalPath = path.join(ACH_PATHS.outbox, fileName)
+    const tempPath = `${finalPath}.tmp`
+    fs.writeFileSync(tempPath, file.content, { mode: 0o640 })
+
+    try {
+      const achFile = await prisma.$transaction(async (tx) => {
+        const created = await tx.achFile.create({
+          data: {
+            fileName,
+            fileIdModifier,
+            entryCount: entries.length,
+            totalCredit: Money.fromMinor(file.totalCreditCents).toString(),
+            totalDebit: Money.fromMinor(file.totalDebitCents).toString(),
+            entryHash: file.entryHash,
+            entries: {
+              create: entries.map(entry => ({
+                transactionId: entry.transaction.id,
+                traceNumber: entry.traceNumber,
+                transactionCode: entry.transactionCode,
+                routingNumber: entry.routingNumber,
+                accountLast4: entry.accountNumber.slice(-4),
+                amount: Money.fromMinor(entry.amountCents).toString()
+              }))
+            }
+          }
+        })
+
+        const sentAt = now.toISOString()
+        for (const entry of entries) {
+          const moved = await TransferLifecycleService.transition(tx, entry.transaction.id, 'SENT', {
+            actorType: 'SYSTEM',
+            reason: `Sent in ACH file ${fileName}`,
+            metadata: { achFileName: fileName, achTraceNumber: entry.traceNumber }
+          })
+          if (!moved) {
+            throw new Error(`Transfer ${entry.transaction.id} is no longer approved`)
+          }
+
+          await tx.transaction.update({
+            where: { id: entry.transaction.id },
+            data: {
+              metadata: {
+                ...(entry.transaction.metadata as Record<string, any>),
+                status: 'sent',
+                sentAt,
+                achFileName: fileName,
+                achTraceNumber: entry.traceNumber
+              }
+            }
+          })
+        }
+
+        return created
+      })
+
+      fs.renameSync(tempPath, finalPath)
+      console.log(`🏦 ACH file ${fileName} written with ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`)
+      return achFile
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true })
+      throw error
+    }
+  }
+
+  /**
+   * Apply settlement and return results the ODFI dropped in the inbox.
+   * Settled entries move the funds out of clearing; returned entries put them
+   * back in the customer's account.
+   */
+  static async processAcknowledgements() {
+    ensureAchDirectories()
+
+    const files = fs.readdirSync(ACH_PATHS.inbox).filter(name => name.endsWith('.ack.json')).sort()
+    const updates: AchSettlementUpdate[] = []
+
+    for (const name of files) {
+      const fullPath = path.join(ACH_PATHS.inbox, name)
+      let ack: AchAcknowledgement
+
+      try {
+        ack = JSON.parse(fs.readFileSync(fullPath, 'utf8'))
+      } catch (error) {
+        console.error(`ACH: unreadable acknowledgement ${name}:`, error)
+        fs.renameSync(fullPath, path.join(ACH_PATHS.rejected, name))
+        continue
+      }
+
+      for (const result of ack.results || []) {
+        const update = await AchService.applyResult(result, new Date(ack.processedAt || Date.now()))
+        if (update) updates.push(update)
+      }
+
+      await prisma.achFile.updateMany({
+        where: { fileName: ack.fileName },
+        data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date() }
+      })
+
+      fs.renameSync(fullPath, path.join(ACH_PATHS.archiveInbound, name))
+    }
+
+    return updates
+  }
+
+  /**
+   * Settle or return a single entry. Entries already resolved are ignored so
+   * an acknowledgement can safely be processed twice.
+   */
+  private static async applyResult(result: AchAcknowledgement['results'][number], processedAt: Date): Promise<AchSettlementUpdate | null> {
+    return prisma.$transaction(async (tx) => {
+      const entry = await tx.achEntry.findUnique({
+        where: { traceNumber: result.traceNumber },
+        include: { transaction: true }
+      })
+
+      if (!entry) {
+        console.warn(`ACH: acknowledgement for unknown trace number ${result.traceNumber}`)
+        return null
+      }
+      if (entry.status !== 'SENT') return null
+
+      const transaction = entry.transaction
+      const metadata = (transaction.metadata || {}) as Record<string, any>
+
+      if (result.status === 'SETTLED') {
+        const clearingAccount = await LedgerService.getSystemAccount(tx, 'EXTERNAL_CLEARING')
+        const settlementAccount = await LedgerService.getSystemAccount(tx, 'ACH_SETTLEMENT')
+        await LedgerService.postTransfer(tx, {
+          debitAccountId: clearingAccount.id,
+          creditAccountId: settlementAccount.id,
+          amount: entry.amount,
+          description: `ACH settlement ${entry.traceNumber}`,
+          reference: transaction.reference || undefined,
+          transactionId: transaction.id
+        })
+
+        await tx.achEntry.update({
+          where: { id: entry.id },
+          data: { status: 'SETTLED', settledAt: processedAt }
+        })
+
+        await TransferLifecycleService.transition(tx, transaction.id, 'SETTLED', {
+          actorType: 'SYSTEM',
+          reason: `ACH entry ${entry.traceNumber} settled`
+        })
+
+        const updated = await tx.transaction.update({
+          where: { id: transaction.id },
+          data: {
+            metadata: { ...metadata, status: 'settled', settledAt: processedAt.toISOString() }
+          }
+        })
+
+        if (metadata.payeeId) {
+          await PayeeService.recordAchResult(tx, metadata.payeeId, 'settled')
+        }
+
+        return { transaction: updated, state: 'SETTLED' as const }
+      }
+
+      if (!result.returnCode) {
+        console.warn(`ACH: return for trace number ${result.traceNumber} has no return code; enter it from the admin console`)
+        return null
+      }
+
+      const returned = await AchReturnService.returnTransfer(tx, entry, {
+        returnCode: result.returnCode,
+        returnReason: result.returnReason,
+        returnedAt: processedAt
+      }, { source: 'FILE' })
+
+      return { transaction: returned.transaction, state: 'RETURNED' as const, reason: returned.reason }
+    })
+  }
+
+  /**
+   * Apply return files the ODFI dropped in the inbox. Unlike acknowledgements
+   * these can arrive days after an entry settled, and also carry deposits the
+   * paying bank pulled back. A return that cannot be applied is logged and
+   * the rest of the file still goes through.
+   */
+  static async processReturnFiles() {
+    ensureAchDirectories()
+
+    const files = fs.readdirSync(ACH_PATHS.inbox).filter(name => name.endsWith('.returns.json')).sort()
+    const results: AchReturnResult[] = []
+
+    for (const name of files) {
+      const fullPath = path.join(ACH_PATHS.inbox, name)
+      let returnFile: AchReturnFile
+
+      try {
+        returnFile = JSON.parse(fs.readFileSync(fullPath, 'utf8'))
+      } catch (error) {
+        console.error(`ACH: unreadable return file ${name}:`, error)
+        fs.renameSync(fullPath, path.join(ACH_PATHS.rejected, name))
+        continue
+      }
+
+      for (const entry of returnFile.returns || []) {
+        try {
+          const input = achReturnSchema.parse({ returnedAt: returnFile.processedAt, ...entry })
+          results.push(await AchReturnService.applyReturn(input, { source: 'FILE' }))
+        } catch (error) {
+          console.error(`ACH: could not apply return ${entry.traceNumber || entry.depositId} from ${name}:`, error)
+        }
+      }
+
+      fs.renameSync(fullPath, path.join(ACH_PATHS.archiveInbound, name))
+    }
+
+    return results
+  }
+
+  /**
+   * Recent ACH files with their entry status counts, for the admin console
+   */
+  static async listFiles(limit = 20) {
+    const files = await prisma.achFile.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        entries: {
+          select: { id: true, traceNumber: true, amount: true, status: true, returnCode: true, transactionId: true }
+        }
+      }
+    })
+
+    return files.map(file => ({
+      ...file,
+      counts: {
+        sent: file.entries.filter(e => e.status === 'SENT').length,
+        settled: file.entries.filter(e => e.status === 'SETTLED').length,
+        returned: file.entries.filter(e => e.status === 'RETURNED').length
+      }
+    }))
+  }
+}
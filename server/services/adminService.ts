@@ -1,4 +1,12 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from '../prisma'
+import { LedgerService } from './ledgerService'
+import { AccountService } from './accountService'
+import { HoldService } from './holdService'
+import { ApprovalService } from './approvalService'
+import { SanctionsService } from './sanctionsService'
+import { PepService } from './pepService'
+import { Money } from '../../shared/money'
 import type { AdminUpdateUserInput, AdminUpdateBalanceInput } from '../../shared/validation'
 
 export class AdminService {
@@ -75,10 +83,30 @@ export class AdminService {
       throw new Error('User not found')
     }
 
-    // Update user
-    const updatedUser = await prisma.user.update({
-      where: { id: userId },
-      data: updates,
+    const { balance, ...details } = updates
+
+    // Balance edits are posted as ledger adjustments to the primary account, never written directly
+    const adjustment: AdminUpdateBalanceInput | null = balance !== undefined && !balance.equals(user.balance)
+      ? {
+          userId,
+          action: balance.gt(user.balance) ? 'ADD' : 'SUBTRACT',
+          amount: balance.subtract(user.balance).abs(),
+          description: 'Balance corrected via user update',
+        }
+      : null
+    const approval = adjustment && await ApprovalService.requiresDualApproval(adjustment.amount)
+      ? await AdminService.requestAdjustmentApproval(adjustment, adminId)
+      : null
+
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      if (adjustment && !approval) {
+        await AdminService.postBalanceAdjustment(tx, adjustment, adminId)
+      }
+
+      return tx.user.update({
+        where: { id: userId },
+        data: details,
+      })
     })
 
     // Log admin action
@@ -87,14 +115,24 @@ export class AdminService {
         adminId,
         action: 'USER_UPDATED',
         targetUserId: userId,
-        description: `Updated user details: ${Object.keys(updates).join(', ')}`,
+        description: `Updated user details: ${Object.keys(updates).join(', ')}${approval ? ' (balance change awaiting a second admin)' : ''}`,
       },
     })
 
+    if (updatedUser.name !== user.name) {
+      await SanctionsService.screenCustomer(userId, 'NAME_CHANGE').catch((error) => {
+        console.error('Sanctions screening error:', error)
+      })
+      await PepService.screenCustomer(userId).catch((error) => {
+        console.error('PEP screening error:', error)
+      })
+    }
+
     return updatedUser
   }
 
-  // Update user balance
+  // Update user balance. At or above the dual-approval threshold the
+  // adjustment is queued for a second admin instead of being posted.
   static async updateUserBalance(input: AdminUpdateBalanceInput, adminId: string) {
     const user = await prisma.user.findUnique({
       where: { id: input.userId },
@@ -104,39 +142,79 @@ export class AdminService {
       throw new Error('User not found')
     }
 
-    const newBalance = input.action === 'ADD' 
-      ? user.balance + input.amount 
-      : Math.max(0, user.balance - input.amount)
+    const account = await AccountService.resolveAccount(prisma, input.userId, input.accountId)
+    if (await ApprovalService.requiresDualApproval(input.amount, account.currency)) {
+      const approval = await AdminService.requestAdjustmentApproval(input, adminId)
+      return { user: null, approval }
+    }
 
-    // Update balance
-    const updatedUser = await prisma.user.update({
-      where: { id: input.userId },
-      data: { balance: newBalance },
-    })
+    const updatedUser = await prisma.$transaction((tx) => AdminService.postBalanceAdjustment(tx, input, adminId))
+    return { user: updatedUser, approval: null }
+  }
 
-    // Create transaction record
-    await prisma.transaction.create({
-      data: {
-        userId: input.userId,
-        type: input.action === 'ADD' ? 'CREDIT' : 'DEBIT',
-        amount: input.amount,
-        description: input.description,
-        reference: `ADMIN-${Date.now()}`,
-      },
-    })
+  // Queue an adjustment for a second admin, pinned to the account it was made against
+  private static async requestAdjustmentApproval(input: AdminUpdateBalanceInput, adminId: string) {
+    const account = await AccountService.resolveAccount(prisma, input.userId, input.accountId)
+    return ApprovalService.requestBalanceAdjustment({ ...input, accountId: account.id }, account.currency, adminId)
+  }
+
+  // Post a manual adjustment between one of the customer's accounts and suspense
+  static async postBalanceAdjustment(
+    tx: Prisma.TransactionClient,
+    input: AdminUpdateBalanceInput,
+    adminId: string
+  ) {
+    const account = await AccountService.resolveAccount(tx, input.userId, input.accountId)
+    const customerAccount = await LedgerService.getAccountLedger(tx, account.id)
+    const suspenseAccount = await LedgerService.getSystemAccount(tx, 'SUSPENSE', account.currency)
+    const currentBalance = await LedgerService.getAccountBalance(customerAccount, tx)
+    const availableBalance = currentBalance.subtract(await HoldService.getHeldAmount(account.id, tx))
+
+    // Subtractions stop at the available balance rather than overdrawing the
+    // account or eating into funds held for pending transfers
+    const amount = input.action === 'ADD'
+      ? input.amount
+      : Money.min(input.amount, Money.max(Money.zero(), availableBalance))
+
+    if (amount.isPositive()) {
+      // Create transaction record
+      const transaction = await tx.transaction.create({
+        data: {
+          userId: input.userId,
+          accountId: account.id,
+          type: input.action === 'ADD' ? 'CREDIT' : 'DEBIT',
+          amount: amount.toString(),
+          currency: account.currency,
+          description: input.description,
+          reference: `ADMIN-${Date.now()}`,
+        },
+      })
+
+      await LedgerService.postTransfer(tx, {
+        debitAccountId: input.action === 'ADD' ? suspenseAccount.id : customerAccount.id,
+        creditAccountId: input.action === 'ADD' ? customerAccount.id : suspenseAccount.id,
+        amount,
+        description: `Admin adjustment: ${input.description}`,
+        reference: transaction.reference || undefined,
+        transactionId: transaction.id,
+        createdById: adminId,
+      })
+    }
 
     // Log admin action
-    await prisma.adminLog.create({
+    await tx.adminLog.create({
       data: {
         adminId,
         action: 'BALANCE_UPDATED',
         targetUserId: input.userId,
-        amount: input.amount,
-        description: `${input.action === 'ADD' ? 'Added' : 'Subtracted'} $${input.amount}: ${input.description}`,
+        amount: amount.toString(),
+        description: `${input.action === 'ADD' ? 'Added' : 'Subtracted'} ${amount.format()}: ${input.description}`,
       },
     })
 
-    return updatedUser
+    return tx.user.findUniqueOrThrow({
+      where: { id: input.userId },
+    })
   }
 
   // Deactivate/Activate user
@@ -266,7 +344,7 @@ export class AdminService {
       activeUsers,
       inactiveUsers: totalUsers - activeUsers,
       totalTransactions,
-      totalBalance: totalBalance._sum.balance || 0,
+      totalBalance: Money.of(totalBalance._sum.balance || '0'),
       recentTransactions,
     }
   }
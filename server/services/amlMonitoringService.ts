@@ -0,0 +1,373 @@
+import type { AmlAlertStatus, AmlScenario, Payee, Prisma, TransactionType } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { DEFAULT_CURRENCY, Money } from '../../shared/money'
+import { FxService } from './fxService'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const WEEK_MS = 7 * DAY_MS
+
+// Currency transaction reporting threshold, in USD
+const REPORTING_THRESHOLD = Number(process.env.AML_REPORTING_THRESHOLD) || 10000
+
+// Amounts this close under the threshold count as structured, and this many
+// of them in a week raise an alert
+const STRUCTURING_MARGIN = 1000
+const STRUCTURING_MIN_COUNT = 2
+
+// A receipt of at least this much, most of which leaves the same account
+// within the window
+const RAPID_MOVEMENT_MIN_AMOUNT = 5000
+const RAPID_MOVEMENT_RATIO = 0.8
+const RAPID_MOVEMENT_HOURS = 48
+
+// Days without customer activity after which an account counts as dormant,
+// and the activity on waking that raises an alert
+const DORMANT_DAYS = Number(process.env.AML_DORMANT_DAYS) || 180
+const DORMANT_MIN_AMOUNT = 1000
+
+// Payees added within a window
+const NEW_PAYEE_COUNT = 5
+const NEW_PAYEE_WINDOW_HOURS = 24
+
+// Money the customer moved; fees, overdraft sweeps and transfers between
+// their own accounts are not monitored
+const MONITORED_TRANSFER_TYPES = ['deposit', 'p2p', 'external_bank', 'bill_payment']
+
+const MONITORED_ACTIVITY: Prisma.TransactionWhereInput = {
+  status: { not: 'FAILED' },
+  OR: MONITORED_TRANSFER_TYPES.map(transferType => ({ metadata: { path: ['transferType'], equals: transferType } }))
+}
+
+export const amlAlertFilterSchema = z.object({
+  status: z.enum(['OPEN', 'FALSE_POSITIVE', 'EXPLAINED', 'ESCALATED']).default('OPEN'),
+  scenario: z.enum(['STRUCTURING', 'RAPID_MOVEMENT', 'DORMANT_ACTIVITY', 'NEW_PAYEES']).optional()
+})
+
+export const amlDispositionSchema = z.object({
+  status: z.enum(['FALSE_POSITIVE', 'EXPLAINED', 'ESCALATED']),
+  notes: z.string().trim().min(1, 'Disposition notes are required').max(1000)
+})
+
+interface MonitoredTransaction {
+  id: string
+  userId: string
+  accountId: string | null
+  type: TransactionType
+  payeeId: string | null
+  createdAt: Date
+  usd: Money
+}
+
+interface AlertFinding {
+  userId: string
+  scenario: AmlScenario
+  periodStart: Date
+  summary: string
+  transactions: MonitoredTransaction[]
+  details: Record<string, unknown>
+}
+
+type NewPayee = Pick<Payee, 'id' | 'userId' | 'nickname' | 'accountHolderName' | 'createdAt'>
+
+// Monday 00:00 UTC of the week the date falls in
+function weekStart(date: Date) {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7)
+  return start
+}
+
+const inPeriod = (periodStart: Date) => (item: { createdAt: Date }) =>
+  item.createdAt >= periodStart && item.createdAt.getTime() < periodStart.getTime() + WEEK_MS
+
+const total = (transactions: MonitoredTransaction[]) => Money.sum(transactions.map(transaction => transaction.usd))
+
+function groupByUser<T extends { userId: string }>(items: T[]) {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const group = groups.get(item.userId)
+    if (group) group.push(item)
+    else groups.set(item.userId, [item])
+  }
+  return groups
+}
+
+function structuring(periodTransactions: MonitoredTransaction[]) {
+  const floor = Money.of(REPORTING_THRESHOLD - STRUCTURING_MARGIN)
+  const structured = periodTransactions.filter(transaction => transaction.usd.gte(floor) && transaction.usd.lt(REPORTING_THRESHOLD))
+  if (structured.length < STRUCTURING_MIN_COUNT) return null
+
+  return {
+    summary: `${structured.length} transactions between ${floor.format()} and ${Money.of(REPORTING_THRESHOLD).format()} totalling ${total(structured).format()}`,
+    transactions: structured,
+    details: { count: structured.length, threshold: REPORTING_THRESHOLD, deposits: structured.filter(transaction => transaction.type === 'CREDIT').length }
+  }
+}
+
+// Receipts in the period, each with what left the same account soon after
+// (looking past the end of the period when it has to)
+function rapidMovement(periodTransactions: MonitoredTransaction[], userTransactions: MonitoredTransaction[]) {
+  const matched: Array<{ credit: MonitoredTransaction, debits: MonitoredTransaction[] }> = []
+
+  for (const credit of periodTransactions) {
+    if (credit.type !== 'CREDIT' || credit.usd.lt(RAPID_MOVEMENT_MIN_AMOUNT)) continue
+    const windowEnd = credit.createdAt.getTime() + RAPID_MOVEMENT_HOURS * HOUR_MS
+    const debits = userTransactions.filter(debit =>
+      debit.type === 'DEBIT' &&
+      debit.accountId === credit.accountId &&
+      debit.createdAt > credit.createdAt &&
+      debit.createdAt.getTime() <= windowEnd
+    )
+    if (total(debits).gte(credit.usd.multiply(RAPID_MOVEMENT_RATIO))) {
+      matched.push({ credit, debits })
+    }
+  }
+  if (matched.length === 0) return null
+
+  const credits = matched.map(match => match.credit)
+  const debits = Array.from(new Set(matched.flatMap(match => match.debits)))
+  const transactions = [...credits, ...debits].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+  return {
+    summary: `${total(credits).format()} received and ${total(debits).format()} sent out within ${RAPID_MOVEMENT_HOURS} hours`,
+    transactions,
+    details: {
+      received: total(credits).toString(),
+      sentOut: total(debits).toString(),
+      windowHours: RAPID_MOVEMENT_HOURS
+    }
+  }
+}
+
+// The largest group of payees added within the window of each other
+function newPayeeBurst(payees: NewPayee[]) {
+  let burst: NewPayee[] = []
+  let first = 0
+  for (let last = 0; last < payees.length; last++) {
+    while (payees[last].createdAt.getTime() - payees[first].createdAt.getTime() > NEW_PAYEE_WINDOW_HOURS * HOUR_MS) first++
+    if (last - first + 1 > burst.length) burst = payees.slice(first, last + 1)
+  }
+  return burst.length >= NEW_PAYEE_COUNT ? burst : null
+}
+
+export class AmlMonitoringService {
+  /**
+   * Run every scenario over this week and last week, raising an alert for
+   * each pattern found. Last week is checked again so that patterns which
+   * completed after it ended are still caught.
+   */
+  static async monitor(now: Date = new Date()) {
+    const periods = [new Date(weekStart(now).getTime() - WEEK_MS), weekStart(now)]
+    const from = periods[0]
+
+    const [transactions, payees] = await Promise.all([
+      AmlMonitoringService.loadTransactions(from, now),
+      prisma.payee.findMany({
+        where: { createdAt: { gte: from, lte: now } },
+        select: { id: true, userId: true, nickname: true, accountHolderName: true, createdAt: true },
+        orderBy: { createdAt: 'asc' }
+      })
+    ])
+
+    const findings: AlertFinding[] = []
+    const transactionsByUser = groupByUser(transactions)
+
+    for (const [userId, userTransactions] of Array.from(transactionsByUser)) {
+      for (const periodStart of periods) {
+        const periodTransactions = userTransactions.filter(inPeriod(periodStart))
+        if (periodTransactions.length === 0) continue
+
+        const structured = structuring(periodTransactions)
+        if (structured) findings.push({ userId, scenario: 'STRUCTURING', periodStart, ...structured })
+
+        const rapid = rapidMovement(periodTransactions, userTransactions)
+        if (rapid) findings.push({ userId, scenario: 'RAPID_MOVEMENT', periodStart, ...rapid })
+
+        const dormant = await AmlMonitoringService.dormantActivity(userId, periodTransactions)
+        if (dormant) findings.push({ userId, scenario: 'DORMANT_ACTIVITY', periodStart, ...dormant })
+      }
+    }
+
+    for (const [userId, userPayees] of Array.from(groupByUser(payees))) {
+      for (const periodStart of periods) {
+        const burst = newPayeeBurst(userPayees.filter(inPeriod(periodStart)))
+        if (!burst) continue
+
+        const payeeIds = new Set(burst.map(payee => payee.id))
+        findings.push({
+          userId,
+          scenario: 'NEW_PAYEES',
+          periodStart,
+          summary: `${burst.length} payees added within ${NEW_PAYEE_WINDOW_HOURS} hours`,
+          transactions: (transactionsByUser.get(userId) || []).filter(transaction => transaction.payeeId && payeeIds.has(transaction.payeeId)),
+          details: {
+            payees: burst.map(payee => ({ id: payee.id, nickname: payee.nickname, accountHolderName: payee.accountHolderName, createdAt: payee.createdAt }))
+          }
+        })
+      }
+    }
+
+    let created = 0
+    let updated = 0
+    for (const finding of findings) {
+      const result = await AmlMonitoringService.record(finding)
+      if (result === 'created') created++
+      if (result === 'updated') updated++
+    }
+    return { created, updated }
+  }
+
+  /**
+   * Monitored transactions in the window with their amounts in USD, oldest
+   * first. A currency without a rate to USD counts at face value, as it does
+   * for transfer limits.
+   */
+  private static async loadTransactions(from: Date, to: Date): Promise<MonitoredTransaction[]> {
+    const rows = await prisma.transaction.findMany({
+      where: { ...MONITORED_ACTIVITY, createdAt: { gte: from, lte: to } },
+      select: { id: true, userId: true, accountId: true, type: true, amount: true, currency: true, metadata: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const rates = new Map<string, string | null>()
+    const transactions: MonitoredTransaction[] = []
+    for (const row of rows) {
+      if (!rates.has(row.currency)) {
+        rates.set(row.currency, await FxService.getMidRate(row.currency, DEFAULT_CURRENCY))
+      }
+      const rate = rates.get(row.currency)
+      const amount = Money.of(row.amount, row.currency)
+
+      const metadata = row.metadata as Record<string, unknown> | null
+      transactions.push({
+        id: row.id,
+        userId: row.userId,
+        accountId: row.accountId,
+        type: row.type,
+        payeeId: typeof metadata?.payeeId === 'string' ? metadata.payeeId : null,
+        createdAt: row.createdAt,
+        usd: rate ? amount.convert(rate, DEFAULT_CURRENCY) : Money.of(amount.toString())
+      })
+    }
+    return transactions
+  }
+
+  private static async dormantActivity(userId: string, periodTransactions: MonitoredTransaction[]) {
+    const amount = total(periodTransactions)
+    if (amount.lt(DORMANT_MIN_AMOUNT)) return null
+
+    const [first] = periodTransactions
+    const previous = await prisma.transaction.findFirst({
+      where: { ...MONITORED_ACTIVITY, userId, createdAt: { lt: first.createdAt } },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true }
+    })
+    // A new customer's first transactions are not a dormant account waking up
+    if (!previous) return null
+
+    const dormantDays = Math.floor((first.createdAt.getTime() - previous.createdAt.getTime()) / DAY_MS)
+    if (dormantDays < DORMANT_DAYS) return null
+
+    return {
+      summary: `${amount.format()} moved after ${dormantDays} days without activity`,
+      transactions: periodTransactions,
+      details: { dormantDays, lastActivityAt: previous.createdAt }
+    }
+  }
+
+  /**
+   * Raise the alert for a finding, or refresh the evidence on the open alert
+   * already raised for it. Alerts that have been dispositioned are left alone.
+   */
+  private static async record(finding: AlertFinding): Promise<'created' | 'updated' | null> {
+    const key = { userId: finding.userId, scenario: finding.scenario, periodStart: finding.periodStart }
+    const existing = await prisma.amlAlert.findUnique({ where: { userId_scenario_periodStart: key } })
+    if (existing && existing.status !== 'OPEN') return null
+
+    const data = {
+      summary: finding.summary,
+      totalAmount: total(finding.transactions).toString(),
+      transactionIds: finding.transactions.map(transaction => transaction.id),
+      details: finding.details as Prisma.InputJsonValue
+    }
+    if (existing && existing.summary === data.summary && existing.transactionIds.join() === data.transactionIds.join()) return null
+
+    await prisma.amlAlert.upsert({
+      where: { userId_scenario_periodStart: key },
+      create: { ...key, periodEnd: new Date(finding.periodStart.getTime() + WEEK_MS), ...data },
+      update: data
+    })
+    return existing ? 'updated' : 'created'
+  }
+
+  static async getStatus() {
+    const alerts = await prisma.amlAlert.groupBy({ by: ['status'], _count: true })
+    return {
+      alerts: Object.fromEntries(alerts.map(row => [row.status, row._count])) as Partial<Record<AmlAlertStatus, number>>,
+      reportingThreshold: REPORTING_THRESHOLD,
+      dormantDays: DORMANT_DAYS
+    }
+  }
+
+  /**
+   * Alerts with the transactions that evidence them
+   */
+  static async listAlerts(status: AmlAlertStatus, scenario?: AmlScenario) {
+    const alerts = await prisma.amlAlert.findMany({
+      where: { status, scenario },
+      orderBy: status === 'OPEN' ? { createdAt: 'asc' } : { reviewedAt: 'desc' },
+      take: 100,
+      include: {
+        user: { select: { id: true, name: true, email: true, accountNumber: true, riskLevel: true } },
+        reviewedBy: { select: { id: true, name: true } }
+      }
+    })
+
+    const transactions = await prisma.transaction.findMany({
+      where: { id: { in: alerts.flatMap(alert => alert.transactionIds) } },
+      select: { id: true, type: true, amount: true, currency: true, description: true, reference: true, status: true, createdAt: true }
+    })
+    const byId = new Map(transactions.map(transaction => [transaction.id, transaction]))
+
+    return alerts.map(alert => ({
+      ...alert,
+      transactions: alert.transactionIds.flatMap(id => byId.get(id) ?? [])
+    }))
+  }
+
+  /**
+   * Close an open alert. Escalating it also marks the customer high risk.
+   */
+  static async disposition(alertId: string, data: z.infer<typeof amlDispositionSchema>, adminId: string) {
+    const alert = await prisma.amlAlert.findUnique({ where: { id: alertId }, include: { user: { select: { name: true } } } })
+    if (!alert) {
+      throw new Error('AML alert not found')
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.amlAlert.updateMany({
+        where: { id: alertId, status: 'OPEN' },
+        data: { status: data.status, reviewedById: adminId, reviewedAt: new Date(), reviewNotes: data.notes }
+      })
+      if (updated.count === 0) {
+        throw new Error('AML alert already dispositioned')
+      }
+
+      if (data.status === 'ESCALATED') {
+        await tx.user.update({ where: { id: alert.userId }, data: { riskLevel: 'HIGH' } })
+      }
+
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: `AML_ALERT_${data.status}`,
+          targetUserId: alert.userId,
+          description: `AML ${alert.scenario.toLowerCase().replace('_', ' ')} alert for ${alert.user.name} marked ${data.status.toLowerCase().replace('_', ' ')}: ${data.notes}`
+        }
+      })
+    })
+
+    return prisma.amlAlert.findUniqueOrThrow({ where: { id: alertId } })
+  }
+}
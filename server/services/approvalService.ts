@@ -0,0 +1,249 @@
+import type { Prisma, Transaction } from '@prisma/client'
+import { prisma } from '../prisma'
+import { DEFAULT_CURRENCY, Money, type MoneyInput } from '../../shared/money'
+import type { AdminUpdateBalanceInput } from '../../shared/validation'
+import { AdminService } from './adminService'
+import { FxService } from './fxService'
+import { TransferService } from './transferService'
+
+// Transfer approvals and balance adjustments at or above this amount (in USD)
+// need a second admin
+const DUAL_APPROVAL_THRESHOLD = Money.of(process.env.DUAL_APPROVAL_THRESHOLD || '10000.00')
+
+export type BalanceAdjustmentPayload = {
+  accountId: string
+  action: 'ADD' | 'SUBTRACT'
+  amount: string
+  description: string
+}
+
+const approvalInclude = {
+  targetUser: { select: { id: true, name: true, email: true } },
+  initiatedBy: { select: { id: true, name: true, email: true } },
+  reviewedBy: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.ApprovalRequestInclude
+
+export class ApprovalService {
+  static get threshold() {
+    return DUAL_APPROVAL_THRESHOLD
+  }
+
+  /**
+   * Whether an amount needs a second admin. Other currencies are compared at
+   * the mid rate; without a rate the answer errs on the side of dual control.
+   */
+  static async requiresDualApproval(amount: MoneyInput, currency: string = DEFAULT_CURRENCY) {
+    if (currency === DEFAULT_CURRENCY) {
+      return Money.of(amount).gte(DUAL_APPROVAL_THRESHOLD)
+    }
+    const rate = await FxService.getMidRate(currency, DEFAULT_CURRENCY)
+    if (!rate) return true
+    return Money.of(amount, currency).convert(rate, DEFAULT_CURRENCY).gte(DUAL_APPROVAL_THRESHOLD)
+  }
+
+  /**
+   * Hold an admin's approval of a pending external transfer until a second
+   * admin confirms it. The transfer stays pending in the review queue.
+   */
+  static async requestTransferApproval(transaction: Transaction, adminId: string, reason?: string) {
+    const existing = await prisma.approvalRequest.findFirst({
+      where: { transactionId: transaction.id, status: 'PENDING' }
+    })
+    if (existing) {
+      throw new Error('Transfer is already awaiting a second approval')
+    }
+
+    const amount = Money.of(transaction.amount, transaction.currency)
+    return prisma.$transaction(async (tx) => {
+      const request = await tx.approvalRequest.create({
+        data: {
+          type: 'TRANSFER_APPROVAL',
+          targetUserId: transaction.userId,
+          transactionId: transaction.id,
+          amount: amount.toString(),
+          currency: transaction.currency,
+          payload: { reason: reason || null },
+          reason,
+          initiatedById: adminId
+        },
+        include: approvalInclude
+      })
+
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: 'APPROVAL_REQUESTED',
+          targetUserId: transaction.userId,
+          amount: amount.toString(),
+          description: `Approved external transfer of ${amount.format()}; awaiting a second admin`
+        }
+      })
+
+      return request
+    })
+  }
+
+  /**
+   * Queue a manual balance adjustment for a second admin instead of posting it
+   */
+  static async requestBalanceAdjustment(input: AdminUpdateBalanceInput & { accountId: string }, currency: string, adminId: string) {
+    const payload: BalanceAdjustmentPayload = {
+      accountId: input.accountId,
+      action: input.action,
+      amount: input.amount.toString(),
+      description: input.description
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const request = await tx.approvalRequest.create({
+        data: {
+          type: 'BALANCE_ADJUSTMENT',
+          targetUserId: input.userId,
+          amount: payload.amount,
+          currency,
+          payload,
+          reason: input.description,
+          initiatedById: adminId
+        },
+        include: approvalInclude
+      })
+
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: 'APPROVAL_REQUESTED',
+          targetUserId: input.userId,
+          amount: payload.amount,
+          description: `Requested to ${input.action === 'ADD' ? 'add' : 'subtract'} ${Money.of(payload.amount, currency).format()}: ${input.description}; awaiting a second admin`
+        }
+      })
+
+      return request
+    })
+  }
+
+  /**
+   * Approval requests, oldest first so the queue is worked in order
+   */
+  static async list(status: Prisma.ApprovalRequestWhereInput['status'] = 'PENDING') {
+    return prisma.approvalRequest.findMany({
+      where: { status },
+      include: approvalInclude,
+      orderBy: { createdAt: status === 'PENDING' ? 'asc' : 'desc' },
+      take: 100
+    })
+  }
+
+  /**
+   * Second admin's approval: carry out the held action. The initiator can
+   * never approve their own request.
+   */
+  static async approve(requestId: string, adminId: string, context: {
+    note?: string
+    ipAddress?: string
+    userAgent?: string
+  } = {}) {
+    return prisma.$transaction(async (tx) => {
+      const pending = await tx.approvalRequest.findUnique({ where: { id: requestId } })
+      if (pending?.initiatedById === adminId) {
+        throw new Error('The initiator cannot approve their own request')
+      }
+      const request = await ApprovalService.claim(tx, requestId, adminId, 'APPROVED', context.note)
+
+      let transaction: Transaction | null = null
+      if (request.type === 'TRANSFER_APPROVAL') {
+        const payload = request.payload as { reason?: string | null }
+        transaction = await TransferService.approvePendingTransfer(tx, {
+          transferId: request.transactionId!,
+          adminId,
+          initiatedById: request.initiatedById,
+          reason: context.note || payload.reason || undefined,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        })
+      } else {
+        const payload = request.payload as BalanceAdjustmentPayload
+        await AdminService.postBalanceAdjustment(tx, {
+          userId: request.targetUserId,
+          accountId: payload.accountId,
+          action: payload.action,
+          amount: Money.of(payload.amount),
+          description: payload.description
+        }, adminId)
+      }
+
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: 'APPROVAL_GRANTED',
+          targetUserId: request.targetUserId,
+          amount: request.amount,
+          description: `Approved ${ApprovalService.describe(request)} initiated by ${request.initiatedBy.name}`
+        }
+      })
+
+      return { request, transaction }
+    })
+  }
+
+  /**
+   * Turn a request down. A different admin rejects it; the initiator can
+   * withdraw it. A held transfer goes back to the review queue either way.
+   */
+  static async reject(requestId: string, adminId: string, note?: string) {
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.approvalRequest.findUnique({ where: { id: requestId } })
+      const status = existing?.initiatedById === adminId ? 'CANCELLED' : 'REJECTED'
+      const request = await ApprovalService.claim(tx, requestId, adminId, status, note)
+
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: status === 'CANCELLED' ? 'APPROVAL_WITHDRAWN' : 'APPROVAL_REJECTED',
+          targetUserId: request.targetUserId,
+          amount: request.amount,
+          description: `${status === 'CANCELLED' ? 'Withdrew' : 'Rejected'} ${ApprovalService.describe(request)}${note ? `. Note: ${note}` : ''}`
+        }
+      })
+
+      return request
+    })
+  }
+
+  /**
+   * Close any open request for a transfer that was rejected or cancelled
+   * before the second approval
+   */
+  static async cancelForTransaction(tx: Prisma.TransactionClient, transactionId: string, note: string) {
+    return tx.approvalRequest.updateMany({
+      where: { transactionId, status: 'PENDING' },
+      data: { status: 'CANCELLED', reviewNote: note, reviewedAt: new Date() }
+    })
+  }
+
+  /**
+   * Move a pending request to its final status. Fails if another admin got
+   * there first.
+   */
+  private static async claim(tx: Prisma.TransactionClient, requestId: string, adminId: string, status: 'APPROVED' | 'REJECTED' | 'CANCELLED', note?: string) {
+    const { count } = await tx.approvalRequest.updateMany({
+      where: { id: requestId, status: 'PENDING' },
+      data: { status, reviewedById: adminId, reviewNote: note, reviewedAt: new Date() }
+    })
+    if (count !== 1) {
+      const exists = await tx.approvalRequest.count({ where: { id: requestId } })
+      throw new Error(exists ? 'Approval request is no longer pending' : 'Approval request not found')
+    }
+
+    return tx.approvalRequest.findUniqueOrThrow({ where: { id: requestId }, include: approvalInclude })
+  }
+
+  private static describe(request: { type: string, amount: Prisma.Decimal, currency: string, payload: Prisma.JsonValue }) {
+    const amount = Money.of(request.amount, request.currency).format()
+    if (request.type === 'TRANSFER_APPROVAL') {
+      return `external transfer of ${amount}`
+    }
+    const payload = request.payload as BalanceAdjustmentPayload
+    return `balance ${payload.action === 'ADD' ? 'credit' : 'debit'} of ${amount}`
+  }
+}
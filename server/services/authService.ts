@@ -1,7 +1,11 @@
 import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
+import { randomUUID } from 'crypto'
 import { prisma } from '../prisma'
 import type { CreateUserInput, LoginInput } from '../../shared/validation'
+import { Money } from '../../shared/money'
+import { SanctionsService } from './sanctionsService'
+import { PepService } from './pepService'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key'
 const JWT_EXPIRES_IN = '24h'
@@ -11,7 +15,7 @@ export interface AuthUser {
   name: string
   email: string
   role: 'USER' | 'ADMIN'
-  balance: number
+  balance: string // Fixed-point decimal string, see shared/money.ts
   createdAt: Date
 }
 
@@ -55,7 +59,7 @@ export class AuthService {
       name: user.name,
       email: user.email,
       role: user.role,
-      balance: user.balance,
+      balance: Money.of(user.balance).toString(),
       createdAt: user.createdAt,
     }
 
@@ -75,17 +79,34 @@ export class AuthService {
     // Hash password
     const hashedPassword = await bcrypt.hash(input.password, 10)
 
-    // Create user
+    // Create user together with their primary account (which shares the user's account number)
+    const accountNumber = randomUUID()
     const user = await prisma.user.create({
       data: {
         name: input.name,
         email: input.email,
         password: hashedPassword,
         role: input.role || 'USER',
+        accountNumber,
         accountType: input.accountType || 'CHECKING',
+        accounts: {
+          create: {
+            accountNumber,
+            type: input.accountType || 'CHECKING',
+            isPrimary: true,
+          },
+        },
       },
     })
 
+    // Possible matches go to compliance for review; they never stop sign-up
+    await SanctionsService.screenCustomer(user.id, 'REGISTRATION').catch((error) => {
+      console.error('Sanctions screening error:', error)
+    })
+    await PepService.screenCustomer(user.id).catch((error) => {
+      console.error('PEP screening error:', error)
+    })
+
     const token = jwt.sign(
       { 
         userId: user.id, 
@@ -101,7 +122,7 @@ export class AuthService {
       name: user.name,
       email: user.email,
       role: user.role,
-      balance: user.balance,
+      balance: Money.of(user.balance).toString(),
       createdAt: user.createdAt,
     }
 
@@ -125,7 +146,7 @@ export class AuthService {
         name: user.name,
         email: user.email,
         role: user.role,
-        balance: user.balance,
+        balance: Money.of(user.balance).toString(),
         createdAt: user.createdAt,
       }
     } catch (error) {
@@ -147,7 +168,7 @@ export class AuthService {
       name: user.name,
       email: user.email,
       role: user.role,
-      balance: user.balance,
+      balance: Money.of(user.balance).toString(),
       createdAt: user.createdAt,
     }
   }
@@ -0,0 +1,480 @@
+import fs from 'fs'
+import path from 'path'
+import type { Account, Biller, BillPayment, BillPaymentStatus, Prisma, Transaction, UserBiller } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { DEFAULT_CURRENCY, Money, positiveMoneySchema } from '../../shared/money'
+import { BILLER_CATEGORIES, BILL_PAYMENT_CATEGORY, estimateDeliveryDate, type BillerCategory } from '../../shared/billPay'
+import { isBusinessDay, toCalendarDate } from '../../shared/businessDays'
+import { readCsvRows } from '../utils/csv'
+import { AccountService } from './accountService'
+import { LedgerService } from './ledgerService'
+import { SpendingControlService } from './spendingControlService'
+import { calendarDateSchema } from './scheduledTransferService'
+
+// CSV with a header row: code,name,category,delivery_method,delivery_days,account_number_pattern
+const BILLER_DIRECTORY_PATH = process.env.BILLER_DIRECTORY_PATH || path.join(process.cwd(), 'server', 'data', 'billers.csv')
+
+const MAX_SCHEDULE_DAYS = 365
+const RUN_BATCH_SIZE = 100
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const billerCategories = Object.keys(BILLER_CATEGORIES) as [BillerCategory, ...BillerCategory[]]
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const directoryRowSchema = z.object({
+  code: z.string().min(1).max(40),
+  name: z.string().min(1).max(100),
+  category: z.enum(billerCategories),
+  deliveryMethod: z.enum(['ELECTRONIC', 'CHECK']),
+  deliveryDays: z.coerce.number().int().min(0).max(15),
+  accountNumberPattern: z.string().refine(isValidPattern).nullable()
+})
+
+// Validation schemas
+export const billerSearchSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  category: z.enum(billerCategories).optional()
+})
+
+// Spaces and dashes are dropped so "1234-5678" and "12345678" are the same account
+export const addBillerSchema = z.object({
+  billerId: z.string().uuid(),
+  nickname: z.string().trim().min(1).max(50).optional(),
+  accountNumber: z.string()
+    .transform(value => value.replace(/[\s-]/g, '').toUpperCase())
+    .pipe(z.string().regex(/^[A-Z0-9]{4,30}$/, 'Account number must be 4-30 letters or digits'))
+})
+
+export const updateBillerSchema = z.object({
+  nickname: z.string().trim().min(1, 'Nickname is required').max(50)
+})
+
+export const billPaymentSchema = z.object({
+  userBillerId: z.string().uuid(),
+  amount: positiveMoneySchema()
+    .refine(amount => amount.gte('1'), 'Minimum payment is $1')
+    .refine(amount => amount.lte('25000'), 'Bill payments are limited to $25,000'),
+  // Defaults to today
+  sendOn: calendarDateSchema.optional(),
+  fromAccountId: z.string().uuid().optional(),
+  memo: z.string().trim().max(140).optional()
+})
+
+export type BillPaymentOutcome = 'sent' | 'failed'
+
+// Result of sending one due payment, used by the job to notify the user
+export interface BillPaymentRun {
+  payment: BillPayment
+  outcome: BillPaymentOutcome
+  reason?: string
+  transaction?: Transaction
+}
+
+type UserBillerWithBiller = UserBiller & { biller: Biller }
+
+export class BillPayService {
+  /**
+   * Load the biller directory file: billers are added or updated by code, and
+   * billers no longer in the file are deactivated rather than deleted so
+   * existing payments keep their biller. Invalid rows are skipped.
+   */
+  static async importDirectory(filePath: string = BILLER_DIRECTORY_PATH) {
+    if (!fs.existsSync(filePath)) {
+      console.warn(`Biller directory not found at ${filePath}; bill pay has no billers`)
+      return { imported: 0, skipped: 0 }
+    }
+
+    const billers: z.infer<typeof directoryRowSchema>[] = []
+    let skipped = 0
+
+    for (const row of readCsvRows(fs.readFileSync(filePath, 'utf8'))) {
+      const [code = '', name = '', category = '', deliveryMethod = '', deliveryDays = '', accountNumberPattern = ''] = row
+      const parsed = directoryRowSchema.safeParse({
+        code: code.toUpperCase(),
+        name,
+        category,
+        deliveryMethod: deliveryMethod.toUpperCase(),
+        deliveryDays,
+        accountNumberPattern: accountNumberPattern || null
+      })
+      if (parsed.success) {
+        billers.push(parsed.data)
+      } else {
+        skipped++
+      }
+    }
+
+    await prisma.$transaction([
+      ...billers.map(biller => prisma.biller.upsert({
+        where: { code: biller.code },
+        update: { ...biller, isActive: true },
+        create: biller
+      })),
+      prisma.biller.updateMany({
+        where: { code: { notIn: billers.map(biller => biller.code) } },
+        data: { isActive: false }
+      })
+    ])
+
+    if (skipped > 0) {
+      console.warn(`Biller directory: skipped ${skipped} invalid row(s)`)
+    }
+
+    return { imported: billers.length, skipped }
+  }
+
+  static async searchDirectory(filters: z.infer<typeof billerSearchSchema>) {
+    return prisma.biller.findMany({
+      where: {
+        isActive: true,
+        category: filters.category,
+        name: filters.q ? { contains: filters.q, mode: 'insensitive' } : undefined
+      },
+      orderBy: { name: 'asc' },
+      take: 50
+    })
+  }
+
+  /**
+   * The user's billers, most recently paid first, with account numbers masked
+   */
+  static async listBillers(userId: string) {
+    const billers = await prisma.userBiller.findMany({
+      where: { userId },
+      include: { biller: true },
+      orderBy: [{ lastPaidAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }]
+    })
+    return billers.map(userBiller => BillPayService.presentBiller(userBiller))
+  }
+
+  static async getBiller(userId: string, id: string) {
+    const userBiller = await prisma.userBiller.findFirst({
+      where: { id, userId },
+      include: { biller: true }
+    })
+    if (!userBiller) {
+      throw new Error('Biller not found')
+    }
+    return userBiller
+  }
+
+  static async addBiller(userId: string, data: z.infer<typeof addBillerSchema>, context: {
+    ipAddress?: string
+    userAgent?: string
+  } = {}) {
+    const biller = await prisma.biller.findFirst({ where: { id: data.billerId, isActive: true } })
+    if (!biller) {
+      throw new Error('Biller not found')
+    }
+
+    if (biller.accountNumberPattern && !new RegExp(biller.accountNumberPattern).test(data.accountNumber)) {
+      throw new Error('Account number is not in the format this biller uses')
+    }
+
+    const existing = await prisma.userBiller.findUnique({
+      where: {
+        userId_billerId_accountNumber: {
+          userId,
+          billerId: biller.id,
+          accountNumber: data.accountNumber
+        }
+      }
+    })
+    if (existing) {
+      throw new Error('Biller already added')
+    }
+
+    const userBiller = await prisma.userBiller.create({
+      data: {
+        userId,
+        billerId: biller.id,
+        nickname: data.nickname || biller.name,
+        accountNumber: data.accountNumber
+      },
+      include: { biller: true }
+    })
+
+    await prisma.securityEvent.create({
+      data: {
+        userId,
+        eventType: 'BILLER_ADDED',
+        description: `Biller ${biller.name} added (account ending in ${data.accountNumber.slice(-4)})`,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        riskLevel: 'LOW',
+        metadata: { userBillerId: userBiller.id, billerCode: biller.code }
+      }
+    })
+
+    return BillPayService.presentBiller(userBiller)
+  }
+
+  static async updateBiller(userId: string, id: string, changes: z.infer<typeof updateBillerSchema>) {
+    const userBiller = await BillPayService.getBiller(userId, id)
+    const updated = await prisma.userBiller.update({
+      where: { id: userBiller.id },
+      data: { nickname: changes.nickname },
+      include: { biller: true }
+    })
+    return BillPayService.presentBiller(updated)
+  }
+
+  /**
+   * Remove a biller and cancel its scheduled payments. Payments already sent
+   * keep the biller's name and stay in the payment history.
+   */
+  static async removeBiller(userId: string, id: string, context: {
+    ipAddress?: string
+    userAgent?: string
+  } = {}) {
+    const userBiller = await BillPayService.getBiller(userId, id)
+
+    const [cancelled] = await prisma.$transaction([
+      prisma.billPayment.updateMany({
+        where: { userBillerId: userBiller.id, status: 'SCHEDULED' },
+        data: { status: 'CANCELLED', cancelledAt: new Date() }
+      }),
+      prisma.userBiller.delete({ where: { id: userBiller.id } }),
+      prisma.securityEvent.create({
+        data: {
+          userId,
+          eventType: 'BILLER_REMOVED',
+          description: `Biller ${userBiller.nickname} removed`,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          riskLevel: 'LOW',
+          metadata: { userBillerId: userBiller.id, billerCode: userBiller.biller.code }
+        }
+      })
+    ])
+
+    return { cancelledPayments: cancelled.count }
+  }
+
+  static async listPayments(userId: string, status?: BillPaymentStatus) {
+    const payments = await prisma.billPayment.findMany({
+      where: { userId, status },
+      orderBy: [{ sendOn: 'desc' }, { createdAt: 'desc' }],
+      take: 100
+    })
+    return payments.map(payment => BillPayService.presentPayment(payment))
+  }
+
+  /**
+   * Pay a bill today or schedule it for a later send-on date. A payment due
+   * today on a business day is sent straight away, and fails outright if the
+   * account cannot cover it; anything else waits for the bill payment job.
+   */
+  static async schedulePayment(userId: string, data: z.infer<typeof billPaymentSchema>) {
+    const userBiller = await BillPayService.getBiller(userId, data.userBillerId)
+    if (!userBiller.biller.isActive) {
+      throw new Error('This biller is no longer available')
+    }
+
+    const today = toCalendarDate()
+    const sendOn = data.sendOn ? toCalendarDate(data.sendOn) : today
+    if (sendOn < today) {
+      throw new Error('Send-on date cannot be in the past')
+    }
+    if (new Date(`${sendOn}T00:00:00.000Z`).getTime() - new Date(`${today}T00:00:00.000Z`).getTime() > MAX_SCHEDULE_DAYS * DAY_MS) {
+      throw new Error('Payments can be scheduled up to a year ahead')
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const account = await AccountService.resolveAccount(tx, userId, data.fromAccountId)
+      AccountService.assertActive(account)
+      if (account.currency !== DEFAULT_CURRENCY) {
+        throw new Error('Bills can only be paid from USD accounts')
+      }
+
+      const payment = await tx.billPayment.create({
+        data: {
+          userId,
+          userBillerId: userBiller.id,
+          accountId: account.id,
+          billerName: userBiller.biller.name,
+          accountLast4: userBiller.accountNumber.slice(-4),
+          amount: data.amount.toString(),
+          currency: account.currency,
+          memo: data.memo,
+          sendOn: new Date(`${sendOn}T00:00:00.000Z`),
+          deliverBy: new Date(`${estimateDeliveryDate(sendOn, userBiller.biller.deliveryDays)}T00:00:00.000Z`)
+        }
+      })
+
+      if (sendOn !== today || !isBusinessDay(today)) {
+        return { payment: BillPayService.presentPayment(payment), transaction: null }
+      }
+
+      const sent = await BillPayService.send(tx, payment, account, new Date())
+      return { payment: BillPayService.presentPayment(sent.payment), transaction: sent.transaction }
+    })
+  }
+
+  static async cancelPayment(userId: string, id: string) {
+    const payment = await prisma.billPayment.findFirst({ where: { id, userId } })
+    if (!payment) {
+      throw new Error('Bill payment not found')
+    }
+
+    // Guarded so a payment the job is sending cannot also be cancelled
+    const { count } = await prisma.billPayment.updateMany({
+      where: { id, status: 'SCHEDULED' },
+      data: { status: 'CANCELLED', cancelledAt: new Date() }
+    })
+    if (count !== 1) {
+      throw new Error('Only scheduled payments can be cancelled')
+    }
+
+    return BillPayService.presentPayment({ ...payment, status: 'CANCELLED', cancelledAt: new Date() })
+  }
+
+  /**
+   * Send every scheduled payment whose send-on date has arrived. Nothing is
+   * sent at weekends; those payments go out on the next business day.
+   */
+  static async runDue(now: Date = new Date()) {
+    const today = toCalendarDate(now)
+    if (!isBusinessDay(today)) return []
+
+    const due = await prisma.billPayment.findMany({
+      where: { status: 'SCHEDULED', sendOn: { lte: new Date(`${today}T00:00:00.000Z`) } },
+      orderBy: { sendOn: 'asc' },
+      take: RUN_BATCH_SIZE
+    })
+
+    const runs: BillPaymentRun[] = []
+    for (const payment of due) {
+      try {
+        const sent = await prisma.$transaction(async (tx) => {
+          const account = await AccountService.resolveAccount(tx, payment.userId, payment.accountId)
+          AccountService.assertActive(account)
+          return BillPayService.send(tx, payment, account, now)
+        })
+        runs.push({ payment: sent.payment, outcome: 'sent', transaction: sent.transaction })
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Payment failed'
+        const failed = await prisma.billPayment.updateMany({
+          where: { id: payment.id, status: 'SCHEDULED' },
+          data: { status: 'FAILED', failureReason: reason }
+        })
+        if (failed.count === 1) {
+          runs.push({ payment: { ...payment, status: 'FAILED', failureReason: reason }, outcome: 'failed', reason })
+        }
+      }
+    }
+    return runs
+  }
+
+  /**
+   * Debit the payment from the customer's account into bill payment clearing
+   * and record it in their transaction history. The status update is guarded
+   * so a payment that was cancelled meanwhile is not sent.
+   */
+  private static async send(tx: Prisma.TransactionClient, payment: BillPayment, account: Account, now: Date) {
+    const { count } = await tx.billPayment.updateMany({
+      where: { id: payment.id, status: 'SCHEDULED' },
+      data: { status: 'SENT', sentAt: now }
+    })
+    if (count !== 1) {
+      throw new Error('Bill payment is no longer scheduled')
+    }
+
+    await SpendingControlService.beforeDebit(tx, account, payment.amount)
+
+    const reference = `BILL-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+    const description = `Bill payment to ${payment.billerName}`
+
+    const transaction = await tx.transaction.create({
+      data: {
+        userId: payment.userId,
+        accountId: payment.accountId,
+        type: 'DEBIT',
+        amount: payment.amount,
+        currency: payment.currency,
+        description,
+        reference,
+        status: 'COMPLETED',
+        metadata: {
+          transferType: 'bill_payment',
+          category: BILL_PAYMENT_CATEGORY,
+          recipientInfo: payment.billerName,
+          accountLast4: payment.accountLast4,
+          billPaymentId: payment.id,
+          memo: payment.memo,
+          deliverBy: toCalendarDate(payment.deliverBy),
+          status: 'completed',
+          submittedAt: now.toISOString(),
+          requiresApproval: false
+        }
+      }
+    })
+
+    const customerLedger = await LedgerService.getAccountLedger(tx, payment.accountId)
+    const clearingAccount = await LedgerService.getSystemAccount(tx, 'BILL_PAY_CLEARING', payment.currency)
+    await LedgerService.postTransfer(tx, {
+      debitAccountId: customerLedger.id,
+      creditAccountId: clearingAccount.id,
+      amount: payment.amount,
+      description,
+      reference,
+      transactionId: transaction.id,
+      createdById: payment.userId
+    })
+
+    const sent = await tx.billPayment.update({
+      where: { id: payment.id },
+      data: { transactionId: transaction.id }
+    })
+
+    if (payment.userBillerId) {
+      await tx.userBiller.updateMany({
+        where: { id: payment.userBillerId },
+        data: { lastPaidAt: now }
+      })
+    }
+
+    return { payment: sent, transaction }
+  }
+
+  /**
+   * API shape of a user's biller: directory details and a masked account number
+   */
+  static presentBiller(userBiller: UserBillerWithBiller) {
+    const { accountNumber, biller, ...rest } = userBiller
+    return {
+      ...rest,
+      accountLast4: accountNumber.slice(-4),
+      biller: {
+        id: biller.id,
+        name: biller.name,
+        category: biller.category,
+        deliveryMethod: biller.deliveryMethod,
+        deliveryDays: biller.deliveryDays,
+        isActive: biller.isActive
+      }
+    }
+  }
+
+  /**
+   * API shape of a payment, with calendar dates as YYYY-MM-DD
+   */
+  static presentPayment(payment: BillPayment) {
+    return {
+      ...payment,
+      amount: Money.of(payment.amount, payment.currency).toString(),
+      sendOn: toCalendarDate(payment.sendOn),
+      deliverBy: toCalendarDate(payment.deliverBy)
+    }
+  }
+}
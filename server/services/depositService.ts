@@ -0,0 +1,553 @@
+import type { Account, Deposit, DepositMethod, Hold, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { DEFAULT_CURRENCY, Money, positiveMoneySchema } from '../../shared/money'
+import { addBusinessDays, toCalendarDate } from '../../shared/businessDays'
+import { accountNumberSchema, routingNumberSchema } from '../../shared/beneficiary'
+import { AccountService } from './accountService'
+import { LedgerService } from './ledgerService'
+import { PayeeService } from './payeeService'
+
+// Business days before a deposit's funds are available, by method
+const CLEARING_DAYS: Record<DepositMethod, number> = {
+  LINKED_BANK: parseInt(process.env.DEPOSIT_CLEARING_DAYS_LINKED_BANK || '3', 10),
+  WIRE: parseInt(process.env.DEPOSIT_CLEARING_DAYS_WIRE || '0', 10),
+  CASH: parseInt(process.env.DEPOSIT_CLEARING_DAYS_CASH || '1', 10),
+  CHECK: parseInt(process.env.DEPOSIT_CLEARING_DAYS_CHECK || '2', 10),
+}
+
+// Part of a deposit with a longer clearing period that is available the next business day
+const NEXT_DAY_AMOUNT = process.env.DEPOSIT_NEXT_DAY_AMOUNT || '225'
+
+const METHOD_LABELS: Record<DepositMethod, string> = {
+  LINKED_BANK: 'linked bank account',
+  WIRE: 'wire transfer',
+  CASH: 'cash at branch',
+  CHECK: 'mobile check deposit',
+}
+
+const RUN_BATCH_SIZE = 100
+
+// Daily deposit limits based on user risk level and KYC status
+function getDailyDepositLimits(riskLevel: string, kycStatus: string) {
+  if (kycStatus === 'APPROVED') {
+    switch (riskLevel) {
+      case 'LOW': return { amount: Money.of('50000'), count: 10 }
+      case 'MEDIUM': return { amount: Money.of('25000'), count: 8 }
+      case 'HIGH': return { amount: Money.of('5000'), count: 3 }
+      default: return { amount: Money.of('10000'), count: 5 }
+    }
+  }
+  return { amount: Money.of('1000'), count: 2 } // Unverified users
+}
+
+function startOfUtcDay(date: Date) {
+  return new Date(`${toCalendarDate(date)}T00:00:00.000Z`)
+}
+
+// Validation schemas
+export const depositSchema = z.object({
+  method: z.enum(['LINKED_BANK', 'WIRE', 'CASH']),
+  amount: positiveMoneySchema().refine(amount => amount.gte('1'), 'Minimum deposit is $1'),
+  accountId: z.string().uuid().optional(),
+  // The saved external account a linked bank deposit is pulled from
+  payeeId: z.string().uuid().optional(),
+  reference: z.string().trim().max(64).optional(),
+}).superRefine((data, ctx) => {
+  if (data.method === 'LINKED_BANK' && !data.payeeId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['payeeId'],
+      message: 'Choose the bank account to pull funds from'
+    })
+  }
+})
+
+export const checkDepositSchema = z.object({
+  amount: positiveMoneySchema().refine(amount => amount.gte('1'), 'Minimum deposit is $1'),
+  accountId: z.string().uuid().optional(),
+  checkNumber: z.string().trim().regex(/^\d{1,10}$/, 'Check number must be up to 10 digits'),
+  // MICR line details, when the user can read them off the check
+  routingNumber: routingNumberSchema.optional(),
+  accountNumber: accountNumberSchema.optional(),
+  endorsed: z.literal('true', {
+    errorMap: () => ({ message: 'Confirm the check is endorsed "For mobile deposit only"' })
+  }),
+})
+
+export const checkReviewSchema = z.object({
+  note: z.string().trim().max(500).optional()
+})
+
+export const checkRejectionSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(500)
+})
+
+export interface CheckImages {
+  frontImage: string
+  backImage: string
+  frontHash: string
+  backHash: string
+}
+
+export interface AvailabilityPortion {
+  amount: Money
+  availableAt: Date
+}
+
+export interface DepositViolation {
+  message: string
+  code: string
+}
+
+export class DepositService {
+  /**
+   * When each part of a deposit becomes available. Deposits that clear over
+   * several days make a first slice available the next business day; the
+   * rest is available once the clearing period ends. Portions available
+   * straight away are not held.
+   */
+  static availabilitySchedule(method: DepositMethod, amount: Money, now: Date = new Date()): AvailabilityPortion[] {
+    const days = CLEARING_DAYS[method]
+    if (days <= 0) {
+      return [{ amount, availableAt: now }]
+    }
+
+    const today = toCalendarDate(now)
+    const portions: AvailabilityPortion[] = []
+    let remaining = amount
+
+    if (days > 1) {
+      const nextDay = Money.min(amount, Money.of(NEXT_DAY_AMOUNT))
+      if (nextDay.isPositive()) {
+        portions.push({ amount: nextDay, availableAt: new Date(`${addBusinessDays(today, 1)}T00:00:00.000Z`) })
+        remaining = remaining.subtract(nextDay)
+      }
+    }
+
+    if (remaining.isPositive()) {
+      portions.push({ amount: remaining, availableAt: new Date(`${addBusinessDays(today, days)}T00:00:00.000Z`) })
+    }
+
+    return portions
+  }
+
+  /**
+   * The user's daily deposit limit for their KYC status and risk level, and
+   * how much of it today's deposits have used
+   */
+  static async getLimits(userId: string, now: Date = new Date()) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { riskLevel: true, kycStatus: true }
+    })
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const today = await prisma.deposit.aggregate({
+      _sum: { amount: true },
+      _count: true,
+      where: { userId, status: { not: 'REJECTED' }, createdAt: { gte: startOfUtcDay(now) } }
+    })
+
+    const limits = getDailyDepositLimits(user.riskLevel, user.kycStatus)
+    const used = Money.of(today._sum.amount || '0')
+
+    return {
+      amount: limits.amount,
+      count: limits.count,
+      usedAmount: used,
+      usedCount: today._count || 0,
+      remaining: Money.max(limits.amount.subtract(used), Money.zero())
+    }
+  }
+
+  /**
+   * Reason a deposit cannot be made, or null when it can
+   */
+  static async checkLimits(userId: string, amount: Money): Promise<DepositViolation | null> {
+    const limits = await DepositService.getLimits(userId)
+
+    if (limits.usedAmount.add(amount).gt(limits.amount)) {
+      return {
+        message: `Daily deposit limit of ${limits.amount.format({ showCents: false })} exceeded`,
+        code: 'DAILY_DEPOSIT_LIMIT_EXCEEDED'
+      }
+    }
+    if (limits.usedCount >= limits.count) {
+      return {
+        message: `Daily limit of ${limits.count} deposits reached`,
+        code: 'DAILY_DEPOSIT_COUNT_EXCEEDED'
+      }
+    }
+    return null
+  }
+
+  static async list(userId: string, limit = 50) {
+    const deposits = await prisma.deposit.findMany({
+      where: { userId },
+      include: { holds: true },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+    return deposits.map(deposit => DepositService.present(deposit))
+  }
+
+  /**
+   * Credit a deposit to the account and hold each portion of it until its
+   * availability date. The credit stays PENDING until everything has cleared.
+   */
+  static async create(userId: string, data: z.infer<typeof depositSchema>) {
+    const deposit = await prisma.$transaction(async (tx) => {
+      const account = await AccountService.resolveAccount(tx, userId, data.accountId)
+      DepositService.assertDepositable(account)
+
+      let source: string | undefined
+      if (data.method === 'LINKED_BANK') {
+        const payee = await PayeeService.get(userId, data.payeeId!)
+        if (payee.verificationStatus === 'FAILED') {
+          throw new Error('This bank account cannot be used for deposits')
+        }
+        source = `${payee.bankName} ••${payee.accountNumber.slice(-4)}`
+      }
+
+      const created = await tx.deposit.create({
+        data: {
+          userId,
+          accountId: account.id,
+          method: data.method,
+          amount: data.amount.toString(),
+          currency: account.currency,
+          source,
+          reference: data.reference
+        }
+      })
+
+      return DepositService.post(tx, created, userId)
+    })
+
+    return DepositService.present(deposit)
+  }
+
+  /**
+   * Take a mobile check deposit into the review queue. Nothing is credited
+   * until an admin approves the check. The same images presented again are
+   * refused outright; a check whose details match an earlier one is flagged
+   * for the reviewer.
+   */
+  static async submitCheck(userId: string, data: z.infer<typeof checkDepositSchema>, images: CheckImages) {
+    const deposit = await prisma.$transaction(async (tx) => {
+      const account = await AccountService.resolveAccount(tx, userId, data.accountId)
+      DepositService.assertDepositable(account)
+
+      const sameImages = await tx.deposit.findFirst({
+        where: {
+          method: 'CHECK',
+          status: { not: 'REJECTED' },
+          OR: [{ checkFrontHash: images.frontHash }, { checkBackHash: images.backHash }]
+        }
+      })
+      if (sameImages) {
+        throw new Error('This check has already been deposited')
+      }
+
+      const sameDetails = await tx.deposit.findFirst({
+        where: {
+          method: 'CHECK',
+          status: { not: 'REJECTED' },
+          checkNumber: data.checkNumber,
+          amount: data.amount.toString(),
+          // MICR details only rule out a match when both deposits have them
+          AND: [
+            data.routingNumber ? { OR: [{ checkRoutingNumber: data.routingNumber }, { checkRoutingNumber: null }] } : {},
+            data.accountNumber ? { OR: [{ checkAccountNumber: data.accountNumber }, { checkAccountNumber: null }] } : {}
+          ]
+        },
+        orderBy: { createdAt: 'asc' }
+      })
+
+      const created = await tx.deposit.create({
+        data: {
+          userId,
+          accountId: account.id,
+          method: 'CHECK',
+          amount: data.amount.toString(),
+          currency: account.currency,
+          status: 'PENDING_REVIEW',
+          source: `Check #${data.checkNumber}`,
+          checkNumber: data.checkNumber,
+          checkRoutingNumber: data.routingNumber,
+          checkAccountNumber: data.accountNumber,
+          checkFrontImage: images.frontImage,
+          checkBackImage: images.backImage,
+          checkFrontHash: images.frontHash,
+          checkBackHash: images.backHash,
+          endorsementConfirmedAt: new Date(),
+          duplicateOfId: sameDetails?.id
+        },
+        include: { holds: true }
+      })
+
+      return created
+    })
+
+    return DepositService.present(deposit)
+  }
+
+  /**
+   * Check deposits waiting for review, oldest first, with the depositor and
+   * any earlier deposit the check matches
+   */
+  static async listReviewQueue() {
+    const deposits = await prisma.deposit.findMany({
+      where: { status: 'PENDING_REVIEW' },
+      include: {
+        holds: true,
+        user: { select: { id: true, name: true, email: true, riskLevel: true, kycStatus: true, createdAt: true } },
+        duplicateOf: { select: { id: true, userId: true, amount: true, status: true, checkNumber: true, createdAt: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return deposits.map(({ user, duplicateOf, ...deposit }) => ({
+      ...DepositService.present(deposit),
+      user,
+      duplicateOf: duplicateOf && { ...duplicateOf, amount: Money.of(duplicateOf.amount).toString() }
+    }))
+  }
+
+  /**
+   * Filename of one side of a check deposit's images
+   */
+  static async getCheckImage(depositId: string, side: 'front' | 'back') {
+    const deposit = await prisma.deposit.findUnique({ where: { id: depositId } })
+    const filename = side === 'front' ? deposit?.checkFrontImage : deposit?.checkBackImage
+    if (!deposit || !filename) {
+      throw new Error('Deposit not found')
+    }
+    return { filename, userId: deposit.userId }
+  }
+
+  /**
+   * Record that an admin looked at an image of a customer's check
+   */
+  static async logCheckImageView(adminId: string, depositId: string, depositorId: string, side: 'front' | 'back') {
+    await prisma.adminLog.create({
+      data: {
+        adminId,
+        action: 'CHECK_IMAGE_VIEWED',
+        targetUserId: depositorId,
+        description: `Viewed the ${side} of check deposit ${depositId}`
+      }
+    })
+  }
+
+  /**
+   * Approve a check deposit and credit it with the usual clearing holds
+   */
+  static async approveCheck(depositId: string, adminId: string, note?: string) {
+    const deposit = await prisma.$transaction(async (tx) => {
+      const now = new Date()
+      const { count } = await tx.deposit.updateMany({
+        where: { id: depositId, status: 'PENDING_REVIEW' },
+        data: { status: 'CLEARING', reviewedById: adminId, reviewedAt: now, reviewNotes: note }
+      })
+      if (count === 0) {
+        throw await DepositService.reviewError(tx, depositId)
+      }
+
+      const approved = await tx.deposit.findUniqueOrThrow({ where: { id: depositId } })
+      const account = await tx.account.findUnique({ where: { id: approved.accountId } })
+      if (!account) {
+        throw new Error('Account not found')
+      }
+      AccountService.assertActive(account)
+
+      return DepositService.post(tx, approved, adminId, now)
+    })
+
+    return DepositService.present(deposit)
+  }
+
+  /**
+   * Turn down a check deposit. Nothing was credited, so there is nothing to undo.
+   */
+  static async rejectCheck(depositId: string, adminId: string, reason: string) {
+    const deposit = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.deposit.updateMany({
+        where: { id: depositId, status: 'PENDING_REVIEW' },
+        data: { status: 'REJECTED', reviewedById: adminId, reviewedAt: new Date(), rejectionReason: reason }
+      })
+      if (count === 0) {
+        throw await DepositService.reviewError(tx, depositId)
+      }
+
+      return tx.deposit.findUniqueOrThrow({ where: { id: depositId }, include: { holds: true } })
+    })
+
+    return DepositService.present(deposit)
+  }
+
+  private static async reviewError(tx: Prisma.TransactionClient, depositId: string) {
+    const exists = await tx.deposit.findUnique({ where: { id: depositId }, select: { id: true } })
+    return new Error(exists ? 'Deposit is not awaiting review' : 'Deposit not found')
+  }
+
+  private static assertDepositable(account: Pick<Account, 'status' | 'currency'>) {
+    AccountService.assertActive(account)
+    if (account.currency !== DEFAULT_CURRENCY) {
+      throw new Error('Deposits can only be made to USD accounts')
+    }
+  }
+
+  /**
+   * Post the CREDIT for a deposit and hold each portion of it until its
+   * availability date
+   */
+  private static async post(tx: Prisma.TransactionClient, deposit: Deposit, actorId: string, now: Date = new Date()) {
+    const amount = Money.of(deposit.amount, deposit.currency)
+    const schedule = DepositService.availabilitySchedule(deposit.method, amount, now)
+    const held = schedule.filter(portion => portion.availableAt > now)
+    const availableAt = schedule[schedule.length - 1].availableAt
+    const reference = `DEP-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+    const description = `Deposit via ${METHOD_LABELS[deposit.method]}`
+
+    const transaction = await tx.transaction.create({
+      data: {
+        userId: deposit.userId,
+        accountId: deposit.accountId,
+        type: 'CREDIT',
+        amount: amount.toString(),
+        currency: deposit.currency,
+        description,
+        reference,
+        status: held.length > 0 ? 'PENDING' : 'COMPLETED',
+        metadata: {
+          transferType: 'deposit',
+          category: 'deposit',
+          depositId: deposit.id,
+          depositMethod: deposit.method,
+          senderInfo: deposit.source,
+          status: held.length > 0 ? 'clearing' : 'completed',
+          availableAt: availableAt.toISOString(),
+          availability: schedule.map(portion => ({
+            amount: portion.amount.toString(),
+            availableAt: portion.availableAt.toISOString()
+          }))
+        }
+      }
+    })
+
+    await tx.deposit.update({
+      where: { id: deposit.id },
+      data: {
+        status: held.length > 0 ? 'CLEARING' : 'AVAILABLE',
+        transactionId: transaction.id,
+        availableAt
+      }
+    })
+
+    const customerLedger = await LedgerService.getAccountLedger(tx, deposit.accountId)
+    const clearingAccount = await LedgerService.getSystemAccount(tx, 'DEPOSIT_CLEARING', deposit.currency)
+    await LedgerService.postTransfer(tx, {
+      debitAccountId: clearingAccount.id,
+      creditAccountId: customerLedger.id,
+      amount,
+      description,
+      reference,
+      transactionId: transaction.id,
+      createdById: actorId
+    })
+
+    // Placed after the credit so the funds exist to be held
+    for (const portion of held) {
+      await tx.hold.create({
+        data: {
+          accountId: deposit.accountId,
+          depositId: deposit.id,
+          amount: portion.amount.toString(),
+          reason: `Deposit clearing until ${toCalendarDate(portion.availableAt)}`,
+          expiresAt: portion.availableAt
+        }
+      })
+    }
+
+    return tx.deposit.findUniqueOrThrow({ where: { id: deposit.id }, include: { holds: true } })
+  }
+
+  /**
+   * Close out clearing holds that have lapsed and mark deposits whose funds are
+   * all available. Holds stop counting against the balance when they expire,
+   * so this only tidies their status and completes the pending credit.
+   */
+  static async releaseCleared(now: Date = new Date()) {
+    await prisma.hold.updateMany({
+      where: { depositId: { not: null }, status: 'ACTIVE', expiresAt: { lte: now } },
+      data: { status: 'RELEASED', releasedAt: now }
+    })
+
+    const due = await prisma.deposit.findMany({
+      where: { status: 'CLEARING', availableAt: { lte: now } },
+      orderBy: { availableAt: 'asc' },
+      take: RUN_BATCH_SIZE
+    })
+
+    const cleared: Deposit[] = []
+    for (const deposit of due) {
+      const updated = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.deposit.updateMany({
+          where: { id: deposit.id, status: 'CLEARING' },
+          data: { status: 'AVAILABLE' }
+        })
+        if (count === 0) return null
+
+        if (deposit.transactionId) {
+          const transaction = await tx.transaction.findUnique({ where: { id: deposit.transactionId } })
+          if (transaction) {
+            await tx.transaction.update({
+              where: { id: transaction.id },
+              data: {
+                status: 'COMPLETED',
+                metadata: {
+                  ...(transaction.metadata as Record<string, unknown>),
+                  status: 'completed',
+                  clearedAt: now.toISOString()
+                }
+              }
+            })
+          }
+        }
+
+        return { ...deposit, status: 'AVAILABLE' as const }
+      })
+
+      if (updated) cleared.push(updated)
+    }
+
+    return cleared
+  }
+
+  /**
+   * API shape of a deposit with its availability schedule
+   */
+  static present(deposit: Deposit & { holds: Hold[] }) {
+    // Image filenames and hashes stay on the server; admins fetch images by deposit
+    const { holds, checkFrontImage, checkBackImage, checkFrontHash, checkBackHash, ...rest } = deposit
+    const now = new Date()
+    const held = holds.filter(hold => hold.status === 'ACTIVE' && hold.expiresAt > now)
+
+    return {
+      ...rest,
+      amount: Money.of(deposit.amount, deposit.currency).toString(),
+      heldAmount: Money.sum(held.map(hold => hold.amount), deposit.currency).toString(),
+      availability: holds
+        .map(hold => ({
+          amount: Money.of(hold.amount, deposit.currency).toString(),
+          availableAt: hold.expiresAt,
+          cleared: !held.includes(hold)
+        }))
+        .sort((a, b) => a.availableAt.getTime() - b.availableAt.getTime())
+    }
+  }
+}
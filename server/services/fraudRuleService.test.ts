@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Money } from '../../shared/money'
+
+const db = vi.hoisted(() => ({
+  transaction: { count: vi.fn(async () => 0), findMany: vi.fn() },
+  payee: { findFirst: vi.fn() }
+}))
+
+vi.mock('../prisma', () => ({ prisma: db }))
+vi.mock('./fxService', () => ({
+  FxService: { getMidRate: vi.fn(async (from: string) => (from === 'EUR' ? '1.10' : null)) }
+}))
+
+import { FraudRuleService } from './fraudRuleService'
+
+const AT = new Date('2026-03-31T12:00:00Z')
+
+describe('FraudRuleService.gatherFacts', () => {
+  it('compares the amount and the 30 day history in USD', async () => {
+    db.transaction.findMany.mockResolvedValue([
+      { amount: '100.00', currency: 'EUR' },
+      { amount: '50.00', currency: 'USD' },
+      // No rate, so it counts at face value
+      { amount: '90.00', currency: 'GBP' }
+    ])
+
+    const facts = await FraudRuleService.gatherFacts('user-1', { amount: Money.of('1000.00', 'EUR'), transferType: 'p2p' }, AT)
+
+    expect(facts).toMatchObject({
+      amount: '1100.00',
+      debitCount30d: 3,
+      averageDebit30d: '83.33',
+      maxDebit30d: '110.00'
+    })
+  })
+
+  it('reports an empty history as zero', async () => {
+    db.transaction.findMany.mockResolvedValue([])
+
+    const facts = await FraudRuleService.gatherFacts('user-1', { amount: Money.of('25.00'), transferType: 'p2p' }, AT)
+
+    expect(facts).toMatchObject({ amount: '25.00', debitCount30d: 0, averageDebit30d: '0.00', maxDebit30d: '0.00' })
+  })
+})
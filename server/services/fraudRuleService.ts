@@ -0,0 +1,573 @@
+import type { FraudRule, FraudRuleSet, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { Money } from '../../shared/money'
+import {
+  evaluateFraudCondition,
+  fraudConditionError,
+  fraudConditionSchema,
+  fraudDecision,
+  fraudRiskLevel,
+  type FraudCondition,
+  type FraudDecision,
+  type FraudFactor,
+  type FraudFacts,
+  type FraudRiskLevel
+} from '../../shared/fraudRules'
+import { LimitService } from './limitService'
+import { PayeeService } from './payeeService'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Dry runs replay at most this many transfers, newest first
+const MAX_DRY_RUN_TRANSFERS = 1000
+// Transfers listed in a dry run whose decision would change
+const MAX_DRY_RUN_CHANGES = 100
+
+// Transfers scored by the rules that a dry run can replay
+const REPLAYED_TRANSFER_TYPES = ['external_bank', 'p2p']
+
+type DefaultRule = Pick<FraudRule, 'key' | 'score' | 'reason'> & { condition: FraudCondition }
+
+// Version 1, installed on a fresh database
+const DEFAULT_RULES: DefaultRule[] = [
+  {
+    key: 'very_high_amount',
+    condition: { fact: 'amount', operator: 'gt', value: 25000 },
+    score: 5,
+    reason: 'Very high amount'
+  },
+  {
+    key: 'high_amount',
+    condition: { all: [{ fact: 'amount', operator: 'gt', value: 10000 }, { fact: 'amount', operator: 'lte', value: 25000 }] },
+    score: 3,
+    reason: 'High amount'
+  },
+  {
+    key: 'moderate_amount',
+    condition: { all: [{ fact: 'amount', operator: 'gt', value: 5000 }, { fact: 'amount', operator: 'lte', value: 10000 }] },
+    score: 1,
+    reason: 'Moderate amount'
+  },
+  {
+    key: 'high_frequency',
+    condition: { fact: 'debitCount24h', operator: 'gt', value: 10 },
+    score: 3,
+    reason: 'High transaction frequency'
+  },
+  {
+    key: 'new_payee',
+    condition: { fact: 'isNewPayee', operator: 'eq', value: true },
+    score: 3,
+    reason: 'Payee added in the last 24 hours'
+  },
+  {
+    key: 'new_recipient_bank',
+    condition: { fact: 'isNewRecipientBank', operator: 'eq', value: true },
+    score: 2,
+    reason: 'New recipient bank'
+  },
+  {
+    key: 'above_average',
+    // Only users with history have an average to compare against
+    condition: { all: [{ fact: 'debitCount30d', operator: 'gt', value: 0 }, { fact: 'amount', operator: 'gt', value: { fact: 'averageDebit30d', multiplier: 5 } }] },
+    score: 2,
+    reason: 'Amount significantly higher than average'
+  },
+  {
+    key: 'above_recent_max',
+    condition: { all: [{ fact: 'debitCount30d', operator: 'gt', value: 0 }, { fact: 'amount', operator: 'gt', value: { fact: 'maxDebit30d', multiplier: 1.5 } }] },
+    score: 1,
+    reason: 'Amount exceeds recent maximum'
+  },
+  {
+    key: 'unusual_hour',
+    condition: { any: [{ fact: 'hourOfDay', operator: 'lt', value: 6 }, { fact: 'hourOfDay', operator: 'gte', value: 23 }] },
+    score: 1,
+    reason: 'Transfer at unusual hour'
+  }
+]
+
+// Validation schemas
+const conditionSchema = fraudConditionSchema.superRefine((condition, ctx) => {
+  const error = fraudConditionError(condition)
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+})
+
+export const fraudRuleSchema = z.object({
+  key: z.string().trim().min(1).max(50).regex(/^[a-z0-9_]+$/, 'Rule key may only contain lowercase letters, digits and underscores'),
+  condition: conditionSchema,
+  score: z.number().int().min(-100).max(100),
+  reason: z.string().trim().min(1, 'Reason is required').max(200),
+  enabled: z.boolean().optional()
+})
+
+export const fraudRuleUpdateSchema = fraudRuleSchema.omit({ key: true }).partial()
+
+export const fraudRuleSetDraftSchema = z.object({
+  notes: z.string().trim().max(500).optional()
+})
+
+export const fraudDryRunSchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30)
+})
+
+// What a transfer is, as far as the rules are concerned
+export interface FraudSubject {
+  amount: Money
+  transferType: string
+  bankName?: string | null
+  payeeId?: string | null
+}
+
+export interface FraudScore {
+  riskScore: number
+  riskLevel: FraudRiskLevel
+  riskFactors: string[]
+  factors: FraudFactor[]
+  decision: FraudDecision
+}
+
+export interface FraudEvaluation extends FraudScore {
+  ruleSetVersion: number | null
+  facts: FraudFacts
+}
+
+type RuleSetWithRules = FraudRuleSet & { rules: FraudRule[] }
+
+export class FraudRuleService {
+  static async ensureDefaultRuleSet() {
+    if (await prisma.fraudRuleSet.count() > 0) return
+
+    await prisma.fraudRuleSet.create({
+      data: {
+        version: 1,
+        status: 'ACTIVE',
+        notes: 'Built-in default rules',
+        activatedAt: new Date(),
+        rules: {
+          create: DEFAULT_RULES.map(rule => ({ ...rule, condition: rule.condition as Prisma.InputJsonValue }))
+        }
+      }
+    })
+    console.log(`🛡️  Installed ${DEFAULT_RULES.length} default fraud rules`)
+  }
+
+  static async getActiveRuleSet() {
+    return prisma.fraudRuleSet.findFirst({
+      where: { status: 'ACTIVE' },
+      include: { rules: { orderBy: { createdAt: 'asc' } } }
+    })
+  }
+
+  /**
+   * Work out the facts the rules look at for a transfer, from the user's
+   * history before `at`. Replays pass the original transfer's time.
+   */
+  static async gatherFacts(userId: string, subject: FraudSubject, at: Date = new Date()): Promise<FraudFacts> {
+    const [debitCount24h, history, payee, previousBankTransfers] = await Promise.all([
+      prisma.transaction.count({
+        where: { userId, type: 'DEBIT', createdAt: { gte: new Date(at.getTime() - DAY_MS), lt: at } }
+      }),
+      prisma.transaction.findMany({
+        where: { userId, type: 'DEBIT', createdAt: { gte: new Date(at.getTime() - 30 * DAY_MS), lt: at } },
+        select: { amount: true, currency: true }
+      }),
+      subject.payeeId
+        ? prisma.payee.findFirst({ where: { id: subject.payeeId, userId }, select: { createdAt: true } })
+        : null,
+      // Typed-in bank details can only be matched by the bank's name
+      !subject.payeeId && subject.transferType === 'external_bank' && subject.bankName
+        ? prisma.transaction.count({
+            where: { userId, createdAt: { lt: at }, metadata: { path: ['bankName'], equals: subject.bankName } }
+          })
+        : null
+    ])
+
+    // Rule thresholds are in USD, so compare every amount in USD as limits do
+    const [amount, debits] = await Promise.all([
+      LimitService.toLimitCurrency(subject.amount),
+      Promise.all(history.map(debit => LimitService.toLimitCurrency(Money.of(debit.amount, debit.currency))))
+    ])
+
+    return {
+      amount: amount.toString(),
+      transferType: subject.transferType,
+      debitCount24h,
+      debitCount30d: debits.length,
+      averageDebit30d: (debits.length ? Money.sum(debits).divide(debits.length) : Money.zero()).toString(),
+      maxDebit30d: debits.reduce((max, debit) => Money.max(max, debit), Money.zero()).toString(),
+      isNewPayee: payee ? PayeeService.isNew(payee, at) : false,
+      isNewRecipientBank: previousBankTransfers === 0,
+      hourOfDay: at.getHours()
+    }
+  }
+
+  /**
+   * Total the enabled rules a transfer's facts meet
+   */
+  static score(rules: FraudRule[], facts: FraudFacts): FraudScore {
+    let riskScore = 0
+    const riskFactors: string[] = []
+    const factors: FraudFactor[] = []
+
+    for (const rule of rules) {
+      if (!rule.enabled) continue
+      if (!evaluateFraudCondition(rule.condition as unknown as FraudCondition, facts)) continue
+
+      riskScore += rule.score
+      riskFactors.push(rule.reason)
+      factors.push({ key: rule.key, reason: rule.reason, score: rule.score })
+    }
+
+    return {
+      riskScore,
+      riskLevel: fraudRiskLevel(riskScore),
+      riskFactors,
+      factors,
+      decision: fraudDecision(riskScore)
+    }
+  }
+
+  /**
+   * Score a transfer against the active rule set
+   */
+  static async evaluate(userId: string, subject: FraudSubject): Promise<FraudEvaluation> {
+    const [ruleSet, facts] = await Promise.all([
+      FraudRuleService.getActiveRuleSet(),
+      FraudRuleService.gatherFacts(userId, subject)
+    ])
+
+    return {
+      ...FraudRuleService.score(ruleSet?.rules || [], facts),
+      ruleSetVersion: ruleSet?.version ?? null,
+      facts
+    }
+  }
+
+  static async listRuleSets() {
+    return prisma.fraudRuleSet.findMany({
+      orderBy: { version: 'desc' },
+      include: {
+        _count: { select: { rules: true } },
+        createdBy: { select: { id: true, name: true } },
+        activatedBy: { select: { id: true, name: true } }
+      }
+    })
+  }
+
+  static async getRuleSet(ruleSetId: string) {
+    const ruleSet = await prisma.fraudRuleSet.findUnique({
+      where: { id: ruleSetId },
+      include: { rules: { orderBy: { createdAt: 'asc' } } }
+    })
+    if (!ruleSet) throw new Error('Fraud rule set not found')
+    return ruleSet
+  }
+
+  /**
+   * Start a new version from a copy of the active rules. Only one draft can
+   * be open at a time.
+   */
+  static async createDraft(data: z.infer<typeof fraudRuleSetDraftSchema>, adminId: string) {
+    const existing = await prisma.fraudRuleSet.findFirst({ where: { status: 'DRAFT' }, select: { id: true } })
+    if (existing) throw new Error('A draft rule set already exists')
+
+    const active = await FraudRuleService.getActiveRuleSet()
+    const version = await FraudRuleService.nextVersion()
+
+    const [draft] = await prisma.$transaction([
+      prisma.fraudRuleSet.create({
+        data: {
+          version,
+          notes: data.notes,
+          createdById: adminId,
+          rules: { create: FraudRuleService.copyRules(active?.rules || []) }
+        },
+        include: { rules: { orderBy: { createdAt: 'asc' } } }
+      }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'FRAUD_RULE_SET_DRAFTED',
+          description: `Fraud rules version ${version} drafted${active ? ` from version ${active.version}` : ''}`
+        }
+      })
+    ])
+    return draft
+  }
+
+  static async discardDraft(ruleSetId: string, adminId: string) {
+    const ruleSet = await FraudRuleService.getRuleSet(ruleSetId)
+    FraudRuleService.assertDraft(ruleSet)
+
+    await prisma.$transaction([
+      prisma.fraudRuleSet.delete({ where: { id: ruleSetId } }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'FRAUD_RULE_SET_DISCARDED',
+          description: `Draft fraud rules version ${ruleSet.version} discarded`
+        }
+      })
+    ])
+  }
+
+  static async addRule(ruleSetId: string, data: z.infer<typeof fraudRuleSchema>, adminId: string) {
+    const ruleSet = await FraudRuleService.getRuleSet(ruleSetId)
+    FraudRuleService.assertDraft(ruleSet)
+    if (ruleSet.rules.some(rule => rule.key === data.key)) {
+      throw new Error('A rule with this key already exists')
+    }
+
+    const [rule] = await prisma.$transaction([
+      prisma.fraudRule.create({
+        data: { ...data, condition: data.condition as Prisma.InputJsonValue, ruleSetId }
+      }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'FRAUD_RULE_ADDED',
+          description: `Fraud rule "${data.key}" added to draft version ${ruleSet.version}`
+        }
+      })
+    ])
+    return rule
+  }
+
+  static async updateRule(ruleId: string, data: z.infer<typeof fraudRuleUpdateSchema>, adminId: string) {
+    const rule = await FraudRuleService.getRule(ruleId)
+    FraudRuleService.assertDraft(rule.ruleSet)
+
+    const [updated] = await prisma.$transaction([
+      prisma.fraudRule.update({
+        where: { id: ruleId },
+        data: { ...data, condition: data.condition as Prisma.InputJsonValue | undefined }
+      }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'FRAUD_RULE_UPDATED',
+          description: `Fraud rule "${rule.key}" updated in draft version ${rule.ruleSet.version}`
+        }
+      })
+    ])
+    return updated
+  }
+
+  static async deleteRule(ruleId: string, adminId: string) {
+    const rule = await FraudRuleService.getRule(ruleId)
+    FraudRuleService.assertDraft(rule.ruleSet)
+
+    await prisma.$transaction([
+      prisma.fraudRule.delete({ where: { id: ruleId } }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'FRAUD_RULE_DELETED',
+          description: `Fraud rule "${rule.key}" removed from draft version ${rule.ruleSet.version}`
+        }
+      })
+    ])
+  }
+
+  /**
+   * Switch a rule on or off. Rules on a draft change in place; switching a
+   * live rule publishes a new active version with only that rule changed, so
+   * every change to live scoring has a version.
+   */
+  static async setRuleEnabled(ruleId: string, enabled: boolean, adminId: string) {
+    const rule = await FraudRuleService.getRule(ruleId)
+    const { ruleSet } = rule
+
+    if (ruleSet.status === 'DRAFT') {
+      await FraudRuleService.updateRule(ruleId, { enabled }, adminId)
+      return FraudRuleService.getRuleSet(ruleSet.id)
+    }
+    if (ruleSet.status !== 'ACTIVE') {
+      throw new Error('Retired rule sets cannot be changed')
+    }
+    if (rule.enabled === enabled) {
+      return FraudRuleService.getRuleSet(ruleSet.id)
+    }
+
+    const active = await FraudRuleService.getRuleSet(ruleSet.id)
+    const version = await FraudRuleService.nextVersion()
+    const now = new Date()
+    const rules = FraudRuleService.copyRules(active.rules).map(copy => copy.key === rule.key ? { ...copy, enabled } : copy)
+
+    // Publish only if the set is still the active one, so a concurrent change
+    // cannot leave two active sets
+    const published = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.fraudRuleSet.updateMany({
+        where: { id: active.id, status: 'ACTIVE' },
+        data: { status: 'RETIRED', retiredAt: now }
+      })
+      if (count === 0) {
+        throw new Error('Retired rule sets cannot be changed')
+      }
+
+      const created = await tx.fraudRuleSet.create({
+        data: {
+          version,
+          status: 'ACTIVE',
+          notes: `Rule "${rule.key}" ${enabled ? 'enabled' : 'disabled'}`,
+          createdById: adminId,
+          activatedById: adminId,
+          activatedAt: now,
+          rules: { create: rules }
+        },
+        include: { rules: { orderBy: { createdAt: 'asc' } } }
+      })
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: 'FRAUD_RULE_TOGGLED',
+          description: `Fraud rule "${rule.key}" ${enabled ? 'enabled' : 'disabled'}; version ${version} replaces version ${active.version}`
+        }
+      })
+      return created
+    })
+    return published
+  }
+
+  /**
+   * Make a draft the active rule set. The version it replaces is retired.
+   */
+  static async activate(ruleSetId: string, adminId: string) {
+    const ruleSet = await FraudRuleService.getRuleSet(ruleSetId)
+    FraudRuleService.assertDraft(ruleSet)
+    const now = new Date()
+
+    // Claim the draft first: if it was discarded or activated meanwhile, nothing
+    // is retired and the current rules stay active
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.fraudRuleSet.updateMany({
+        where: { id: ruleSetId, status: 'DRAFT' },
+        data: { status: 'ACTIVE', activatedById: adminId, activatedAt: now }
+      })
+      if (count === 0) {
+        throw new Error('Only draft rule sets can be activated')
+      }
+
+      await tx.fraudRuleSet.updateMany({
+        where: { status: 'ACTIVE', id: { not: ruleSetId } },
+        data: { status: 'RETIRED', retiredAt: now }
+      })
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: 'FRAUD_RULE_SET_ACTIVATED',
+          description: `Fraud rules version ${ruleSet.version} activated`
+        }
+      })
+    })
+
+    return FraudRuleService.getRuleSet(ruleSetId)
+  }
+
+  /**
+   * Replay the last `days` days of transfers to other people and banks
+   * against a rule set and compare its decisions with the active rules'.
+   * Facts are worked out as they stood when each transfer was made. Blocked
+   * attempts never became transactions, so they are not replayed.
+   */
+  static async dryRun(ruleSetId: string, days: number) {
+    const [ruleSet, active] = await Promise.all([
+      FraudRuleService.getRuleSet(ruleSetId),
+      FraudRuleService.getActiveRuleSet()
+    ])
+    const since = new Date(Date.now() - days * DAY_MS)
+
+    const transfers = await prisma.transaction.findMany({
+      where: {
+        type: 'DEBIT',
+        createdAt: { gte: since },
+        OR: REPLAYED_TRANSFER_TYPES.map(transferType => ({ metadata: { path: ['transferType'], equals: transferType } }))
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_DRY_RUN_TRANSFERS + 1
+    })
+    const truncated = transfers.length > MAX_DRY_RUN_TRANSFERS
+    const replayed = transfers.slice(0, MAX_DRY_RUN_TRANSFERS)
+
+    const emptyTally = (): Record<FraudDecision, number> => ({ ALLOW: 0, REVIEW: 0, BLOCK: 0 })
+    const decisions = { ruleSet: emptyTally(), active: emptyTally() }
+    const ruleHits = new Map(ruleSet.rules.map(rule => [rule.key, 0]))
+    const changes = []
+    let changedCount = 0
+
+    for (const transfer of replayed) {
+      const metadata = (transfer.metadata || {}) as Record<string, any>
+      const facts = await FraudRuleService.gatherFacts(transfer.userId, {
+        amount: Money.of(transfer.amount, transfer.currency),
+        transferType: metadata.transferType,
+        bankName: metadata.bankName,
+        payeeId: metadata.payeeId
+      }, transfer.createdAt)
+
+      const proposed = FraudRuleService.score(ruleSet.rules, facts)
+      const current = FraudRuleService.score(active?.rules || [], facts)
+      decisions.ruleSet[proposed.decision]++
+      decisions.active[current.decision]++
+      for (const { key } of proposed.factors) {
+        ruleHits.set(key, (ruleHits.get(key) || 0) + 1)
+      }
+
+      if (proposed.decision !== current.decision) {
+        changedCount++
+        if (changes.length < MAX_DRY_RUN_CHANGES) {
+          changes.push({
+            transactionId: transfer.id,
+            userId: transfer.userId,
+            amount: Money.of(transfer.amount, transfer.currency).toString(),
+            transferType: metadata.transferType,
+            createdAt: transfer.createdAt,
+            active: current,
+            ruleSet: proposed
+          })
+        }
+      }
+    }
+
+    return {
+      ruleSet: { id: ruleSet.id, version: ruleSet.version, status: ruleSet.status },
+      active: active ? { id: active.id, version: active.version } : null,
+      days,
+      replayed: replayed.length,
+      truncated,
+      decisions,
+      changedCount,
+      changes,
+      ruleHits: ruleSet.rules.map(rule => ({ key: rule.key, reason: rule.reason, enabled: rule.enabled, hits: ruleHits.get(rule.key) || 0 }))
+    }
+  }
+
+  private static async getRule(ruleId: string) {
+    const rule = await prisma.fraudRule.findUnique({ where: { id: ruleId }, include: { ruleSet: true } })
+    if (!rule) throw new Error('Fraud rule not found')
+    return rule
+  }
+
+  private static assertDraft(ruleSet: Pick<FraudRuleSet, 'status'>) {
+    if (ruleSet.status !== 'DRAFT') {
+      throw new Error('Only draft rule sets can be edited')
+    }
+  }
+
+  private static async nextVersion() {
+    const latest = await prisma.fraudRuleSet.aggregate({ _max: { version: true } })
+    return (latest._max.version || 0) + 1
+  }
+
+  private static copyRules(rules: FraudRule[]) {
+    return rules.map(rule => ({
+      key: rule.key,
+      condition: rule.condition as Prisma.InputJsonValue,
+      score: rule.score,
+      reason: rule.reason,
+      enabled: rule.enabled
+    }))
+  }
+}
@@ -0,0 +1,314 @@
+import fs from 'fs'
+import path from 'path'
+import type { FxQuote, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { DEFAULT_CURRENCY, Money, SUPPORTED_CURRENCIES, type MoneyInput } from '../../shared/money'
+import { AccountService } from './accountService'
+
+// Taken off the mid-market rate, and charged on top of the converted amount, in basis points
+const FX_SPREAD_BPS = parseInt(process.env.FX_SPREAD_BPS || '50', 10)
+const FX_FEE_BPS = parseInt(process.env.FX_FEE_BPS || '25', 10)
+
+// How long a quoted rate is honoured
+const FX_QUOTE_TTL_SECONDS = parseInt(process.env.FX_QUOTE_TTL_SECONDS || '60', 10)
+
+// CSV with a header row: base_currency,quote_currency,rate
+const FX_RATES_PATH = process.env.FX_RATES_PATH || path.join(process.cwd(), 'server', 'data', 'fx-rates.csv')
+
+// Rates are exact decimals with 8 places, held as integers scaled by 10^8
+const RATE_DECIMALS = 8
+const RATE_SCALE = BigInt(10 ** RATE_DECIMALS)
+const BPS_SCALE = BigInt(10000)
+const RATE_PATTERN = /^(\d+)(?:\.(\d+))?$/
+
+function toRateUnits(rate: string) {
+  const match = RATE_PATTERN.exec(rate.trim())
+  if (!match) {
+    throw new Error(`Invalid exchange rate: ${rate}`)
+  }
+  const [, whole, fraction = ''] = match
+  const padded = fraction.padEnd(RATE_DECIMALS + 1, '0')
+  const units = BigInt(whole) * RATE_SCALE + BigInt(padded.slice(0, RATE_DECIMALS))
+  // Round half up on the ninth decimal
+  return Number(padded[RATE_DECIMALS]) >= 5 ? units + BigInt(1) : units
+}
+
+function fromRateUnits(units: bigint) {
+  const digits = units.toString().padStart(RATE_DECIMALS + 1, '0')
+  return `${digits.slice(0, -RATE_DECIMALS)}.${digits.slice(-RATE_DECIMALS)}`
+}
+
+function multiplyRates(a: bigint, b: bigint) {
+  return (a * b + RATE_SCALE / BigInt(2)) / RATE_SCALE
+}
+
+function invertRate(rate: bigint) {
+  return (RATE_SCALE * RATE_SCALE + rate / BigInt(2)) / rate
+}
+
+const currencySchema = z.enum(SUPPORTED_CURRENCIES, {
+  errorMap: () => ({ message: 'Unsupported currency' })
+})
+
+// Validation schemas
+export const exchangeRateSchema = z.object({
+  baseCurrency: currencySchema,
+  quoteCurrency: currencySchema,
+  rate: z.union([z.string(), z.number()])
+    .transform(value => String(value).trim())
+    .refine(value => RATE_PATTERN.test(value) && toRateUnits(value) > BigInt(0), 'Rate must be a positive number')
+}).refine(data => data.baseCurrency !== data.quoteCurrency, {
+  message: 'Base and quote currency must differ',
+  path: ['quoteCurrency']
+})
+
+export const fxQuoteRequestSchema = z.object({
+  fromAccountId: z.string().uuid(),
+  toAccountId: z.string().uuid(),
+  amount: z.union([z.string(), z.number()])
+})
+
+export class FxService {
+  /**
+   * The rate table, one row per currency pair
+   */
+  static async listRates() {
+    return prisma.exchangeRate.findMany({
+      orderBy: [{ baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+      include: { updatedBy: { select: { id: true, name: true } } }
+    })
+  }
+
+  /**
+   * Create or replace the rate for a currency pair, recording the change in the admin log
+   */
+  static async setRate(data: z.infer<typeof exchangeRateSchema>, adminId: string) {
+    const previous = await prisma.exchangeRate.findUnique({
+      where: { baseCurrency_quoteCurrency: { baseCurrency: data.baseCurrency, quoteCurrency: data.quoteCurrency } }
+    })
+    const rate = fromRateUnits(toRateUnits(data.rate))
+
+    const [updated] = await prisma.$transaction([
+      prisma.exchangeRate.upsert({
+        where: { baseCurrency_quoteCurrency: { baseCurrency: data.baseCurrency, quoteCurrency: data.quoteCurrency } },
+        update: { rate, source: 'MANUAL', updatedById: adminId },
+        create: { baseCurrency: data.baseCurrency, quoteCurrency: data.quoteCurrency, rate, source: 'MANUAL', updatedById: adminId }
+      }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'FX_RATE_UPDATED',
+          description: `${data.baseCurrency}/${data.quoteCurrency} rate set to ${rate}${previous ? ` (was ${previous.rate.toFixed(RATE_DECIMALS)})` : ''}`
+        }
+      })
+    ])
+
+    return updated
+  }
+
+  /**
+   * Load rates from the rates file. Invalid rows are skipped and counted so a
+   * single bad line does not block the rest of the import.
+   */
+  static async importRates(adminId: string, filePath: string = FX_RATES_PATH) {
+    if (!fs.existsSync(filePath)) {
+      throw new Error('Rates file not found')
+    }
+
+    const [, ...rows] = fs.readFileSync(filePath, 'utf8').split(/\r?\n/)
+    const rates: z.infer<typeof exchangeRateSchema>[] = []
+    let skipped = 0
+
+    for (const row of rows) {
+      if (!row.trim()) continue
+      const [baseCurrency = '', quoteCurrency = '', rate = ''] = row.split(',').map(field => field.trim())
+      const parsed = exchangeRateSchema.safeParse({
+        baseCurrency: baseCurrency.toUpperCase(),
+        quoteCurrency: quoteCurrency.toUpperCase(),
+        rate
+      })
+      if (parsed.success) {
+        rates.push(parsed.data)
+      } else {
+        skipped++
+      }
+    }
+
+    const source = path.basename(filePath)
+    await prisma.$transaction([
+      ...rates.map(entry => {
+        const rate = fromRateUnits(toRateUnits(entry.rate))
+        return prisma.exchangeRate.upsert({
+          where: { baseCurrency_quoteCurrency: { baseCurrency: entry.baseCurrency, quoteCurrency: entry.quoteCurrency } },
+          update: { rate, source, updatedById: adminId },
+          create: { baseCurrency: entry.baseCurrency, quoteCurrency: entry.quoteCurrency, rate, source, updatedById: adminId }
+        })
+      }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'FX_RATES_IMPORTED',
+          description: `Imported ${rates.length} exchange rate(s) from ${source}${skipped > 0 ? `, skipped ${skipped} invalid row(s)` : ''}`
+        }
+      })
+    ])
+
+    return { imported: rates.length, skipped }
+  }
+
+  /**
+   * Mid-market rate from one currency to another: the pair as entered, its
+   * inverse, or a cross rate through USD. Null when no path exists.
+   */
+  static async getMidRate(from: string, to: string, client: Prisma.TransactionClient | typeof prisma = prisma) {
+    if (from === to) return fromRateUnits(RATE_SCALE)
+
+    const rows = await client.exchangeRate.findMany({
+      where: {
+        OR: [
+          { baseCurrency: { in: [from, to] } },
+          { quoteCurrency: { in: [from, to] } }
+        ]
+      }
+    })
+
+    const direct = (base: string, quote: string) => {
+      const row = rows.find(r => r.baseCurrency === base && r.quoteCurrency === quote)
+      if (row) return toRateUnits(row.rate.toFixed(RATE_DECIMALS))
+      const inverse = rows.find(r => r.baseCurrency === quote && r.quoteCurrency === base)
+      return inverse ? invertRate(toRateUnits(inverse.rate.toFixed(RATE_DECIMALS))) : null
+    }
+
+    const rate = direct(from, to)
+    if (rate) return fromRateUnits(rate)
+
+    const toUsd = direct(from, DEFAULT_CURRENCY)
+    const fromUsd = direct(DEFAULT_CURRENCY, to)
+    return toUsd && fromUsd ? fromRateUnits(multiplyRates(toUsd, fromUsd)) : null
+  }
+
+  /**
+   * Lock a rate for converting an amount between two of the user's accounts.
+   * The customer rate is the mid rate less the spread; the fee is charged in
+   * the source currency on top of the amount converted.
+   */
+  static async createQuote(userId: string, request: z.infer<typeof fxQuoteRequestSchema>) {
+    const from = await AccountService.resolveAccount(prisma, userId, request.fromAccountId)
+    const to = await AccountService.resolveAccount(prisma, userId, request.toAccountId)
+
+    if (from.id === to.id) {
+      throw new Error('Cannot transfer to the same account')
+    }
+    AccountService.assertActive(from)
+    AccountService.assertActive(to)
+    if (from.currency === to.currency) {
+      throw new Error('Both accounts are in the same currency')
+    }
+
+    let amount: Money
+    try {
+      amount = Money.of(request.amount, from.currency)
+    } catch {
+      throw new Error('Invalid amount')
+    }
+    if (!amount.isPositive()) {
+      throw new Error('Invalid amount')
+    }
+
+    const midRate = await FxService.getMidRate(from.currency, to.currency)
+    if (!midRate) {
+      throw new Error('Exchange rate not available')
+    }
+
+    const rate = fromRateUnits(toRateUnits(midRate) * (BPS_SCALE - BigInt(FX_SPREAD_BPS)) / BPS_SCALE)
+    const convertedAmount = amount.convert(rate, to.currency, 'DOWN')
+    const spreadAmount = amount.convert(midRate, to.currency, 'DOWN').subtract(convertedAmount)
+    const fee = amount.multiply(String(FX_FEE_BPS)).divide(Number(BPS_SCALE))
+
+    if (!convertedAmount.isPositive()) {
+      throw new Error('Invalid amount')
+    }
+
+    return prisma.fxQuote.create({
+      data: {
+        userId,
+        fromAccountId: from.id,
+        toAccountId: to.id,
+        fromCurrency: from.currency,
+        toCurrency: to.currency,
+        sourceAmount: amount.toString(),
+        midRate,
+        rate,
+        spreadBps: FX_SPREAD_BPS,
+        spreadAmount: spreadAmount.toString(),
+        fee: fee.toString(),
+        convertedAmount: convertedAmount.toString(),
+        expiresAt: new Date(Date.now() + FX_QUOTE_TTL_SECONDS * 1000)
+      }
+    })
+  }
+
+  /**
+   * Mark a quote as used by a transfer. It must be the user's, unexpired,
+   * unused and for exactly this pair of accounts and amount.
+   */
+  static async claimQuote(tx: Prisma.TransactionClient, userId: string, quoteId: string, transfer: {
+    fromAccountId: string
+    toAccountId: string
+    amount: MoneyInput
+  }) {
+    const now = new Date()
+    const quote = await tx.fxQuote.findFirst({ where: { id: quoteId, userId } })
+
+    if (!quote) {
+      throw new Error('Quote not found')
+    }
+    if (quote.usedAt) {
+      throw new Error('Quote has already been used')
+    }
+    if (quote.expiresAt <= now) {
+      throw new Error('Quote has expired')
+    }
+    if (quote.fromAccountId !== transfer.fromAccountId || quote.toAccountId !== transfer.toAccountId ||
+        !Money.of(quote.sourceAmount).equals(transfer.amount)) {
+      throw new Error('Quote does not match this transfer')
+    }
+
+    const claimed = await tx.fxQuote.updateMany({
+      where: { id: quote.id, usedAt: null },
+      data: { usedAt: now }
+    })
+    if (claimed.count !== 1) {
+      throw new Error('Quote has already been used')
+    }
+
+    return quote
+  }
+
+  /**
+   * API shape of a quote, amounts in their own currency's minor units
+   */
+  static present(quote: FxQuote) {
+    const sourceAmount = Money.of(quote.sourceAmount, quote.fromCurrency)
+    const fee = Money.of(quote.fee, quote.fromCurrency)
+
+    return {
+      id: quote.id,
+      fromAccountId: quote.fromAccountId,
+      toAccountId: quote.toAccountId,
+      fromCurrency: quote.fromCurrency,
+      toCurrency: quote.toCurrency,
+      sourceAmount: sourceAmount.toString(),
+      fee: fee.toString(),
+      totalDebit: sourceAmount.add(fee).toString(),
+      midRate: quote.midRate.toFixed(RATE_DECIMALS),
+      rate: quote.rate.toFixed(RATE_DECIMALS),
+      spreadBps: quote.spreadBps,
+      spreadAmount: Money.of(quote.spreadAmount, quote.toCurrency).toString(),
+      convertedAmount: Money.of(quote.convertedAmount, quote.toCurrency).toString(),
+      expiresAt: quote.expiresAt,
+      usedAt: quote.usedAt
+    }
+  }
+}
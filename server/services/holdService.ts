@@ -0,0 +1,190 @@
+import { Prisma } from '@prisma/client'
+import type { Hold } from '@prisma/client'
+import { prisma } from '../prisma'
+import { LedgerService } from './ledgerService'
+import { TransferLifecycleService } from './transferLifecycleService'
+import { ApprovalService } from './approvalService'
+import { Money, type MoneyInput } from '../../shared/money'
+
+type HoldClient = Prisma.TransactionClient | typeof prisma
+
+// How long a hold reserves funds before it lapses on its own
+const HOLD_TTL_HOURS = parseInt(process.env.HOLD_TTL_HOURS || '168', 10)
+
+export class HoldService {
+  /**
+   * Where clause for holds that currently reserve funds
+   */
+  static activeWhere(accountId: string | { in: string[] }): Prisma.HoldWhereInput {
+    return { accountId, status: 'ACTIVE', expiresAt: { gt: new Date() } }
+  }
+
+  /**
+   * Total reserved by active holds on an account
+   */
+  static async getHeldAmount(accountId: string, client: HoldClient = prisma) {
+    const held = await client.hold.aggregate({
+      where: HoldService.activeWhere(accountId),
+      _sum: { amount: true }
+    })
+
+    return Money.of(held._sum.amount || '0')
+  }
+
+  /**
+   * Ledger balance, held amount and what is left to spend for each account
+   */
+  static async getBalances<T extends { id: string; balance: MoneyInput }>(accounts: T[], client: HoldClient = prisma) {
+    const held = accounts.length
+      ? await client.hold.groupBy({
+          by: ['accountId'],
+          where: HoldService.activeWhere({ in: accounts.map(a => a.id) }),
+          _sum: { amount: true }
+        })
+      : []
+
+    return accounts.map(account => {
+      const heldAmount = Money.of(held.find(h => h.accountId === account.id)?._sum.amount || '0')
+      const ledgerBalance = Money.of(account.balance)
+
+      return {
+        ...account,
+        ledgerBalance: ledgerBalance.toString(),
+        heldAmount: heldAmount.toString(),
+        availableBalance: ledgerBalance.subtract(heldAmount).toString()
+      }
+    })
+  }
+
+  /**
+   * Reserve funds on an account. Locks the account's ledger row so two holds
+   * (or a hold and a payment) cannot both spend the same money.
+   */
+  static async placeHold(tx: Prisma.TransactionClient, input: {
+    accountId: string
+    amount: MoneyInput
+    reason: string
+    transactionId?: string
+    expiresAt?: Date
+  }) {
+    const amount = Money.of(input.amount)
+    if (!amount.isPositive()) {
+      throw new Error('Hold amount must be a positive value')
+    }
+
+    await LedgerService.getAccountLedger(tx, input.accountId)
+
+    const account = await tx.account.findUnique({ where: { id: input.accountId } })
+    if (!account) {
+      throw new Error('Account not found')
+    }
+
+    const available = Money.of(account.balance).subtract(await HoldService.getHeldAmount(account.id, tx))
+    if (available.lt(amount)) {
+      throw new Error('Insufficient available balance')
+    }
+
+    return tx.hold.create({
+      data: {
+        accountId: account.id,
+        transactionId: input.transactionId,
+        amount: amount.toString(),
+        reason: input.reason,
+        expiresAt: input.expiresAt || new Date(Date.now() + HOLD_TTL_HOURS * 60 * 60 * 1000)
+      }
+    })
+  }
+
+  /**
+   * Active hold backing a pending transaction, if any
+   */
+  static async findActiveHold(tx: HoldClient, transactionId: string) {
+    return tx.hold.findFirst({
+      where: { transactionId, status: 'ACTIVE' }
+    })
+  }
+
+  /**
+   * Give reserved funds back to the customer
+   */
+  static async releaseHold(tx: Prisma.TransactionClient, hold: Hold) {
+    if (hold.status !== 'ACTIVE') {
+      throw new Error('Hold is not active')
+    }
+
+    return tx.hold.update({
+      where: { id: hold.id },
+      data: { status: 'RELEASED', releasedAt: new Date() }
+    })
+  }
+
+  /**
+   * Convert a hold into the real movement. The hold is closed first so the
+   * ledger's available balance check does not count the same funds twice.
+   * The caller posts the journal entry in the same transaction.
+   */
+  static async captureHold(tx: Prisma.TransactionClient, hold: Hold) {
+    if (hold.status !== 'ACTIVE') {
+      throw new Error('Hold is not active')
+    }
+    if (hold.expiresAt <= new Date()) {
+      throw new Error('Hold has expired')
+    }
+
+    await LedgerService.getAccountLedger(tx, hold.accountId)
+
+    return tx.hold.update({
+      where: { id: hold.id },
+      data: { status: 'CAPTURED', capturedAt: new Date() }
+    })
+  }
+
+  /**
+   * Lapse holds past their expiry and fail the pending transfers they backed.
+   * Returns the transactions that were expired so callers can notify users.
+   */
+  static async expireHolds(now: Date = new Date()) {
+    const due = await prisma.hold.findMany({
+      // Deposit clearing holds lapse on schedule; DepositService releases them
+      where: { status: 'ACTIVE', expiresAt: { lte: now }, depositId: null },
+      select: { id: true }
+    })
+
+    const expired = []
+    for (const { id } of due) {
+      const transaction = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.hold.updateMany({
+          where: { id, status: 'ACTIVE' },
+          data: { status: 'EXPIRED', releasedAt: now }
+        })
+        if (count === 0) return null
+
+        const hold = await tx.hold.findUnique({ where: { id }, include: { transaction: true } })
+        if (!hold?.transaction) return null
+
+        const moved = await TransferLifecycleService.transition(tx, hold.transaction.id, 'CANCELLED', {
+          actorType: 'SYSTEM',
+          reason: 'Transfer was not reviewed before its funds hold expired'
+        })
+        if (!moved) return null
+        await ApprovalService.cancelForTransaction(tx, hold.transaction.id, 'Funds hold expired before review')
+
+        return tx.transaction.update({
+          where: { id: hold.transaction.id },
+          data: {
+            metadata: {
+              ...(hold.transaction.metadata as Prisma.JsonObject),
+              status: 'expired',
+              expiredAt: now.toISOString(),
+              reason: 'Transfer was not reviewed before its funds hold expired'
+            }
+          }
+        })
+      })
+
+      if (transaction) expired.push(transaction)
+    }
+
+    return expired
+  }
+}
@@ -2,6 +2,8 @@ import { PrismaClient } from '@prisma/client';
 import path from 'path';
 import fs from 'fs';
 import { secureDeleteFile } from '../middleware/uploadMiddleware';
+import { SanctionsService } from './sanctionsService';
+import { PepService } from './pepService';
 
 // Database connection
 const prisma = new PrismaClient();
@@ -132,6 +134,22 @@ export class KycService {
         }
       });
 
+      // Screen the identity as submitted; possible matches are reviewed alongside the KYC request
+      await SanctionsService.screenCustomer(data.userId, 'KYC_SUBMISSION', {
+        name: data.fullName,
+        dateOfBirth: dob,
+        country: data.countryOfResidence
+      }).catch((error) => {
+        console.error('Sanctions screening error:', error);
+      });
+      await PepService.screenCustomer(data.userId, {
+        name: data.fullName,
+        dateOfBirth: dob,
+        country: data.countryOfResidence
+      }).catch((error) => {
+        console.error('PEP screening error:', error);
+      });
+
       // Log security event
       await prisma.securityEvent.create({
         data: {
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Prisma } from '@prisma/client'
+
+vi.mock('../prisma', () => ({ prisma: {} }))
+vi.mock('./accountAlertService', () => ({
+  AccountAlertService: { checkLowBalance: vi.fn() }
+}))
+
+import { LedgerService } from './ledgerService'
+
+const CUSTOMER = { id: 'ledger-customer', type: 'CUSTOMER', accountId: 'account-1', normalBalance: 'CREDIT', currency: 'USD' }
+const CLEARING = { id: 'ledger-clearing', type: 'EXTERNAL_CLEARING', accountId: null, normalBalance: 'DEBIT', currency: 'USD' }
+
+// A transaction client whose customer account ends up holding `balance`
+// after the entry, with `held` reserved by active holds
+function ledgerClient({ balance, held, currency = 'USD' }: { balance: string, held: string, currency?: string }) {
+  return {
+    $queryRaw: vi.fn(),
+    ledgerAccount: {
+      findMany: vi.fn(async (args: { where: { type?: string } }) => {
+        const accounts = [{ ...CUSTOMER, currency }, { ...CLEARING, currency }]
+        return args.where.type === 'CUSTOMER' ? accounts.slice(0, 1) : accounts
+      })
+    },
+    journalEntry: { create: vi.fn(async () => ({ id: 'entry-1', postings: [] })) },
+    posting: { groupBy: vi.fn(async () => [{ direction: 'CREDIT', _sum: { amount: balance } }]) },
+    hold: { aggregate: vi.fn(async () => ({ _sum: { amount: held } })) },
+    account: {
+      findUniqueOrThrow: vi.fn(async () => ({ balance: '100.00' })),
+      update: vi.fn(async () => ({ id: 'account-1', userId: 'user-1', currency: 'USD' })),
+      aggregate: vi.fn(async () => ({ _sum: { balance } }))
+    },
+    user: { update: vi.fn() }
+  }
+}
+
+const asClient = (client: ReturnType<typeof ledgerClient>) => client as unknown as Prisma.TransactionClient
+
+const withdrawal = (amount: string) => ({
+  description: 'Withdrawal',
+  postings: [
+    { ledgerAccountId: CUSTOMER.id, direction: 'DEBIT' as const, amount },
+    { ledgerAccountId: CLEARING.id, direction: 'CREDIT' as const, amount }
+  ]
+})
+
+describe('LedgerService.postJournalEntry', () => {
+  let client: ReturnType<typeof ledgerClient>
+
+  beforeEach(() => {
+    client = ledgerClient({ balance: '60.00', held: '0' })
+  })
+
+  it('posts a balanced entry and refreshes the balance projection', async () => {
+    await LedgerService.postJournalEntry(asClient(client), withdrawal('40.00'))
+
+    expect(client.journalEntry.create).toHaveBeenCalledOnce()
+    expect(client.account.update).toHaveBeenCalledWith({ where: { id: 'account-1' }, data: { balance: '60.00' } })
+    expect(client.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { balance: '60.00' } })
+  })
+
+  it('rejects an entry whose debits and credits differ', async () => {
+    const entry = withdrawal('40.00')
+    entry.postings[1].amount = '39.99'
+
+    await expect(LedgerService.postJournalEntry(asClient(client), entry))
+      .rejects.toThrow('Unbalanced journal entry: debits 40.00 != credits 39.99')
+    expect(client.journalEntry.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects amounts finer than the accounts\' currency allows', async () => {
+    client = ledgerClient({ balance: '5000', held: '0', currency: 'JPY' })
+
+    await expect(LedgerService.postJournalEntry(asClient(client), withdrawal('1000.50')))
+      .rejects.toThrow('Amount 1000.50 has more precision than JPY allows')
+    expect(client.journalEntry.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects an entry with a single posting', async () => {
+    const entry = withdrawal('40.00')
+    entry.postings.pop()
+
+    await expect(LedgerService.postJournalEntry(asClient(client), entry))
+      .rejects.toThrow('Journal entry requires at least two postings')
+  })
+
+  it('rejects zero and negative postings', async () => {
+    await expect(LedgerService.postJournalEntry(asClient(client), withdrawal('0')))
+      .rejects.toThrow('Posting amount must be a positive value')
+  })
+
+  it('rejects an entry that overdraws the account', async () => {
+    client = ledgerClient({ balance: '-0.01', held: '0' })
+
+    await expect(LedgerService.postJournalEntry(asClient(client), withdrawal('40.00')))
+      .rejects.toThrow('Insufficient balance')
+    expect(client.account.update).not.toHaveBeenCalled()
+  })
+
+  it('rejects a debit that spends money reserved by an active hold', async () => {
+    client = ledgerClient({ balance: '60.00', held: '60.01' })
+
+    await expect(LedgerService.postJournalEntry(asClient(client), withdrawal('40.00')))
+      .rejects.toThrow('Insufficient available balance')
+    expect(client.account.update).not.toHaveBeenCalled()
+  })
+
+  it('lets a debit use the balance up to the held amount', async () => {
+    client = ledgerClient({ balance: '60.00', held: '60.00' })
+
+    await expect(LedgerService.postJournalEntry(asClient(client), withdrawal('40.00'))).resolves.toBeDefined()
+  })
+
+  it('lets entries that may go negative ignore holds', async () => {
+    client = ledgerClient({ balance: '-10.00', held: '50.00' })
+
+    await LedgerService.postJournalEntry(asClient(client), { ...withdrawal('40.00'), allowNegativeBalance: true })
+    expect(client.hold.aggregate).not.toHaveBeenCalled()
+  })
+})
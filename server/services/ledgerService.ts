@@ -0,0 +1,447 @@
+import { Prisma } from '@prisma/client'
+import type { LedgerAccount, LedgerAccountType, PostingDirection } from '@prisma/client'
+import { prisma } from '../prisma'
+import { AccountAlertService } from './accountAlertService'
+import { DEFAULT_CURRENCY, Money, type MoneyInput } from '../../shared/money'
+
+type LedgerClient = Prisma.TransactionClient
+
+export type SystemAccountCode = 'SUSPENSE' | 'EXTERNAL_CLEARING' | 'ACH_SETTLEMENT' | 'FEES' | 'OPENING_EQUITY' | 'FX_POSITION' | 'BILL_PAY_CLEARING' | 'DEPOSIT_CLEARING'
+
+const SYSTEM_ACCOUNTS: Record<SystemAccountCode, { name: string; type: LedgerAccountType; normalBalance: PostingDirection }> = {
+  SUSPENSE: { name: 'Suspense', type: 'SUSPENSE', normalBalance: 'DEBIT' },
+  EXTERNAL_CLEARING: { name: 'External bank clearing', type: 'EXTERNAL_CLEARING', normalBalance: 'DEBIT' },
+  ACH_SETTLEMENT: { name: 'ACH settlement account at ODFI', type: 'SETTLEMENT', normalBalance: 'DEBIT' },
+  FEES: { name: 'Fee income', type: 'FEES', normalBalance: 'CREDIT' },
+  OPENING_EQUITY: { name: 'Opening balance equity', type: 'EQUITY', normalBalance: 'CREDIT' },
+  FX_POSITION: { name: 'Foreign exchange position', type: 'FX_POSITION', normalBalance: 'DEBIT' },
+  BILL_PAY_CLEARING: { name: 'Bill payment clearing', type: 'EXTERNAL_CLEARING', normalBalance: 'DEBIT' },
+  DEPOSIT_CLEARING: { name: 'Incoming deposit clearing', type: 'EXTERNAL_CLEARING', normalBalance: 'DEBIT' },
+}
+
+export interface PostingInput {
+  ledgerAccountId: string
+  direction: PostingDirection
+  amount: MoneyInput
+}
+
+export interface JournalEntryInput {
+  description: string
+  reference?: string
+  transactionId?: string
+  createdById?: string
+  metadata?: Prisma.InputJsonValue
+  postings: PostingInput[]
+  // Customer accounts may not go below zero unless explicitly allowed
+  allowNegativeBalance?: boolean
+}
+
+export interface LedgerTransferInput {
+  debitAccountId: string
+  creditAccountId: string
+  amount: MoneyInput
+  description: string
+  reference?: string
+  transactionId?: string
+  createdById?: string
+  metadata?: Prisma.InputJsonValue
+  allowNegativeBalance?: boolean
+}
+
+export interface LedgerConversionInput {
+  fromAccountId: string
+  toAccountId: string
+  fromCurrency: string
+  toCurrency: string
+  sourceAmount: MoneyInput
+  fee: MoneyInput
+  convertedAmount: MoneyInput
+  description: string
+  reference?: string
+  transactionId?: string
+  createdById?: string
+  metadata?: Prisma.InputJsonValue
+}
+
+export class LedgerService {
+  /**
+   * Get (or lazily create) one of the bank's internal ledger accounts. Each
+   * currency has its own; USD keeps the plain code.
+   */
+  static async getSystemAccount(tx: LedgerClient, code: SystemAccountCode, currency: string = DEFAULT_CURRENCY) {
+    const definition = SYSTEM_ACCOUNTS[code]
+    const key = currency === DEFAULT_CURRENCY ? code : `${code}:${currency}`
+
+    return tx.ledgerAccount.upsert({
+      where: { code: key },
+      update: {},
+      create: {
+        code: key,
+        ...definition,
+        name: currency === DEFAULT_CURRENCY ? definition.name : `${definition.name} (${currency})`,
+        currency
+      }
+    })
+  }
+
+  /**
+   * Get (or lazily open) the ledger account backing a customer deposit account.
+   * Balances that pre-date the ledger are brought in with an opening entry.
+   */
+  static async getAccountLedger(tx: LedgerClient, accountId: string) {
+    const account = await tx.account.findUnique({
+      where: { id: accountId },
+      include: { user: { select: { name: true } } }
+    })
+
+    if (!account) {
+      throw new Error('Account not found')
+    }
+
+    const code = `ACCOUNT:${account.id}`
+    let ledgerAccount = await tx.ledgerAccount.findUnique({ where: { accountId: account.id } })
+
+    // Ledger accounts opened before multi-account support were keyed by user
+    if (!ledgerAccount && account.isPrimary) {
+      const legacy = await tx.ledgerAccount.findUnique({ where: { code: `CUSTOMER:${account.userId}` } })
+      if (legacy) {
+        ledgerAccount = await tx.ledgerAccount.update({
+          where: { id: legacy.id },
+          data: { code, accountId: account.id }
+        })
+      }
+    }
+
+    if (!ledgerAccount) {
+      ledgerAccount = await tx.ledgerAccount.upsert({
+        where: { code },
+        update: {},
+        create: {
+          code,
+          name: `Customer deposits - ${account.user.name} (${account.type.toLowerCase()} ${account.accountNumber.slice(-4)})`,
+          type: 'CUSTOMER',
+          normalBalance: 'CREDIT',
+          currency: account.currency,
+          userId: account.userId,
+          accountId: account.id
+        }
+      })
+    }
+
+    await LedgerService.lockAccounts(tx, [ledgerAccount.id])
+
+    const hasPostings = await tx.posting.findFirst({
+      where: { ledgerAccountId: ledgerAccount.id },
+      select: { id: true }
+    })
+
+    const legacyBalance = Money.of(account.balance)
+    if (!hasPostings && !legacyBalance.isZero()) {
+      const openingAccount = await LedgerService.getSystemAccount(tx, 'OPENING_EQUITY', account.currency)
+      const amount = legacyBalance.abs()
+      const positive = legacyBalance.isPositive()
+
+      await LedgerService.postJournalEntry(tx, {
+        description: 'Opening balance migrated from legacy account balance',
+        reference: `OPENING-${account.id}`,
+        postings: [
+          { ledgerAccountId: ledgerAccount.id, direction: positive ? 'CREDIT' : 'DEBIT', amount },
+          { ledgerAccountId: openingAccount.id, direction: positive ? 'DEBIT' : 'CREDIT', amount }
+        ],
+        allowNegativeBalance: true
+      })
+    }
+
+    return ledgerAccount
+  }
+
+  /**
+   * Post a balanced journal entry. Must run inside a database transaction so
+   * postings and the Account/User balance projections commit together.
+   */
+  static async postJournalEntry(tx: LedgerClient, entry: JournalEntryInput) {
+    if (entry.postings.length < 2) {
+      throw new Error('Journal entry requires at least two postings')
+    }
+
+    const accountIds = Array.from(new Set(entry.postings.map(p => p.ledgerAccountId)))
+    await LedgerService.lockAccounts(tx, accountIds)
+
+    // Debits and credits only balance within one currency
+    const ledgerAccounts = await tx.ledgerAccount.findMany({
+      where: { id: { in: accountIds } },
+      select: { id: true, currency: true }
+    })
+    const currencies = Array.from(new Set(ledgerAccounts.map(account => account.currency)))
+    if (currencies.length > 1) {
+      throw new Error('Journal entry postings must share one currency')
+    }
+
+    // Amounts are read exactly in the accounts' currency, so fractional yen cannot be posted
+    const currency = currencies[0] ?? DEFAULT_CURRENCY
+    let debits = Money.zero(currency)
+    let credits = Money.zero(currency)
+    const postings = entry.postings.map(p => ({ ...p, amount: Money.of(String(p.amount), currency) }))
+    for (const posting of postings) {
+      if (!posting.amount.isPositive()) {
+        throw new Error('Posting amount must be a positive value')
+      }
+      if (posting.direction === 'DEBIT') {
+        debits = debits.add(posting.amount)
+      } else {
+        credits = credits.add(posting.amount)
+      }
+    }
+
+    if (!debits.equals(credits)) {
+      throw new Error(`Unbalanced journal entry: debits ${debits} != credits ${credits}`)
+    }
+
+    const journalEntry = await tx.journalEntry.create({
+      data: {
+        description: entry.description,
+        reference: entry.reference,
+        transactionId: entry.transactionId,
+        createdById: entry.createdById,
+        metadata: entry.metadata,
+        postings: {
+          create: postings.map(p => ({
+            ledgerAccountId: p.ledgerAccountId,
+            direction: p.direction,
+            amount: p.amount.toString()
+          }))
+        }
+      },
+      include: { postings: true }
+    })
+
+    // Refresh the balance projection of every deposit account touched by the entry
+    const customerAccounts = await tx.ledgerAccount.findMany({
+      where: { id: { in: accountIds }, type: 'CUSTOMER', accountId: { not: null } }
+    })
+
+    const debitedAccountIds = new Set(
+      entry.postings.filter(p => p.direction === 'DEBIT').map(p => p.ledgerAccountId)
+    )
+
+    const userIds = new Set<string>()
+    for (const account of customerAccounts) {
+      const balance = await LedgerService.getAccountBalance(account, tx)
+
+      if (balance.isNegative() && !entry.allowNegativeBalance) {
+        throw new Error('Insufficient balance')
+      }
+
+      // Money reserved by active holds cannot be spent by other movements
+      if (debitedAccountIds.has(account.id) && !entry.allowNegativeBalance) {
+        const held = await tx.hold.aggregate({
+          where: { accountId: account.accountId!, status: 'ACTIVE', expiresAt: { gt: new Date() } },
+          _sum: { amount: true }
+        })
+        if (balance.lt(held._sum.amount || '0')) {
+          throw new Error('Insufficient available balance')
+        }
+      }
+
+      const previous = await tx.account.findUniqueOrThrow({
+        where: { id: account.accountId! },
+        select: { balance: true }
+      })
+      const updated = await tx.account.update({
+        where: { id: account.accountId! },
+        data: { balance: balance.toString() }
+      })
+      userIds.add(updated.userId)
+
+      await AccountAlertService.checkLowBalance(tx, updated, Money.of(previous.balance), entry.transactionId)
+    }
+
+    // User.balance is the customer's total across all of their USD accounts
+    for (const userId of Array.from(userIds)) {
+      const total = await tx.account.aggregate({
+        where: { userId, currency: DEFAULT_CURRENCY },
+        _sum: { balance: true }
+      })
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { balance: Money.of(total._sum.balance || '0').toString() }
+      })
+    }
+
+    return journalEntry
+  }
+
+  /**
+   * Convenience wrapper for the common two-legged movement
+   */
+  static async postTransfer(tx: LedgerClient, input: LedgerTransferInput) {
+    return LedgerService.postJournalEntry(tx, {
+      description: input.description,
+      reference: input.reference,
+      transactionId: input.transactionId,
+      createdById: input.createdById,
+      metadata: input.metadata,
+      allowNegativeBalance: input.allowNegativeBalance,
+      postings: [
+        { ledgerAccountId: input.debitAccountId, direction: 'DEBIT', amount: input.amount },
+        { ledgerAccountId: input.creditAccountId, direction: 'CREDIT', amount: input.amount }
+      ]
+    })
+  }
+
+  /**
+   * Currency conversion between two customer accounts, one entry per currency:
+   * the source account pays the bank's FX position (plus the fee to fee income)
+   * in its currency, and the FX position pays the target account in the other.
+   */
+  static async postConversion(tx: LedgerClient, input: LedgerConversionInput) {
+    const fee = Money.of(input.fee)
+    const debited = Money.of(input.sourceAmount).add(fee)
+
+    const [sourcePosition, targetPosition] = await Promise.all([
+      LedgerService.getSystemAccount(tx, 'FX_POSITION', input.fromCurrency),
+      LedgerService.getSystemAccount(tx, 'FX_POSITION', input.toCurrency)
+    ])
+    const feeAccount = fee.isPositive() ? await LedgerService.getSystemAccount(tx, 'FEES', input.fromCurrency) : null
+
+    const common = {
+      reference: input.reference,
+      transactionId: input.transactionId,
+      createdById: input.createdById,
+      metadata: input.metadata
+    }
+
+    const sold = await LedgerService.postJournalEntry(tx, {
+      ...common,
+      description: `${input.description} (${input.fromCurrency} leg)`,
+      postings: [
+        { ledgerAccountId: input.fromAccountId, direction: 'DEBIT', amount: debited },
+        { ledgerAccountId: sourcePosition.id, direction: 'CREDIT', amount: input.sourceAmount },
+        ...(feeAccount ? [{ ledgerAccountId: feeAccount.id, direction: 'CREDIT' as const, amount: fee }] : [])
+      ]
+    })
+
+    const bought = await LedgerService.postJournalEntry(tx, {
+      ...common,
+      description: `${input.description} (${input.toCurrency} leg)`,
+      postings: [
+        { ledgerAccountId: targetPosition.id, direction: 'DEBIT', amount: input.convertedAmount },
+        { ledgerAccountId: input.toAccountId, direction: 'CREDIT', amount: input.convertedAmount }
+      ]
+    })
+
+    return [sold, bought]
+  }
+
+  /**
+   * Balance of a ledger account derived from its postings, on its normal side
+   */
+  static async getAccountBalance(account: Pick<LedgerAccount, 'id' | 'normalBalance'>, client: LedgerClient = prisma) {
+    const totals = await client.posting.groupBy({
+      by: ['direction'],
+      where: { ledgerAccountId: account.id },
+      _sum: { amount: true }
+    })
+
+    const debits = Money.of(totals.find(t => t.direction === 'DEBIT')?._sum.amount || '0')
+    const credits = Money.of(totals.find(t => t.direction === 'CREDIT')?._sum.amount || '0')
+
+    return account.normalBalance === 'DEBIT' ? debits.subtract(credits) : credits.subtract(debits)
+  }
+
+  /**
+   * Journal history for a customer (optionally a single account), newest first
+   */
+  static async getCustomerJournal(userId: string, page = 1, limit = 20, accountId?: string) {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { userId, type: 'CUSTOMER', ...(accountId ? { accountId } : {}) }
+    })
+
+    if (accounts.length === 0) {
+      return { accounts: [], balance: Money.zero(), entries: [], pagination: { page, limit, total: 0, totalPages: 0 } }
+    }
+
+    const where = { postings: { some: { ledgerAccountId: { in: accounts.map(account => account.id) } } } }
+
+    const [entries, total, balances] = await Promise.all([
+      prisma.journalEntry.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          postings: {
+            include: { ledgerAccount: { select: { code: true, name: true, type: true } } }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.journalEntry.count({ where }),
+      Promise.all(accounts.map(account => LedgerService.getAccountBalance(account)))
+    ])
+
+    return {
+      accounts,
+      balance: Money.sum(balances),
+      entries,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+    }
+  }
+
+  /**
+   * Trial balance plus a check that every Account.balance matches its ledger account
+   */
+  static async reconcile() {
+    const [totals, customerAccounts] = await Promise.all([
+      prisma.posting.groupBy({
+        by: ['direction'],
+        _sum: { amount: true }
+      }),
+      prisma.ledgerAccount.findMany({
+        where: { type: 'CUSTOMER', accountId: { not: null } },
+        include: {
+          account: { select: { id: true, accountNumber: true, balance: true } },
+          user: { select: { id: true, name: true, email: true } }
+        }
+      })
+    ])
+
+    const totalDebits = Money.of(totals.find(t => t.direction === 'DEBIT')?._sum.amount || '0')
+    const totalCredits = Money.of(totals.find(t => t.direction === 'CREDIT')?._sum.amount || '0')
+
+    const mismatches = []
+    for (const ledgerAccount of customerAccounts) {
+      if (!ledgerAccount.account) continue
+      const ledgerBalance = await LedgerService.getAccountBalance(ledgerAccount)
+      if (!ledgerBalance.equals(ledgerAccount.account.balance)) {
+        mismatches.push({
+          userId: ledgerAccount.user?.id,
+          name: ledgerAccount.user?.name,
+          email: ledgerAccount.user?.email,
+          accountId: ledgerAccount.account.id,
+          accountNumber: ledgerAccount.account.accountNumber,
+          projectedBalance: Money.of(ledgerAccount.account.balance),
+          ledgerBalance
+        })
+      }
+    }
+
+    return {
+      balanced: totalDebits.equals(totalCredits),
+      totalDebits,
+      totalCredits,
+      accountsChecked: customerAccounts.length,
+      mismatches
+    }
+  }
+
+  /**
+   * Serialize concurrent postings against the same accounts
+   */
+  private static async lockAccounts(tx: LedgerClient, accountIds: string[]) {
+    if (accountIds.length === 0) return
+
+    const sorted = [...accountIds].sort()
+    await tx.$queryRaw`SELECT id FROM ledger_accounts WHERE id IN (${Prisma.join(sorted)}) ORDER BY id FOR UPDATE`
+  }
+}
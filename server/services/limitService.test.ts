@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Money } from '../../shared/money'
+
+const db = vi.hoisted(() => ({
+  transaction: { findMany: vi.fn() },
+  limitPolicy: { findMany: vi.fn() },
+  limitOverride: { findMany: vi.fn() }
+}))
+
+vi.mock('../prisma', () => ({ prisma: db }))
+vi.mock('./fxService', () => ({
+  FxService: { getMidRate: vi.fn(async (from: string) => (from === 'EUR' ? '1.10' : null)) }
+}))
+
+import { LimitService } from './limitService'
+
+const NOW = new Date('2026-03-31T12:00:00Z')
+const HOUR_MS = 60 * 60 * 1000
+const ago = (hours: number) => new Date(NOW.getTime() - hours * HOUR_MS)
+
+const SUBJECT = { id: 'user-1', kycStatus: 'APPROVED' as const, riskLevel: 'LOW', isPep: false }
+
+function policy(values: Record<string, unknown>) {
+  return {
+    id: 'policy-1',
+    name: 'Test policy',
+    kycStatus: null,
+    riskLevel: null,
+    accountType: null,
+    transferType: null,
+    isPep: null,
+    isActive: true,
+    perTransactionAmount: null,
+    dailyAmount: null,
+    dailyCount: null,
+    weeklyAmount: null,
+    weeklyCount: null,
+    monthlyAmount: null,
+    monthlyCount: null,
+    ...values
+  }
+}
+
+describe('LimitService.getUsage', () => {
+  beforeEach(() => {
+    db.transaction.findMany.mockResolvedValue([
+      { amount: '100.00', currency: 'USD', createdAt: ago(1) },
+      // Exactly one day old still counts towards the daily window
+      { amount: '50.00', currency: 'USD', createdAt: ago(24) },
+      { amount: '200.00', currency: 'USD', createdAt: ago(24 * 3) },
+      { amount: '400.00', currency: 'USD', createdAt: ago(24 * 10) }
+    ])
+  })
+
+  it('adds each debit to every rolling window it falls in', async () => {
+    const usage = await LimitService.getUsage('user-1', { transferType: null, accountType: null }, NOW)
+
+    expect(usage.DAILY.amount.toString()).toBe('150.00')
+    expect(usage.DAILY.count).toBe(2)
+    expect(usage.WEEKLY.amount.toString()).toBe('350.00')
+    expect(usage.WEEKLY.count).toBe(3)
+    expect(usage.MONTHLY.amount.toString()).toBe('750.00')
+    expect(usage.MONTHLY.count).toBe(4)
+  })
+
+  it('only asks for the last 30 days of the recorded transfer type', async () => {
+    await LimitService.getUsage('user-1', { transferType: 'savings', accountType: 'CHECKING' }, NOW)
+
+    const { where } = db.transaction.findMany.mock.lastCall![0]
+    expect(where.createdAt.gte).toEqual(ago(24 * 30))
+    expect(where.OR).toEqual([{ metadata: { path: ['transferType'], equals: 'own_account' } }])
+    expect(where.account).toEqual({ type: 'CHECKING' })
+  })
+
+  it('counts other currencies in USD', async () => {
+    db.transaction.findMany.mockResolvedValue([
+      { amount: '100.00', currency: 'EUR', createdAt: ago(1) },
+      { amount: '100.00', currency: 'GBP', createdAt: ago(1) }
+    ])
+
+    const usage = await LimitService.getUsage('user-1', { transferType: null, accountType: null }, NOW)
+
+    // EUR at the mid rate; GBP has no rate, so it counts at face value
+    expect(usage.DAILY.amount.toString()).toBe('210.00')
+    expect(usage.DAILY.amount.currency).toBe('USD')
+  })
+})
+
+describe('LimitService.checkTransfer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    db.limitOverride.findMany.mockResolvedValue([])
+    db.transaction.findMany.mockResolvedValue([
+      { amount: '700.00', currency: 'USD', createdAt: ago(2) },
+      { amount: '200.00', currency: 'USD', createdAt: ago(30) }
+    ])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('allows a transfer that fits every window', async () => {
+    db.limitPolicy.findMany.mockResolvedValue([policy({ dailyAmount: '1000', weeklyAmount: '5000' })])
+
+    await expect(LimitService.checkTransfer(SUBJECT, Money.of('300.00'))).resolves.toBeNull()
+  })
+
+  it('reports what is left of a window the transfer would exceed', async () => {
+    db.limitPolicy.findMany.mockResolvedValue([policy({ dailyAmount: '1000', weeklyAmount: '1000' })])
+
+    const violation = await LimitService.checkTransfer(SUBJECT, Money.of('150.00'))
+
+    expect(violation?.code).toBe('WEEKLY_LIMIT_EXCEEDED')
+    expect(String(violation?.details.currentAmount)).toBe('900.00')
+    expect(String(violation?.details.remaining)).toBe('100.00')
+  })
+
+  it('stops a transfer once the window count is used up', async () => {
+    db.limitPolicy.findMany.mockResolvedValue([policy({ dailyCount: 1, weeklyCount: 2 })])
+
+    const violation = await LimitService.checkTransfer(SUBJECT, Money.of('1.00'))
+
+    expect(violation?.code).toBe('DAILY_COUNT_EXCEEDED')
+    expect(violation?.details).toEqual({ currentCount: 1, limit: 1 })
+  })
+
+  it('lets an override raise a policy limit', async () => {
+    db.limitPolicy.findMany.mockResolvedValue([policy({ dailyAmount: '1000' })])
+    db.limitOverride.findMany.mockResolvedValue([
+      { ...policy({ dailyAmount: '2000' }), id: 'override-1', userId: 'user-1', reason: 'Home purchase', expiresAt: null }
+    ])
+
+    await expect(LimitService.checkTransfer(SUBJECT, Money.of('1200.00'))).resolves.toBeNull()
+  })
+})
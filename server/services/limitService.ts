@@ -0,0 +1,481 @@
+import type { AccountType, KycStatus, LimitOverride, LimitPolicy, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { DEFAULT_CURRENCY, Money, positiveMoneySchema } from '../../shared/money'
+import { FxService } from './fxService'
+
+export const LIMIT_WINDOWS = ['DAILY', 'WEEKLY', 'MONTHLY'] as const
+export type LimitWindow = (typeof LIMIT_WINDOWS)[number]
+
+const WINDOWS: Record<LimitWindow, { days: number; label: string; amount: LimitField; count: LimitField }> = {
+  DAILY: { days: 1, label: 'Daily', amount: 'dailyAmount', count: 'dailyCount' },
+  WEEKLY: { days: 7, label: 'Weekly', amount: 'weeklyAmount', count: 'weeklyCount' },
+  MONTHLY: { days: 30, label: 'Monthly', amount: 'monthlyAmount', count: 'monthlyCount' },
+}
+
+const LIMIT_FIELDS = [
+  'perTransactionAmount',
+  'dailyAmount',
+  'dailyCount',
+  'weeklyAmount',
+  'weeklyCount',
+  'monthlyAmount',
+  'monthlyCount',
+] as const
+
+type LimitField = (typeof LIMIT_FIELDS)[number]
+type LimitValues = Record<LimitField, Prisma.Decimal | number | null>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How each limited transfer type is recorded in transaction metadata. Moves
+// between the user's own accounts are recorded alike whichever one receives them.
+const RECORDED_TRANSFER_TYPES: Record<string, string> = {
+  checking: 'own_account',
+  savings: 'own_account',
+  external_bank: 'external_bank',
+  p2p: 'p2p',
+}
+
+// Installed when the policy table is empty. Unverified customers fall back to
+// the first policy; verified ones are tightened as their risk level rises.
+// Politically exposed persons have their own policy.
+const DEFAULT_POLICIES: Prisma.LimitPolicyCreateManyInput[] = [
+  {
+    name: 'All customers',
+    perTransactionAmount: '50000',
+    dailyAmount: '2500', dailyCount: 3,
+    weeklyAmount: '5000', weeklyCount: 10,
+    monthlyAmount: '10000', monthlyCount: 30
+  },
+  {
+    name: 'Verified customers',
+    kycStatus: 'APPROVED',
+    dailyAmount: '10000', dailyCount: 5,
+    weeklyAmount: '40000', weeklyCount: 25,
+    monthlyAmount: '100000', monthlyCount: 80
+  },
+  {
+    name: 'Verified, low risk',
+    kycStatus: 'APPROVED', riskLevel: 'LOW',
+    dailyAmount: '25000', dailyCount: 10,
+    weeklyAmount: '100000', weeklyCount: 40,
+    monthlyAmount: '250000', monthlyCount: 120
+  },
+  {
+    name: 'Verified, medium risk',
+    kycStatus: 'APPROVED', riskLevel: 'MEDIUM',
+    dailyAmount: '15000', dailyCount: 8,
+    weeklyAmount: '60000', weeklyCount: 30,
+    monthlyAmount: '150000', monthlyCount: 90
+  },
+  {
+    name: 'Verified, high risk',
+    kycStatus: 'APPROVED', riskLevel: 'HIGH',
+    dailyAmount: '5000', dailyCount: 5,
+    weeklyAmount: '20000', weeklyCount: 15,
+    monthlyAmount: '50000', monthlyCount: 40
+  },
+  {
+    name: 'Politically exposed persons',
+    isPep: true,
+    perTransactionAmount: '10000',
+    dailyAmount: '10000', dailyCount: 5,
+    weeklyAmount: '25000', weeklyCount: 15,
+    monthlyAmount: '50000', monthlyCount: 40
+  },
+]
+
+const transferTypeSchema = z.enum(['checking', 'savings', 'external_bank', 'p2p'])
+const limitAmountSchema = positiveMoneySchema().transform(amount => amount.toString()).nullable().optional()
+const limitCountSchema = z.number().int().positive().nullable().optional()
+
+const limitValuesSchema = z.object({
+  perTransactionAmount: limitAmountSchema,
+  dailyAmount: limitAmountSchema,
+  dailyCount: limitCountSchema,
+  weeklyAmount: limitAmountSchema,
+  weeklyCount: limitCountSchema,
+  monthlyAmount: limitAmountSchema,
+  monthlyCount: limitCountSchema,
+})
+
+// Validation schemas
+export const limitPolicySchema = limitValuesSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  kycStatus: z.enum(['PENDING', 'IN_REVIEW', 'APPROVED', 'REJECTED']).nullable().optional(),
+  riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH']).nullable().optional(),
+  accountType: z.enum(['CHECKING', 'SAVINGS', 'BUSINESS']).nullable().optional(),
+  transferType: transferTypeSchema.nullable().optional(),
+  isPep: z.boolean().nullable().optional(),
+  isActive: z.boolean().optional(),
+})
+
+export const limitPolicyUpdateSchema = limitPolicySchema.partial()
+
+export const limitOverrideSchema = limitValuesSchema.extend({
+  transferType: transferTypeSchema.nullable().optional(),
+  reason: z.string().trim().min(1, 'Reason is required').max(500),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), 'Expiry must be in the future').nullable().optional(),
+})
+
+// The customer a limit is worked out for
+export interface LimitSubject {
+  id: string
+  kycStatus: KycStatus
+  riskLevel: string
+  isPep: boolean
+}
+
+// What is being moved: a null key only matches policies that leave it open
+export interface LimitContext {
+  transferType?: string | null
+  accountType?: AccountType | null
+}
+
+// The transfers that count towards a limit: those of the transfer type and
+// from the type of account the policy or override that set it is keyed on
+export interface UsageScope {
+  transferType: string | null
+  accountType: AccountType | null
+}
+
+export interface ResolvedLimits {
+  perTransaction: Money | null
+  windows: Record<LimitWindow, { amount: Money | null; count: number | null; amountScope: UsageScope; countScope: UsageScope }>
+  policyIds: string[]
+  overrideIds: string[]
+}
+
+export interface LimitViolation {
+  message: string
+  code: string
+  details: Record<string, unknown>
+}
+
+function matches(policy: LimitPolicy, subject: LimitSubject, context: LimitContext) {
+  return (policy.kycStatus === null || policy.kycStatus === subject.kycStatus)
+    && (policy.riskLevel === null || policy.riskLevel === subject.riskLevel)
+    && (policy.accountType === null || policy.accountType === (context.accountType ?? null))
+    && (policy.transferType === null || policy.transferType === (context.transferType ?? null))
+    && (policy.isPep === null || policy.isPep === subject.isPep)
+}
+
+// A policy for PEPs or non-PEPs outranks every policy that covers both, so
+// PEP limits are governed by PEP policies alone
+function specificity(policy: LimitPolicy) {
+  const keys = [policy.kycStatus, policy.riskLevel, policy.accountType, policy.transferType]
+  return keys.filter(key => key !== null).length + (policy.isPep === null ? 0 : keys.length + 1)
+}
+
+export class LimitService {
+  /**
+   * Install the default policies on a fresh database
+   */
+  static async ensureDefaultPolicies() {
+    if (await prisma.limitPolicy.count() > 0) return
+
+    await prisma.limitPolicy.createMany({ data: DEFAULT_POLICIES })
+    console.log(`🚦 Installed ${DEFAULT_POLICIES.length} default transfer limit policies`)
+  }
+
+  /**
+   * Work out every limit for a customer and kind of transfer. Each limit comes
+   * from the user's overrides first, then from the most specific policy that
+   * sets it; a limit nothing sets is unlimited.
+   */
+  static async resolve(subject: LimitSubject, context: LimitContext = {}, now: Date = new Date()): Promise<ResolvedLimits> {
+    const [policies, overrides] = await Promise.all([
+      prisma.limitPolicy.findMany({ where: { isActive: true }, orderBy: { updatedAt: 'desc' } }),
+      prisma.limitOverride.findMany({
+        where: { userId: subject.id, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+        orderBy: { createdAt: 'desc' }
+      })
+    ])
+
+    // Overrides for the specific transfer type beat ones covering every type
+    const sources: (LimitPolicy | LimitOverride)[] = [
+      ...overrides
+        .filter(override => override.transferType === null || override.transferType === context.transferType)
+        .sort((a, b) => Number(b.transferType !== null) - Number(a.transferType !== null)),
+      ...policies
+        .filter(policy => matches(policy, subject, context))
+        .sort((a, b) => specificity(b) - specificity(a))
+    ]
+
+    const values = {} as LimitValues
+    const scopes = {} as Record<LimitField, UsageScope>
+    const used = new Set<LimitPolicy | LimitOverride>()
+    for (const field of LIMIT_FIELDS) {
+      const source = sources.find(candidate => candidate[field] !== null)
+      values[field] = source ? source[field] : null
+      scopes[field] = {
+        transferType: source?.transferType ?? null,
+        accountType: source && 'accountType' in source ? source.accountType : null
+      }
+      if (source) used.add(source)
+    }
+
+    const amount = (value: LimitValues[LimitField]) => value === null ? null : Money.of(value)
+    const count = (value: LimitValues[LimitField]) => value === null ? null : Number(value)
+
+    return {
+      perTransaction: amount(values.perTransactionAmount),
+      windows: {
+        DAILY: { amount: amount(values.dailyAmount), count: count(values.dailyCount), amountScope: scopes.dailyAmount, countScope: scopes.dailyCount },
+        WEEKLY: { amount: amount(values.weeklyAmount), count: count(values.weeklyCount), amountScope: scopes.weeklyAmount, countScope: scopes.weeklyCount },
+        MONTHLY: { amount: amount(values.monthlyAmount), count: count(values.monthlyCount), amountScope: scopes.monthlyAmount, countScope: scopes.monthlyCount },
+      },
+      policyIds: policies.filter(policy => used.has(policy)).map(policy => policy.id),
+      overrideIds: overrides.filter(override => used.has(override)).map(override => override.id)
+    }
+  }
+
+  /**
+   * Limits are set in USD. Other currencies count at the mid rate, or at face
+   * value when there is no rate, erring on the side of the limit.
+   */
+  static async toLimitCurrency(amount: Money) {
+    if (amount.currency === DEFAULT_CURRENCY) return amount
+    const rate = await FxService.getMidRate(amount.currency, DEFAULT_CURRENCY)
+    return rate ? amount.convert(rate, DEFAULT_CURRENCY) : Money.of(amount.toString())
+  }
+
+  /**
+   * Money the user sent in the scope over each rolling window, in USD,
+   * counting every outgoing transfer that has not failed
+   */
+  static async getUsage(userId: string, scope: UsageScope = { transferType: null, accountType: null }, now: Date = new Date()) {
+    const recorded = scope.transferType
+      ? [RECORDED_TRANSFER_TYPES[scope.transferType]]
+      : Array.from(new Set(Object.values(RECORDED_TRANSFER_TYPES)))
+
+    const debits = await prisma.transaction.findMany({
+      where: {
+        userId,
+        type: 'DEBIT',
+        createdAt: { gte: new Date(now.getTime() - WINDOWS.MONTHLY.days * DAY_MS) },
+        status: { in: ['PENDING', 'COMPLETED'] },
+        OR: recorded.map(transferType => ({ metadata: { path: ['transferType'], equals: transferType } })),
+        ...(scope.accountType && { account: { type: scope.accountType } })
+      },
+      select: { amount: true, currency: true, createdAt: true }
+    })
+    const amounts = await Promise.all(debits.map(async debit => ({
+      amount: await LimitService.toLimitCurrency(Money.of(debit.amount, debit.currency)),
+      createdAt: debit.createdAt
+    })))
+
+    const entries = LIMIT_WINDOWS.map(window => {
+      const since = now.getTime() - WINDOWS[window].days * DAY_MS
+      const inWindow = amounts.filter(debit => debit.createdAt.getTime() >= since)
+      return [window, { amount: Money.sum(inWindow.map(debit => debit.amount)), count: inWindow.length }] as const
+    })
+
+    return Object.fromEntries(entries) as Record<LimitWindow, { amount: Money; count: number }>
+  }
+
+  // Each window's usage in the scope of the limit that applies to it
+  private static async usageFor(userId: string, limits: ResolvedLimits) {
+    const cache = new Map<string, ReturnType<typeof LimitService.getUsage>>()
+    const usage = (scope: UsageScope) => {
+      const key = `${scope.transferType}:${scope.accountType}`
+      if (!cache.has(key)) cache.set(key, LimitService.getUsage(userId, scope))
+      return cache.get(key)!
+    }
+
+    const entries = await Promise.all(LIMIT_WINDOWS.map(async window => {
+      const { amountScope, countScope } = limits.windows[window]
+      const [byAmount, byCount] = await Promise.all([usage(amountScope), usage(countScope)])
+      return [window, { amount: byAmount[window].amount, count: byCount[window].count }] as const
+    }))
+
+    return Object.fromEntries(entries) as Record<LimitWindow, { amount: Money; count: number }>
+  }
+
+  /**
+   * The first limit a transfer would break, or null when it fits in all of them
+   */
+  static async checkTransfer(subject: LimitSubject, transferAmount: Money, context: LimitContext = {}): Promise<LimitViolation | null> {
+    const [limits, amount] = await Promise.all([
+      LimitService.resolve(subject, context),
+      LimitService.toLimitCurrency(transferAmount)
+    ])
+
+    if (limits.perTransaction && amount.gt(limits.perTransaction)) {
+      return {
+        message: `Single transfer limit of ${limits.perTransaction.format({ showCents: false })} exceeded`,
+        code: 'TRANSACTION_LIMIT_EXCEEDED',
+        details: { limit: limits.perTransaction }
+      }
+    }
+
+    const usage = await LimitService.usageFor(subject.id, limits)
+
+    for (const window of LIMIT_WINDOWS) {
+      const limit = limits.windows[window]
+      const used = usage[window]
+      const label = WINDOWS[window].label
+
+      if (limit.amount && used.amount.add(amount).gt(limit.amount)) {
+        return {
+          message: `${label} transfer limit of ${limit.amount.format({ showCents: false })} exceeded`,
+          code: `${window}_LIMIT_EXCEEDED`,
+          details: { currentAmount: used.amount, limit: limit.amount, remaining: Money.max(limit.amount.subtract(used.amount), Money.zero()) }
+        }
+      }
+
+      if (limit.count !== null && used.count >= limit.count) {
+        return {
+          message: `${label} transfer count limit of ${limit.count} exceeded`,
+          code: `${window}_COUNT_EXCEEDED`,
+          details: { currentCount: used.count, limit: limit.count }
+        }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Each window's limit with what the user has used and has left, for the
+   * banking settings page
+   */
+  static async getSummary(subject: LimitSubject, context: LimitContext = {}) {
+    const limits = await LimitService.resolve(subject, context)
+    const usage = await LimitService.usageFor(subject.id, limits)
+
+    return {
+      perTransaction: limits.perTransaction?.toString() ?? null,
+      windows: LIMIT_WINDOWS.map(window => {
+        const limit = limits.windows[window]
+        const used = usage[window]
+
+        return {
+          type: window,
+          amount: limit.amount?.toString() ?? null,
+          used: used.amount.toString(),
+          remaining: limit.amount ? Money.max(limit.amount.subtract(used.amount), Money.zero()).toString() : null,
+          count: limit.count,
+          usedCount: used.count,
+          remainingCount: limit.count === null ? null : Math.max(limit.count - used.count, 0)
+        }
+      })
+    }
+  }
+
+  /**
+   * Every policy, most general first, for the admin console
+   */
+  static async listPolicies() {
+    const policies = await prisma.limitPolicy.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: { updatedBy: { select: { id: true, name: true } } }
+    })
+    return policies.sort((a, b) => specificity(a) - specificity(b))
+  }
+
+  static async createPolicy(data: z.infer<typeof limitPolicySchema>, adminId: string) {
+    const [policy] = await prisma.$transaction([
+      prisma.limitPolicy.create({ data: { ...data, updatedById: adminId } }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'LIMIT_POLICY_CREATED',
+          description: `Transfer limit policy "${data.name}" created`
+        }
+      })
+    ])
+    return policy
+  }
+
+  static async updatePolicy(policyId: string, data: z.infer<typeof limitPolicyUpdateSchema>, adminId: string) {
+    const existing = await prisma.limitPolicy.findUnique({ where: { id: policyId } })
+    if (!existing) throw new Error('Limit policy not found')
+
+    const [policy] = await prisma.$transaction([
+      prisma.limitPolicy.update({ where: { id: policyId }, data: { ...data, updatedById: adminId } }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'LIMIT_POLICY_UPDATED',
+          description: `Transfer limit policy "${data.name ?? existing.name}" updated`
+        }
+      })
+    ])
+    return policy
+  }
+
+  static async deletePolicy(policyId: string, adminId: string) {
+    const existing = await prisma.limitPolicy.findUnique({ where: { id: policyId } })
+    if (!existing) throw new Error('Limit policy not found')
+
+    await prisma.$transaction([
+      prisma.limitPolicy.delete({ where: { id: policyId } }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'LIMIT_POLICY_DELETED',
+          description: `Transfer limit policy "${existing.name}" deleted`
+        }
+      })
+    ])
+  }
+
+  /**
+   * A user's overrides and the limits that currently apply to them
+   */
+  static async getUserLimits(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, kycStatus: true, riskLevel: true, isPep: true }
+    })
+    if (!user) throw new Error('User not found')
+
+    const [summary, overrides] = await Promise.all([
+      LimitService.getSummary(user),
+      prisma.limitOverride.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        include: { grantedBy: { select: { id: true, name: true } } }
+      })
+    ])
+
+    return { ...summary, overrides }
+  }
+
+  static async createOverride(userId: string, data: z.infer<typeof limitOverrideSchema>, adminId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } })
+    if (!user) throw new Error('User not found')
+
+    const [override] = await prisma.$transaction([
+      prisma.limitOverride.create({ data: { ...data, userId, grantedById: adminId } }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'LIMIT_OVERRIDE_CREATED',
+          targetUserId: userId,
+          description: `Transfer limit override set${data.transferType ? ` for ${data.transferType} transfers` : ''}: ${data.reason}`
+        }
+      })
+    ])
+    return override
+  }
+
+  static async deleteOverride(overrideId: string, adminId: string) {
+    const existing = await prisma.limitOverride.findUnique({ where: { id: overrideId } })
+    if (!existing) throw new Error('Limit override not found')
+
+    await prisma.$transaction([
+      prisma.limitOverride.delete({ where: { id: overrideId } }),
+      prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'LIMIT_OVERRIDE_DELETED',
+          targetUserId: existing.userId,
+          description: 'Transfer limit override removed'
+        }
+      })
+    ])
+  }
+}
@@ -0,0 +1,255 @@
+import type { Payee, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { Money, type MoneyInput } from '../../shared/money'
+import { domesticBeneficiarySchema } from '../../shared/beneficiary'
+import { RoutingDirectoryService } from './routingDirectoryService'
+import { SanctionsService } from './sanctionsService'
+
+// Newly added payees can only receive a limited amount until the window ends
+const COOLING_OFF_HOURS = parseInt(process.env.PAYEE_COOLING_OFF_HOURS || '24', 10)
+const COOLING_OFF_LIMIT = process.env.PAYEE_COOLING_OFF_LIMIT || '1000'
+
+// Payees younger than this count as a risk factor when scoring a transfer
+const NEW_PAYEE_RISK_HOURS = 24
+
+const HOUR_MS = 60 * 60 * 1000
+
+// ACH return codes meaning the account details themselves are wrong
+const ACCOUNT_RETURN_CODES = ['R02', 'R03', 'R04']
+
+// Validation schemas
+// The bank's name is taken from the routing directory
+export const payeeSchema = domesticBeneficiarySchema.extend({
+  nickname: z.string().trim().min(1, 'Nickname is required').max(50),
+})
+
+// Account details cannot be edited; a changed account is a new payee with its own cooling-off window
+export const updatePayeeSchema = payeeSchema.pick({ nickname: true })
+
+export interface PayeeCoolingOff {
+  active: boolean
+  endsAt: Date
+  limit: Money
+  used: Money
+  remaining: Money
+}
+
+export class PayeeService {
+  /**
+   * The user's payees, most recently used first, with account numbers masked
+   */
+  static async list(userId: string) {
+    const payees = await prisma.payee.findMany({
+      where: { userId },
+      orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }]
+    })
+    return Promise.all(payees.map(payee => PayeeService.present(payee)))
+  }
+
+  static async get(userId: string, id: string) {
+    const payee = await prisma.payee.findFirst({ where: { id, userId } })
+    if (!payee) {
+      throw new Error('Payee not found')
+    }
+    return payee
+  }
+
+  static async create(userId: string, data: z.infer<typeof payeeSchema>, context: {
+    ipAddress?: string
+    userAgent?: string
+  } = {}) {
+    const existing = await prisma.payee.findUnique({
+      where: {
+        userId_routingNumber_accountNumber: {
+          userId,
+          routingNumber: data.routingNumber,
+          accountNumber: data.accountNumber
+        }
+      }
+    })
+    if (existing) {
+      throw new Error('Payee already exists')
+    }
+
+    const institution = RoutingDirectoryService.lookup(data.routingNumber)
+    if (!institution) {
+      throw new Error('Routing number not found in the routing directory')
+    }
+
+    const payee = await prisma.payee.create({
+      data: { userId, ...data, bankName: institution.name }
+    })
+
+    await prisma.securityEvent.create({
+      data: {
+        userId,
+        eventType: 'PAYEE_ADDED',
+        description: `Payee ${payee.nickname} added (${payee.bankName}, account ending in ${payee.accountNumber.slice(-4)})`,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        riskLevel: 'LOW',
+        metadata: {
+          payeeId: payee.id,
+          bankName: payee.bankName,
+          routingNumber: payee.routingNumber
+        }
+      }
+    })
+
+    await SanctionsService.screenBeneficiary(userId, { name: payee.accountHolderName, payeeId: payee.id }).catch((error) => {
+      console.error('Sanctions screening error:', error)
+    })
+
+    return payee
+  }
+
+  static async update(userId: string, id: string, changes: z.infer<typeof updatePayeeSchema>) {
+    const payee = await PayeeService.get(userId, id)
+    return prisma.payee.update({
+      where: { id: payee.id },
+      data: { nickname: changes.nickname }
+    })
+  }
+
+  /**
+   * Delete a payee. Scheduled transfers keep the details they copied.
+   */
+  static async remove(userId: string, id: string, context: {
+    ipAddress?: string
+    userAgent?: string
+  } = {}) {
+    const payee = await PayeeService.get(userId, id)
+    await prisma.payee.delete({ where: { id: payee.id } })
+
+    await prisma.securityEvent.create({
+      data: {
+        userId,
+        eventType: 'PAYEE_REMOVED',
+        description: `Payee ${payee.nickname} removed`,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        riskLevel: 'LOW',
+        metadata: { payeeId: payee.id, bankName: payee.bankName }
+      }
+    })
+  }
+
+  /**
+   * The user's payee for a US account whose details were typed in rather than
+   * chosen. Payees are only ever US accounts, so an IBAN never matches one.
+   */
+  static async findByAccount(userId: string, routingNumber: string, accountNumber: string) {
+    return prisma.payee.findUnique({
+      where: { userId_routingNumber_accountNumber: { userId, routingNumber, accountNumber } }
+    })
+  }
+
+  /**
+   * The transfer fields a payee fills in
+   */
+  static transferDetails(payee: Payee) {
+    return {
+      transferType: 'external_bank' as const,
+      recipientInfo: payee.accountNumber,
+      bankName: payee.bankName,
+      routingNumber: payee.routingNumber,
+      recipientName: payee.accountHolderName,
+      payeeId: payee.id
+    }
+  }
+
+  /**
+   * How much can still be sent to a payee inside its cooling-off window
+   */
+  static async getCoolingOff(payee: Payee, now: Date = new Date()): Promise<PayeeCoolingOff> {
+    const endsAt = new Date(payee.createdAt.getTime() + COOLING_OFF_HOURS * HOUR_MS)
+    const limit = Money.of(COOLING_OFF_LIMIT)
+
+    if (now >= endsAt) {
+      return { active: false, endsAt, limit, used: Money.zero(), remaining: limit }
+    }
+
+    const sent = await prisma.transaction.aggregate({
+      _sum: { amount: true },
+      where: {
+        userId: payee.userId,
+        type: 'DEBIT',
+        status: { in: ['PENDING', 'COMPLETED'] },
+        metadata: { path: ['payeeId'], equals: payee.id }
+      }
+    })
+    const used = Money.of(sent._sum.amount || '0')
+
+    return { active: true, endsAt, limit, used, remaining: Money.max(limit.subtract(used), Money.zero()) }
+  }
+
+  /**
+   * Reason a transfer to the payee cannot go ahead, or null when it can
+   */
+  static async checkTransfer(payee: Payee, amount: MoneyInput) {
+    if (payee.verificationStatus === 'FAILED') {
+      return { message: 'The receiving bank rejected this payee\'s account details. Please add the payee again.', code: 'PAYEE_VERIFICATION_FAILED' }
+    }
+
+    const coolingOff = await PayeeService.getCoolingOff(payee)
+    if (coolingOff.active && coolingOff.remaining.lt(amount)) {
+      return {
+        message: `New payees can receive up to ${coolingOff.limit.format()} until ${coolingOff.endsAt.toISOString()}`,
+        code: 'PAYEE_COOLING_OFF',
+        details: { limit: coolingOff.limit, remaining: coolingOff.remaining, endsAt: coolingOff.endsAt }
+      }
+    }
+
+    return null
+  }
+
+  static isNew(payee: Pick<Payee, 'createdAt'>, now: Date = new Date()) {
+    return now.getTime() - payee.createdAt.getTime() < NEW_PAYEE_RISK_HOURS * HOUR_MS
+  }
+
+  static async markUsed(payeeId: string) {
+    await prisma.payee.updateMany({
+      where: { id: payeeId },
+      data: { lastUsedAt: new Date() }
+    })
+  }
+
+  /**
+   * Record what the receiving bank said about a transfer to a payee: a
+   * settlement verifies the account, an account-level return fails it
+   */
+  static async recordAchResult(tx: Prisma.TransactionClient, payeeId: string, status: 'settled' | 'returned', returnCode?: string) {
+    if (status === 'settled') {
+      await tx.payee.updateMany({
+        where: { id: payeeId, verificationStatus: 'UNVERIFIED' },
+        data: { verificationStatus: 'VERIFIED', verifiedAt: new Date() }
+      })
+    } else if (returnCode && ACCOUNT_RETURN_CODES.includes(returnCode)) {
+      await tx.payee.updateMany({
+        where: { id: payeeId },
+        data: { verificationStatus: 'FAILED' }
+      })
+    }
+  }
+
+  /**
+   * API shape of a payee: masked account number plus cooling-off status
+   */
+  static async present(payee: Payee) {
+    const { accountNumber, ...rest } = payee
+    const coolingOff = await PayeeService.getCoolingOff(payee)
+
+    return {
+      ...rest,
+      accountLast4: accountNumber.slice(-4),
+      coolingOff: coolingOff.active
+        ? {
+            endsAt: coolingOff.endsAt,
+            limit: coolingOff.limit.toString(),
+            remaining: coolingOff.remaining.toString()
+          }
+        : null
+    }
+  }
+}
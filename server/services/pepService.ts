@@ -0,0 +1,467 @@
+import fs from 'fs'
+import path from 'path'
+import type { EddCaseStatus, EddReason, PepListEntry, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { readCsvRows } from '../utils/csv'
+import { countryTokens, nameSimilarity, nameTokens } from '../utils/nameMatching'
+import type { ScreeningSubject } from './sanctionsService'
+
+// The PEP list (CSV: id,name,aliases,position,country,date_of_birth, with
+// aliases separated by semicolons)
+const PEP_LIST_PATH = process.env.PEP_LIST_PATH || path.join(process.cwd(), 'server', 'data', 'peps.csv')
+
+// Matches scoring at least this (0-100) flag the customer as a PEP
+const MATCH_THRESHOLD = Number(process.env.PEP_MATCH_THRESHOLD) || 85
+
+// How long a signed-off case stands before the customer is reviewed again
+const REVIEW_INTERVAL_DAYS = Number(process.env.EDD_REVIEW_INTERVAL_DAYS) || 365
+
+// Names less alike than this are not considered at all
+const MIN_NAME_SIMILARITY = 0.8
+
+const IMPORT_BATCH_SIZE = 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Cases still waiting on the customer or on sign-off
+const ACTIVE_STATUSES: EddCaseStatus[] = ['AWAITING_DOCUMENTS', 'SUBMITTED']
+
+export const eddSubmissionSchema = z.object({
+  sourceOfWealth: z.string().trim().min(20, 'Describe where your wealth comes from in a sentence or two').max(2000),
+  documentIds: z.array(z.string().uuid()).min(1, 'Attach at least one source-of-wealth document').max(10)
+})
+
+export const eddNotesSchema = z.object({
+  notes: z.string().trim().min(1, 'Notes are required').max(1000)
+})
+
+export const eddCaseFilterSchema = z.object({
+  status: z.enum(['AWAITING_DOCUMENTS', 'SUBMITTED', 'APPROVED', 'DISMISSED']).default('SUBMITTED')
+})
+
+export interface PepMatch {
+  externalId: string
+  name: string
+  matchedName: string // The name or alias that matched
+  position: string | null
+  country: string | null
+  nameScore: number
+  dateOfBirthCheck: 'exact' | 'year' | 'mismatch' | 'unknown'
+  countryCheck: 'match' | 'different' | 'unknown'
+  score: number
+}
+
+interface IndexedEntry {
+  entry: PepListEntry
+  names: { name: string, tokens: string[] }[]
+  country: string[]
+}
+
+// Screening index over the loaded list, rebuilt after an import
+let index: IndexedEntry[] | null = null
+
+export class PepService {
+  /**
+   * Load the PEP list from its file, replacing the previous import. A missing
+   * file keeps what was loaded before.
+   */
+  static async importList(adminId?: string, filePath: string = PEP_LIST_PATH) {
+    if (!fs.existsSync(filePath)) {
+      console.warn(`PEP list not found at ${filePath}; keeping the entries already loaded`)
+      return { imported: 0, skipped: 0 }
+    }
+
+    const entries = new Map<string, Prisma.PepListEntryCreateManyInput>()
+    let skipped = 0
+
+    for (const [externalId = '', name = '', aliases = '', position = '', country = '', dateOfBirth = ''] of readCsvRows(fs.readFileSync(filePath, 'utf8'))) {
+      // Rows without an id or a name cannot be matched or cited; dates of birth
+      // must be YYYY-MM-DD or YYYY
+      if (!externalId.trim() || !name.trim() || !/^(\d{4}(-\d{2}-\d{2})?)?$/.test(dateOfBirth.trim())) {
+        skipped++
+        continue
+      }
+      entries.set(externalId.trim(), {
+        externalId: externalId.trim(),
+        name: name.trim(),
+        aliases: aliases.split(';').map(alias => alias.trim()).filter(Boolean),
+        position: position.trim() || null,
+        country: country.trim().toUpperCase() || null,
+        dateOfBirth: dateOfBirth.trim() || null
+      })
+    }
+
+    const data = Array.from(entries.values())
+    await prisma.$transaction(async (tx) => {
+      await tx.pepListEntry.deleteMany()
+      for (let start = 0; start < data.length; start += IMPORT_BATCH_SIZE) {
+        await tx.pepListEntry.createMany({ data: data.slice(start, start + IMPORT_BATCH_SIZE) })
+      }
+    }, { timeout: 120000 })
+
+    index = null
+
+    if (skipped > 0) {
+      console.warn(`PEP list: skipped ${skipped} invalid row(s)`)
+    }
+
+    if (adminId) {
+      await prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'PEP_LIST_IMPORTED',
+          description: `Imported ${data.length} PEP list entries from ${path.basename(filePath)}`
+        }
+      })
+    }
+
+    return { imported: data.length, skipped }
+  }
+
+  static async getStatus() {
+    const [list, cases] = await Promise.all([
+      prisma.pepListEntry.aggregate({ _count: true, _max: { importedAt: true } }),
+      prisma.eddCase.groupBy({ by: ['status'], _count: true })
+    ])
+
+    return {
+      entries: list._count,
+      importedAt: list._max.importedAt,
+      cases: Object.fromEntries(cases.map(row => [row.status, row._count])) as Partial<Record<EddCaseStatus, number>>,
+      threshold: MATCH_THRESHOLD,
+      reviewIntervalDays: REVIEW_INTERVAL_DAYS
+    }
+  }
+
+  private static async getIndex() {
+    if (index) return index
+
+    const entries = await prisma.pepListEntry.findMany()
+    index = entries.map(entry => ({
+      entry,
+      names: [entry.name, ...entry.aliases].map(name => ({ name, tokens: nameTokens(name) })),
+      country: entry.country ? countryTokens(entry.country) : []
+    }))
+    return index
+  }
+
+  /**
+   * Every PEP the subject may be, best first, scored the same way as
+   * sanctions matches: the name decides, and the date of birth and country
+   * raise or lower the score
+   */
+  static async screen(subject: ScreeningSubject): Promise<PepMatch[]> {
+    const tokens = nameTokens(subject.name)
+    if (tokens.length === 0) return []
+
+    const birthDate = subject.dateOfBirth ? subject.dateOfBirth.toISOString().slice(0, 10) : null
+    const country = subject.country ? countryTokens(subject.country) : []
+    const matches: PepMatch[] = []
+
+    for (const { entry, names, country: entryCountry } of await PepService.getIndex()) {
+      let best = { name: '', similarity: 0 }
+      for (const candidate of names) {
+        const similarity = nameSimilarity(tokens, candidate.tokens)
+        if (similarity > best.similarity) best = { name: candidate.name, similarity }
+      }
+      if (best.similarity < MIN_NAME_SIMILARITY) continue
+
+      const dateOfBirthCheck = !birthDate || !entry.dateOfBirth
+        ? 'unknown'
+        : entry.dateOfBirth === birthDate
+          ? 'exact'
+          : entry.dateOfBirth.length === 4 && birthDate.startsWith(entry.dateOfBirth)
+            ? 'year'
+            : 'mismatch'
+      const countryCheck = country.length === 0 || entryCountry.length === 0
+        ? 'unknown'
+        : nameSimilarity(country, entryCountry) >= 0.9 ? 'match' : 'different'
+
+      const adjustment = { exact: 10, year: 5, mismatch: -15, unknown: 0 }[dateOfBirthCheck] + (countryCheck === 'match' ? 5 : 0)
+      const score = Math.max(0, Math.min(100, Math.round(best.similarity * 100) + adjustment))
+      if (score < MATCH_THRESHOLD) continue
+
+      matches.push({
+        externalId: entry.externalId,
+        name: entry.name,
+        matchedName: best.name,
+        position: entry.position,
+        country: entry.country,
+        nameScore: Math.round(best.similarity * 100),
+        dateOfBirthCheck,
+        countryCheck,
+        score
+      })
+    }
+
+    return matches.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Screen a customer who is not yet a PEP by their profile, or the details
+   * they just gave. A match flags them and opens an EDD case; list entries a
+   * senior admin has already ruled out for them are ignored.
+   */
+  static async screenCustomer(userId: string, details: ScreeningSubject | null = null) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { name: true, dateOfBirth: true, country: true, nationality: true, isPep: true }
+    })
+    if (user.isPep) return null
+
+    const subject: ScreeningSubject = details ?? { name: user.name, dateOfBirth: user.dateOfBirth, country: user.nationality || user.country }
+    const matches = await PepService.screen(subject)
+    if (matches.length === 0) return null
+
+    const dismissed = await prisma.eddCase.findMany({
+      where: { userId, reason: 'PEP_SCREENING', status: 'DISMISSED' },
+      select: { pepMatches: true }
+    })
+    const ruledOut = new Set(dismissed.flatMap(eddCase => ((eddCase.pepMatches ?? []) as unknown as PepMatch[]).map(match => match.externalId)))
+    const fresh = matches.filter(match => !ruledOut.has(match.externalId))
+    if (fresh.length === 0) return null
+
+    return PepService.openCase(userId, 'PEP_SCREENING', { pepMatches: fresh.slice(0, 10) })
+  }
+
+  /**
+   * An admin marks a customer as a PEP
+   */
+  static async flagCustomer(userId: string, notes: string, adminId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } })
+    if (!user) {
+      throw new Error('User not found')
+    }
+    if (await prisma.eddCase.findFirst({ where: { userId, status: { in: ACTIVE_STATUSES } } })) {
+      throw new Error('Customer already has an open EDD case')
+    }
+
+    const eddCase = await PepService.openCase(userId, 'ADMIN_FLAG', { notes, openedById: adminId })
+    await prisma.adminLog.create({
+      data: {
+        adminId,
+        action: 'PEP_FLAGGED',
+        targetUserId: userId,
+        description: `Flagged ${user.name} as a politically exposed person: ${notes}`
+      }
+    })
+    return eddCase
+  }
+
+  /**
+   * Mark the customer as a PEP and ask them for source-of-wealth documents,
+   * unless a case is already open
+   */
+  private static async openCase(userId: string, reason: EddReason, data: { pepMatches?: PepMatch[], notes?: string, openedById?: string } = {}) {
+    return prisma.$transaction(async (tx) => {
+      const active = await tx.eddCase.findFirst({ where: { userId, status: { in: ACTIVE_STATUSES } } })
+      if (active) return active
+
+      await tx.user.update({ where: { id: userId }, data: { isPep: true } })
+      return tx.eddCase.create({
+        data: {
+          userId,
+          reason,
+          pepMatches: data.pepMatches as unknown as Prisma.InputJsonValue,
+          notes: data.notes,
+          openedById: data.openedById
+        }
+      })
+    })
+  }
+
+  /**
+   * The customer's open case, without the screening evidence, and the
+   * source-of-wealth documents they have uploaded
+   */
+  static async getCustomerCase(userId: string) {
+    const [eddCase, documents] = await Promise.all([
+      prisma.eddCase.findFirst({
+        where: { userId, status: { in: ACTIVE_STATUSES } },
+        select: { id: true, status: true, informationRequest: true, sourceOfWealth: true, documentIds: true, submittedAt: true, createdAt: true }
+      }),
+      prisma.document.findMany({
+        where: { userId, type: 'SOURCE_OF_WEALTH' },
+        select: { id: true, originalName: true, uploadedAt: true },
+        orderBy: { uploadedAt: 'desc' }
+      })
+    ])
+    return { case: eddCase, documents }
+  }
+
+  static async submitDocuments(userId: string, data: z.infer<typeof eddSubmissionSchema>) {
+    const eddCase = await prisma.eddCase.findFirst({ where: { userId, status: 'AWAITING_DOCUMENTS' } })
+    if (!eddCase) {
+      throw new Error('No due diligence request is awaiting documents')
+    }
+
+    const documentIds = Array.from(new Set(data.documentIds))
+    const documents = await prisma.document.count({ where: { id: { in: documentIds }, userId, type: 'SOURCE_OF_WEALTH' } })
+    if (documents !== documentIds.length) {
+      throw new Error('Source-of-wealth document not found')
+    }
+
+    const updated = await prisma.eddCase.updateMany({
+      where: { id: eddCase.id, status: 'AWAITING_DOCUMENTS' },
+      data: { status: 'SUBMITTED', sourceOfWealth: data.sourceOfWealth, documentIds, submittedAt: new Date() }
+    })
+    if (updated.count === 0) {
+      throw new Error('No due diligence request is awaiting documents')
+    }
+
+    return PepService.getCustomerCase(userId)
+  }
+
+  /**
+   * Cases in one status with the customer and their submitted documents;
+   * cases awaiting sign-off oldest first, closed ones newest first
+   */
+  static async listCases(status: EddCaseStatus) {
+    const cases = await prisma.eddCase.findMany({
+      where: { status },
+      orderBy: ACTIVE_STATUSES.includes(status) ? { createdAt: 'asc' } : { signedOffAt: 'desc' },
+      take: 100,
+      include: {
+        user: { select: { id: true, name: true, email: true, accountNumber: true, nationality: true, country: true } },
+        openedBy: { select: { id: true, name: true } },
+        signedOffBy: { select: { id: true, name: true } }
+      }
+    })
+
+    const documents = await prisma.document.findMany({
+      where: { id: { in: cases.flatMap(eddCase => eddCase.documentIds) } },
+      select: { id: true, originalName: true, url: true, uploadedAt: true }
+    })
+    return cases.map(eddCase => ({
+      ...eddCase,
+      documents: documents.filter(document => eddCase.documentIds.includes(document.id))
+    }))
+  }
+
+  /**
+   * Send a submitted case back to the customer for more information
+   */
+  static async requestInformation(caseId: string, notes: string, adminId: string) {
+    return PepService.review(caseId, ['SUBMITTED'], adminId, {
+      status: 'AWAITING_DOCUMENTS',
+      data: { informationRequest: notes },
+      action: 'REQUEST_MORE_INFO',
+      log: 'EDD_INFORMATION_REQUESTED',
+      notes
+    })
+  }
+
+  /**
+   * Senior sign-off: the customer stays a PEP and is reviewed again after
+   * the review interval
+   */
+  static async signOff(caseId: string, notes: string, adminId: string) {
+    const now = new Date()
+    return PepService.review(caseId, ['SUBMITTED'], adminId, {
+      status: 'APPROVED',
+      data: { signedOffById: adminId, signedOffAt: now, signOffNotes: notes, nextReviewAt: new Date(now.getTime() + REVIEW_INTERVAL_DAYS * DAY_MS) },
+      action: 'APPROVE',
+      log: 'EDD_SIGNED_OFF',
+      notes
+    })
+  }
+
+  /**
+   * Senior decision that the customer is not a PEP: the case closes and the
+   * flag is removed
+   */
+  static async dismiss(caseId: string, notes: string, adminId: string) {
+    return PepService.review(caseId, ACTIVE_STATUSES, adminId, {
+      status: 'DISMISSED',
+      data: { signedOffById: adminId, signedOffAt: new Date(), signOffNotes: notes },
+      action: 'OVERRIDE',
+      log: 'PEP_FLAG_REMOVED',
+      notes
+    })
+  }
+
+  private static async review(
+    caseId: string,
+    from: EddCaseStatus[],
+    adminId: string,
+    outcome: {
+      status: EddCaseStatus
+      data: Prisma.EddCaseUncheckedUpdateManyInput
+      action: 'APPROVE' | 'REQUEST_MORE_INFO' | 'OVERRIDE'
+      log: string
+      notes: string
+    }
+  ) {
+    const eddCase = await prisma.eddCase.findUnique({ where: { id: caseId }, include: { user: { select: { name: true } } } })
+    if (!eddCase) {
+      throw new Error('EDD case not found')
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.eddCase.updateMany({
+        where: { id: caseId, status: { in: from } },
+        data: { ...outcome.data, status: outcome.status }
+      })
+      if (updated.count === 0) {
+        throw new Error(from.length === 1 ? 'EDD case is not awaiting sign-off' : 'EDD case is already closed')
+      }
+
+      // Only the latest sign-off sets when the customer is next reviewed
+      if (outcome.status === 'APPROVED') {
+        await tx.eddCase.updateMany({
+          where: { userId: eddCase.userId, status: 'APPROVED', id: { not: caseId } },
+          data: { nextReviewAt: null }
+        })
+      }
+      if (outcome.status === 'DISMISSED') {
+        await tx.user.update({ where: { id: eddCase.userId }, data: { isPep: false } })
+      }
+
+      await tx.adminVerification.create({
+        data: {
+          userId: eddCase.userId,
+          adminId,
+          verificationType: 'ENHANCED_DD',
+          action: outcome.action,
+          previousStatus: eddCase.status,
+          newStatus: outcome.status,
+          documentIds: eddCase.documentIds,
+          notes: outcome.notes
+        }
+      })
+
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: outcome.log,
+          targetUserId: eddCase.userId,
+          description: `EDD case for ${eddCase.user.name} ${outcome.status.toLowerCase().replace('_', ' ')}: ${outcome.notes}`
+        }
+      })
+    })
+
+    return prisma.eddCase.findUniqueOrThrow({ where: { id: caseId } })
+  }
+
+  /**
+   * Open a re-review for every PEP whose sign-off is due and who has no case
+   * open already
+   */
+  static async openDueReviews(now: Date = new Date()) {
+    const due = await prisma.eddCase.findMany({
+      where: {
+        status: 'APPROVED',
+        nextReviewAt: { lte: now },
+        user: { isPep: true, eddCases: { none: { status: { in: ACTIVE_STATUSES } } } }
+      },
+      orderBy: { nextReviewAt: 'asc' },
+      take: 100
+    })
+
+    for (const eddCase of due) {
+      await PepService.openCase(eddCase.userId, 'PERIODIC_REVIEW')
+    }
+    return due.length
+  }
+}
@@ -0,0 +1,58 @@
+import fs from 'fs'
+import path from 'path'
+import { isValidAbaRoutingNumber } from '../../shared/beneficiary'
+import { readCsvRows } from '../utils/csv'
+
+// CSV with a header row: routing_number,institution_name,city,state
+const ROUTING_DIRECTORY_PATH = process.env.ROUTING_DIRECTORY_PATH || path.join(process.cwd(), 'server', 'data', 'routing-directory.csv')
+
+export interface RoutingInstitution {
+  routingNumber: string
+  name: string
+  city: string
+  state: string
+}
+
+let directory: Map<string, RoutingInstitution> | null = null
+
+export class RoutingDirectoryService {
+  /**
+   * Read the directory file. Rows with a malformed or failing-checksum routing
+   * number are skipped so one bad line cannot take the directory down.
+   */
+  static load(filePath: string = ROUTING_DIRECTORY_PATH) {
+    const entries = new Map<string, RoutingInstitution>()
+
+    if (!fs.existsSync(filePath)) {
+      console.warn(`Routing directory not found at ${filePath}; external transfers cannot be validated`)
+      directory = entries
+      return entries
+    }
+
+    let skipped = 0
+
+    for (const row of readCsvRows(fs.readFileSync(filePath, 'utf8'))) {
+      const [routingNumber, name, city = '', state = ''] = row
+      if (!isValidAbaRoutingNumber(routingNumber || '') || !name) {
+        skipped++
+        continue
+      }
+      entries.set(routingNumber, { routingNumber, name, city, state })
+    }
+
+    if (skipped > 0) {
+      console.warn(`Routing directory: skipped ${skipped} invalid row(s)`)
+    }
+
+    directory = entries
+    return entries
+  }
+
+  /**
+   * The institution a routing number belongs to, or null when it is not in the directory
+   */
+  static lookup(routingNumber: string): RoutingInstitution | null {
+    const entries = directory ?? RoutingDirectoryService.load()
+    return entries.get(routingNumber.trim()) ?? null
+  }
+}
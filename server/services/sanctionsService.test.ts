@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest'
+
+const db = vi.hoisted(() => ({
+  sanctionsListEntry: {
+    findMany: vi.fn(async () => [
+      entry({ externalId: '101', name: 'Ivan Ivanovich Ivanov', aliases: ['Vanya Ivanov'], datesOfBirth: ['1960-05-12'], countries: ['Russia'] }),
+      entry({ externalId: '102', entryType: 'Entity', name: 'Acme Trading LLC' }),
+      // Vessels are not screened against customers
+      entry({ externalId: '103', entryType: 'Vessel', name: 'Ivan Ivanov' })
+    ])
+  }
+}))
+
+function entry(values: Record<string, unknown>) {
+  return {
+    id: `entry-${values.externalId}`,
+    list: 'OFAC_SDN',
+    entryType: 'Individual',
+    aliases: [],
+    programs: ['RUSSIA-EO14024'],
+    datesOfBirth: [],
+    countries: [],
+    ...values
+  }
+}
+
+vi.mock('../prisma', () => ({ prisma: db }))
+
+import { SanctionsService } from './sanctionsService'
+
+describe('SanctionsService.screen', () => {
+  it('matches a reordered, accented name', async () => {
+    const [match, ...others] = await SanctionsService.screen({ name: 'Ivánov, Iván' })
+
+    expect(others).toEqual([])
+    expect(match).toMatchObject({ externalId: '101', matchedName: 'Ivan Ivanovich Ivanov', nameScore: 95, dateOfBirth: 'unknown', score: 95 })
+  })
+
+  it('does not match on a single shared word', async () => {
+    await expect(SanctionsService.screen({ name: 'Ivanov' })).resolves.toEqual([])
+  })
+
+  it('raises the score for a matching date of birth and country', async () => {
+    const [match] = await SanctionsService.screen({ name: 'Ivan Ivanov', dateOfBirth: new Date('1960-05-12'), country: 'RU' })
+
+    expect(match).toMatchObject({ dateOfBirth: 'exact', country: 'match', score: 100 })
+  })
+
+  it('drops a match whose date of birth cannot be theirs below the threshold', async () => {
+    await expect(SanctionsService.screen({ name: 'Ivan Ivanov', dateOfBirth: new Date('1985-01-01') })).resolves.toEqual([])
+  })
+
+  it('screens entities and skips other entry types', async () => {
+    const matches = await SanctionsService.screen({ name: 'ACME Trading, L.L.C.' })
+
+    expect(matches.map(match => match.externalId)).toEqual(['102'])
+  })
+})
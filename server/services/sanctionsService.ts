@@ -0,0 +1,485 @@
+import fs from 'fs'
+import path from 'path'
+import type { Prisma, SanctionsCaseStatus, SanctionsList, SanctionsListEntry, SanctionsSubjectType, SanctionsTrigger } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { parseCsvLine } from '../utils/csv'
+import { countryTokens, nameSimilarity, nameTokens, normalizeName } from '../utils/nameMatching'
+import { xmlElements, xmlText, xmlTexts } from '../utils/xml'
+
+// Directory holding the OFAC files as published: sdn.xml, or sdn.csv with
+// alt.csv and add.csv, for the SDN list; consolidated.xml, or cons_prim.csv
+// with cons_alt.csv and cons_add.csv, for the consolidated list
+const SANCTIONS_DATA_DIR = process.env.SANCTIONS_DATA_DIR || path.join(process.cwd(), 'server', 'data', 'sanctions')
+
+// Matches scoring at least this (0-100) open a review case
+const MATCH_THRESHOLD = Number(process.env.SANCTIONS_MATCH_THRESHOLD) || 85
+
+// Names less alike than this are not considered at all
+const MIN_NAME_SIMILARITY = 0.8
+
+const LIST_FILES: Record<SanctionsList, { xml: string, csv: [primary: string, aliases: string, addresses: string] }> = {
+  SDN: { xml: 'sdn.xml', csv: ['sdn.csv', 'alt.csv', 'add.csv'] },
+  CONSOLIDATED: { xml: 'consolidated.xml', csv: ['cons_prim.csv', 'cons_alt.csv', 'cons_add.csv'] }
+}
+
+// OFAC's CSV files mark empty fields with -0-
+const CSV_EMPTY = '-0-'
+
+// Vessels and aircraft are never customers or beneficiaries
+const SCREENED_ENTRY_TYPES = ['individual', 'entity']
+
+const IMPORT_BATCH_SIZE = 1000
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+export const sanctionsReviewSchema = z.object({
+  notes: z.string().trim().min(1, 'Review notes are required').max(1000)
+})
+
+export const sanctionsCaseFilterSchema = z.object({
+  status: z.enum(['OPEN', 'CLEARED', 'CONFIRMED']).default('OPEN')
+})
+
+type ListEntryInput = Omit<Prisma.SanctionsListEntryCreateManyInput, 'id' | 'importedAt'>
+
+export interface ScreeningSubject {
+  name: string
+  dateOfBirth?: Date | null
+  country?: string | null
+}
+
+export interface SanctionsMatch {
+  list: SanctionsList
+  externalId: string
+  entryType: string
+  name: string
+  matchedName: string // The name or alias that matched
+  programs: string[]
+  nameScore: number
+  dateOfBirth: 'exact' | 'year' | 'mismatch' | 'unknown'
+  country: 'match' | 'different' | 'unknown'
+  score: number
+}
+
+interface PublishedBirthDate {
+  date: string | null // YYYY-MM-DD when the full date is published
+  fromYear: number
+  toYear: number
+}
+
+interface IndexedEntry {
+  entry: SanctionsListEntry
+  names: { name: string, tokens: string[] }[]
+  birthDates: PublishedBirthDate[]
+  countries: string[][]
+}
+
+// Screening index over every loaded entry, rebuilt after an import
+let index: IndexedEntry[] | null = null
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(value => value)))
+
+/**
+ * Read a published date of birth: "01 Jan 1960", "Jan 1960", "1960",
+ * "circa 1960" (taken as two years either side) or "1958 to 1962"
+ */
+function parseBirthDate(text: string): PublishedBirthDate | null {
+  const range = text.match(/(\d{4})\s*to\s*(\d{4})/i)
+  if (range) return { date: null, fromYear: Number(range[1]), toYear: Number(range[2]) }
+
+  const iso = text.match(/(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return { date: iso[0], fromYear: Number(iso[1]), toYear: Number(iso[1]) }
+
+  const full = text.match(/(\d{1,2})\s+([a-z]{3})[a-z]*\.?\s+(\d{4})/i)
+  const month = full ? MONTHS.indexOf(full[2].toLowerCase()) : -1
+  if (full && month >= 0) {
+    const date = `${full[3]}-${String(month + 1).padStart(2, '0')}-${full[1].padStart(2, '0')}`
+    return { date, fromYear: Number(full[3]), toYear: Number(full[3]) }
+  }
+
+  const year = text.match(/\d{4}/)
+  if (!year) return null
+  const spread = /circa|approximately|approx/i.test(text) ? 2 : 0
+  return { date: null, fromYear: Number(year[0]) - spread, toYear: Number(year[0]) + spread }
+}
+
+/**
+ * Entries of an OFAC XML list (sdn.xml or consolidated.xml)
+ */
+function parseXmlList(list: SanctionsList, xml: string): ListEntryInput[] {
+  const fullName = (part: string) => [xmlText(part, 'firstName'), xmlText(part, 'lastName')].filter(Boolean).join(' ')
+
+  return xmlElements(xml, 'sdnEntry').map(entry => {
+    // The entry's own fields, without the nested lists that repeat the same tags
+    const head = entry.replace(/<(\w+List)>[\s\S]*?<\/\1>/g, '')
+    const countries = ['nationality', 'citizenship', 'address']
+      .flatMap(tag => xmlElements(entry, tag).map(element => xmlText(element, 'country') || ''))
+
+    return {
+      list,
+      externalId: xmlText(head, 'uid') || '',
+      entryType: xmlText(head, 'sdnType') || 'Entity',
+      name: fullName(head),
+      aliases: unique(xmlElements(entry, 'aka').map(fullName)),
+      datesOfBirth: unique(xmlElements(entry, 'dateOfBirthItem').map(item => xmlText(item, 'dateOfBirth') || '')),
+      countries: unique(countries),
+      programs: unique(xmlTexts(entry, 'program')),
+      remarks: xmlText(head, 'remarks')
+    }
+  })
+}
+
+/**
+ * Entries of an OFAC CSV list: the primary file (ent_num, name, type,
+ * program, title, call sign, vessel fields..., remarks) joined with its
+ * aliases (ent_num, alt_num, type, name, remarks) and addresses (ent_num,
+ * add_num, address, city, country, remarks). Dates of birth, nationality and
+ * citizenship are only published in the remarks.
+ */
+function parseCsvList(list: SanctionsList, primary: string, aliases: string | null, addresses: string | null): ListEntryInput[] {
+  const rows = (content: string | null) => (content || '')
+    .split(/\r?\n/)
+    .map(line => parseCsvLine(line).map(field => (field === CSV_EMPTY ? '' : field)))
+    .filter(([id]) => /^\d+$/.test(id || ''))
+
+  const aliasesById = new Map<string, string[]>()
+  for (const [id, , , name] of rows(aliases)) {
+    if (name) aliasesById.set(id, [...(aliasesById.get(id) || []), name])
+  }
+  const countriesById = new Map<string, string[]>()
+  for (const [id, , , , country] of rows(addresses)) {
+    if (country) countriesById.set(id, [...(countriesById.get(id) || []), country])
+  }
+
+  return rows(primary).map(([id, name = '', type = '', program = '', , , , , , , , remarks = '']) => {
+    const remarked = (pattern: RegExp) => Array.from(remarks.matchAll(pattern), match => match[1].trim())
+    return {
+      list,
+      externalId: id,
+      entryType: type ? type[0].toUpperCase() + type.slice(1).toLowerCase() : 'Entity',
+      name,
+      aliases: unique(aliasesById.get(id) || []),
+      datesOfBirth: unique(remarked(/DOB ([^;]+)/g)),
+      countries: unique([
+        ...(countriesById.get(id) || []),
+        ...remarked(/nationality ([^;.]+)/gi),
+        ...remarked(/citizen ([^;.]+)/gi)
+      ]),
+      programs: unique(program.split(/\]\s*\[/).map(part => part.replace(/[[\]]/g, '').trim())),
+      remarks: remarks || null
+    }
+  })
+}
+
+export class SanctionsService {
+  /**
+   * Read one list from the data directory, preferring the XML file. Null
+   * when neither format is there.
+   */
+  static readList(list: SanctionsList, directory: string = SANCTIONS_DATA_DIR) {
+    const { xml, csv } = LIST_FILES[list]
+    const read = (file: string) => {
+      const filePath = path.join(directory, file)
+      return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null
+    }
+
+    let source: string
+    let parsed: ListEntryInput[]
+    const xmlContent = read(xml)
+    const csvContent = xmlContent === null ? read(csv[0]) : null
+    if (xmlContent !== null) {
+      source = xml
+      parsed = parseXmlList(list, xmlContent)
+    } else if (csvContent !== null) {
+      source = csv[0]
+      parsed = parseCsvList(list, csvContent, read(csv[1]), read(csv[2]))
+    } else {
+      return null
+    }
+
+    // Entries without an id or a name cannot be matched or cited
+    const entries = new Map<string, ListEntryInput>()
+    for (const entry of parsed) {
+      if (entry.externalId && entry.name) entries.set(entry.externalId, entry)
+    }
+    return { source, entries: Array.from(entries.values()), skipped: parsed.length - entries.size }
+  }
+
+  /**
+   * Load the SDN and consolidated lists from their files, each replacing the
+   * previous import of that list. A list whose files are missing keeps what
+   * was loaded before.
+   */
+  static async importLists(adminId?: string, directory: string = SANCTIONS_DATA_DIR) {
+    const results: { list: SanctionsList, source: string | null, imported: number, skipped: number }[] = []
+
+    for (const list of Object.keys(LIST_FILES) as SanctionsList[]) {
+      const read = SanctionsService.readList(list, directory)
+      if (!read) {
+        console.warn(`Sanctions list ${list} not found in ${directory}; keeping the entries already loaded`)
+        results.push({ list, source: null, imported: 0, skipped: 0 })
+        continue
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.sanctionsListEntry.deleteMany({ where: { list } })
+        for (let start = 0; start < read.entries.length; start += IMPORT_BATCH_SIZE) {
+          await tx.sanctionsListEntry.createMany({ data: read.entries.slice(start, start + IMPORT_BATCH_SIZE) })
+        }
+      }, { timeout: 120000 })
+
+      results.push({ list, source: read.source, imported: read.entries.length, skipped: read.skipped })
+    }
+
+    index = null
+
+    if (adminId) {
+      await prisma.adminLog.create({
+        data: {
+          adminId,
+          action: 'SANCTIONS_LISTS_IMPORTED',
+          description: results
+            .map(result => result.source ? `${result.list}: ${result.imported} entries from ${result.source}` : `${result.list}: file not found`)
+            .join('; ')
+        }
+      })
+    }
+
+    return results
+  }
+
+  static async getStatus() {
+    const counts = await prisma.sanctionsListEntry.groupBy({
+      by: ['list'],
+      _count: true,
+      _max: { importedAt: true }
+    })
+    const openCases = await prisma.sanctionsCase.count({ where: { status: 'OPEN' } })
+
+    return {
+      lists: (Object.keys(LIST_FILES) as SanctionsList[]).map(list => {
+        const row = counts.find(count => count.list === list)
+        return { list, entries: row?._count ?? 0, importedAt: row?._max.importedAt ?? null }
+      }),
+      openCases,
+      threshold: MATCH_THRESHOLD
+    }
+  }
+
+  private static async getIndex() {
+    if (index) return index
+
+    const entries = await prisma.sanctionsListEntry.findMany()
+    index = entries
+      .filter(entry => SCREENED_ENTRY_TYPES.includes(entry.entryType.toLowerCase()))
+      .map(entry => ({
+        entry,
+        names: [entry.name, ...entry.aliases].map(name => ({ name, tokens: nameTokens(name) })),
+        birthDates: entry.datesOfBirth.map(parseBirthDate).filter((date): date is PublishedBirthDate => date !== null),
+        countries: entry.countries.map(countryTokens)
+      }))
+    return index
+  }
+
+  /**
+   * Every list entry the subject may be, best first. The name decides; a
+   * matching date of birth or country raises the score and a date of birth
+   * that cannot be theirs lowers it.
+   */
+  static async screen(subject: ScreeningSubject): Promise<SanctionsMatch[]> {
+    const tokens = nameTokens(subject.name)
+    if (tokens.length === 0) return []
+
+    const birthDate = subject.dateOfBirth ? subject.dateOfBirth.toISOString().slice(0, 10) : null
+    const birthYear = subject.dateOfBirth ? subject.dateOfBirth.getUTCFullYear() : null
+    const country = subject.country ? countryTokens(subject.country) : []
+    const matches: SanctionsMatch[] = []
+
+    for (const { entry, names, birthDates, countries } of await SanctionsService.getIndex()) {
+      let best = { name: '', similarity: 0 }
+      for (const candidate of names) {
+        const similarity = nameSimilarity(tokens, candidate.tokens)
+        if (similarity > best.similarity) best = { name: candidate.name, similarity }
+      }
+      if (best.similarity < MIN_NAME_SIMILARITY) continue
+
+      const dateOfBirth = birthYear === null || birthDates.length === 0
+        ? 'unknown'
+        : birthDates.some(date => date.date === birthDate)
+          ? 'exact'
+          : birthDates.some(date => birthYear >= date.fromYear && birthYear <= date.toYear)
+            ? 'year'
+            : 'mismatch'
+      const countryResult = country.length === 0 || countries.length === 0
+        ? 'unknown'
+        : countries.some(candidate => nameSimilarity(country, candidate) >= 0.9) ? 'match' : 'different'
+
+      const adjustment = { exact: 10, year: 5, mismatch: -15, unknown: 0 }[dateOfBirth] + (countryResult === 'match' ? 5 : 0)
+      const score = Math.max(0, Math.min(100, Math.round(best.similarity * 100) + adjustment))
+      if (score < MATCH_THRESHOLD) continue
+
+      matches.push({
+        list: entry.list,
+        externalId: entry.externalId,
+        entryType: entry.entryType,
+        name: entry.name,
+        matchedName: best.name,
+        programs: entry.programs,
+        nameScore: Math.round(best.similarity * 100),
+        dateOfBirth,
+        country: countryResult,
+        score
+      })
+    }
+
+    return matches.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Screen a customer by the name, date of birth and country on their
+   * profile, or the details they just gave (e.g. on a KYC submission), and
+   * record when they were last screened. Returns the case opened, if any.
+   */
+  static async screenCustomer(userId: string, trigger: SanctionsTrigger, details: ScreeningSubject | null = null) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { name: true, dateOfBirth: true, country: true, nationality: true }
+    })
+    const subject: ScreeningSubject = details ?? { name: user.name, dateOfBirth: user.dateOfBirth, country: user.nationality || user.country }
+
+    const matches = await SanctionsService.screen(subject)
+    await prisma.user.update({ where: { id: userId }, data: { sanctionsCheck: new Date() } })
+
+    return matches.length > 0
+      ? SanctionsService.openCase(userId, trigger, 'CUSTOMER', subject, matches)
+      : null
+  }
+
+  /**
+   * Screen the holder of an external account a customer saved or paid
+   */
+  static async screenBeneficiary(userId: string, beneficiary: ScreeningSubject & { payeeId?: string, transactionId?: string }) {
+    const matches = await SanctionsService.screen(beneficiary)
+    return matches.length > 0
+      ? SanctionsService.openCase(userId, 'BENEFICIARY', 'BENEFICIARY', beneficiary, matches, beneficiary)
+      : null
+  }
+
+  /**
+   * Open a review case, unless the subject already has an open or confirmed
+   * one, or a cleared one that covered the same list entries
+   */
+  private static async openCase(userId: string, trigger: SanctionsTrigger, subjectType: SanctionsSubjectType, subject: ScreeningSubject, matches: SanctionsMatch[], links: { payeeId?: string, transactionId?: string } = {}) {
+    const subjectKey = normalizeName(subject.name)
+    const existing = await prisma.sanctionsCase.findMany({ where: { userId, subjectType, subjectKey } })
+
+    const active = existing.find(sanctionsCase => sanctionsCase.status !== 'CLEARED')
+    if (active) return active
+
+    const entryKey = (match: SanctionsMatch) => `${match.list}:${match.externalId}`
+    const cleared = new Set(existing.flatMap(sanctionsCase => (sanctionsCase.matches as unknown as SanctionsMatch[]).map(entryKey)))
+    if (matches.every(match => cleared.has(entryKey(match)))) return null
+
+    return prisma.sanctionsCase.create({
+      data: {
+        userId,
+        trigger,
+        subjectType,
+        subjectName: subject.name,
+        subjectKey,
+        dateOfBirth: subject.dateOfBirth ?? null,
+        country: subject.country ?? null,
+        payeeId: links.payeeId,
+        transactionId: links.transactionId,
+        topScore: matches[0].score,
+        matches: matches.slice(0, 10) as unknown as Prisma.InputJsonValue
+      }
+    })
+  }
+
+  /**
+   * Refuse a transfer from a customer with a confirmed match, or to a
+   * customer or beneficiary with one
+   */
+  static async assertTransferAllowed(client: Prisma.TransactionClient | typeof prisma, userId: string, counterparty: { userId?: string, name?: string } = {}) {
+    const customerIds = [userId, counterparty.userId].filter((id): id is string => !!id)
+    const confirmed = await client.sanctionsCase.findFirst({
+      where: {
+        status: 'CONFIRMED',
+        OR: [
+          { subjectType: 'CUSTOMER', userId: { in: customerIds } },
+          ...(counterparty.name ? [{ subjectType: 'BENEFICIARY' as const, subjectKey: normalizeName(counterparty.name) }] : [])
+        ]
+      },
+      select: { id: true }
+    })
+    if (confirmed) {
+      throw new Error('Transfer blocked by sanctions screening')
+    }
+  }
+
+  /**
+   * Refuse to approve a transfer while a possible match is still under
+   * review: on the transfer itself, its customer or its beneficiary
+   */
+  static async assertNoOpenCase(client: Prisma.TransactionClient | typeof prisma, transfer: { transactionId: string, userId: string, name?: string }) {
+    const open = await client.sanctionsCase.findFirst({
+      where: {
+        status: 'OPEN',
+        OR: [
+          { transactionId: transfer.transactionId },
+          { subjectType: 'CUSTOMER', userId: transfer.userId },
+          ...(transfer.name ? [{ subjectType: 'BENEFICIARY' as const, subjectKey: normalizeName(transfer.name) }] : [])
+        ]
+      },
+      select: { id: true }
+    })
+    if (open) {
+      throw new Error('Transfer has an open sanctions case')
+    }
+  }
+
+  static async listCases(status: SanctionsCaseStatus) {
+    return prisma.sanctionsCase.findMany({
+      where: { status },
+      orderBy: status === 'OPEN' ? [{ topScore: 'desc' }, { createdAt: 'asc' }] : { reviewedAt: 'desc' },
+      take: 100,
+      include: {
+        user: { select: { id: true, name: true, email: true, accountNumber: true } },
+        reviewedBy: { select: { id: true, name: true } }
+      }
+    })
+  }
+
+  /**
+   * Clear a case as a false positive or confirm it as a true match
+   */
+  static async reviewCase(caseId: string, outcome: 'CLEARED' | 'CONFIRMED', notes: string, adminId: string) {
+    const sanctionsCase = await prisma.sanctionsCase.findUnique({ where: { id: caseId } })
+    if (!sanctionsCase) {
+      throw new Error('Sanctions case not found')
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.sanctionsCase.updateMany({
+        where: { id: caseId, status: 'OPEN' },
+        data: { status: outcome, reviewedById: adminId, reviewedAt: new Date(), reviewNotes: notes }
+      })
+      if (updated.count === 0) {
+        throw new Error('Sanctions case already reviewed')
+      }
+
+      await tx.adminLog.create({
+        data: {
+          adminId,
+          action: outcome === 'CONFIRMED' ? 'SANCTIONS_MATCH_CONFIRMED' : 'SANCTIONS_MATCH_CLEARED',
+          targetUserId: sanctionsCase.userId,
+          description: `${outcome === 'CONFIRMED' ? 'Confirmed' : 'Cleared'} sanctions match for ${sanctionsCase.subjectType.toLowerCase()} ${sanctionsCase.subjectName}: ${notes}`
+        }
+      })
+    })
+
+    return prisma.sanctionsCase.findUniqueOrThrow({ where: { id: caseId } })
+  }
+}
@@ -0,0 +1,579 @@
+import { Prisma, type ScheduledTransfer, type ScheduledTransferExecution, type Transaction } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { Money } from '../../shared/money'
+import { accountHolderNameSchema } from '../../shared/beneficiary'
+import { AccountService } from './accountService'
+import { TransferService } from './transferService'
+import { TransferValidationService, transferRequestSchema, type RiskAssessment, type ValidatedTransfer } from './transferValidationService'
+import { RoutingDirectoryService } from './routingDirectoryService'
+
+const RETRY_DELAY_MINUTES = parseInt(process.env.SCHEDULED_TRANSFER_RETRY_MINUTES || '240', 10)
+const MAX_RETRIES = parseInt(process.env.SCHEDULED_TRANSFER_MAX_RETRIES || '3', 10)
+const RUN_BATCH_SIZE = 100
+// A claim this old with no transaction behind it was left by a run that
+// stopped before moving any money
+const STALE_CLAIM_MS = 10 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Calendar dates (YYYY-MM-DD) are stored as midnight UTC
+export const calendarDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format')
+  .transform(value => new Date(`${value}T00:00:00.000Z`))
+  .refine(date => !isNaN(date.getTime()), 'Invalid date')
+
+// Validation schemas (the transfer itself is validated with transferRequestSchema)
+export const scheduledTransferSchema = z.object({
+  frequency: z.enum(['ONCE', 'WEEKLY', 'BIWEEKLY', 'MONTHLY', 'DAY_OF_MONTH']),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  startDate: calendarDateSchema,
+  endDate: calendarDateSchema.optional(),
+  maxOccurrences: z.number().int().min(1).max(520).optional(),
+  onInsufficientFunds: z.enum(['RETRY', 'SKIP']).default('RETRY'),
+  fromAccountId: z.string().uuid().optional(),
+  toAccountId: z.string().uuid().optional(),
+  recipientName: accountHolderNameSchema.optional(),
+  note: z.string().trim().max(140).optional(),
+}).superRefine((data, ctx) => {
+  if (data.frequency === 'DAY_OF_MONTH' && !data.dayOfMonth) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['dayOfMonth'],
+      message: 'Day of month is required'
+    })
+  }
+})
+
+export const updateScheduledTransferSchema = z.object({
+  amount: transferRequestSchema.innerType().shape.amount.optional(),
+  endDate: calendarDateSchema.nullable().optional(),
+  maxOccurrences: z.number().int().min(1).max(520).nullable().optional(),
+  onInsufficientFunds: z.enum(['RETRY', 'SKIP']).optional(),
+})
+
+export type ScheduledTransferOutcome = 'executed' | 'retrying' | 'skipped' | 'paused'
+
+// Result of one due occurrence, used by the job to notify the user
+export interface ScheduledTransferRun {
+  schedule: ScheduledTransfer
+  outcome: ScheduledTransferOutcome
+  reason?: string
+  transaction?: Transaction
+  received?: { userId: string, transaction: Transaction, senderName: string }
+}
+
+function startOfUtcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+// The given day in a month, moved back to the last day for short months
+function dayInMonth(year: number, month: number, day: number) {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(day, daysInMonth)))
+}
+
+type ScheduleTiming = Pick<ScheduledTransfer, 'frequency' | 'dayOfMonth' | 'startDate'>
+
+function firstOccurrence(schedule: ScheduleTiming) {
+  if (schedule.frequency !== 'DAY_OF_MONTH') return schedule.startDate
+
+  const start = schedule.startDate
+  const candidate = dayInMonth(start.getUTCFullYear(), start.getUTCMonth(), schedule.dayOfMonth!)
+  return candidate >= start
+    ? candidate
+    : dayInMonth(start.getUTCFullYear(), start.getUTCMonth() + 1, schedule.dayOfMonth!)
+}
+
+function followingOccurrence(schedule: ScheduleTiming, current: Date): Date | null {
+  switch (schedule.frequency) {
+    case 'WEEKLY': return new Date(current.getTime() + 7 * DAY_MS)
+    case 'BIWEEKLY': return new Date(current.getTime() + 14 * DAY_MS)
+    // Monthly repeats on the start date's day, so Jan 31 -> Feb 28 -> Mar 31
+    case 'MONTHLY': return dayInMonth(current.getUTCFullYear(), current.getUTCMonth() + 1, schedule.startDate.getUTCDate())
+    case 'DAY_OF_MONTH': return dayInMonth(current.getUTCFullYear(), current.getUTCMonth() + 1, schedule.dayOfMonth!)
+    default: return null
+  }
+}
+
+/**
+ * Next occurrence after `current`. Occurrences that fell before `notBefore`
+ * (the job was down, or the schedule was paused) are not made up.
+ */
+function nextOccurrence(schedule: ScheduleTiming, current: Date, notBefore: Date) {
+  let next = followingOccurrence(schedule, current)
+  while (next && next < notBefore) {
+    next = followingOccurrence(schedule, next)
+  }
+  return next
+}
+
+function isFinished(schedule: Pick<ScheduledTransfer, 'endDate' | 'maxOccurrences'>, next: Date | null, occurrenceCount: number) {
+  return !next ||
+    (schedule.endDate !== null && next > schedule.endDate) ||
+    (schedule.maxOccurrences !== null && occurrenceCount >= schedule.maxOccurrences)
+}
+
+export class ScheduledTransferService {
+  static async list(userId: string) {
+    return prisma.scheduledTransfer.findMany({
+      where: { userId },
+      orderBy: [{ status: 'asc' }, { nextRunDate: 'asc' }, { createdAt: 'desc' }]
+    })
+  }
+
+  static async get(userId: string, id: string) {
+    const schedule = await prisma.scheduledTransfer.findFirst({ where: { id, userId } })
+    if (!schedule) {
+      throw new Error('Scheduled transfer not found')
+    }
+    return schedule
+  }
+
+  /**
+   * Transactions created by a schedule, newest first
+   */
+  static async getTransactions(userId: string, id: string, limit = 20) {
+    return prisma.transaction.findMany({
+      where: {
+        userId,
+        type: 'DEBIT',
+        metadata: { path: ['scheduledTransferId'], equals: id }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  private static async assertRecurringEnabled(userId: string) {
+    const settings = await prisma.bankingSettings.findUnique({
+      where: { userId },
+      select: { recurringTransfers: true }
+    })
+    if (!settings?.recurringTransfers) {
+      throw new Error('Recurring transfers are turned off in your banking settings')
+    }
+  }
+
+  /**
+   * Schedule a one-off future transfer or a recurring one. Recurring
+   * schedules require the recurring transfers banking setting.
+   */
+  static async create(userId: string, transfer: ValidatedTransfer, options: z.infer<typeof scheduledTransferSchema>) {
+    // Routing and account numbers are checked by transferRequestSchema; the
+    // bank's name comes from the routing directory
+    let institution = null
+    if (transfer.transferType === 'external_bank') {
+      if (transfer.iban) {
+        throw new Error('International transfers cannot be scheduled')
+      }
+      if (!options.recipientName) {
+        throw new Error('Account holder name is required for external bank transfers')
+      }
+      institution = RoutingDirectoryService.lookup(transfer.routingNumber!)
+      if (!institution) {
+        throw new Error('Routing number not found in the routing directory')
+      }
+    }
+
+    if (options.frequency !== 'ONCE') {
+      await ScheduledTransferService.assertRecurringEnabled(userId)
+    }
+
+    if (options.startDate < startOfUtcDay(new Date())) {
+      throw new Error('Start date cannot be in the past')
+    }
+    if (options.endDate && options.endDate < options.startDate) {
+      throw new Error('End date must be on or after the start date')
+    }
+
+    const account = await AccountService.resolveAccount(prisma, userId, options.fromAccountId)
+    AccountService.assertActive(account)
+
+    // A conversion rate is only locked for moments, so it cannot be set up in advance
+    if (options.toAccountId) {
+      const destination = await AccountService.resolveAccount(prisma, userId, options.toAccountId)
+      if (destination.currency !== account.currency) {
+        throw new Error('Transfers between currencies cannot be scheduled')
+      }
+    }
+
+    const timing = {
+      frequency: options.frequency,
+      dayOfMonth: options.frequency === 'DAY_OF_MONTH' ? options.dayOfMonth! : null,
+      startDate: options.startDate
+    }
+    const nextRunDate = firstOccurrence(timing)
+
+    if (options.endDate && nextRunDate > options.endDate) {
+      throw new Error('No transfer would run before the end date')
+    }
+
+    return prisma.scheduledTransfer.create({
+      data: {
+        userId,
+        fromAccountId: account.id,
+        toAccountId: options.toAccountId,
+        transferType: transfer.transferType,
+        amount: transfer.amount.toString(),
+        recipientInfo: transfer.recipientInfo,
+        bankName: institution?.name ?? transfer.bankName,
+        routingNumber: transfer.routingNumber,
+        recipientName: options.recipientName,
+        payeeId: transfer.payeeId,
+        note: options.note,
+        ...timing,
+        endDate: options.endDate,
+        maxOccurrences: options.frequency === 'ONCE' ? 1 : options.maxOccurrences,
+        onInsufficientFunds: options.onInsufficientFunds,
+        nextRunDate
+      }
+    })
+  }
+
+  static async update(userId: string, id: string, changes: z.infer<typeof updateScheduledTransferSchema>) {
+    const schedule = await ScheduledTransferService.get(userId, id)
+    if (!['ACTIVE', 'PAUSED'].includes(schedule.status)) {
+      throw new Error('Scheduled transfer can no longer be changed')
+    }
+    if (changes.endDate && changes.endDate < schedule.startDate) {
+      throw new Error('End date must be on or after the start date')
+    }
+
+    return prisma.scheduledTransfer.update({
+      where: { id },
+      data: {
+        amount: changes.amount?.toString(),
+        endDate: changes.endDate,
+        maxOccurrences: schedule.frequency === 'ONCE' ? undefined : changes.maxOccurrences,
+        onInsufficientFunds: changes.onInsufficientFunds
+      }
+    })
+  }
+
+  static async pause(userId: string, id: string) {
+    const schedule = await ScheduledTransferService.get(userId, id)
+    if (schedule.status !== 'ACTIVE') {
+      throw new Error('Scheduled transfer is not active')
+    }
+
+    return prisma.scheduledTransfer.update({
+      where: { id },
+      data: { status: 'PAUSED', retryAt: null, retryCount: 0 }
+    })
+  }
+
+  /**
+   * Resume a paused schedule from its next upcoming occurrence
+   */
+  static async resume(userId: string, id: string) {
+    const schedule = await ScheduledTransferService.get(userId, id)
+    if (schedule.status !== 'PAUSED') {
+      throw new Error('Scheduled transfer is not paused')
+    }
+    if (schedule.frequency !== 'ONCE') {
+      await ScheduledTransferService.assertRecurringEnabled(userId)
+    }
+
+    const today = startOfUtcDay(new Date())
+    let nextRunDate = schedule.nextRunDate
+    if (nextRunDate && nextRunDate < today) {
+      nextRunDate = schedule.frequency === 'ONCE' ? today : nextOccurrence(schedule, nextRunDate, today)
+    }
+
+    if (isFinished(schedule, nextRunDate, schedule.occurrenceCount)) {
+      return prisma.scheduledTransfer.update({
+        where: { id },
+        data: { status: 'COMPLETED', nextRunDate: null }
+      })
+    }
+
+    return prisma.scheduledTransfer.update({
+      where: { id },
+      data: { status: 'ACTIVE', nextRunDate }
+    })
+  }
+
+  static async cancel(userId: string, id: string) {
+    const schedule = await ScheduledTransferService.get(userId, id)
+    if (!['ACTIVE', 'PAUSED'].includes(schedule.status)) {
+      throw new Error('Scheduled transfer is already finished')
+    }
+
+    return prisma.scheduledTransfer.update({
+      where: { id },
+      data: { status: 'CANCELLED', nextRunDate: null, retryAt: null }
+    })
+  }
+
+  /**
+   * Execute every occurrence (or retry) that is due
+   */
+  static async runDue(now: Date = new Date()) {
+    const due = await prisma.scheduledTransfer.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { retryAt: null, nextRunDate: { lte: now } },
+          { retryAt: { lte: now } }
+        ]
+      },
+      orderBy: { nextRunDate: 'asc' },
+      take: RUN_BATCH_SIZE
+    })
+
+    const runs: ScheduledTransferRun[] = []
+    for (const schedule of due) {
+      try {
+        runs.push(await ScheduledTransferService.runOccurrence(schedule, now))
+      } catch (error) {
+        console.error(`Scheduled transfer ${schedule.id} failed to run:`, error)
+      }
+    }
+    return runs
+  }
+
+  /**
+   * Run one occurrence through the same checks as an interactive transfer
+   * (TransferValidationService.checkTransfer and assessRisk), then move the money
+   */
+  private static async runOccurrence(schedule: ScheduledTransfer, now: Date): Promise<ScheduledTransferRun> {
+    if (schedule.frequency !== 'ONCE') {
+      try {
+        await ScheduledTransferService.assertRecurringEnabled(schedule.userId)
+      } catch (error) {
+        return ScheduledTransferService.pauseForReview(schedule, now, (error as Error).message)
+      }
+    }
+
+    const parsed = transferRequestSchema.safeParse({
+      amount: Money.of(schedule.amount).toString(),
+      recipientInfo: schedule.recipientInfo,
+      transferType: schedule.transferType,
+      bankName: schedule.bankName ?? undefined,
+      routingNumber: schedule.routingNumber ?? undefined,
+      payeeId: schedule.payeeId ?? undefined
+    })
+    if (!parsed.success) {
+      return ScheduledTransferService.completeOccurrence(schedule, now, 'skipped', parsed.error.errors[0].message)
+    }
+
+    const transfer = parsed.data
+    const fromAccountId = schedule.fromAccountId ?? undefined
+
+    let violation
+    try {
+      violation = await TransferValidationService.checkTransfer(schedule.userId, transfer, fromAccountId)
+    } catch (error) {
+      return ScheduledTransferService.completeOccurrence(schedule, now, 'skipped', (error as Error).message)
+    }
+
+    if (violation?.code === 'INSUFFICIENT_FUNDS') {
+      return ScheduledTransferService.handleInsufficientFunds(schedule, now, violation.message)
+    }
+    if (violation) {
+      return ScheduledTransferService.completeOccurrence(schedule, now, 'skipped', violation.message)
+    }
+
+    const risk = await TransferValidationService.assessRisk(schedule.userId, transfer, { fromAccountId })
+    if (risk.blocked) {
+      return ScheduledTransferService.pauseForReview(schedule, now, 'Transfer blocked due to high risk score. Please contact support.')
+    }
+
+    // Claim the occurrence first, so another server or a rerun after a crash
+    // cannot move the money a second time
+    const claim = await ScheduledTransferService.claimOccurrence(schedule, now)
+    if (claim.executed) {
+      return ScheduledTransferService.completeOccurrence(schedule, now, 'executed', undefined, claim.executed.id)
+    }
+    if (!claim.claimed) {
+      return { schedule, outcome: 'skipped', reason: 'Occurrence is already running' }
+    }
+
+    try {
+      const { transaction, received } = await ScheduledTransferService.execute(schedule, transfer.amount, risk)
+      const run = await ScheduledTransferService.completeOccurrence(schedule, now, 'executed', undefined, transaction.id)
+      return { ...run, transaction, received }
+    } catch (error) {
+      await ScheduledTransferService.releaseClaim(schedule, claim.execution)
+      const message = error instanceof Error ? error.message : 'Transfer failed'
+      if (['Insufficient balance', 'Insufficient available balance'].includes(message)) {
+        return ScheduledTransferService.handleInsufficientFunds(schedule, now, message)
+      }
+      if (message === 'Transfer blocked by sanctions screening') {
+        return ScheduledTransferService.pauseForReview(schedule, now, 'Transfer blocked by sanctions screening. Please contact support.')
+      }
+      if (message === 'Transfer requires review') {
+        return ScheduledTransferService.pauseForReview(schedule, now, 'Transfer needs a review before it can be sent. Please contact support.')
+      }
+      return ScheduledTransferService.completeOccurrence(schedule, now, 'skipped', message)
+    }
+  }
+
+  private static async claimOccurrence(schedule: ScheduledTransfer, now: Date) {
+    const key = {
+      scheduledTransferId: schedule.id,
+      runDate: schedule.nextRunDate ?? startOfUtcDay(now)
+    }
+
+    try {
+      const execution = await prisma.scheduledTransferExecution.create({ data: key })
+      return { claimed: true, execution, executed: null }
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error
+      }
+    }
+
+    // Someone else holds the claim: finish the occurrence if its money moved,
+    // otherwise leave it to them unless they stopped without moving any
+    const execution = await prisma.scheduledTransferExecution.findUniqueOrThrow({
+      where: { scheduledTransferId_runDate: key }
+    })
+    const executed = await ScheduledTransferService.findExecutedTransaction(schedule, execution.createdAt)
+    if (!executed && now.getTime() - execution.createdAt.getTime() > STALE_CLAIM_MS) {
+      await prisma.scheduledTransferExecution.deleteMany({ where: { id: execution.id } })
+    }
+    return { claimed: false, execution, executed }
+  }
+
+  /**
+   * Give the occurrence back after a failed run, unless money moved anyway
+   */
+  private static async releaseClaim(schedule: ScheduledTransfer, execution: ScheduledTransferExecution) {
+    if (await ScheduledTransferService.findExecutedTransaction(schedule, execution.createdAt)) return
+    await prisma.scheduledTransferExecution.deleteMany({ where: { id: execution.id } })
+  }
+
+  private static async findExecutedTransaction(schedule: ScheduledTransfer, since: Date) {
+    return prisma.transaction.findFirst({
+      where: {
+        userId: schedule.userId,
+        type: 'DEBIT',
+        metadata: { path: ['scheduledTransferId'], equals: schedule.id },
+        createdAt: { gte: since }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  private static async execute(schedule: ScheduledTransfer, amount: Money, riskAssessment: RiskAssessment) {
+    const fromAccountId = schedule.fromAccountId ?? undefined
+    const note = schedule.note ?? undefined
+
+    if (schedule.transferType === 'p2p') {
+      const { debit, credit, sender } = await TransferService.createPeerTransfer(schedule.userId, {
+        amount,
+        recipient: schedule.recipientInfo,
+        fromAccountId,
+        note,
+        scheduledTransferId: schedule.id,
+        riskAssessment
+      })
+      return {
+        transaction: debit,
+        received: { userId: credit.userId, transaction: credit, senderName: sender.name }
+      }
+    }
+
+    // External transfers go through admin approval like any other
+    if (schedule.transferType === 'external_bank') {
+      const transaction = await TransferService.createExternalTransfer(schedule.userId, {
+        amount,
+        recipientInfo: schedule.recipientInfo,
+        bankName: schedule.bankName!,
+        routingNumber: schedule.routingNumber!,
+        recipientName: schedule.recipientName!,
+        fromAccountId,
+        payeeId: schedule.payeeId ?? undefined,
+        scheduledTransferId: schedule.id,
+        riskAssessment
+      })
+      return { transaction }
+    }
+
+    const { debit } = await AccountService.transferBetweenAccounts(schedule.userId, {
+      amount,
+      fromAccountId,
+      toAccountId: schedule.toAccountId,
+      toAccountType: schedule.transferType === 'savings' ? 'SAVINGS' : 'CHECKING',
+      description: note,
+      scheduledTransferId: schedule.id
+    })
+    return { transaction: debit }
+  }
+
+  /**
+   * Retry later when the schedule asks for it and retries remain; otherwise
+   * give up on this occurrence
+   */
+  private static async handleInsufficientFunds(schedule: ScheduledTransfer, now: Date, reason: string): Promise<ScheduledTransferRun> {
+    if (schedule.onInsufficientFunds === 'RETRY' && schedule.retryCount < MAX_RETRIES) {
+      const updated = await prisma.scheduledTransfer.update({
+        where: { id: schedule.id },
+        data: {
+          retryAt: new Date(now.getTime() + RETRY_DELAY_MINUTES * 60 * 1000),
+          retryCount: schedule.retryCount + 1,
+          lastRunAt: now,
+          lastOutcome: 'retrying',
+          lastError: reason
+        }
+      })
+      return { schedule: updated, outcome: 'retrying', reason }
+    }
+
+    return ScheduledTransferService.completeOccurrence(schedule, now, 'skipped', reason)
+  }
+
+  private static async pauseForReview(schedule: ScheduledTransfer, now: Date, reason: string): Promise<ScheduledTransferRun> {
+    const updated = await prisma.scheduledTransfer.update({
+      where: { id: schedule.id },
+      data: {
+        status: 'PAUSED',
+        retryAt: null,
+        retryCount: 0,
+        lastRunAt: now,
+        lastOutcome: 'paused',
+        lastError: reason
+      }
+    })
+    return { schedule: updated, outcome: 'paused', reason }
+  }
+
+  /**
+   * Record the outcome of an occurrence and move on to the next one, or
+   * finish the schedule when the end date or occurrence count is reached
+   */
+  private static async completeOccurrence(
+    schedule: ScheduledTransfer,
+    now: Date,
+    outcome: 'executed' | 'skipped',
+    reason?: string,
+    transactionId?: string
+  ): Promise<ScheduledTransferRun> {
+    const occurrenceCount = schedule.occurrenceCount + (outcome === 'executed' ? 1 : 0)
+    const next = nextOccurrence(schedule, schedule.nextRunDate ?? now, startOfUtcDay(now))
+    const finished = isFinished(schedule, next, occurrenceCount)
+
+    // A one-off transfer that never went out failed rather than completed
+    const finalStatus = schedule.frequency === 'ONCE' && outcome !== 'executed' ? 'FAILED' : 'COMPLETED'
+
+    // Guarded on the occurrence, so finishing it twice does not skip the next one
+    await prisma.scheduledTransfer.updateMany({
+      where: { id: schedule.id, status: 'ACTIVE', nextRunDate: schedule.nextRunDate },
+      data: {
+        status: finished ? finalStatus : 'ACTIVE',
+        nextRunDate: finished ? null : next,
+        occurrenceCount,
+        retryAt: null,
+        retryCount: 0,
+        lastRunAt: now,
+        lastOutcome: outcome,
+        lastError: reason ?? null,
+        lastTransactionId: transactionId ?? schedule.lastTransactionId
+      }
+    })
+    const updated = await prisma.scheduledTransfer.findUniqueOrThrow({ where: { id: schedule.id } })
+    return { schedule: updated, outcome, reason }
+  }
+}
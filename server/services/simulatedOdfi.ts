@@ -0,0 +1,55 @@
+import fs from 'fs'
+import path from 'path'
+import { parseNachaFile, type ParsedNachaEntry } from '../utils/nacha'
+import { ACH_PATHS, ensureAchDirectories, type AchAcknowledgement } from './achService'
+
+// Receiver account numbers ending in these digits come back as returns, so
+// the return path can be exercised locally
+const SIMULATED_RETURNS: Record<string, { returnCode: string; returnReason: string }> = {
+  '0000': { returnCode: 'R03', returnReason: 'No account/unable to locate account' },
+  '1111': { returnCode: 'R02', returnReason: 'Account closed' },
+  '2222': { returnCode: 'R04', returnReason: 'Invalid account number structure' },
+}
+
+function settle(entry: ParsedNachaEntry): AchAcknowledgement['results'][number] {
+  const simulatedReturn = SIMULATED_RETURNS[entry.accountNumber.slice(-4)]
+  if (simulatedReturn) {
+    return { traceNumber: entry.traceNumber, status: 'RETURNED', ...simulatedReturn }
+  }
+  return { traceNumber: entry.traceNumber, status: 'SETTLED' }
+}
+
+/**
+ * Stand-in for the originating bank: consume NACHA files from the outbox,
+ * validate them and post back a settlement/return acknowledgement per entry.
+ */
+export async function runSimulatedOdfi(now: Date = new Date()) {
+  ensureAchDirectories()
+
+  const files = fs.readdirSync(ACH_PATHS.outbox).filter(name => name.endsWith('.ach')).sort()
+
+  for (const name of files) {
+    const fullPath = path.join(ACH_PATHS.outbox, name)
+
+    try {
+      const parsed = parseNachaFile(fs.readFileSync(fullPath, 'utf8'))
+      const ack: AchAcknowledgement = {
+        fileName: name,
+        processedAt: now.toISOString(),
+        results: parsed.entries.map(settle)
+      }
+
+      const ackPath = path.join(ACH_PATHS.inbox, `${name}.ack.json`)
+      fs.writeFileSync(`${ackPath}.tmp`, JSON.stringify(ack, null, 2))
+      fs.renameSync(`${ackPath}.tmp`, ackPath)
+      fs.renameSync(fullPath, path.join(ACH_PATHS.archiveOutbound, name))
+
+      console.log(`🏛️  Simulated ODFI processed ${name}: ${parsed.entries.length} entr${parsed.entries.length === 1 ? 'y' : 'ies'}`)
+    } catch (error) {
+      console.error(`Simulated ODFI rejected ${name}:`, error)
+      fs.renameSync(fullPath, path.join(ACH_PATHS.rejected, name))
+    }
+  }
+
+  return files.length
+}
@@ -7,7 +7,8 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../prisma';
-import { sanitizeTransactionData } from '../utils/responseUtils';
+import { sanitizeTransactionData, createPlainObject, serializeMoney } from '../utils/responseUtils';
+import { resolveTransferState, toTransferEventStatus, type TransferState } from '../../shared/transferLifecycle';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -124,6 +125,11 @@ export class SocketService {
       socket.join(`user_${userId}`);
       console.log(`👥 User ${userId} joined personal room`);
 
+      // Admins share a room for transfer review queue changes
+      if (socket.user?.role === 'ADMIN') {
+        socket.join('admins');
+      }
+
       // Handle disconnection
       socket.on('disconnect', (reason) => {
         console.log(`🔌 User ${userId} disconnected (${reason}) from socket ${socketId}`);
@@ -190,6 +196,7 @@ export class SocketService {
       
       this.io.to(`user_${userId}`).emit('transfer_pending', {
         transaction: cleanTransaction,
+        state: resolveTransferState(transaction),
         message: 'Your transfer has been submitted and is pending approval',
         timestamp: new Date().toISOString()
       });
@@ -201,30 +208,224 @@ export class SocketService {
   }
 
   /**
-   * Emit transfer update event when admin approves/rejects a transfer
+   * Emit transfer update event when a transfer moves to a new lifecycle state:
+   * admin approval or rejection, cancellation, or the receiving bank's result.
+   * `status` is the lowercase form older clients still read.
    */
-  public emitTransferUpdate(userId: string, transaction: any, status: 'approved' | 'rejected', reason?: string): void {
+  public emitTransferUpdate(userId: string, transaction: any, state: TransferState, reason?: string): void {
+    const status = toTransferEventStatus(state);
     try {
       const cleanTransaction = sanitizeTransactionData(transaction);
+      const amount = cleanTransaction?.amount;
+
+      const messages = {
+        pending: `Your transfer of $${amount} is pending approval.`,
+        approved: `Your transfer of $${amount} has been approved and processed!`,
+        sent: `Your transfer of $${amount} has been sent to the receiving bank.`,
+        rejected: `Your transfer of $${amount} has been rejected. ${reason || ''}`,
+        cancelled: `Your transfer of $${amount} has been cancelled and the funds are available again.`,
+        settled: `Your transfer of $${amount} has settled with the receiving bank.`,
+        returned: `Your transfer of $${amount} was returned by the receiving bank and the funds are back in your account. ${reason || ''}`
+      };
       
       const eventData = {
         transaction: cleanTransaction,
+        state: state,
         status: status,
         reason: reason,
-        message: status === 'approved' 
-          ? `Your transfer of $${cleanTransaction.amount} has been approved and processed!`
-          : `Your transfer of $${cleanTransaction.amount} has been rejected. ${reason || ''}`,
+        message: messages[status],
         timestamp: new Date().toISOString()
       };
 
       this.io.to(`user_${userId}`).emit('transfer_update', eventData);
 
-      console.log(`📣 Emitted transfer_update (${status}) to user ${userId} for transaction ${transaction.id}`);
+      console.log(`📣 Emitted transfer_update (${state}) to user ${userId} for transaction ${transaction.id}`);
     } catch (error) {
       console.error(`Error emitting transfer_update to user ${userId}:`, error);
     }
   }
 
+  /**
+   * Tell connected admins a transfer has left the review queue
+   */
+  public emitReviewQueueRemoval(transferId: string, reason: 'cancelled'): void {
+    try {
+      this.io.to('admins').emit('review_queue_removed', {
+        transferId: transferId,
+        reason: reason,
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`🧹 Emitted review_queue_removed (${reason}) for transaction ${transferId}`);
+    } catch (error) {
+      console.error(`Error emitting review_queue_removed for transaction ${transferId}:`, error);
+    }
+  }
+
+  /**
+   * Emit transfer received event when another customer sends the user money
+   */
+  public emitTransferReceived(userId: string, transaction: any, senderName: string): void {
+    try {
+      const cleanTransaction = sanitizeTransactionData(transaction);
+
+      this.io.to(`user_${userId}`).emit('transfer_received', {
+        transaction: cleanTransaction,
+        senderName: senderName,
+        message: `You received $${cleanTransaction?.amount} from ${senderName}`,
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`💸 Emitted transfer_received to user ${userId} for transaction ${transaction.id}`);
+    } catch (error) {
+      console.error(`Error emitting transfer_received to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Emit scheduled transfer event when the scheduler runs, retries, skips or
+   * pauses one of the user's scheduled transfers
+   */
+  public emitScheduledTransferUpdate(userId: string, schedule: any, outcome: 'executed' | 'retrying' | 'skipped' | 'paused', reason?: string, transaction?: any): void {
+    try {
+      const amount = serializeMoney(schedule.amount);
+
+      const messages = {
+        executed: schedule.transferType === 'external_bank'
+          ? `Your scheduled transfer of $${amount} has been submitted and is pending approval.`
+          : `Your scheduled transfer of $${amount} has been sent.`,
+        retrying: `Your scheduled transfer of $${amount} could not be sent and will be retried. ${reason || ''}`,
+        skipped: `Your scheduled transfer of $${amount} was skipped. ${reason || ''}`,
+        paused: `Your scheduled transfer of $${amount} has been paused. ${reason || ''}`
+      };
+
+      this.io.to(`user_${userId}`).emit('scheduled_transfer', {
+        scheduledTransfer: createPlainObject(schedule),
+        transaction: transaction ? sanitizeTransactionData(transaction) : null,
+        outcome: outcome,
+        reason: reason,
+        message: messages[outcome],
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`🗓️  Emitted scheduled_transfer (${outcome}) to user ${userId} for schedule ${schedule.id}`);
+    } catch (error) {
+      console.error(`Error emitting scheduled_transfer to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Emit the outcome of a scheduled bill payment on its send-on date
+   */
+  public emitBillPaymentUpdate(userId: string, payment: any, outcome: 'sent' | 'failed', reason?: string, transaction?: any): void {
+    try {
+      const amount = serializeMoney(payment.amount);
+
+      const messages = {
+        sent: `Your $${amount} payment to ${payment.billerName} has been sent.`,
+        failed: `Your $${amount} payment to ${payment.billerName} could not be sent. ${reason || ''}`
+      };
+
+      this.io.to(`user_${userId}`).emit('bill_payment', {
+        billPayment: createPlainObject(payment),
+        transaction: transaction ? sanitizeTransactionData(transaction) : null,
+        outcome: outcome,
+        reason: reason,
+        message: messages[outcome],
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`🧾 Emitted bill_payment (${outcome}) to user ${userId} for payment ${payment.id}`);
+    } catch (error) {
+      console.error(`Error emitting bill_payment to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Let a user know a deposit has cleared and its funds are available
+   */
+  public emitDepositAvailable(userId: string, deposit: any): void {
+    try {
+      const amount = serializeMoney(deposit.amount);
+
+      this.io.to(`user_${userId}`).emit('deposit_available', {
+        deposit: createPlainObject(deposit),
+        message: `Your $${amount} deposit has cleared and is available to spend.`,
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`🏦 Emitted deposit_available to user ${userId} for deposit ${deposit.id}`);
+    } catch (error) {
+      console.error(`Error emitting deposit_available to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Tell a user the outcome of an admin's review of their check deposit
+   */
+  public emitDepositReviewed(userId: string, deposit: any, outcome: 'approved' | 'rejected', reason?: string): void {
+    try {
+      const amount = serializeMoney(deposit.amount);
+
+      const messages = {
+        approved: `Your $${amount} check deposit was approved.`,
+        rejected: `Your $${amount} check deposit was not accepted. ${reason || ''}`
+      };
+
+      this.io.to(`user_${userId}`).emit('deposit_reviewed', {
+        deposit: createPlainObject(deposit),
+        outcome: outcome,
+        reason: reason,
+        message: messages[outcome],
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`🏦 Emitted deposit_reviewed (${outcome}) to user ${userId} for deposit ${deposit.id}`);
+    } catch (error) {
+      console.error(`Error emitting deposit_reviewed to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Tell a user the paying bank sent back a deposit and the credit was reversed
+   */
+  public emitDepositReturned(userId: string, deposit: any, achReturn: any): void {
+    try {
+      const amount = serializeMoney(deposit.amount);
+      const fee = achReturn.fee ? ` A $${serializeMoney(achReturn.fee)} returned item fee was charged.` : '';
+
+      this.io.to(`user_${userId}`).emit('deposit_returned', {
+        deposit: createPlainObject(deposit),
+        returnCode: achReturn.returnCode,
+        reason: achReturn.returnReason,
+        message: `Your $${amount} deposit was returned by the paying bank and has been taken back from your account (${achReturn.returnReason}).${fee}`,
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`🏦 Emitted deposit_returned (${achReturn.returnCode}) to user ${userId} for deposit ${deposit.id}`);
+    } catch (error) {
+      console.error(`Error emitting deposit_returned to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Emit a low-balance, overdraft sweep or spending limit alert to a user
+   */
+  public emitAccountAlert(userId: string, alert: any): void {
+    try {
+      this.io.to(`user_${userId}`).emit('account_alert', {
+        alert: createPlainObject(alert),
+        type: alert.type,
+        message: alert.message,
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`🔔 Emitted account_alert (${alert.type}) to user ${userId}`);
+    } catch (error) {
+      console.error(`Error emitting account_alert to user ${userId}:`, error);
+    }
+  }
+
   /**
    * Broadcast system message to all connected users (admin use)
    */
@@ -0,0 +1,206 @@
+import type { Account, Prisma } from '@prisma/client'
+import { prisma } from '../prisma'
+import { AccountAlertService } from './accountAlertService'
+import { HoldService } from './holdService'
+import { LedgerService } from './ledgerService'
+import { DEFAULT_CURRENCY, Money, type MoneyInput } from '../../shared/money'
+
+type SpendingClient = Prisma.TransactionClient | typeof prisma
+
+// Moves between a user's own accounts are not spending
+const NON_SPENDING_TRANSFER_TYPES = ['own_account', 'overdraft_sweep']
+
+export interface MonthlySpending {
+  limit: Money
+  spent: Money
+  action: 'WARN' | 'BLOCK'
+  exceeded: boolean
+}
+
+export class SpendingControlService {
+  /**
+   * The user's overdraft and spending preferences, with the schema defaults
+   * for users who never saved their banking settings
+   */
+  static async getSettings(client: SpendingClient, userId: string) {
+    const settings = await client.bankingSettings.findUnique({
+      where: { userId },
+      select: { overdraftProtection: true, monthlySpendingLimit: true, spendingLimitAction: true }
+    })
+
+    return {
+      overdraftProtection: settings?.overdraftProtection ?? true,
+      monthlySpendingLimit: settings?.monthlySpendingLimit ? Money.of(settings.monthlySpendingLimit) : null,
+      spendingLimitAction: settings?.spendingLimitAction ?? 'WARN'
+    }
+  }
+
+  /**
+   * What the user has spent from their USD accounts this calendar month (UTC)
+   * and whether the debit would take them over their monthly limit. Returns
+   * null when no limit is set or the debit is not in USD.
+   */
+  static async checkMonthlyLimit(client: SpendingClient, userId: string, amount: MoneyInput, currency: string = DEFAULT_CURRENCY): Promise<MonthlySpending | null> {
+    if (currency !== DEFAULT_CURRENCY) return null
+
+    const { monthlySpendingLimit, spendingLimitAction } = await SpendingControlService.getSettings(client, userId)
+    if (!monthlySpendingLimit) return null
+
+    const now = new Date()
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+
+    const debits = await client.transaction.findMany({
+      where: {
+        userId,
+        type: 'DEBIT',
+        currency: DEFAULT_CURRENCY,
+        status: { in: ['PENDING', 'COMPLETED'] },
+        createdAt: { gte: monthStart }
+      },
+      select: { amount: true, metadata: true }
+    })
+
+    const spent = debits
+      .filter(debit => !NON_SPENDING_TRANSFER_TYPES.includes((debit.metadata as Record<string, unknown> | null)?.transferType as string))
+      .reduce((total, debit) => total.add(debit.amount), Money.zero())
+
+    return {
+      limit: monthlySpendingLimit,
+      spent,
+      action: spendingLimitAction,
+      exceeded: spent.add(amount).gt(monthlySpendingLimit)
+    }
+  }
+
+  /**
+   * The savings account that would cover a debit the account cannot: an
+   * active savings account of the same user and currency with enough
+   * available balance for the whole shortfall. Null when overdraft
+   * protection is off or no savings account can cover it.
+   */
+  static async findSweepSource(client: SpendingClient, account: Account, shortfall: MoneyInput) {
+    const { overdraftProtection } = await SpendingControlService.getSettings(client, account.userId)
+    if (!overdraftProtection || account.type === 'SAVINGS') return null
+
+    const savings = await client.account.findMany({
+      where: { userId: account.userId, type: 'SAVINGS', currency: account.currency, status: 'ACTIVE', id: { not: account.id } },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }]
+    })
+
+    const balances = await HoldService.getBalances(savings, client)
+    return balances.find(candidate => Money.of(candidate.availableBalance).gte(shortfall)) ?? null
+  }
+
+  /**
+   * Spending controls applied to a customer debit before it is posted, inside
+   * its transaction: the monthly spending limit blocks the debit or raises a
+   * warning, and a debit the available balance cannot cover is topped up from
+   * savings when overdraft protection is on. Without a sweep the debit fails
+   * with the ledger's insufficient balance error as before.
+   */
+  static async beforeDebit(tx: Prisma.TransactionClient, account: Account, amount: MoneyInput) {
+    const debit = Money.of(amount)
+
+    const spending = await SpendingControlService.checkMonthlyLimit(tx, account.userId, debit, account.currency)
+    if (spending?.exceeded) {
+      if (spending.action === 'BLOCK') {
+        throw new Error('Monthly spending limit reached')
+      }
+      await AccountAlertService.raise(tx, {
+        userId: account.userId,
+        accountId: account.id,
+        type: 'SPENDING_LIMIT',
+        message: `This ${debit.format()} payment takes your spending this month over your ${spending.limit.format()} limit`,
+        metadata: { amount: debit.toString(), spent: spending.spent.toString(), limit: spending.limit.toString() }
+      })
+    }
+
+    // Lock the account before reading its balance so the sweep covers what the debit will see
+    await LedgerService.getAccountLedger(tx, account.id)
+    const current = await tx.account.findUniqueOrThrow({ where: { id: account.id } })
+    const available = Money.of(current.balance).subtract(await HoldService.getHeldAmount(current.id, tx))
+    if (available.gte(debit)) return null
+
+    return SpendingControlService.sweep(tx, current, debit.subtract(available))
+  }
+
+  /**
+   * Move the shortfall from savings into the account. Both sides are recorded
+   * in the user's history and an alert tells them it happened.
+   */
+  private static async sweep(tx: Prisma.TransactionClient, account: Account, shortfall: Money) {
+    const source = await SpendingControlService.findSweepSource(tx, account, shortfall)
+    if (!source) return null
+
+    const reference = `SWEEP-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+    const description = 'Overdraft protection transfer from savings'
+    const submittedAt = new Date().toISOString()
+
+    const debit = await tx.transaction.create({
+      data: {
+        userId: account.userId,
+        accountId: source.id,
+        type: 'DEBIT',
+        amount: shortfall.toString(),
+        currency: account.currency,
+        description,
+        reference,
+        status: 'COMPLETED',
+        metadata: {
+          transferType: 'overdraft_sweep',
+          counterpartyAccountId: account.id,
+          status: 'completed',
+          submittedAt,
+          requiresApproval: false
+        }
+      }
+    })
+
+    const credit = await tx.transaction.create({
+      data: {
+        userId: account.userId,
+        accountId: account.id,
+        type: 'CREDIT',
+        amount: shortfall.toString(),
+        currency: account.currency,
+        description,
+        reference,
+        status: 'COMPLETED',
+        linkedTransactionId: debit.id,
+        metadata: {
+          transferType: 'overdraft_sweep',
+          counterpartyAccountId: source.id,
+          status: 'completed'
+        }
+      }
+    })
+
+    await tx.transaction.update({
+      where: { id: debit.id },
+      data: { linkedTransactionId: credit.id }
+    })
+
+    const sourceLedger = await LedgerService.getAccountLedger(tx, source.id)
+    const accountLedger = await LedgerService.getAccountLedger(tx, account.id)
+    await LedgerService.postTransfer(tx, {
+      debitAccountId: sourceLedger.id,
+      creditAccountId: accountLedger.id,
+      amount: shortfall,
+      description,
+      reference,
+      transactionId: debit.id,
+      createdById: account.userId
+    })
+
+    await AccountAlertService.raise(tx, {
+      userId: account.userId,
+      accountId: account.id,
+      type: 'OVERDRAFT_SWEEP',
+      message: `${shortfall.format()} was moved from savings to cover a payment your ${account.type.toLowerCase()} account could not`,
+      transactionId: credit.id,
+      metadata: { amount: shortfall.toString(), fromAccountId: source.id }
+    })
+
+    return credit
+  }
+}
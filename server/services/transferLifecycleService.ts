@@ -0,0 +1,78 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../prisma'
+import {
+  canTransition,
+  resolveTransferState,
+  toTransactionStatus,
+  type TransferActorType,
+  type TransferState
+} from '../../shared/transferLifecycle'
+
+type LifecycleClient = Prisma.TransactionClient | typeof prisma
+
+export type TransitionContext = {
+  actorType: TransferActorType
+  actorId?: string
+  reason?: string
+  metadata?: Prisma.InputJsonObject
+}
+
+export class TransferLifecycleService {
+  /**
+   * Open the history of a transfer created in the SUBMITTED state
+   */
+  static async recordSubmission(tx: Prisma.TransactionClient, transactionId: string, context: TransitionContext) {
+    return TransferLifecycleService.recordTransition(tx, transactionId, null, 'SUBMITTED', context)
+  }
+
+  /**
+   * Move a transfer to a new state and keep Transaction.status in step. The
+   * update is guarded on the state that was read, so of two concurrent
+   * transitions only one wins and the transfer stays locked for the rest of
+   * the database transaction. Returns null when the move is not allowed from
+   * the transfer's current state or another request got there first.
+   */
+  static async transition(tx: Prisma.TransactionClient, transactionId: string, to: TransferState, context: TransitionContext) {
+    const transaction = await tx.transaction.findUnique({
+      where: { id: transactionId },
+      select: { transferState: true, status: true, metadata: true }
+    })
+    if (!transaction) return null
+
+    const from = resolveTransferState(transaction)
+    if (!canTransition(from, to)) return null
+
+    const { count } = await tx.transaction.updateMany({
+      where: { id: transactionId, transferState: transaction.transferState },
+      data: { transferState: to, status: toTransactionStatus(to) }
+    })
+    if (count !== 1) return null
+
+    await TransferLifecycleService.recordTransition(tx, transactionId, from, to, context)
+    return { from, to }
+  }
+
+  /**
+   * A transfer's state history, oldest first
+   */
+  static async getHistory(transactionId: string, client: LifecycleClient = prisma) {
+    return client.transferStateTransition.findMany({
+      where: { transactionId },
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  private static async recordTransition(tx: Prisma.TransactionClient, transactionId: string, from: TransferState | null, to: TransferState, context: TransitionContext) {
+    return tx.transferStateTransition.create({
+      data: {
+        transactionId,
+        fromState: from,
+        toState: to,
+        actorType: context.actorType,
+        actorId: context.actorId,
+        reason: context.reason,
+        metadata: context.metadata
+      }
+    })
+  }
+}
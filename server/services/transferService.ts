@@ -1,12 +1,29 @@
+import type { Prisma } from '@prisma/client'
 import { prisma } from '../prisma'
+import { LedgerService } from './ledgerService'
+import { AccountService } from './accountService'
+import { HoldService } from './holdService'
+import { PayeeService } from './payeeService'
+import { ApprovalService } from './approvalService'
+import { SanctionsService } from './sanctionsService'
+import { SpendingControlService } from './spendingControlService'
+import { TransferLifecycleService } from './transferLifecycleService'
+import { TransferValidationService, type RiskAssessment } from './transferValidationService'
+import { DEFAULT_CURRENCY, Money, positiveMoneySchema, type MoneyInput } from '../../shared/money'
+import { isOpenTransferState, resolveTransferState } from '../../shared/transferLifecycle'
+import type { FraudFactor } from '../../shared/fraudRules'
 import { z } from 'zod'
 
 // Validation schemas
 export const transferValidationSchema = z.object({
-  amount: z.number().positive().max(50000), // Daily limit
+  amount: positiveMoneySchema().refine(amount => amount.lte('50000.00'), 'Amount exceeds daily limit'), // Daily limit
   recipientInfo: z.string().min(1),
-  transferType: z.enum(['checking', 'savings', 'external_bank']),
+  transferType: z.enum(['checking', 'savings', 'external_bank', 'p2p']),
   bankName: z.string().optional(),
+  routingNumber: z.string().regex(/^\d{9}$/).optional(),
+  recipientName: z.string().trim().min(1).max(22).optional(),
+  fromAccountId: z.string().uuid().optional(),
+  toAccountId: z.string().uuid().optional(),
 })
 
 export const transferReviewSchema = z.object({
@@ -25,64 +42,131 @@ export interface TransferReviewRequest {
 
 export class TransferService {
   /**
-   * Create a pending external bank transfer
+   * Create a pending external bank transfer. The amount is held on the source
+   * account until an admin approves (capture) or rejects (release) it. US
+   * accounts are paid over ACH by routing number; IBAN accounts by wire.
+   * The fraud assessment is stored with the transfer; callers that already
+   * scored it pass theirs in.
    */
   static async createExternalTransfer(userId: string, transferData: {
-    amount: number
+    amount: MoneyInput
     recipientInfo: string
     bankName: string
+    routingNumber?: string
+    iban?: string
+    bic?: string
+    recipientName: string
+    fromAccountId?: string
+    payeeId?: string
+    scheduledTransferId?: string
+    riskAssessment?: RiskAssessment
     ipAddress?: string
     userAgent?: string
   }) {
-    const { amount, recipientInfo, bankName, ipAddress, userAgent } = transferData
+    const { recipientInfo, bankName, routingNumber, iban, bic, recipientName, ipAddress, userAgent } = transferData
+    const amount = Money.of(transferData.amount)
 
-    // Validate user exists and has sufficient balance
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { id: true, name: true, balance: true, isActive: true }
+      select: { id: true, name: true, isActive: true }
     })
 
     if (!user || !user.isActive) {
       throw new Error('User not found or inactive')
     }
 
-    // Check available balance including pending transfers
-    const pendingTransfersTotal = await prisma.transaction.aggregate({
-      _sum: { amount: true },
-      where: {
-        userId,
-        type: 'DEBIT',
-        metadata: { path: ['status'], equals: 'pending' }
-      }
+    // Account details typed in for a saved payee are a transfer to that payee
+    const payee = transferData.payeeId
+      ? await prisma.payee.findFirst({ where: { id: transferData.payeeId, userId }, select: { id: true, createdAt: true } })
+      : routingNumber && !iban
+        ? await PayeeService.findByAccount(userId, routingNumber, recipientInfo)
+        : null
+    if (transferData.payeeId && !payee) {
+      throw new Error('Payee not found')
+    }
+    const payeeId = payee?.id
+
+    await SanctionsService.assertTransferAllowed(prisma, userId, { name: recipientName })
+
+    const risk = transferData.riskAssessment ?? await TransferValidationService.assessRisk(userId, {
+      amount,
+      transferType: 'external_bank',
+      bankName,
+      payeeId
+    }, { fromAccountId: transferData.fromAccountId, ipAddress, userAgent })
+    if (risk.decision === 'BLOCK') {
+      throw new Error('Transfer blocked due to high risk score')
+    }
+
+    // Screen the beneficiary before any funds are held. A possible match is
+    // linked to the transfer, which cannot be approved until it is reviewed.
+    const sanctionsCase = await SanctionsService.screenBeneficiary(userId, {
+      name: recipientName,
+      country: iban?.slice(0, 2),
+      payeeId
     })
 
-    const availableBalance = user.balance - (pendingTransfersTotal._sum.amount || 0)
-    if (availableBalance < amount) {
-      throw new Error('Insufficient available balance including pending transfers')
-    }
+    const transaction = await prisma.$transaction(async (tx) => {
+      const account = await AccountService.resolveAccount(tx, userId, transferData.fromAccountId)
+      AccountService.assertActive(account)
+      if (!iban && account.currency !== DEFAULT_CURRENCY) {
+        throw new Error('ACH transfers must be sent from a USD account')
+      }
+      await SpendingControlService.beforeDebit(tx, account, amount)
 
-    // Create pending transaction
-    const transaction = await prisma.transaction.create({
-      data: {
-        userId,
-        type: 'DEBIT',
-        amount,
-        description: `External bank transfer to ${bankName}`,
-        status: 'PENDING',
-        metadata: {
-          transferType: 'external_bank',
-          recipientInfo: `Account ending in ${recipientInfo.slice(-4)}`,
-          bankName,
-          fullAccountInfo: recipientInfo, // Store full info securely
-          status: 'pending',
-          reason: 'External bank transfer awaiting admin approval',
-          submittedAt: new Date().toISOString(),
-          requiresApproval: true,
-          riskLevel: amount > 10000 ? 'HIGH' : amount > 5000 ? 'MEDIUM' : 'LOW',
-          userAgent,
-          ipAddress
+      const pending = await tx.transaction.create({
+        data: {
+          userId,
+          accountId: account.id,
+          type: 'DEBIT',
+          amount: amount.toString(),
+          currency: account.currency,
+          description: `External bank transfer to ${bankName}`,
+          status: 'PENDING',
+          transferState: 'SUBMITTED',
+          metadata: {
+            transferType: 'external_bank',
+            rail: iban ? 'international_wire' : 'ach',
+            recipientInfo: iban ? `IBAN ending in ${iban.slice(-4)}` : `Account ending in ${recipientInfo.slice(-4)}`,
+            bankName,
+            routingNumber,
+            bic,
+            recipientName,
+            fullAccountInfo: iban || recipientInfo, // Store full info securely
+            status: 'pending',
+            reason: 'External bank transfer awaiting admin approval',
+            submittedAt: new Date().toISOString(),
+            requiresApproval: true,
+            riskLevel: risk.riskLevel,
+            payeeId,
+            payeeAddedAt: payee?.createdAt.toISOString(),
+            scheduledTransferId: transferData.scheduledTransferId,
+            userAgent,
+            ipAddress
+          }
         }
+      })
+      await TransferValidationService.recordAssessment(tx, pending.id, risk)
+      if (sanctionsCase?.status === 'OPEN' && !sanctionsCase.transactionId) {
+        await tx.sanctionsCase.update({ where: { id: sanctionsCase.id }, data: { transactionId: pending.id } })
       }
+
+      await HoldService.placeHold(tx, {
+        accountId: account.id,
+        amount,
+        reason: `External bank transfer to ${bankName}`,
+        transactionId: pending.id
+      })
+
+      const actor = { actorType: 'CUSTOMER' as const, actorId: userId }
+      await TransferLifecycleService.recordSubmission(tx, pending.id, actor)
+      await TransferLifecycleService.transition(tx, pending.id, 'HELD', actor)
+      await TransferLifecycleService.transition(tx, pending.id, 'UNDER_REVIEW', {
+        actorType: 'SYSTEM',
+        reason: 'Queued for admin approval'
+      })
+
+      return tx.transaction.findUniqueOrThrow({ where: { id: pending.id } })
     })
 
     // Log security event
@@ -90,22 +174,195 @@ export class TransferService {
       data: {
         userId,
         eventType: 'SUSPICIOUS_ACTIVITY',
-        description: `External bank transfer request submitted for $${amount.toFixed(2)}`,
+        description: `External bank transfer request submitted for ${amount.format()}`,
         ipAddress,
         userAgent,
-        riskLevel: amount > 10000 ? 'HIGH' : amount > 5000 ? 'MEDIUM' : 'LOW',
+        riskLevel: risk.riskLevel,
         metadata: {
           transferId: transaction.id,
           bankName,
-          amount,
+          amount: amount.toString(),
+          payeeId,
           pendingApproval: true
         }
       }
     })
 
+    if (payeeId) {
+      await PayeeService.markUsed(payeeId)
+    }
+
     return transaction
   }
 
+  /**
+   * Find another Prime Edge customer by account number, email or phone
+   */
+  static async findRecipient(identifier: string) {
+    const value = identifier.trim()
+    if (!value) return null
+
+    if (value.includes('@')) {
+      return prisma.user.findUnique({
+        where: { email: value.toLowerCase() },
+        select: { id: true, name: true, email: true, accountNumber: true, isActive: true }
+      })
+    }
+
+    const digits = value.replace(/[^\d+]/g, '')
+    return prisma.user.findFirst({
+      where: {
+        OR: [
+          { accountNumber: value },
+          { phone: value },
+          ...(digits ? [{ phone: digits }] : [])
+        ]
+      },
+      select: { id: true, name: true, email: true, accountNumber: true, isActive: true }
+    })
+  }
+
+  /**
+   * Move funds from one customer to another. The sender's DEBIT, the
+   * recipient's CREDIT and the ledger entry commit together and the two
+   * transactions reference each other. The sender's DEBIT carries the
+   * transfer's fraud assessment.
+   */
+  static async createPeerTransfer(senderId: string, transferData: {
+    amount: MoneyInput
+    recipient: string
+    fromAccountId?: string
+    note?: string
+    scheduledTransferId?: string
+    riskAssessment?: RiskAssessment
+    ipAddress?: string
+    userAgent?: string
+  }) {
+    const amount = Money.of(transferData.amount)
+    const note = transferData.note?.trim() || undefined
+
+    const [sender, recipient] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: senderId },
+        select: { id: true, name: true, isActive: true }
+      }),
+      TransferService.findRecipient(transferData.recipient)
+    ])
+
+    if (!sender || !sender.isActive) {
+      throw new Error('User not found or inactive')
+    }
+    if (!recipient) {
+      throw new Error('Recipient not found')
+    }
+    if (recipient.id === sender.id) {
+      throw new Error('Cannot transfer to your own account')
+    }
+    if (!recipient.isActive) {
+      throw new Error('Recipient account is inactive')
+    }
+
+    await SanctionsService.assertTransferAllowed(prisma, sender.id, { userId: recipient.id })
+
+    const risk = transferData.riskAssessment ?? await TransferValidationService.assessRisk(sender.id, {
+      amount,
+      transferType: 'p2p'
+    }, { fromAccountId: transferData.fromAccountId, ipAddress: transferData.ipAddress, userAgent: transferData.userAgent })
+    if (risk.decision === 'BLOCK') {
+      throw new Error('Transfer blocked due to high risk score')
+    }
+    // Peer transfers settle at once, so there is no pending state to review them in
+    if (risk.decision === 'REVIEW') {
+      throw new Error('Transfer requires review')
+    }
+
+    const reference = `P2P-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+    const submittedAt = new Date().toISOString()
+
+    return prisma.$transaction(async (tx) => {
+      const senderAccount = await AccountService.resolveAccount(tx, sender.id, transferData.fromAccountId)
+      const recipientAccount = await AccountService.getPrimaryAccount(tx, recipient.id)
+      AccountService.assertActive(senderAccount)
+      if (recipientAccount.status !== 'ACTIVE') {
+        throw new Error('Recipient account is inactive')
+      }
+      if (recipientAccount.currency !== senderAccount.currency) {
+        throw new Error('Recipient account is in a different currency')
+      }
+      await SpendingControlService.beforeDebit(tx, senderAccount, amount)
+
+      const debit = await tx.transaction.create({
+        data: {
+          userId: sender.id,
+          accountId: senderAccount.id,
+          type: 'DEBIT',
+          amount: amount.toString(),
+          currency: senderAccount.currency,
+          description: `Transfer to ${recipient.name}`,
+          reference,
+          status: 'COMPLETED',
+          metadata: {
+            transferType: 'p2p',
+            recipientInfo: `Account ending in ${recipientAccount.accountNumber.slice(-4)}`,
+            counterpartyUserId: recipient.id,
+            counterpartyName: recipient.name,
+            note,
+            status: 'completed',
+            submittedAt,
+            requiresApproval: false,
+            riskLevel: risk.riskLevel,
+            scheduledTransferId: transferData.scheduledTransferId,
+            ipAddress: transferData.ipAddress,
+            userAgent: transferData.userAgent
+          }
+        }
+      })
+      await TransferValidationService.recordAssessment(tx, debit.id, risk)
+
+      const credit = await tx.transaction.create({
+        data: {
+          userId: recipient.id,
+          accountId: recipientAccount.id,
+          type: 'CREDIT',
+          amount: amount.toString(),
+          currency: recipientAccount.currency,
+          description: `Transfer from ${sender.name}`,
+          reference,
+          status: 'COMPLETED',
+          linkedTransactionId: debit.id,
+          metadata: {
+            transferType: 'p2p',
+            senderInfo: `Account ending in ${senderAccount.accountNumber.slice(-4)}`,
+            counterpartyUserId: sender.id,
+            counterpartyName: sender.name,
+            note,
+            status: 'completed',
+            submittedAt
+          }
+        }
+      })
+
+      const linkedDebit = await tx.transaction.update({
+        where: { id: debit.id },
+        data: { linkedTransactionId: credit.id }
+      })
+
+      const senderLedger = await LedgerService.getAccountLedger(tx, senderAccount.id)
+      const recipientLedger = await LedgerService.getAccountLedger(tx, recipientAccount.id)
+      await LedgerService.postTransfer(tx, {
+        debitAccountId: senderLedger.id,
+        creditAccountId: recipientLedger.id,
+        amount,
+        description: `Transfer from ${sender.name} to ${recipient.name}`,
+        reference,
+        transactionId: debit.id,
+        createdById: sender.id
+      })
+
+      return { debit: linkedDebit, credit, sender, recipient }
+    })
+  }
+
   /**
    * Get all pending transfers for admin review
    */
@@ -131,8 +388,7 @@ export class TransferService {
     }
 
     if (filters.riskLevel) {
-      where.metadata.path = ['riskLevel']
-      where.metadata.equals = filters.riskLevel
+      where.riskAssessment = { riskLevel: filters.riskLevel }
     }
 
     if (filters.dateFrom || filters.dateTo) {
@@ -155,7 +411,8 @@ export class TransferService {
               riskLevel: true,
               kycStatus: true
             }
-          }
+          },
+          riskAssessment: true
         },
         skip,
         take: limit,
@@ -166,34 +423,10 @@ export class TransferService {
       prisma.transaction.count({ where })
     ])
 
-    // Calculate risk scores and priorities
+    // Risk comes from the assessment made when the transfer was submitted
     const enhancedTransfers = transfers.map(transfer => {
-      const riskFactors = []
-      let riskScore = 0
-
-      // Amount-based risk
-      if (transfer.amount > 10000) {
-        riskScore += 3
-        riskFactors.push('High amount')
-      } else if (transfer.amount > 5000) {
-        riskScore += 2
-        riskFactors.push('Medium amount')
-      }
-
-      // User risk level
-      if (transfer.user.riskLevel === 'HIGH') {
-        riskScore += 3
-        riskFactors.push('High-risk user')
-      } else if (transfer.user.riskLevel === 'MEDIUM') {
-        riskScore += 1
-        riskFactors.push('Medium-risk user')
-      }
-
-      // KYC status
-      if (transfer.user.kycStatus !== 'APPROVED') {
-        riskScore += 2
-        riskFactors.push('Unverified KYC')
-      }
+      const { riskAssessment } = transfer
+      const riskLevel = riskAssessment?.riskLevel ?? 'LOW'
 
       // Time-based urgency
       const hoursSinceCreated = (Date.now() - new Date(transfer.createdAt).getTime()) / (1000 * 60 * 60)
@@ -201,10 +434,10 @@ export class TransferService {
 
       return {
         ...transfer,
-        riskScore,
-        riskFactors,
+        riskScore: riskAssessment?.score ?? null,
+        riskFactors: ((riskAssessment?.factors ?? []) as unknown as FraudFactor[]).map(factor => factor.reason),
         urgency,
-        priority: riskScore > 4 ? 'URGENT' : riskScore > 2 ? 'HIGH' : 'NORMAL'
+        priority: riskLevel === 'HIGH' || riskLevel === 'CRITICAL' ? 'URGENT' : riskLevel === 'MEDIUM' ? 'HIGH' : 'NORMAL'
       }
     })
 
@@ -220,107 +453,147 @@ export class TransferService {
   }
 
   /**
-   * Review and approve/reject a transfer
+   * Withdraw a pending external transfer before an admin reviews it and give
+   * the held funds back
    */
-  static async reviewTransfer(reviewData: TransferReviewRequest) {
-    const { transferId, adminId, action, reason, ipAddress, userAgent } = reviewData
-
-    const transaction = await prisma.transaction.findUnique({
-      where: { id: transferId },
-      include: {
-        user: {
-          select: { id: true, name: true, email: true, balance: true }
-        }
-      }
+  static async cancelTransfer(userId: string, transferId: string, context: {
+    ipAddress?: string
+    userAgent?: string
+  } = {}) {
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: transferId, userId, type: 'DEBIT' }
     })
 
     if (!transaction) {
       throw new Error('Transfer not found')
     }
 
-    if (transaction.metadata?.status !== 'pending') {
+    const metadata = (transaction.metadata || {}) as Record<string, any>
+    if (!isOpenTransferState(resolveTransferState(transaction))) {
       throw new Error('Transfer is not pending approval')
     }
 
-    const currentTimestamp = new Date().toISOString()
+    const cancelledAt = new Date().toISOString()
 
-    if (action === 'approve') {
-      // Validate sufficient balance
-      if (transaction.user.balance < transaction.amount) {
-        throw new Error('User has insufficient balance to complete transfer')
+    return prisma.$transaction(async (tx) => {
+      const moved = await TransferLifecycleService.transition(tx, transferId, 'CANCELLED', {
+        actorType: 'CUSTOMER',
+        actorId: userId,
+        reason: 'Cancelled by customer before review'
+      })
+      if (!moved) {
+        throw new Error('Transfer is not pending approval')
       }
 
-      // Process approval
-      const result = await prisma.$transaction(async (tx) => {
-        // Update transaction
-        const updatedTransaction = await tx.transaction.update({
-          where: { id: transferId },
-          data: {
-            status: 'COMPLETED',
-            metadata: {
-              ...transaction.metadata,
-              status: 'approved',
-              approvedAt: currentTimestamp,
-              approvedBy: adminId,
-              processedAt: currentTimestamp,
-              reason: reason || 'External bank transfer approved by admin',
-              adminNotes: reason
-            }
-          }
-        })
-
-        // Deduct balance
-        await tx.user.update({
-          where: { id: transaction.userId },
-          data: { balance: { decrement: transaction.amount } }
-        })
+      const hold = await HoldService.findActiveHold(tx, transferId)
+      if (hold) {
+        await HoldService.releaseHold(tx, hold)
+      }
 
-        // Log admin action
-        await tx.adminLog.create({
-          data: {
-            adminId,
-            action: 'APPROVE_TRANSFER',
-            targetUserId: transaction.userId,
-            amount: transaction.amount,
-            description: `Approved external transfer of $${transaction.amount.toFixed(2)} to ${transaction.metadata?.bankName}`
+      await ApprovalService.cancelForTransaction(tx, transferId, 'Transfer cancelled by customer')
+
+      const updatedTransaction = await tx.transaction.update({
+        where: { id: transferId },
+        data: {
+          metadata: {
+            ...metadata,
+            status: 'cancelled',
+            cancelledAt,
+            cancelledBy: userId,
+            reason: 'Cancelled by customer before review'
           }
-        })
+        }
+      })
 
-        // Create security event
-        await tx.securityEvent.create({
-          data: {
-            userId: transaction.userId,
-            eventType: 'SUSPICIOUS_ACTIVITY',
-            description: `External transfer approved and processed: $${transaction.amount.toFixed(2)}`,
-            ipAddress,
-            userAgent,
-            riskLevel: 'LOW',
-            metadata: {
-              transferId,
-              adminId,
-              approvedAt: currentTimestamp
-            }
+      await tx.securityEvent.create({
+        data: {
+          userId,
+          eventType: 'TRANSFER_CANCELLED',
+          description: `External transfer of ${Money.of(transaction.amount).format()} to ${metadata.bankName} cancelled by customer`,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          riskLevel: 'LOW',
+          metadata: {
+            transferId,
+            bankName: metadata.bankName,
+            amount: Money.of(transaction.amount).toString(),
+            cancelledAt,
+            heldFundsReleased: !!hold
           }
-        })
-
-        return updatedTransaction
+        }
       })
 
-      // TODO: Integrate with external bank API
-      // await this.processExternalBankTransfer(transaction)
+      return updatedTransaction
+    })
+  }
+
+  /**
+   * Review and approve/reject a transfer. Approvals at or above the dual
+   * approval threshold are held for a second admin (see ApprovalService) and
+   * the transfer stays pending until then.
+   */
+  static async reviewTransfer(reviewData: TransferReviewRequest) {
+    const { transferId, adminId, action, reason, ipAddress, userAgent } = reviewData
+
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transferId }
+    })
+
+    if (!transaction) {
+      throw new Error('Transfer not found')
+    }
 
-      return { success: true, transaction: result, message: 'Transfer approved and processed' }
+    const metadata = (transaction.metadata || {}) as Record<string, any>
+    if (resolveTransferState(transaction) !== 'UNDER_REVIEW') {
+      throw new Error('Transfer is not pending approval')
+    }
+
+    if (action === 'approve') {
+      if (await ApprovalService.requiresDualApproval(transaction.amount, transaction.currency)) {
+        const approval = await ApprovalService.requestTransferApproval(transaction, adminId, reason)
+        return { success: true, transaction, approval, message: 'Transfer approval is awaiting a second admin' }
+      }
+
+      const result = await prisma.$transaction((tx) => TransferService.approvePendingTransfer(tx, {
+        transferId,
+        adminId,
+        reason,
+        ipAddress,
+        userAgent
+      }))
+
+      // Sent to the receiving bank by the ACH job (see AchService.generateFile)
+
+      return { success: true, transaction: result, approval: null, message: 'Transfer approved and processed' }
 
     } else if (action === 'reject') {
+      const currentTimestamp = new Date().toISOString()
+
       // Process rejection
       const result = await prisma.$transaction(async (tx) => {
+        const moved = await TransferLifecycleService.transition(tx, transferId, 'REJECTED', {
+          actorType: 'ADMIN',
+          actorId: adminId,
+          reason: reason || 'External bank transfer rejected by admin'
+        })
+        if (!moved) {
+          throw new Error('Transfer is not pending approval')
+        }
+
+        const hold = await HoldService.findActiveHold(tx, transferId)
+        if (hold) {
+          await HoldService.releaseHold(tx, hold)
+        }
+
+        // A half-approved transfer no longer needs its second approval
+        await ApprovalService.cancelForTransaction(tx, transferId, 'Transfer rejected')
+
         // Update transaction
         const updatedTransaction = await tx.transaction.update({
           where: { id: transferId },
           data: {
-            status: 'FAILED',
             metadata: {
-              ...transaction.metadata,
+              ...metadata,
               status: 'rejected',
               rejectedAt: currentTimestamp,
               rejectedBy: adminId,
@@ -337,7 +610,7 @@ export class TransferService {
             action: 'REJECT_TRANSFER',
             targetUserId: transaction.userId,
             amount: transaction.amount,
-            description: `Rejected external transfer of $${transaction.amount.toFixed(2)}. Reason: ${reason || 'No reason provided'}`
+            description: `Rejected external transfer of ${Money.of(transaction.amount).format()}. Reason: ${reason || 'No reason provided'}`
           }
         })
 
@@ -346,7 +619,7 @@ export class TransferService {
           data: {
             userId: transaction.userId,
             eventType: 'SUSPICIOUS_ACTIVITY',
-            description: `External transfer rejected: $${transaction.amount.toFixed(2)}`,
+            description: `External transfer rejected: ${Money.of(transaction.amount).format()}`,
             ipAddress,
             userAgent,
             riskLevel: 'MEDIUM',
@@ -362,12 +635,115 @@ export class TransferService {
         return updatedTransaction
       })
 
-      return { success: true, transaction: result, message: 'Transfer rejected' }
+      return { success: true, transaction: result, approval: null, message: 'Transfer rejected' }
     }
 
     throw new Error('Invalid action')
   }
 
+  /**
+   * Capture the hold on a pending external transfer and move the funds to
+   * external clearing, inside the caller's database transaction. Under dual
+   * control `adminId` is the second admin and `initiatedById` the first.
+   */
+  static async approvePendingTransfer(tx: Prisma.TransactionClient, approval: {
+    transferId: string
+    adminId: string
+    initiatedById?: string
+    reason?: string
+    ipAddress?: string
+    userAgent?: string
+  }) {
+    const { transferId, adminId, initiatedById, reason, ipAddress, userAgent } = approval
+    const currentTimestamp = new Date().toISOString()
+
+    // The customer may have cancelled it, or another admin rejected it, since it was loaded
+    const moved = await TransferLifecycleService.transition(tx, transferId, 'APPROVED', {
+      actorType: 'ADMIN',
+      actorId: adminId,
+      reason: reason || 'External bank transfer approved by admin',
+      ...(initiatedById && { metadata: { firstApprovedBy: initiatedById } })
+    })
+    if (!moved) {
+      throw new Error('Transfer is not pending approval')
+    }
+    const transaction = await tx.transaction.findUniqueOrThrow({ where: { id: transferId } })
+    const metadata = (transaction.metadata || {}) as Record<string, any>
+
+    // A sanctions match may have been confirmed since the transfer was
+    // submitted, and a possible one must have been reviewed
+    await SanctionsService.assertTransferAllowed(tx, transaction.userId, { name: metadata.recipientName })
+    await SanctionsService.assertNoOpenCase(tx, { transactionId: transferId, userId: transaction.userId, name: metadata.recipientName })
+
+    // Transfers submitted before holds existed have nothing to capture and
+    // fall back to the ledger's own balance check
+    const hold = await HoldService.findActiveHold(tx, transferId)
+    if (hold) {
+      await HoldService.captureHold(tx, hold)
+    }
+
+    // Update transaction
+    const updatedTransaction = await tx.transaction.update({
+      where: { id: transferId },
+      data: {
+        metadata: {
+          ...metadata,
+          status: 'approved',
+          approvedAt: currentTimestamp,
+          approvedBy: adminId,
+          ...(initiatedById && { firstApprovedBy: initiatedById }),
+          processedAt: currentTimestamp,
+          reason: reason || 'External bank transfer approved by admin',
+          adminNotes: reason
+        }
+      }
+    })
+
+    // Move funds from the customer to external clearing
+    const account = await AccountService.resolveAccount(tx, transaction.userId, transaction.accountId)
+    const customerAccount = await LedgerService.getAccountLedger(tx, account.id)
+    const clearingAccount = await LedgerService.getSystemAccount(tx, 'EXTERNAL_CLEARING', account.currency)
+    await LedgerService.postTransfer(tx, {
+      debitAccountId: customerAccount.id,
+      creditAccountId: clearingAccount.id,
+      amount: transaction.amount,
+      description: `External transfer to ${metadata.bankName}`,
+      reference: transaction.reference || undefined,
+      transactionId: transferId,
+      createdById: adminId
+    })
+
+    // Log admin action
+    await tx.adminLog.create({
+      data: {
+        adminId,
+        action: 'APPROVE_TRANSFER',
+        targetUserId: transaction.userId,
+        amount: transaction.amount,
+        description: `Approved external transfer of ${Money.of(transaction.amount).format()} to ${metadata.bankName}`
+      }
+    })
+
+    // Create security event
+    await tx.securityEvent.create({
+      data: {
+        userId: transaction.userId,
+        eventType: 'SUSPICIOUS_ACTIVITY',
+        description: `External transfer approved and processed: ${Money.of(transaction.amount).format()}`,
+        ipAddress,
+        userAgent,
+        riskLevel: 'LOW',
+        metadata: {
+          transferId,
+          adminId,
+          approvedAt: currentTimestamp
+        }
+      }
+    })
+
+    return updatedTransaction
+  }
+
   /**
    * Get transfer statistics for admin dashboard
    */
@@ -381,7 +757,7 @@ export class TransferService {
     const thisMonth = new Date()
     thisMonth.setMonth(thisMonth.getMonth() - 1)
 
-    const stats = await Promise.all([
+    const [pendingCount, pendingSum, approvedToday, rejectedToday, weekVolume, highRiskPending] = await Promise.all([
       // Pending transfers
       prisma.transaction.count({
         where: {
@@ -423,7 +799,11 @@ export class TransferService {
         _count: true,
         where: {
           type: 'DEBIT',
-          metadata: { path: ['status'], in: ['approved', 'rejected'] },
+          // JSON filters have no `in`, so match each status
+          OR: [
+            { metadata: { path: ['status'], equals: 'approved' } },
+            { metadata: { path: ['status'], equals: 'rejected' } }
+          ],
           createdAt: { gte: thisWeek }
         }
       }),
@@ -437,7 +817,7 @@ export class TransferService {
             equals: 'pending' 
           },
           OR: [
-            { amount: { gte: 10000 } },
+            { riskAssessment: { riskLevel: { in: ['HIGH', 'CRITICAL'] } } },
             {
               user: {
                 riskLevel: 'HIGH'
@@ -450,18 +830,18 @@ export class TransferService {
 
     return {
       pending: {
-        count: stats[0],
-        amount: stats[1]._sum.amount || 0
+        count: pendingCount,
+        amount: Money.of(pendingSum._sum.amount || '0')
       },
       today: {
-        approved: stats[2],
-        rejected: stats[3]
+        approved: approvedToday,
+        rejected: rejectedToday
       },
       thisWeek: {
-        count: stats[4]._count,
-        amount: stats[4]._sum.amount || 0
+        count: weekVolume._count,
+        amount: Money.of(weekVolume._sum.amount || '0')
       },
-      highRiskPending: stats[5]
+      highRiskPending
     }
   }
 
@@ -478,27 +858,4 @@ export class TransferService {
       orderBy: { createdAt: 'desc' }
     })
   }
-
-  /**
-   * Placeholder for external bank transfer integration
-   */
-  private static async processExternalBankTransfer(transaction: any) {
-    // TODO: Integrate with actual bank transfer APIs
-    // Examples: ACH network, wire transfer services, etc.
-    
-    console.log(`Processing external bank transfer:`, {
-      transferId: transaction.id,
-      amount: transaction.amount,
-      bankName: transaction.metadata?.bankName,
-      // Don't log full account info for security
-    })
-    
-    // In production, this would:
-    // 1. Call external bank API
-    // 2. Handle responses and update transaction accordingly
-    // 3. Handle failures and retries
-    // 4. Send notifications to user
-    
-    return { success: true, externalTransactionId: `ext_${Date.now()}` }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Money } from '../../shared/money'
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn() },
+  limitPolicy: { count: vi.fn(async () => 0), createMany: vi.fn(), findMany: vi.fn() },
+  limitOverride: { findMany: vi.fn(async () => []) },
+  transaction: { findMany: vi.fn(async () => []) }
+}))
+
+vi.mock('../prisma', () => ({ prisma: db }))
+vi.mock('./accountService', () => ({
+  AccountService: {
+    resolveAccount: vi.fn(async () => ({ id: 'account-1', type: 'CHECKING', currency: 'USD', balance: '100000.00' }))
+  }
+}))
+vi.mock('./holdService', () => ({ HoldService: { getHeldAmount: vi.fn(async () => Money.zero()) } }))
+vi.mock('./spendingControlService', () => ({ SpendingControlService: { checkMonthlyLimit: vi.fn(async () => null) } }))
+vi.mock('./fxService', () => ({
+  FxService: { getMidRate: vi.fn(async (from: string) => (from === 'JPY' ? '0.0067' : null)) }
+}))
+
+import { AccountService } from './accountService'
+import { LimitService } from './limitService'
+import { TransferValidationService } from './transferValidationService'
+
+const POLICY_FIELDS = [
+  'kycStatus', 'riskLevel', 'accountType', 'transferType', 'isPep', 'perTransactionAmount',
+  'dailyAmount', 'dailyCount', 'weeklyAmount', 'weeklyCount', 'monthlyAmount', 'monthlyCount'
+]
+
+const USER = {
+  id: 'user-1',
+  balance: '100000.00',
+  isActive: true,
+  kycStatus: 'APPROVED',
+  riskLevel: 'LOW',
+  isPep: false
+}
+
+const transfer = (amount: string) => ({
+  amount: Money.of(amount),
+  recipientInfo: 'recipient@example.com',
+  transferType: 'p2p' as const
+})
+
+describe('TransferValidationService.checkTransfer limits', () => {
+  beforeAll(async () => {
+    // Resolve against the policies a fresh database is given
+    await LimitService.ensureDefaultPolicies()
+    const [{ data }] = db.limitPolicy.createMany.mock.calls[0] as [{ data: Record<string, unknown>[] }]
+    db.limitPolicy.findMany.mockResolvedValue(data.map((policy, index) => ({
+      ...Object.fromEntries(POLICY_FIELDS.map(field => [field, null])),
+      ...policy,
+      id: `policy-${index}`,
+      isActive: true
+    })))
+  })
+
+  beforeEach(() => {
+    db.user.findUnique.mockResolvedValue(USER)
+  })
+
+  it('rejects a PEP transfer over the PEP single transfer limit', async () => {
+    db.user.findUnique.mockResolvedValue({ ...USER, isPep: true })
+
+    const violation = await TransferValidationService.checkTransfer('user-1', transfer('12000.00'))
+
+    expect(violation).toMatchObject({ status: 400, code: 'TRANSACTION_LIMIT_EXCEEDED' })
+    expect(violation?.message).toBe('Single transfer limit of $10,000 exceeded')
+  })
+
+  it('allows the same transfer for a low risk customer who is not a PEP', async () => {
+    await expect(TransferValidationService.checkTransfer('user-1', transfer('12000.00'))).resolves.toBeNull()
+  })
+
+  it('applies the minimum and the KYC threshold in USD', async () => {
+    db.user.findUnique.mockResolvedValue({ ...USER, kycStatus: 'PENDING' })
+    vi.mocked(AccountService.resolveAccount).mockResolvedValue(
+      { id: 'account-2', type: 'CHECKING', currency: 'JPY', balance: '50000000' } as never
+    )
+    const check = (amount: string) => TransferValidationService.checkTransfer('user-1', { ...transfer(amount), amount: Money.of(amount, 'JPY') })
+
+    // 100 yen is about 67 cents; 20,000 yen about $134; 2,000,000 yen about $13,400
+    await expect(check('100')).resolves.toMatchObject({ code: 'BELOW_MINIMUM' })
+    await expect(check('20000')).resolves.toBeNull()
+    await expect(check('2000000')).resolves.toMatchObject({ status: 403, code: 'KYC_REQUIRED' })
+  })
+})
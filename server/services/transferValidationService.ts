@@ -0,0 +1,275 @@
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../prisma'
+import { Money, moneySchema } from '../../shared/money'
+import { accountNumberSchema, bicSchema, ibanSchema, routingNumberSchema } from '../../shared/beneficiary'
+import type { FraudDecision, FraudFactor, FraudFacts } from '../../shared/fraudRules'
+import { AccountService } from './accountService'
+import { FraudRuleService } from './fraudRuleService'
+import { HoldService } from './holdService'
+import { LimitService } from './limitService'
+import { PayeeService } from './payeeService'
+import { RoutingDirectoryService } from './routingDirectoryService'
+import { SpendingControlService } from './spendingControlService'
+
+export const transferRequestSchema = z.object({
+  // The $1 minimum depends on the source account's currency; checkTransfer applies it
+  amount: moneySchema()
+    .refine(amount => amount.isPositive(), 'Amount must be positive'),
+  recipientInfo: z.string()
+    .min(1, 'Recipient information is required')
+    .max(500, 'Recipient information too long'),
+  transferType: z.enum(['checking', 'savings', 'external_bank', 'p2p'], {
+    errorMap: () => ({ message: 'Invalid transfer type' })
+  }),
+  bankName: z.string().optional(),
+  routingNumber: routingNumberSchema.optional(),
+  iban: ibanSchema.optional(),
+  bic: bicSchema.optional(),
+  payeeId: z.string().uuid().optional()
+}).superRefine((data, ctx) => {
+  if (data.transferType !== 'external_bank') return
+
+  // US accounts are reached by routing and account number, accounts abroad by IBAN and BIC
+  if (data.iban || data.bic) {
+    if (!data.iban) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['iban'], message: 'IBAN is required for international transfers' })
+    }
+    if (!data.bic) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bic'], message: 'BIC is required for international transfers' })
+    }
+    return
+  }
+
+  if (!data.routingNumber) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['routingNumber'], message: 'Routing number is required for external transfers' })
+  }
+  const accountNumber = accountNumberSchema.safeParse(data.recipientInfo)
+  if (!accountNumber.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['recipientInfo'], message: accountNumber.error.errors[0].message })
+  }
+})
+
+export type ValidatedTransfer = z.infer<typeof transferRequestSchema>
+
+// A business rule the transfer breaks, with the HTTP status and body the API answers with
+export interface TransferViolation {
+  status: number
+  message: string
+  code?: string
+  details?: Record<string, unknown>
+}
+
+export interface RiskAssessment {
+  riskScore: number
+  riskLevel: string
+  riskFactors: string[]
+  requiresManualReview: boolean
+  decision: FraudDecision
+  ruleSetVersion: number | null
+  inputs: FraudFacts | null // Null when scoring failed
+  factors: FraudFactor[]
+}
+
+export class TransferValidationService {
+  /**
+   * Business checks a transfer must pass before any money moves: account
+   * standing, KYC, transfer limits, the monthly spending limit, available
+   * balance, the receiving bank's routing number and the payee's cooling-off limit.
+   * Returns the first rule broken, or null when the transfer may proceed.
+   */
+  static async checkTransfer(userId: string, transfer: ValidatedTransfer, fromAccountId?: string): Promise<TransferViolation | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        balance: true,
+        isActive: true,
+        kycStatus: true,
+        riskLevel: true,
+        isPep: true
+      }
+    })
+
+    if (!user || !user.isActive) {
+      return { status: 403, message: 'Account is not active or not found' }
+    }
+
+    const sourceAccount = await AccountService.resolveAccount(prisma, userId, fromAccountId)
+    const amount = Money.of(transfer.amount.toString(), sourceAccount.currency)
+
+    // The minimum and the KYC threshold are USD figures
+    const usdAmount = await LimitService.toLimitCurrency(amount)
+    if (usdAmount.lt('1')) {
+      return { status: 400, message: 'Minimum transfer amount is $1', code: 'BELOW_MINIMUM' }
+    }
+
+    // Check KYC requirements for large transfers
+    if (usdAmount.gt('10000') && user.kycStatus !== 'APPROVED') {
+      return { status: 403, message: 'KYC verification required for transfers over $10,000', code: 'KYC_REQUIRED' }
+    }
+
+    // Per-transfer and rolling window limits from the limit policies
+    const limitViolation = await LimitService.checkTransfer(user, amount, {
+      transferType: transfer.transferType,
+      accountType: sourceAccount.type
+    })
+    if (limitViolation) {
+      return { status: 400, ...limitViolation }
+    }
+
+    // Moves between the user's own accounts are not spending and are never swept
+    const isOwnAccountTransfer = transfer.transferType === 'checking' || transfer.transferType === 'savings'
+
+    // Users who chose to block debits over their monthly spending limit
+    if (!isOwnAccountTransfer) {
+      const spending = await SpendingControlService.checkMonthlyLimit(prisma, userId, transfer.amount, sourceAccount.currency)
+      if (spending?.exceeded && spending.action === 'BLOCK') {
+        return {
+          status: 400,
+          message: 'This payment would exceed your monthly spending limit',
+          code: 'MONTHLY_SPENDING_LIMIT_EXCEEDED',
+          details: { limit: spending.limit, spent: spending.spent, requestedAmount: transfer.amount }
+        }
+      }
+    }
+
+    // Check the available balance of the source account; funds held for
+    // pending transfers cannot be spent again. Overdraft protection can
+    // cover the shortfall from savings.
+    const heldAmount = await HoldService.getHeldAmount(sourceAccount.id)
+    const availableBalance = Money.of(sourceAccount.balance, sourceAccount.currency).subtract(heldAmount.toString())
+    const shortfall = amount.subtract(availableBalance)
+
+    if (shortfall.isPositive() && (isOwnAccountTransfer || !await SpendingControlService.findSweepSource(prisma, sourceAccount, shortfall.toString()))) {
+      return {
+        status: 400,
+        message: heldAmount.isZero()
+          ? 'Insufficient balance for transfer'
+          : 'Insufficient available balance including pending transfers',
+        code: 'INSUFFICIENT_FUNDS',
+        details: { availableBalance, heldAmount, requestedAmount: amount }
+      }
+    }
+
+    // The receiving bank must be in the routing directory
+    if (transfer.transferType === 'external_bank' && transfer.routingNumber && !RoutingDirectoryService.lookup(transfer.routingNumber)) {
+      return {
+        status: 400,
+        message: 'Routing number not found in the routing directory. Please verify it with the receiving bank.',
+        code: 'UNKNOWN_ROUTING_NUMBER',
+        details: { routingNumber: transfer.routingNumber }
+      }
+    }
+
+    // Newly added payees can only receive a limited amount at first, whether
+    // the payee is chosen or its account details are typed in
+    const payee = transfer.payeeId
+      ? await prisma.payee.findFirst({ where: { id: transfer.payeeId, userId } })
+      : transfer.transferType === 'external_bank' && transfer.routingNumber && !transfer.iban
+        ? await PayeeService.findByAccount(userId, transfer.routingNumber, transfer.recipientInfo)
+        : null
+    if (transfer.payeeId && !payee) {
+      return { status: 404, message: 'Payee not found' }
+    }
+
+    if (payee) {
+      const payeeViolation = await PayeeService.checkTransfer(payee, amount.toString())
+      if (payeeViolation) {
+        return { status: 400, ...payeeViolation }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Score a transfer for fraud risk against the active fraud rules. The amount
+   * is read in the source account's currency. CRITICAL transfers are blocked
+   * and logged as a security event. Scoring errors never block a transfer.
+   */
+  static async assessRisk(userId: string, transfer: Pick<ValidatedTransfer, 'amount' | 'transferType' | 'bankName' | 'payeeId'>, context: {
+    fromAccountId?: string
+    ipAddress?: string
+    userAgent?: string
+  } = {}): Promise<RiskAssessment & { blocked: boolean }> {
+    const { amount, transferType, bankName, payeeId } = transfer
+
+    try {
+      const sourceAccount = await AccountService.resolveAccount(prisma, userId, context.fromAccountId)
+      const { riskScore, riskLevel, riskFactors, factors, decision, ruleSetVersion, facts } = await FraudRuleService.evaluate(userId, {
+        amount: Money.of(amount.toString(), sourceAccount.currency),
+        transferType,
+        bankName,
+        payeeId
+      })
+
+      // Auto-block high-risk transfers
+      if (decision === 'BLOCK') {
+        await prisma.securityEvent.create({
+          data: {
+            userId,
+            eventType: 'SUSPICIOUS_ACTIVITY',
+            description: `High-risk transfer attempt blocked: ${amount.format()} to ${transferType}`,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            riskLevel: 'CRITICAL',
+            metadata: {
+              riskScore,
+              riskFactors,
+              ruleSetVersion,
+              transferAmount: amount.toString(),
+              transferType,
+              bankName,
+              payeeId
+            }
+          }
+        })
+      }
+
+      return {
+        riskScore,
+        riskLevel,
+        riskFactors,
+        requiresManualReview: decision !== 'ALLOW',
+        decision,
+        ruleSetVersion,
+        inputs: facts,
+        factors,
+        blocked: decision === 'BLOCK'
+      }
+    } catch (error) {
+      console.error('Fraud detection error:', error)
+      // Don't block transfer on fraud detection errors, but log them
+      return {
+        riskScore: 1,
+        riskLevel: 'MEDIUM',
+        riskFactors: ['Fraud detection system error'],
+        requiresManualReview: false,
+        decision: 'ALLOW',
+        ruleSetVersion: null,
+        inputs: null,
+        factors: [{ key: 'system_error', reason: 'Fraud detection system error', score: 1 }],
+        blocked: false
+      }
+    }
+  }
+
+  /**
+   * Keep a transfer's risk assessment with the transaction it was made for,
+   * inside the transaction that creates it
+   */
+  static async recordAssessment(tx: Prisma.TransactionClient, transactionId: string, assessment: RiskAssessment) {
+    return tx.riskAssessment.create({
+      data: {
+        transactionId,
+        ruleSetVersion: assessment.ruleSetVersion,
+        inputs: assessment.inputs ? (assessment.inputs as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+        score: assessment.riskScore,
+        riskLevel: assessment.riskLevel,
+        factors: assessment.factors as unknown as Prisma.InputJsonValue,
+        decision: assessment.decision
+      }
+    })
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Minimal CSV reading for the reference data files in server/data
+ */
+
+/**
+ * Split one CSV line, honouring double-quoted fields that contain commas
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields.map(field => field.trim());
+}
+
+/**
+ * Data rows of a CSV file with a header row, blank lines dropped
+ */
+export function readCsvRows(content: string): string[][] {
+  const [, ...rows] = content.split(/\r?\n/);
+  return rows.filter(row => row.trim()).map(parseCsvLine);
+}
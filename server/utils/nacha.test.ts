@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BLOCKING_FACTOR,
+  RECORD_SIZE,
+  TRANSACTION_CODES,
+  buildNachaFile,
+  parseNachaFile,
+  type NachaEntryInput,
+  type NachaFileInput,
+} from './nacha';
+
+const CREATED_AT = new Date('2026-03-31T14:05:00Z');
+
+function entry(routingNumber: string, amountCents: number, values: Partial<NachaEntryInput> = {}): NachaEntryInput {
+  return {
+    transactionCode: TRANSACTION_CODES.CHECKING_CREDIT,
+    routingNumber,
+    accountNumber: '123456789',
+    amountCents: BigInt(amountCents),
+    individualId: 'TXN-1',
+    individualName: 'Jane Doe',
+    traceNumber: '091000010000001',
+    ...values,
+  };
+}
+
+function file(batches: NachaEntryInput[][]): NachaFileInput {
+  return {
+    immediateDestination: '091000019',
+    immediateOrigin: '123456780',
+    destinationName: 'Federal Reserve Bank',
+    originName: 'Example Bank',
+    fileIdModifier: 'A',
+    createdAt: CREATED_AT,
+    batches: batches.map(entries => ({
+      companyName: 'Example Bank',
+      companyId: '1234567890',
+      entryDescription: 'TRANSFER',
+      effectiveDate: CREATED_AT,
+      odfiIdentification: '09100001',
+      entries,
+    })),
+  };
+}
+
+// Two batches: 021000021 and 011000015 (with an addenda), then 121000358
+const TWO_BATCHES = file([
+  [entry('021000021', 12345), entry('011000015', 500, { paymentInfo: 'Rent for March', traceNumber: '091000010000002' })],
+  [entry('121000358', 100000, { transactionCode: TRANSACTION_CODES.SAVINGS_CREDIT, traceNumber: '091000010000003' })],
+]);
+
+// Records end in spaces, so only the final newline is dropped
+const lines = (content: string) => content.split('\n').slice(0, -1);
+
+describe('buildNachaFile', () => {
+  it('writes every record 94 characters wide', () => {
+    const records = lines(buildNachaFile(TWO_BATCHES).content);
+
+    expect(records.map(record => record.length)).toEqual(records.map(() => RECORD_SIZE));
+    expect(records.map(record => record[0]).join('')).toBe('1566785689');
+  });
+
+  it('hashes the 8-digit RDFI identifications of each batch and the file', () => {
+    const summary = buildNachaFile(TWO_BATCHES);
+    const [batchControl] = lines(summary.content).filter(record => record[0] === '8');
+
+    // 02100002 + 01100001
+    expect(batchControl.slice(10, 20)).toBe('0003200003');
+    // 02100002 + 01100001 + 12100035
+    expect(summary.entryHash).toBe('0015300038');
+  });
+
+  it('keeps the rightmost ten digits of an overflowing entry hash', () => {
+    const entries = Array.from({ length: 120 }, () => entry('999999999', 1));
+
+    // 120 x 99999999 = 11999999880
+    expect(buildNachaFile(file([entries])).entryHash).toBe('1999999880');
+  });
+
+  it('totals each batch in its control record', () => {
+    const [first, second] = lines(buildNachaFile(TWO_BATCHES).content).filter(record => record[0] === '8');
+
+    expect(first.slice(1, 4)).toBe('220');
+    // Two entries and one addenda
+    expect(first.slice(4, 10)).toBe('000003');
+    expect(first.slice(20, 32)).toBe('000000000000');
+    expect(first.slice(32, 44)).toBe('000000012845');
+    expect(first.slice(87, 94)).toBe('0000001');
+    expect(second.slice(32, 44)).toBe('000000100000');
+    expect(second.slice(87, 94)).toBe('0000002');
+  });
+
+  it('totals the file in its control record', () => {
+    const summary = buildNachaFile(TWO_BATCHES);
+    const fileControl = lines(summary.content)[9];
+
+    expect(summary).toMatchObject({ batchCount: 2, blockCount: 1, entryAddendaCount: 4 });
+    expect(summary.totalCreditCents).toBe(BigInt(112845));
+    expect(fileControl.slice(1, 7)).toBe('000002');
+    expect(fileControl.slice(7, 13)).toBe('000001');
+    expect(fileControl.slice(13, 21)).toBe('00000004');
+    expect(fileControl.slice(21, 31)).toBe('0015300038');
+    expect(fileControl.slice(31, 43)).toBe('000000000000');
+    expect(fileControl.slice(43, 55)).toBe('000000112845');
+  });
+
+  it('pads the file with 9-filler records to a whole block', () => {
+    const summary = buildNachaFile(file([[entry('021000021', 100)]]));
+    const records = lines(summary.content);
+
+    expect(records).toHaveLength(BLOCKING_FACTOR);
+    expect(records.slice(5)).toEqual(Array(5).fill('9'.repeat(RECORD_SIZE)));
+    expect(summary.blockCount).toBe(1);
+  });
+
+  it('starts another block once the records fill one', () => {
+    const summary = buildNachaFile(file([[entry('021000021', 100)], [entry('021000021', 200)], [entry('021000021', 300)]]));
+
+    // Header, three batches of three records and the file control make 11
+    expect(lines(summary.content)).toHaveLength(2 * BLOCKING_FACTOR);
+    expect(summary.blockCount).toBe(2);
+  });
+
+  it('rejects fields that do not fit', () => {
+    expect(() => buildNachaFile(file([[entry('02100002', 100)]]))).toThrow('Invalid RDFI routing number: 02100002');
+    expect(() => buildNachaFile(file([[entry('021000021', 1e10)]]))).toThrow('NACHA numeric field overflow: 10000000000 (10)');
+    expect(() => buildNachaFile({ ...TWO_BATCHES, fileIdModifier: 'a' })).toThrow('File ID modifier must be a single letter or digit');
+  });
+});
+
+describe('parseNachaFile', () => {
+  it('reads back the entries of a built file', () => {
+    const parsed = parseNachaFile(buildNachaFile(TWO_BATCHES).content);
+
+    expect(parsed).toMatchObject({ immediateDestination: '091000019', immediateOrigin: '123456780', fileIdModifier: 'A' });
+    expect(parsed.entries).toHaveLength(3);
+    expect(parsed.entries[1]).toMatchObject({
+      batchNumber: 1,
+      routingNumber: '011000015',
+      amountCents: BigInt(500),
+      individualName: 'JANE DOE',
+      addenda: ['RENT FOR MARCH'],
+    });
+    expect(parsed.entries[2]).toMatchObject({ batchNumber: 2, transactionCode: '32' });
+  });
+
+  it('rejects a file whose control totals do not match its entries', () => {
+    const records = lines(buildNachaFile(TWO_BATCHES).content);
+    const tampered = [...records];
+    tampered[2] = tampered[2].slice(0, 29) + '0000099999' + tampered[2].slice(39);
+
+    expect(() => parseNachaFile(tampered.join('\n'))).toThrow('NACHA credit total does not match file control');
+    expect(() => parseNachaFile(records.slice(0, 9).join('\n'))).toThrow('NACHA file is missing its file control record');
+    expect(() => parseNachaFile(records.slice(1).join('\n'))).toThrow('NACHA file must start with a file header record');
+  });
+});
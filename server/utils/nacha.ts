@@ -0,0 +1,332 @@
+/**
+ * NACHA ACH file format: fixed-width 94 character records grouped into
+ * blocks of ten. Builds outbound credit files and parses files back into
+ * entries (used by the simulated ODFI and for return/acknowledgement checks).
+ */
+
+export const RECORD_SIZE = 94;
+export const BLOCKING_FACTOR = 10;
+
+// Transaction codes for credits pushed to the receiver's account
+export const TRANSACTION_CODES = {
+  CHECKING_CREDIT: '22',
+  SAVINGS_CREDIT: '32',
+} as const;
+
+export interface NachaEntryInput {
+  transactionCode: string;
+  routingNumber: string; // 9 digits including check digit
+  accountNumber: string;
+  amountCents: bigint;
+  individualId: string;
+  individualName: string;
+  traceNumber: string; // 15 digits
+  paymentInfo?: string; // becomes a 05 addenda record
+}
+
+export interface NachaBatchInput {
+  companyName: string;
+  companyId: string;
+  entryDescription: string;
+  effectiveDate: Date;
+  odfiIdentification: string; // first 8 digits of the ODFI routing number
+  entries: NachaEntryInput[];
+}
+
+export interface NachaFileInput {
+  immediateDestination: string;
+  immediateOrigin: string;
+  destinationName: string;
+  originName: string;
+  fileIdModifier: string;
+  createdAt: Date;
+  referenceCode?: string;
+  batches: NachaBatchInput[];
+}
+
+export interface NachaFileSummary {
+  content: string;
+  batchCount: number;
+  blockCount: number;
+  entryAddendaCount: number;
+  entryHash: string;
+  totalDebitCents: bigint;
+  totalCreditCents: bigint;
+}
+
+export interface ParsedNachaEntry {
+  batchNumber: number;
+  transactionCode: string;
+  routingNumber: string;
+  accountNumber: string;
+  amountCents: bigint;
+  individualId: string;
+  individualName: string;
+  traceNumber: string;
+  addenda: string[];
+}
+
+export interface ParsedNachaFile {
+  immediateDestination: string;
+  immediateOrigin: string;
+  fileIdModifier: string;
+  entries: ParsedNachaEntry[];
+  totalDebitCents: bigint;
+  totalCreditCents: bigint;
+  entryHash: string;
+}
+
+const ENTRY_HASH_MODULUS = BigInt(10000000000);
+
+function alpha(value: string, length: number): string {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,\-/&']/g, ' ')
+    .slice(0, length)
+    .padEnd(length, ' ');
+}
+
+function numeric(value: string | number | bigint, length: number): string {
+  const text = String(value);
+  if (!/^\d+$/.test(text) || text.length > length) {
+    throw new Error(`NACHA numeric field overflow: ${text} (${length})`);
+  }
+  return text.padStart(length, '0');
+}
+
+function yymmdd(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, '');
+}
+
+function hhmm(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(':', '');
+}
+
+function assertRecord(record: string): string {
+  if (record.length !== RECORD_SIZE) {
+    throw new Error(`NACHA record must be ${RECORD_SIZE} characters, got ${record.length}`);
+  }
+  return record;
+}
+
+// Sum of the 8-digit RDFI identifications, keeping the rightmost ten digits
+function entryHash(entries: { routingNumber: string }[]): string {
+  const sum = entries.reduce((total, entry) => total + BigInt(entry.routingNumber.slice(0, 8)), BigInt(0));
+  return numeric(sum % ENTRY_HASH_MODULUS, 10);
+}
+
+/**
+ * Build a complete NACHA file with header, batches, addenda, control records
+ * and 9-filler padding to a full block
+ */
+export function buildNachaFile(input: NachaFileInput): NachaFileSummary {
+  if (!/^[A-Z0-9]$/.test(input.fileIdModifier)) {
+    throw new Error('File ID modifier must be a single letter or digit');
+  }
+
+  const records: string[] = [];
+
+  records.push(assertRecord(
+    '1' +
+    '01' +
+    ` ${numeric(input.immediateDestination, 9)}` +
+    ` ${numeric(input.immediateOrigin, 9)}` +
+    yymmdd(input.createdAt) +
+    hhmm(input.createdAt) +
+    input.fileIdModifier +
+    '094' +
+    '10' +
+    '1' +
+    alpha(input.destinationName, 23) +
+    alpha(input.originName, 23) +
+    alpha(input.referenceCode || '', 8)
+  ));
+
+  let totalDebitCents = BigInt(0);
+  let totalCreditCents = BigInt(0);
+  let entryAddendaCount = 0;
+  const allEntries: NachaEntryInput[] = [];
+
+  input.batches.forEach((batch, index) => {
+    const batchNumber = numeric(index + 1, 7);
+    const serviceClassCode = '220'; // credits only
+
+    records.push(assertRecord(
+      '5' +
+      serviceClassCode +
+      alpha(batch.companyName, 16) +
+      alpha('', 20) +
+      alpha(batch.companyId, 10) +
+      'PPD' +
+      alpha(batch.entryDescription, 10) +
+      alpha('', 6) +
+      yymmdd(batch.effectiveDate) +
+      '   ' +
+      '1' +
+      numeric(batch.odfiIdentification, 8) +
+      batchNumber
+    ));
+
+    let batchCreditCents = BigInt(0);
+    let batchCount = 0;
+
+    for (const entry of batch.entries) {
+      if (!/^\d{9}$/.test(entry.routingNumber)) {
+        throw new Error(`Invalid RDFI routing number: ${entry.routingNumber}`);
+      }
+
+      records.push(assertRecord(
+        '6' +
+        entry.transactionCode +
+        entry.routingNumber.slice(0, 8) +
+        entry.routingNumber.slice(8) +
+        alpha(entry.accountNumber, 17) +
+        numeric(entry.amountCents, 10) +
+        alpha(entry.individualId, 15) +
+        alpha(entry.individualName, 22) +
+        '  ' +
+        (entry.paymentInfo ? '1' : '0') +
+        numeric(entry.traceNumber, 15)
+      ));
+      batchCount++;
+
+      if (entry.paymentInfo) {
+        records.push(assertRecord(
+          '7' +
+          '05' +
+          alpha(entry.paymentInfo, 80) +
+          '0001' +
+          entry.traceNumber.slice(-7)
+        ));
+        batchCount++;
+      }
+
+      batchCreditCents += entry.amountCents;
+      allEntries.push(entry);
+    }
+
+    records.push(assertRecord(
+      '8' +
+      serviceClassCode +
+      numeric(batchCount, 6) +
+      entryHash(batch.entries) +
+      numeric(0, 12) +
+      numeric(batchCreditCents, 12) +
+      alpha(batch.companyId, 10) +
+      alpha('', 19) +
+      alpha('', 6) +
+      numeric(batch.odfiIdentification, 8) +
+      batchNumber
+    ));
+
+    totalCreditCents += batchCreditCents;
+    entryAddendaCount += batchCount;
+  });
+
+  // Records so far plus the file control record, rounded up to whole blocks
+  const blockCount = Math.ceil((records.length + 1) / BLOCKING_FACTOR);
+  const hash = entryHash(allEntries);
+
+  records.push(assertRecord(
+    '9' +
+    numeric(input.batches.length, 6) +
+    numeric(blockCount, 6) +
+    numeric(entryAddendaCount, 8) +
+    hash +
+    numeric(totalDebitCents, 12) +
+    numeric(totalCreditCents, 12) +
+    alpha('', 39)
+  ));
+
+  while (records.length % BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(RECORD_SIZE));
+  }
+
+  return {
+    content: records.join('\n') + '\n',
+    batchCount: input.batches.length,
+    blockCount,
+    entryAddendaCount,
+    entryHash: hash,
+    totalDebitCents,
+    totalCreditCents,
+  };
+}
+
+/**
+ * Parse a NACHA file and verify its batch and file control totals
+ */
+export function parseNachaFile(content: string): ParsedNachaFile {
+  const records = content.split(/\r?\n/).filter(line => line.length > 0);
+  const header = records[0];
+
+  if (!header || header[0] !== '1') {
+    throw new Error('NACHA file must start with a file header record');
+  }
+
+  const entries: ParsedNachaEntry[] = [];
+  let batchNumber = 0;
+  let fileControl: string | null = null;
+
+  for (const record of records) {
+    if (record.length !== RECORD_SIZE) {
+      throw new Error(`NACHA record must be ${RECORD_SIZE} characters, got ${record.length}`);
+    }
+
+    switch (record[0]) {
+      case '5':
+        batchNumber = parseInt(record.slice(87, 94), 10);
+        break;
+      case '6':
+        entries.push({
+          batchNumber,
+          transactionCode: record.slice(1, 3),
+          routingNumber: record.slice(3, 12),
+          accountNumber: record.slice(12, 29).trim(),
+          amountCents: BigInt(record.slice(29, 39)),
+          individualId: record.slice(39, 54).trim(),
+          individualName: record.slice(54, 76).trim(),
+          traceNumber: record.slice(79, 94),
+          addenda: [],
+        });
+        break;
+      case '7':
+        if (entries.length === 0) {
+          throw new Error('Addenda record without an entry');
+        }
+        entries[entries.length - 1].addenda.push(record.slice(3, 83).trim());
+        break;
+      case '9':
+        if (!fileControl && !/^9+$/.test(record)) fileControl = record;
+        break;
+    }
+  }
+
+  if (!fileControl) {
+    throw new Error('NACHA file is missing its file control record');
+  }
+
+  const hash = entryHash(entries);
+  const totalDebitCents = BigInt(fileControl.slice(31, 43));
+  const totalCreditCents = BigInt(fileControl.slice(43, 55));
+  const creditSum = entries
+    .filter(entry => Number(entry.transactionCode[1]) <= 4) // x1-x4 are credits, x6-x9 debits
+    .reduce((total, entry) => total + entry.amountCents, BigInt(0));
+
+  if (fileControl.slice(21, 31) !== hash) {
+    throw new Error('NACHA entry hash does not match file control');
+  }
+  if (creditSum !== totalCreditCents) {
+    throw new Error('NACHA credit total does not match file control');
+  }
+
+  return {
+    immediateDestination: header.slice(4, 13),
+    immediateOrigin: header.slice(14, 23),
+    fileIdModifier: header[33],
+    entries,
+    totalDebitCents,
+    totalCreditCents,
+    entryHash: hash,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { countryTokens, jaroWinkler, nameSimilarity, nameTokens, normalizeName } from './nameMatching';
+
+const similarity = (a: string, b: string) => nameSimilarity(nameTokens(a), nameTokens(b));
+
+describe('normalizeName', () => {
+  it('strips accents, punctuation and case', () => {
+    expect(normalizeName('Álvarez-Núñez, José')).toBe('alvarez nunez jose');
+    expect(normalizeName("  O'Brien   ")).toBe('obrien');
+  });
+
+  it('transliterates letters that have no Latin base', () => {
+    expect(normalizeName('Straße Ørsted')).toBe('strasse orsted');
+    expect(normalizeName('Владимир Путин')).toBe('vladimir putin');
+    expect(normalizeName('Щукин Юрий')).toBe('shchukin yuriy');
+  });
+
+  it('has no tokens for a name without letters or digits', () => {
+    expect(nameTokens(' - , ')).toEqual([]);
+  });
+
+  it('reads ISO country codes as country names', () => {
+    expect(countryTokens('IR')).toEqual(['iran']);
+    expect(countryTokens('Iran')).toEqual(['iran']);
+  });
+});
+
+describe('jaroWinkler', () => {
+  it('scores equal strings 1 and strings with nothing in common 0', () => {
+    expect(jaroWinkler('hassan', 'hassan')).toBe(1);
+    expect(jaroWinkler('abc', 'xyz')).toBe(0);
+    expect(jaroWinkler('', 'abc')).toBe(0);
+  });
+
+  it('matches the textbook values', () => {
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('dwayne', 'duane')).toBeCloseTo(0.84, 3);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('matches a name in another order or with accents', () => {
+    expect(similarity('Nunez Alvarez Jose', 'José Álvarez-Núñez')).toBe(1);
+    expect(similarity('Владимир Путин', 'Vladimir Putin')).toBe(1);
+  });
+
+  it('tolerates small spelling differences', () => {
+    expect(similarity('Mohamad Hasan', 'Mohammed Hassan')).toBeGreaterThan(0.9);
+  });
+
+  it('only lowers the score a little for a missing middle name', () => {
+    expect(similarity('Ali Hassan', 'Ali Mohammed Hassan')).toBeCloseTo(0.95, 5);
+  });
+
+  it('catches names run together', () => {
+    expect(similarity('Abdulrahman Hassan', 'Abdul Rahman Hassan')).toBe(1);
+  });
+
+  it('treats a single word of a longer name as weak evidence', () => {
+    expect(similarity('Ivanov', 'Ivan Ivanovich Ivanov')).toBeLessThan(0.8);
+    expect(similarity('Ivanov', 'Ivanov')).toBe(1);
+  });
+
+  it('scores different names low', () => {
+    expect(similarity('John Smith', 'Maria Garcia')).toBeLessThan(0.5);
+    expect(nameSimilarity([], ['ivanov'])).toBe(0);
+  });
+});
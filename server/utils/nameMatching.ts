@@ -0,0 +1,127 @@
+/**
+ * Fuzzy name matching for sanctions and PEP screening: names are
+ * transliterated to plain Latin letters and compared token by token, so word
+ * order, accents, punctuation and small spelling differences do not hide a
+ * match.
+ */
+
+// Letters that do not break down into a Latin letter plus accents
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', đ: 'd', ð: 'd', ł: 'l', þ: 'th', ı: 'i', ħ: 'h', ŋ: 'ng',
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', ё: 'e', є: 'ye', ж: 'zh', з: 'z',
+  и: 'i', і: 'i', ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r',
+  с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '',
+  ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya'
+};
+
+// Two tokens closer than this count as the same word
+const TOKEN_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Lower-case Latin form of a name with accents, punctuation and extra spaces
+ * removed, e.g. "Álvarez-Núñez, José" becomes "alvarez nunez jose"
+ */
+export function normalizeName(name: string): string {
+  const transliterated = Array.from(name.toLowerCase(), char => TRANSLITERATIONS[char] ?? char).join('');
+  return transliterated
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function nameTokens(name: string): string[] {
+  const normalized = normalizeName(name);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Country name tokens, accepting ISO codes such as "IR" as well as names
+ */
+export function countryTokens(country: string): string[] {
+  const trimmed = country.trim();
+  if (/^[a-z]{2}$/i.test(trimmed)) {
+    try {
+      return nameTokens(new Intl.DisplayNames(['en'], { type: 'region' }).of(trimmed.toUpperCase()) || trimmed);
+    } catch {
+      return nameTokens(trimmed);
+    }
+  }
+  return nameTokens(trimmed);
+}
+
+/**
+ * Jaro-Winkler similarity of two strings, from 0 (nothing in common) to 1 (equal)
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * How alike two tokenized names are, from 0 to 1. Each token of the shorter
+ * name is paired with its closest unused token of the longer one, in any
+ * order; tokens of the longer name left over (middle names, patronymics)
+ * only lower the score a little. Names run together ("abdulrahman" for
+ * "abdul rahman") are caught by also comparing the names without spaces.
+ */
+export function nameSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const used = new Set<number>();
+  let total = 0;
+
+  for (const token of shorter) {
+    let best = 0;
+    let bestIndex = -1;
+    longer.forEach((candidate, index) => {
+      if (used.has(index)) return;
+      const similarity = jaroWinkler(token, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (best >= TOKEN_MATCH_THRESHOLD) {
+      used.add(bestIndex);
+      total += best;
+    }
+  }
+
+  let score = 0.85 * (total / shorter.length) + 0.15 * (total / longer.length);
+  // A single word matching one part of a longer name is weak evidence
+  if (shorter.length === 1 && longer.length > 1) score *= 0.8;
+
+  const [joinedA, joinedB] = [a.join(''), b.join('')];
+  return Math.abs(joinedA.length - joinedB.length) <= 2 ? Math.max(score, jaroWinkler(joinedA, joinedB)) : score;
+}
@@ -3,6 +3,24 @@
  * without circular references or non-serializable data
  */
 
+import { Prisma } from '@prisma/client';
+import { Money } from '../../shared/money';
+
+/**
+ * Money values (Money or Prisma Decimal) are sent as fixed-point decimal strings
+ * so amounts never pass through a JS float on the wire
+ */
+export function serializeMoney(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Money) return value.toString();
+  if (Prisma.Decimal.isDecimal(value)) return Money.of(value).toString();
+  return Money.of(value as string | number).toString();
+}
+
+function isMoneyValue(value: unknown): boolean {
+  return value instanceof Money || Prisma.Decimal.isDecimal(value);
+}
+
 /**
  * Creates a plain object by extracting only serializable properties
  * Removes prototype chains, circular references, and complex objects
@@ -19,6 +37,10 @@ export function createPlainObject<T = Record<string, any>>(source: any): T {
     return source as T;
   }
 
+  if (isMoneyValue(source)) {
+    return serializeMoney(source) as T;
+  }
+
   // Handle arrays
   if (Array.isArray(source)) {
     return source.map(item => createPlainObject(item)) as T;
@@ -35,6 +57,8 @@ export function createPlainObject<T = Record<string, any>>(source: any): T {
         (plain as any)[key] = value;
       } else if (value instanceof Date) {
         (plain as any)[key] = value.toISOString();
+      } else if (isMoneyValue(value)) {
+        (plain as any)[key] = serializeMoney(value);
       } else if (Array.isArray(value)) {
         (plain as any)[key] = value.map(item => createPlainObject(item));
       } else if (typeof value === 'object') {
@@ -58,10 +82,18 @@ export function sanitizeTransactionData(transaction: any) {
   return {
     id: String(transaction.id || ''),
     userId: String(transaction.userId || ''),
+    accountId: transaction.accountId ? String(transaction.accountId) : null,
     type: String(transaction.type || ''),
-    amount: Number(transaction.amount) || 0,
+    amount: serializeMoney(transaction.amount) || '0.00',
+    currency: transaction.currency ? String(transaction.currency) : 'USD',
     description: String(transaction.description || ''),
+    reference: transaction.reference ? String(transaction.reference) : null,
+    linkedTransactionId: transaction.linkedTransactionId ? String(transaction.linkedTransactionId) : null,
+    fxRate: transaction.fxRate ? transaction.fxRate.toFixed(8) : null,
+    fxSpread: serializeMoney(transaction.fxSpread),
+    fxFee: serializeMoney(transaction.fxFee),
     status: String(transaction.status || 'PENDING'),
+    transferState: transaction.transferState ? String(transaction.transferState) : null,
     createdAt: transaction.createdAt ? new Date(transaction.createdAt).toISOString() : new Date().toISOString(),
     updatedAt: transaction.updatedAt ? new Date(transaction.updatedAt).toISOString() : new Date().toISOString(),
     metadata: sanitizeMetadata(transaction.metadata)
@@ -88,6 +120,8 @@ export function sanitizeMetadata(metadata: any): Record<string, any> {
         clean[key] = value;
       } else if (value instanceof Date) {
         clean[key] = value.toISOString();
+      } else if (isMoneyValue(value)) {
+        clean[key] = serializeMoney(value);
       } else if (Array.isArray(value)) {
         clean[key] = value.filter(item => 
           typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean'
@@ -0,0 +1,28 @@
+/**
+ * Shared error responses for the feature routers
+ */
+
+import type { Response } from 'express';
+import { z } from 'zod';
+
+export type RouteErrorHandler = (res: Response, error: unknown, fallback: string) => void;
+
+/**
+ * Build a router's error handler. Validation errors become a 400 with the
+ * first issue's message (or `invalidMessage`), service errors listed in
+ * `knownErrors` get their status, and anything else is a 500 with `fallback`.
+ */
+export function routeErrorHandler(knownErrors: Record<string, number>, invalidMessage = 'Invalid request'): RouteErrorHandler {
+  return (res, error, fallback) => {
+    if (error instanceof z.ZodError) {
+      const [issue] = error.errors;
+      res.status(400).json({ message: issue?.message || invalidMessage });
+      return;
+    }
+    if (error instanceof Error && knownErrors[error.message]) {
+      res.status(knownErrors[error.message]).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: fallback });
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Minimal XML reading for the reference data files in server/data. Handles
+ * the flat, attribute-free element trees of the OFAC list files; it is not a
+ * general XML parser.
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * The inner XML of every `<tag>` element in `xml`, in document order.
+ * Namespace prefixes and attributes on the tag are ignored.
+ */
+export function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+/**
+ * Text of every `<tag>` element in `xml`, with entities decoded; empty
+ * elements are left out
+ */
+export function xmlTexts(xml: string, tag: string): string[] {
+  return xmlElements(xml, tag)
+    .map(element => decodeEntities(element.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')).trim())
+    .filter(text => text);
+}
+
+/**
+ * Text of the first `<tag>` element in `xml`, or null when there is none
+ */
+export function xmlText(xml: string, tag: string): string | null {
+  return xmlTexts(xml, tag)[0] ?? null;
+}
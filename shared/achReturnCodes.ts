@@ -0,0 +1,28 @@
+// NACHA return reason codes we expect to see. Unauthorized returns mean the
+// account holder disputed the debit, which weighs more on the user's risk level.
+export const ACH_RETURN_CODES = {
+  R01: { reason: "Insufficient funds", unauthorized: false },
+  R02: { reason: "Account closed", unauthorized: false },
+  R03: { reason: "No account/unable to locate account", unauthorized: false },
+  R04: { reason: "Invalid account number structure", unauthorized: false },
+  R05: { reason: "Unauthorized debit to consumer account", unauthorized: true },
+  R06: { reason: "Returned per ODFI's request", unauthorized: false },
+  R07: { reason: "Authorization revoked by customer", unauthorized: true },
+  R08: { reason: "Payment stopped", unauthorized: false },
+  R09: { reason: "Uncollected funds", unauthorized: false },
+  R10: { reason: "Customer advises not authorized", unauthorized: true },
+  R16: { reason: "Account frozen", unauthorized: false },
+  R20: { reason: "Non-transaction account", unauthorized: false },
+  R23: { reason: "Credit entry refused by receiver", unauthorized: false },
+  R29: { reason: "Corporate customer advises not authorized", unauthorized: true },
+} as const;
+
+export type AchReturnCode = keyof typeof ACH_RETURN_CODES;
+
+export function isAchReturnCode(code: string): code is AchReturnCode {
+  return Object.prototype.hasOwnProperty.call(ACH_RETURN_CODES, code);
+}
+
+export function describeAchReturnCode(code: string): string {
+  return isAchReturnCode(code) ? ACH_RETURN_CODES[code].reason : "Returned by the other bank";
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  bicSchema,
+  domesticBeneficiarySchema,
+  formatIban,
+  ibanSchema,
+  isValidAbaRoutingNumber,
+  isValidBic,
+  isValidIban,
+  routingNumberSchema,
+} from "./beneficiary";
+
+const firstIssue = (result: { success: boolean; error?: { errors: { message: string }[] } }) => result.error?.errors[0].message;
+
+describe("ABA routing numbers", () => {
+  it("accepts numbers whose weighted sum is a multiple of 10", () => {
+    for (const routingNumber of ["021000021", "011000015", "121000358", "123456780"]) {
+      expect(isValidAbaRoutingNumber(routingNumber)).toBe(true);
+    }
+  });
+
+  it("rejects a wrong check digit, the wrong length and all zeros", () => {
+    expect(isValidAbaRoutingNumber("021000022")).toBe(false);
+    expect(isValidAbaRoutingNumber("02100002")).toBe(false);
+    expect(isValidAbaRoutingNumber("0210000210")).toBe(false);
+    expect(isValidAbaRoutingNumber("02100002a")).toBe(false);
+    expect(isValidAbaRoutingNumber("000000000")).toBe(false);
+  });
+
+  it("trims the schema input and explains what is wrong", () => {
+    expect(routingNumberSchema.parse(" 021000021 ")).toBe("021000021");
+    expect(firstIssue(routingNumberSchema.safeParse("0210-0002"))).toBe("Routing number must be 9 digits");
+    expect(firstIssue(routingNumberSchema.safeParse("021000022"))).toBe("Routing number is not valid. Please check it and try again.");
+  });
+});
+
+describe("IBANs", () => {
+  it("accepts IBANs that pass mod-97 at their country's length", () => {
+    expect(isValidIban("GB82WEST12345698765432")).toBe(true);
+    expect(isValidIban("DE89370400440532013000")).toBe(true);
+    expect(isValidIban("NL91ABNA0417164300")).toBe(true);
+  });
+
+  it("accepts printed spacing and lowercase letters", () => {
+    expect(isValidIban("gb82 west 1234 5698 7654 32")).toBe(true);
+    expect(ibanSchema.parse(" de89 3704 0044 0532 0130 00 ")).toBe("DE89370400440532013000");
+    expect(formatIban("gb82west12345698765432")).toBe("GB82 WEST 1234 5698 7654 32");
+  });
+
+  it("rejects a wrong check, the wrong length and unknown countries", () => {
+    expect(isValidIban("GB82WEST12345698765433")).toBe(false);
+    expect(isValidIban("GB81WEST12345698765432")).toBe(false);
+    expect(isValidIban("GB82WEST1234569876543")).toBe(false);
+    expect(isValidIban("US82WEST12345698765432")).toBe(false);
+    expect(isValidIban("GB82-WEST-1234-5698-7654-32")).toBe(false);
+    expect(firstIssue(ibanSchema.safeParse("DE89370400440532013001"))).toBe("IBAN is not valid. Please check it and try again.");
+  });
+});
+
+describe("BICs", () => {
+  it("accepts 8 and 11 character codes in any case", () => {
+    expect(isValidBic("DEUTDEFF")).toBe(true);
+    expect(isValidBic("DEUTDEFF500")).toBe(true);
+    expect(isValidBic("nwbkgb2l")).toBe(true);
+    expect(bicSchema.parse(" deutdeff500 ")).toBe("DEUTDEFF500");
+  });
+
+  it("rejects other lengths and digits in the bank or country code", () => {
+    for (const bic of ["DEUTDEF", "DEUTDEFF50", "DEUTDEFF5000", "1EUTDEFF", "DEUT1EFF", "DEUT DEFF"]) {
+      expect(isValidBic(bic)).toBe(false);
+    }
+    expect(firstIssue(bicSchema.safeParse("DEUTDE"))).toBe("BIC must be 8 or 11 characters, e.g. DEUTDEFF");
+  });
+});
+
+describe("domesticBeneficiarySchema", () => {
+  it("checks every field of a US account", () => {
+    expect(domesticBeneficiarySchema.parse({
+      routingNumber: "021000021",
+      accountNumber: "123456789",
+      accountHolderName: " Jane Doe ",
+    })).toEqual({ routingNumber: "021000021", accountNumber: "123456789", accountHolderName: "Jane Doe" });
+
+    expect(firstIssue(domesticBeneficiarySchema.safeParse({
+      routingNumber: "021000021",
+      accountNumber: "123",
+      accountHolderName: "Jane Doe",
+    }))).toBe("Account number must be 4-17 letters or digits");
+  });
+});
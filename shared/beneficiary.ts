@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+// IBAN length per country (ISO 13616 registry); IBANs from other countries are rejected
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24,
+  FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21,
+  HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LI: 21,
+  LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30,
+  NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24,
+  SE: 24, SI: 19, SK: 24, SM: 27, TN: 24, TR: 26, UA: 29, VG: 24, XK: 20,
+};
+
+const ABA_WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+/**
+ * ABA routing numbers are 9 digits whose weighted sum (3, 7, 1 repeating) is
+ * a multiple of 10
+ */
+export function isValidAbaRoutingNumber(value: string): boolean {
+  if (!/^\d{9}$/.test(value)) return false;
+  const sum = value.split("").reduce((total, digit, index) => total + Number(digit) * ABA_WEIGHTS[index], 0);
+  return sum % 10 === 0 && value !== "000000000";
+}
+
+/**
+ * Uppercase an IBAN and drop the spaces it is usually printed with
+ */
+export function normalizeIban(value: string): string {
+  return value.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Group an IBAN in blocks of four for display
+ */
+export function formatIban(value: string): string {
+  return normalizeIban(value).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+/**
+ * Country length check plus ISO 7064 mod-97: with the first four characters
+ * moved to the end and letters replaced by 10-35, the number mod 97 is 1
+ */
+export function isValidIban(value: string): boolean {
+  const iban = normalizeIban(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) return false;
+  if (IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * BIC/SWIFT codes: 4-letter bank code, 2-letter country, 2-character
+ * location and an optional 3-character branch
+ */
+export function isValidBic(value: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(value.trim().toUpperCase());
+}
+
+// Field schemas
+export const routingNumberSchema = z.string()
+  .trim()
+  .regex(/^\d{9}$/, "Routing number must be 9 digits")
+  .refine(isValidAbaRoutingNumber, "Routing number is not valid. Please check it and try again.");
+
+export const accountNumberSchema = z.string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{4,17}$/, "Account number must be 4-17 letters or digits");
+
+export const ibanSchema = z.string()
+  .transform(normalizeIban)
+  .refine(isValidIban, "IBAN is not valid. Please check it and try again.");
+
+export const bicSchema = z.string()
+  .transform((value) => value.trim().toUpperCase())
+  .refine(isValidBic, "BIC must be 8 or 11 characters, e.g. DEUTDEFF");
+
+// ACH limits the receiver name to 22 characters
+export const accountHolderNameSchema = z.string()
+  .trim()
+  .min(1, "Account holder name is required")
+  .max(22, "Account holder name must be 22 characters or fewer");
+
+// A US account reached over ACH
+export const domesticBeneficiarySchema = z.object({
+  routingNumber: routingNumberSchema,
+  accountNumber: accountNumberSchema,
+  accountHolderName: accountHolderNameSchema,
+});
+
+// An account abroad reached by international wire
+export const internationalBeneficiarySchema = z.object({
+  iban: ibanSchema,
+  bic: bicSchema,
+  accountHolderName: z.string().trim().min(1, "Account holder name is required").max(70),
+});
+
+export type DomesticBeneficiary = z.infer<typeof domesticBeneficiarySchema>;
+export type InternationalBeneficiary = z.infer<typeof internationalBeneficiarySchema>;
@@ -0,0 +1,29 @@
+import { addBusinessDays, isBusinessDay } from "./businessDays";
+
+export const BILLER_CATEGORIES = {
+  utilities: "Utilities",
+  telecom: "Phone & Internet",
+  credit_card: "Credit Card",
+  loan: "Loans & Mortgage",
+  insurance: "Insurance",
+  other: "Other",
+} as const;
+
+export type BillerCategory = keyof typeof BILLER_CATEGORIES;
+
+// Category bill payments are filed under in transaction history
+export const BILL_PAYMENT_CATEGORY = "bill_payment";
+
+/**
+ * The business day a payment due on `sendOn` actually goes out
+ */
+export function nextSendDate(sendOn: string): string {
+  return isBusinessDay(sendOn) ? sendOn : addBusinessDays(sendOn, 1);
+}
+
+/**
+ * When a payment due on `sendOn` should reach the biller
+ */
+export function estimateDeliveryDate(sendOn: string, deliveryDays: number): string {
+  return addBusinessDays(nextSendDate(sendOn), deliveryDays);
+}
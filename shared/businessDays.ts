@@ -0,0 +1,30 @@
+/**
+ * The UTC calendar date (YYYY-MM-DD) of a moment, today by default
+ */
+export function toCalendarDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether money moves on a calendar date (YYYY-MM-DD); weekends are not business days
+ */
+export function isBusinessDay(date: string): boolean {
+  const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * The calendar date `days` business days after `date`, skipping weekends.
+ * Both are YYYY-MM-DD.
+ */
+export function addBusinessDays(date: string, days: number): string {
+  let result = date;
+  let remaining = days;
+  while (remaining > 0) {
+    const next = new Date(`${result}T00:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    result = toCalendarDate(next);
+    if (isBusinessDay(result)) remaining--;
+  }
+  return result;
+}
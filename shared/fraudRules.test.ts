@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeFraudCondition,
+  evaluateFraudCondition,
+  fraudConditionError,
+  fraudDecision,
+  type FraudCondition,
+  type FraudFacts,
+} from "./fraudRules";
+
+const FACTS: FraudFacts = {
+  amount: "5000.00",
+  transferType: "external_bank",
+  debitCount24h: 6,
+  debitCount30d: 40,
+  averageDebit30d: "1000.00",
+  maxDebit30d: "4999.99",
+  isNewPayee: true,
+  isNewRecipientBank: false,
+  hourOfDay: 3,
+};
+
+const meets = (condition: FraudCondition, facts: Partial<FraudFacts> = {}) =>
+  evaluateFraudCondition(condition, { ...FACTS, ...facts });
+
+describe("evaluateFraudCondition", () => {
+  it("compares amounts exactly at the boundary", () => {
+    expect(meets({ fact: "amount", operator: "gte", value: 5000 })).toBe(true);
+    expect(meets({ fact: "amount", operator: "gt", value: 5000 })).toBe(false);
+    expect(meets({ fact: "amount", operator: "gt", value: 4999.99 })).toBe(true);
+    expect(meets({ fact: "amount", operator: "eq", value: 5000 })).toBe(true);
+  });
+
+  it("compares against another fact scaled by a multiplier", () => {
+    expect(meets({ fact: "amount", operator: "gte", value: { fact: "averageDebit30d", multiplier: 5 } })).toBe(true);
+    expect(meets({ fact: "amount", operator: "gt", value: { fact: "averageDebit30d", multiplier: 5 } })).toBe(false);
+    expect(meets({ fact: "amount", operator: "gt", value: { fact: "maxDebit30d" } })).toBe(true);
+    expect(meets({ fact: "debitCount24h", operator: "gt", value: { fact: "debitCount30d", multiplier: 0.1 } })).toBe(true);
+  });
+
+  it("compares counts, flags and text", () => {
+    expect(meets({ fact: "hourOfDay", operator: "lt", value: 5 })).toBe(true);
+    expect(meets({ fact: "debitCount24h", operator: "lte", value: 5 })).toBe(false);
+    expect(meets({ fact: "isNewPayee", operator: "eq", value: true })).toBe(true);
+    expect(meets({ fact: "isNewRecipientBank", operator: "neq", value: false })).toBe(false);
+    expect(meets({ fact: "transferType", operator: "in", value: ["external_bank", "international"] })).toBe(true);
+    expect(meets({ fact: "transferType", operator: "in", value: ["p2p"] })).toBe(false);
+  });
+
+  it("combines conditions with all and any", () => {
+    const lateLargeTransfer: FraudCondition = {
+      all: [
+        { fact: "amount", operator: "gt", value: 1000 },
+        { any: [{ fact: "hourOfDay", operator: "lt", value: 6 }, { fact: "isNewRecipientBank", operator: "eq", value: true }] },
+      ],
+    };
+
+    expect(meets(lateLargeTransfer)).toBe(true);
+    expect(meets(lateLargeTransfer, { hourOfDay: 14 })).toBe(false);
+    expect(meets(lateLargeTransfer, { hourOfDay: 14, isNewRecipientBank: true })).toBe(true);
+    expect(meets(lateLargeTransfer, { amount: "1000.00" })).toBe(false);
+  });
+});
+
+describe("fraudConditionError", () => {
+  it("accepts sound conditions", () => {
+    expect(fraudConditionError({ fact: "amount", operator: "gt", value: 2500.5 })).toBeNull();
+    expect(fraudConditionError({ fact: "amount", operator: "gt", value: { fact: "averageDebit30d", multiplier: 3 } })).toBeNull();
+    expect(fraudConditionError({ fact: "transferType", operator: "in", value: ["p2p"] })).toBeNull();
+  });
+
+  it("explains a value of the wrong kind", () => {
+    expect(fraudConditionError({ fact: "amount", operator: "gt", value: "lots" })).toBe("Transfer amount needs a number");
+    expect(fraudConditionError({ fact: "amount", operator: "gt", value: 10.005 }))
+      .toBe("Transfer amount needs an amount with at most two decimal places");
+    expect(fraudConditionError({ fact: "isNewPayee", operator: "eq", value: 1 }))
+      .toBe("Saved payee added in the last 24 hours needs true or false");
+    expect(fraudConditionError({ fact: "hourOfDay", operator: "lt", value: "night" })).toBe("Hour of day (server time) needs a number");
+  });
+
+  it("explains an operator the fact does not support", () => {
+    expect(fraudConditionError({ fact: "isNewPayee", operator: "gt", value: true }))
+      .toBe("Saved payee added in the last 24 hours can only be compared with eq or neq");
+    expect(fraudConditionError({ fact: "amount", operator: "in", value: ["100"] }))
+      .toBe(`"in" needs a list of values and a text fact such as transfer type`);
+  });
+
+  it("explains comparing facts of different kinds", () => {
+    expect(fraudConditionError({ fact: "amount", operator: "gt", value: { fact: "debitCount30d" } }))
+      .toBe("Transfer amount cannot be compared with Debits in the previous 30 days");
+    expect(fraudConditionError({ fact: "transferType", operator: "eq", value: { fact: "transferType", multiplier: 2 } }))
+      .toBe("Only amounts and counts can be multiplied");
+  });
+
+  it("finds the first error inside nested groups", () => {
+    expect(fraudConditionError({
+      any: [
+        { fact: "hourOfDay", operator: "lt", value: 6 },
+        { all: [{ fact: "isNewPayee", operator: "eq", value: "yes" }] },
+      ],
+    })).toBe("Saved payee added in the last 24 hours needs true or false");
+  });
+});
+
+describe("describeFraudCondition", () => {
+  it("puts a condition in words", () => {
+    expect(describeFraudCondition({
+      all: [
+        { fact: "amount", operator: "gt", value: { fact: "averageDebit30d", multiplier: 5 } },
+        { any: [{ fact: "isNewPayee", operator: "eq", value: true }, { fact: "hourOfDay", operator: "lt", value: 6 }] },
+      ],
+    })).toBe(
+      "Transfer amount > 5 × Average debit over the previous 30 days and " +
+        "(Saved payee added in the last 24 hours = yes or Hour of day (server time) < 6)"
+    );
+  });
+});
+
+describe("fraudDecision", () => {
+  it("reviews from 4 and blocks at CRITICAL", () => {
+    expect([0, 3, 4, 7, 8].map(fraudDecision)).toEqual(["ALLOW", "ALLOW", "REVIEW", "REVIEW", "BLOCK"]);
+  });
+});
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import { Money } from "./money";
+
+// What a fraud rule can look at. Facts are worked out for each transfer from
+// the user's history just before it was made.
+export const FRAUD_FACTS = {
+  amount: { label: "Transfer amount", kind: "money" },
+  transferType: { label: "Transfer type", kind: "string" },
+  debitCount24h: { label: "Debits in the previous 24 hours", kind: "number" },
+  debitCount30d: { label: "Debits in the previous 30 days", kind: "number" },
+  averageDebit30d: { label: "Average debit over the previous 30 days", kind: "money" },
+  maxDebit30d: { label: "Largest debit over the previous 30 days", kind: "money" },
+  isNewPayee: { label: "Saved payee added in the last 24 hours", kind: "boolean" },
+  isNewRecipientBank: { label: "First transfer to the receiving bank", kind: "boolean" },
+  hourOfDay: { label: "Hour of day (server time)", kind: "number" },
+} as const;
+
+export type FraudFactName = keyof typeof FRAUD_FACTS;
+
+export interface FraudFacts {
+  amount: string;
+  transferType: string;
+  debitCount24h: number;
+  debitCount30d: number;
+  averageDebit30d: string;
+  maxDebit30d: string;
+  isNewPayee: boolean;
+  isNewRecipientBank: boolean;
+  hourOfDay: number;
+}
+
+export const FRAUD_OPERATORS = ["gt", "gte", "lt", "lte", "eq", "neq", "in"] as const;
+
+export type FraudOperator = (typeof FRAUD_OPERATORS)[number];
+
+// A value to compare against: a constant, or another fact scaled by a multiplier
+export type FraudValue = number | string | boolean | string[] | { fact: FraudFactName; multiplier?: number };
+
+export type FraudCondition =
+  | { fact: FraudFactName; operator: FraudOperator; value: FraudValue }
+  | { all: FraudCondition[] }
+  | { any: FraudCondition[] };
+
+const factNameSchema = z.enum(Object.keys(FRAUD_FACTS) as [FraudFactName, ...FraudFactName[]], {
+  errorMap: () => ({ message: "Unknown fact" }),
+});
+
+const valueSchema: z.ZodType<FraudValue> = z.union([
+  z.number(),
+  z.string(),
+  z.boolean(),
+  z.array(z.string()),
+  z.object({ fact: factNameSchema, multiplier: z.number().positive().optional() }).strict(),
+]);
+
+export const fraudConditionSchema: z.ZodType<FraudCondition> = z.lazy(() =>
+  z.union([
+    z.object({ fact: factNameSchema, operator: z.enum(FRAUD_OPERATORS), value: valueSchema }).strict(),
+    z.object({ all: z.array(fraudConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(fraudConditionSchema).min(1) }).strict(),
+  ])
+);
+
+/**
+ * Why a condition cannot be evaluated, e.g. comparing a yes/no fact with a
+ * number, or null when it is sound
+ */
+export function fraudConditionError(condition: FraudCondition): string | null {
+  if ("all" in condition || "any" in condition) {
+    const parts = "all" in condition ? condition.all : condition.any;
+    for (const part of parts) {
+      const error = fraudConditionError(part);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  const { fact, operator, value } = condition;
+  const { kind, label } = FRAUD_FACTS[fact];
+
+  if (operator === "in") {
+    return kind === "string" && Array.isArray(value) ? null : `"in" needs a list of values and a text fact such as transfer type`;
+  }
+  if ((kind === "boolean" || kind === "string") && operator !== "eq" && operator !== "neq") {
+    return `${label} can only be compared with eq or neq`;
+  }
+
+  if (typeof value === "object" && !Array.isArray(value)) {
+    if (FRAUD_FACTS[value.fact].kind !== kind) return `${label} cannot be compared with ${FRAUD_FACTS[value.fact].label}`;
+    if (value.multiplier !== undefined && kind !== "money" && kind !== "number") return "Only amounts and counts can be multiplied";
+    return null;
+  }
+
+  switch (kind) {
+    case "money":
+      if (typeof value !== "number") return `${label} needs a number`;
+      try {
+        Money.of(String(value));
+      } catch {
+        return `${label} needs an amount with at most two decimal places`;
+      }
+      return null;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : `${label} needs a number`;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${label} needs true or false`;
+    case "string":
+      return typeof value === "string" ? null : `${label} needs a text value`;
+  }
+}
+
+function compare(fact: FraudFactName, actual: unknown, operator: FraudOperator, expected: unknown): boolean {
+  if (operator === "in") {
+    return Array.isArray(expected) && expected.includes(String(actual));
+  }
+
+  // Money is compared exactly; everything else as plain values
+  const order = FRAUD_FACTS[fact].kind === "money"
+    ? Money.of(String(actual)).compare(Money.of(String(expected)))
+    : actual === expected ? 0 : (actual as number) < (expected as number) ? -1 : 1;
+
+  switch (operator) {
+    case "gt": return order > 0;
+    case "gte": return order >= 0;
+    case "lt": return order < 0;
+    case "lte": return order <= 0;
+    case "eq": return order === 0;
+    case "neq": return order !== 0;
+  }
+}
+
+function resolveValue(value: FraudValue, facts: FraudFacts): unknown {
+  if (typeof value !== "object" || Array.isArray(value)) return value;
+
+  const referenced = facts[value.fact];
+  if (value.multiplier === undefined) return referenced;
+  return FRAUD_FACTS[value.fact].kind === "money"
+    ? Money.of(String(referenced)).multiply(value.multiplier).toString()
+    : (referenced as number) * value.multiplier;
+}
+
+/**
+ * Whether a transfer's facts meet a rule's condition
+ */
+export function evaluateFraudCondition(condition: FraudCondition, facts: FraudFacts): boolean {
+  if ("all" in condition) return condition.all.every((part) => evaluateFraudCondition(part, facts));
+  if ("any" in condition) return condition.any.some((part) => evaluateFraudCondition(part, facts));
+  return compare(condition.fact, facts[condition.fact], condition.operator, resolveValue(condition.value, facts));
+}
+
+const OPERATOR_SYMBOLS: Record<FraudOperator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  eq: "=",
+  neq: "≠",
+  in: "is one of",
+};
+
+/**
+ * A condition in words, e.g. "Transfer amount > 5 × Average debit over the previous 30 days"
+ */
+export function describeFraudCondition(condition: FraudCondition): string {
+  if ("all" in condition || "any" in condition) {
+    const parts = "all" in condition ? condition.all : condition.any;
+    const text = parts.map((part) => ("fact" in part ? describeFraudCondition(part) : `(${describeFraudCondition(part)})`));
+    return text.join("all" in condition ? " and " : " or ");
+  }
+
+  const { fact, operator, value } = condition;
+  const valueText = Array.isArray(value)
+    ? value.join(", ")
+    : typeof value === "object"
+      ? `${value.multiplier !== undefined ? `${value.multiplier} × ` : ""}${FRAUD_FACTS[value.fact].label}`
+      : typeof value === "boolean"
+        ? value ? "yes" : "no"
+        : String(value);
+  return `${FRAUD_FACTS[fact].label} ${OPERATOR_SYMBOLS[operator]} ${valueText}`;
+}
+
+export type FraudRiskLevel = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+
+/**
+ * Risk level for a total score. CRITICAL transfers are blocked.
+ */
+export function fraudRiskLevel(score: number): FraudRiskLevel {
+  if (score >= 8) return "CRITICAL";
+  if (score >= 5) return "HIGH";
+  if (score >= 3) return "MEDIUM";
+  return "LOW";
+}
+
+export type FraudDecision = "ALLOW" | "REVIEW" | "BLOCK";
+
+/**
+ * What happens to a transfer with this score: blocked at CRITICAL, sent for
+ * manual review from 4 up, otherwise allowed
+ */
+export function fraudDecision(score: number): FraudDecision {
+  if (fraudRiskLevel(score) === "CRITICAL") return "BLOCK";
+  if (score >= 4) return "REVIEW";
+  return "ALLOW";
+}
+
+// A rule a transfer met and the score it added
+export interface FraudFactor {
+  key: string;
+  reason: string;
+  score: number;
+}
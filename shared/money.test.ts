@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { Money, moneySchema, positiveMoneySchema } from "./money";
+
+describe("Money.of", () => {
+  it("reads decimal strings exactly", () => {
+    expect(Money.of("1234.5").minor).toBe(BigInt(123450));
+    expect(Money.of(" 0.10 ").toString()).toBe("0.10");
+    expect(Money.of("12.300").toString()).toBe("12.30");
+  });
+
+  it("rejects strings finer than the currency allows", () => {
+    expect(() => Money.of("1.005")).toThrow("Amount 1.005 has more precision than USD allows");
+    expect(() => Money.of("1000.5", "JPY")).toThrow("Amount 1000.5 has more precision than JPY allows");
+  });
+
+  it("rounds numbers to the currency's minor units", () => {
+    expect(Money.of(0.1 + 0.2).toString()).toBe("0.30");
+    expect(Money.of(10.126).toString()).toBe("10.13");
+    expect(Money.of(1000.6, "JPY").toString()).toBe("1001");
+  });
+
+  it("keeps the sign of negative amounts", () => {
+    expect(Money.of("-0.05").minor).toBe(BigInt(-5));
+    expect(Money.of("-12.34").toString()).toBe("-12.34");
+    expect(Money.of(-7.5).isNegative()).toBe(true);
+  });
+
+  it("uses each currency's exponent", () => {
+    expect(Money.of("5000", "JPY").minor).toBe(BigInt(5000));
+    expect(Money.of("5000", "JPY").toString()).toBe("5000");
+    expect(Money.of("1.234", "KWD").toString()).toBe("1.234");
+    expect(Money.of("12", "xaf").currency).toBe("XAF");
+  });
+
+  it("rejects what is not an amount", () => {
+    expect(() => Money.of("12,50")).toThrow("Invalid money amount: 12,50");
+    expect(() => Money.of("")).toThrow("Invalid money amount");
+    expect(() => Money.of(Number.NaN)).toThrow("Invalid money amount: NaN");
+  });
+
+  it("only passes Money through in its own currency", () => {
+    const amount = Money.of("10.00", "EUR");
+
+    expect(Money.of(amount, "EUR")).toBe(amount);
+    expect(() => Money.of(amount, "USD")).toThrow("Currency mismatch: EUR != USD");
+  });
+});
+
+describe("Money arithmetic", () => {
+  it("rounds multiplication with the requested mode", () => {
+    const amount = Money.of("10.05");
+
+    expect(amount.multiply("0.5").toString()).toBe("5.03");
+    expect(amount.multiply("0.5", "HALF_EVEN").toString()).toBe("5.02");
+    expect(amount.multiply("0.5", "DOWN").toString()).toBe("5.02");
+    expect(Money.of("-10.05").multiply("0.5").toString()).toBe("-5.03");
+  });
+
+  it("divides by whole numbers", () => {
+    expect(Money.of("100.00").divide(3).toString()).toBe("33.33");
+    expect(Money.of("0.05").divide(2).toString()).toBe("0.03");
+    expect(Money.of("0.05").divide(2, "HALF_EVEN").toString()).toBe("0.02");
+    expect(() => Money.of("1.00").divide(0)).toThrow("Invalid divisor: 0");
+  });
+
+  it("converts between currencies with different exponents", () => {
+    expect(Money.of("100.00", "EUR").convert("1.085", "USD").toString()).toBe("108.50");
+    expect(Money.of("10.00").convert("149.995", "JPY").toString()).toBe("1500");
+    expect(Money.of("10.00").convert("149.995", "JPY", "DOWN").toString()).toBe("1499");
+    expect(Money.of("1000", "JPY").convert("0.0067", "USD").toString()).toBe("6.70");
+    expect(() => Money.of("1.00").convert("-1", "EUR")).toThrow("Invalid exchange rate: -1");
+  });
+
+  it("sums mixed inputs in one currency", () => {
+    expect(Money.sum(["1.10", 2.2, Money.of("3.30")]).toString()).toBe("6.60");
+    expect(Money.sum([], "JPY").toString()).toBe("0");
+    expect(Money.sum(["100", "250"], "JPY").toString()).toBe("350");
+  });
+
+  it("refuses to mix currencies", () => {
+    expect(() => Money.of("1.00").add(Money.of("1.00", "EUR"))).toThrow("Currency mismatch: EUR != USD");
+    expect(() => Money.sum([Money.of("1.00", "GBP")])).toThrow("Currency mismatch: GBP != USD");
+    expect(() => Money.of("1.00").gt(Money.of("1", "JPY"))).toThrow("Currency mismatch");
+  });
+});
+
+describe("moneySchema", () => {
+  it("reports precision errors as validation issues", () => {
+    const result = moneySchema("JPY").safeParse("10.5");
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toBe("Amount 10.5 has more precision than JPY allows");
+  });
+
+  it("requires positive amounts when asked to", () => {
+    expect(positiveMoneySchema().safeParse("0").success).toBe(false);
+    expect(positiveMoneySchema().parse("0.01").toString()).toBe("0.01");
+  });
+});
@@ -0,0 +1,279 @@
+import { z } from "zod";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Currencies accounts can be held in
+export const SUPPORTED_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "CHF", "JPY", "NGN", "ZAR", "XAF"] as const;
+
+export type SupportedCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+// Number of minor-unit digits per ISO 4217 currency (anything not listed uses 2)
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  JPY: 0,
+  KRW: 0,
+  XAF: 0,
+  BHD: 3,
+  KWD: 3,
+  OMR: 3,
+};
+
+export function currencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+/**
+ * Anything that can be read as an exact amount: decimal strings, Prisma Decimals
+ * (anything with toFixed), Money itself, or - at legacy boundaries only - numbers.
+ */
+export type MoneyInput = Money | string | number | { toFixed(decimalPlaces: number): string };
+
+export type RoundingMode = "HALF_UP" | "HALF_EVEN" | "DOWN";
+
+const DECIMAL_PATTERN = /^([+-])?(\d+)(?:\.(\d*))?$/;
+
+// BigInt() calls rather than literals: the shared tsconfig does not target ES2020
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+function pow10(exponent: number): bigint {
+  return BigInt(`1${"0".repeat(exponent)}`);
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const negative = (numerator < ZERO) !== (denominator < ZERO);
+  const n = numerator < ZERO ? -numerator : numerator;
+  const d = denominator < ZERO ? -denominator : denominator;
+  let quotient = n / d;
+  const remainder = n % d;
+
+  if (remainder !== ZERO && mode !== "DOWN") {
+    const twice = remainder * TWO;
+    if (twice > d || (twice === d && (mode === "HALF_UP" || quotient % TWO === ONE))) {
+      quotient += ONE;
+    }
+  }
+
+  return negative ? -quotient : quotient;
+}
+
+/**
+ * Exact money amount held as integer minor units (cents for USD).
+ * Never round-trips through a JS float unless toNumber() is called explicitly.
+ */
+export class Money {
+  readonly minor: bigint;
+  readonly currency: string;
+
+  private constructor(minor: bigint, currency: string) {
+    this.minor = minor;
+    this.currency = currency.toUpperCase();
+  }
+
+  static of(value: MoneyInput, currency: string = DEFAULT_CURRENCY): Money {
+    if (value instanceof Money) {
+      if (value.currency !== currency.toUpperCase()) {
+        throw new Error(`Currency mismatch: ${value.currency} != ${currency}`);
+      }
+      return value;
+    }
+
+    const exponent = currencyExponent(currency);
+    let text: string;
+
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid money amount: ${value}`);
+      }
+      text = value.toFixed(exponent);
+    } else if (typeof value === "string") {
+      text = value.trim();
+    } else if (value && typeof value.toFixed === "function") {
+      text = value.toFixed(exponent);
+    } else {
+      throw new Error(`Invalid money amount: ${String(value)}`);
+    }
+
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(`Invalid money amount: ${text}`);
+    }
+
+    const [, sign, whole, fraction = ""] = match;
+    if (fraction.length > exponent && /[^0]/.test(fraction.slice(exponent))) {
+      throw new Error(`Amount ${text} has more precision than ${currency} allows`);
+    }
+
+    const minor = BigInt(whole) * pow10(exponent) + BigInt(fraction.slice(0, exponent).padEnd(exponent, "0") || "0");
+    return new Money(sign === "-" ? -minor : minor, currency);
+  }
+
+  static fromMinor(minor: bigint | number, currency: string = DEFAULT_CURRENCY): Money {
+    return new Money(BigInt(minor), currency);
+  }
+
+  static zero(currency: string = DEFAULT_CURRENCY): Money {
+    return new Money(ZERO, currency);
+  }
+
+  static sum(values: MoneyInput[], currency: string = DEFAULT_CURRENCY): Money {
+    return values.reduce<Money>((total, value) => total.add(value), Money.zero(currency));
+  }
+
+  static min(a: Money, b: Money): Money {
+    return a.lte(b) ? a : b;
+  }
+
+  static max(a: Money, b: Money): Money {
+    return a.gte(b) ? a : b;
+  }
+
+  add(other: MoneyInput): Money {
+    return new Money(this.minor + Money.of(other, this.currency).minor, this.currency);
+  }
+
+  subtract(other: MoneyInput): Money {
+    return new Money(this.minor - Money.of(other, this.currency).minor, this.currency);
+  }
+
+  /**
+   * Multiply by an exact decimal factor (rates, percentages) and round back to minor units
+   */
+  multiply(factor: string | number, mode: RoundingMode = "HALF_UP"): Money {
+    const text = typeof factor === "number" ? String(factor) : factor.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(`Invalid multiplication factor: ${text}`);
+    }
+
+    const [, sign, whole, fraction = ""] = match;
+    const scaled = BigInt(whole + fraction) * (sign === "-" ? -ONE : ONE);
+    return new Money(divideRounded(this.minor * scaled, pow10(fraction.length), mode), this.currency);
+  }
+
+  /**
+   * Divide by a whole number (counts, basis-point scales) and round back to minor units
+   */
+  divide(divisor: number, mode: RoundingMode = "HALF_UP"): Money {
+    if (!Number.isInteger(divisor) || divisor === 0) {
+      throw new Error(`Invalid divisor: ${divisor}`);
+    }
+    return new Money(divideRounded(this.minor, BigInt(divisor), mode), this.currency);
+  }
+
+  /**
+   * Convert into another currency at an exact decimal rate (units of the target
+   * currency per unit of this one), rounding to the target's minor units
+   */
+  convert(rate: string, currency: string, mode: RoundingMode = "HALF_UP"): Money {
+    const match = DECIMAL_PATTERN.exec(rate.trim());
+    if (!match || match[1] === "-") {
+      throw new Error(`Invalid exchange rate: ${rate}`);
+    }
+
+    const [, , whole, fraction = ""] = match;
+    const numerator = this.minor * BigInt(whole + fraction) * pow10(currencyExponent(currency));
+    const denominator = pow10(fraction.length + currencyExponent(this.currency));
+    return new Money(divideRounded(numerator, denominator, mode), currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  abs(): Money {
+    return this.minor < ZERO ? this.negate() : this;
+  }
+
+  compare(other: MoneyInput): -1 | 0 | 1 {
+    const otherMinor = Money.of(other, this.currency).minor;
+    return this.minor < otherMinor ? -1 : this.minor > otherMinor ? 1 : 0;
+  }
+
+  equals(other: MoneyInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  gt(other: MoneyInput): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: MoneyInput): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  lt(other: MoneyInput): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: MoneyInput): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this.minor === ZERO;
+  }
+
+  isPositive(): boolean {
+    return this.minor > ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.minor < ZERO;
+  }
+
+  /**
+   * Fixed-point decimal string, e.g. "-1234.50" - the wire and database format
+   */
+  toString(): string {
+    const exponent = currencyExponent(this.currency);
+    const digits = (this.minor < ZERO ? -this.minor : this.minor).toString().padStart(exponent + 1, "0");
+    const whole = digits.slice(0, digits.length - exponent);
+    const fraction = digits.slice(digits.length - exponent);
+    return `${this.minor < ZERO ? "-" : ""}${whole}${exponent > 0 ? `.${fraction}` : ""}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Lossy conversion for charts and percentages only - never feed the result back into balances
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  format(options: { locale?: string; showCents?: boolean; compact?: boolean; signDisplay?: Intl.NumberFormatOptions["signDisplay"] } = {}): string {
+    const { locale = "en-US", showCents = true, compact = false, signDisplay } = options;
+    const exponent = currencyExponent(this.currency);
+
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: this.currency,
+      signDisplay,
+      ...(compact
+        ? { notation: "compact", compactDisplay: "short", minimumFractionDigits: 0, maximumFractionDigits: 1 }
+        : { minimumFractionDigits: showCents ? exponent : 0, maximumFractionDigits: showCents ? exponent : 0 }),
+    }).format(this.toString() as `${number}`);
+  }
+}
+
+/**
+ * Accepts decimal strings (preferred) or numbers and yields an exact Money value
+ */
+export const moneySchema = (currency: string = DEFAULT_CURRENCY) =>
+  z.union([z.string(), z.number()]).transform((value, ctx) => {
+    try {
+      return Money.of(value, currency);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : "Invalid amount",
+      });
+      return z.NEVER;
+    }
+  });
+
+export const positiveMoneySchema = (currency: string = DEFAULT_CURRENCY) =>
+  moneySchema(currency).refine((amount) => amount.isPositive(), "Amount must be positive");
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  TRANSFER_STATES,
+  TRANSFER_TRANSITIONS,
+  assertTransition,
+  canTransition,
+  isOpenTransferState,
+  isTerminalTransferState,
+  resolveTransferState,
+} from "./transferLifecycle";
+
+describe("transfer lifecycle", () => {
+  it("allows the moves of a transfer that settles", () => {
+    expect(canTransition("SUBMITTED", "HELD")).toBe(true);
+    expect(canTransition("HELD", "UNDER_REVIEW")).toBe(true);
+    expect(canTransition("UNDER_REVIEW", "APPROVED")).toBe(true);
+    expect(canTransition("APPROVED", "SENT")).toBe(true);
+    expect(canTransition("SENT", "SETTLED")).toBe(true);
+  });
+
+  it("allows returns of sent and settled transfers", () => {
+    expect(canTransition("SENT", "RETURNED")).toBe(true);
+    expect(canTransition("SETTLED", "RETURNED")).toBe(true);
+  });
+
+  it("forbids skipping review or going backwards", () => {
+    expect(canTransition("SUBMITTED", "APPROVED")).toBe(false);
+    expect(canTransition("HELD", "SENT")).toBe(false);
+    expect(canTransition("APPROVED", "UNDER_REVIEW")).toBe(false);
+    expect(canTransition("SETTLED", "SENT")).toBe(false);
+  });
+
+  it("forbids cancelling once approved", () => {
+    expect(canTransition("APPROVED", "CANCELLED")).toBe(false);
+    expect(canTransition("SENT", "CANCELLED")).toBe(false);
+    expect(isOpenTransferState("UNDER_REVIEW")).toBe(true);
+    expect(isOpenTransferState("APPROVED")).toBe(false);
+  });
+
+  it("has no moves out of terminal states", () => {
+    for (const state of ["RETURNED", "REJECTED", "CANCELLED"] as const) {
+      expect(isTerminalTransferState(state)).toBe(true);
+      for (const to of TRANSFER_STATES) {
+        expect(canTransition(state, to)).toBe(false);
+      }
+    }
+  });
+
+  it("only moves to known states", () => {
+    for (const state of TRANSFER_STATES) {
+      for (const to of TRANSFER_TRANSITIONS[state]) {
+        expect(TRANSFER_STATES).toContain(to);
+      }
+    }
+  });
+
+  it("throws on a forbidden move", () => {
+    expect(() => assertTransition("UNDER_REVIEW", "APPROVED")).not.toThrow();
+    expect(() => assertTransition("REJECTED", "APPROVED")).toThrow("Transfer cannot move from rejected to approved");
+  });
+
+  it("falls back to legacy status fields", () => {
+    expect(resolveTransferState({ transferState: "SENT", status: "PENDING" })).toBe("SENT");
+    expect(resolveTransferState({ status: "COMPLETED", metadata: { status: "expired" } })).toBe("CANCELLED");
+    expect(resolveTransferState({ status: "FAILED" })).toBe("REJECTED");
+    expect(resolveTransferState({})).toBe("SUBMITTED");
+  });
+});
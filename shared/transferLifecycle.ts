@@ -0,0 +1,148 @@
+export const TRANSFER_STATES = [
+  "SUBMITTED",
+  "HELD",
+  "UNDER_REVIEW",
+  "APPROVED",
+  "SENT",
+  "SETTLED",
+  "RETURNED",
+  "REJECTED",
+  "CANCELLED",
+] as const;
+
+export type TransferState = (typeof TRANSFER_STATES)[number];
+
+export type TransferActorType = "CUSTOMER" | "ADMIN" | "SYSTEM";
+
+// Every move a transfer may make. A state missing from a list is not
+// reachable from the state on the left; terminal states have no moves.
+export const TRANSFER_TRANSITIONS: Record<TransferState, readonly TransferState[]> = {
+  SUBMITTED: ["HELD", "UNDER_REVIEW", "REJECTED", "CANCELLED"],
+  HELD: ["UNDER_REVIEW", "REJECTED", "CANCELLED"],
+  UNDER_REVIEW: ["APPROVED", "REJECTED", "CANCELLED"],
+  APPROVED: ["SENT"],
+  SENT: ["SETTLED", "RETURNED"],
+  // Some ACH returns arrive after the entry has settled
+  SETTLED: ["RETURNED"],
+  RETURNED: [],
+  REJECTED: [],
+  CANCELLED: [],
+};
+
+export const TRANSFER_STATE_LABELS: Record<TransferState, string> = {
+  SUBMITTED: "Submitted",
+  HELD: "Funds held",
+  UNDER_REVIEW: "Under review",
+  APPROVED: "Approved",
+  SENT: "Sent",
+  SETTLED: "Settled",
+  RETURNED: "Returned",
+  REJECTED: "Rejected",
+  CANCELLED: "Cancelled",
+};
+
+export function isTransferState(value: unknown): value is TransferState {
+  return typeof value === "string" && (TRANSFER_STATES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: TransferState, to: TransferState): boolean {
+  return TRANSFER_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminalTransferState(state: TransferState): boolean {
+  return TRANSFER_TRANSITIONS[state].length === 0;
+}
+
+/**
+ * Whether the customer or an admin can still stop the transfer
+ */
+export function isOpenTransferState(state: TransferState): boolean {
+  return canTransition(state, "CANCELLED");
+}
+
+export function assertTransition(from: TransferState, to: TransferState): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Transfer cannot move from ${TRANSFER_STATE_LABELS[from].toLowerCase()} to ${TRANSFER_STATE_LABELS[to].toLowerCase()}`);
+  }
+}
+
+// metadata.status values written before transfers had an explicit state
+const LEGACY_METADATA_STATES: Record<string, TransferState> = {
+  pending: "UNDER_REVIEW",
+  approved: "APPROVED",
+  sent: "SENT",
+  settled: "SETTLED",
+  returned: "RETURNED",
+  rejected: "REJECTED",
+  cancelled: "CANCELLED",
+  expired: "CANCELLED",
+};
+
+// Transaction.status values of both servers
+const LEGACY_STATUS_STATES: Record<string, TransferState> = {
+  PENDING: "UNDER_REVIEW",
+  APPROVED: "APPROVED",
+  COMPLETED: "SETTLED",
+  REJECTED: "REJECTED",
+  FAILED: "REJECTED",
+};
+
+/**
+ * The state of a transfer, falling back to its legacy status fields for rows
+ * written before `transferState` existed
+ */
+export function resolveTransferState(transaction: {
+  transferState?: string | null;
+  status?: string | null;
+  metadata?: unknown;
+}): TransferState {
+  if (isTransferState(transaction.transferState)) return transaction.transferState;
+
+  const metadata = (transaction.metadata || {}) as { status?: unknown };
+  if (typeof metadata.status === "string" && LEGACY_METADATA_STATES[metadata.status]) {
+    return LEGACY_METADATA_STATES[metadata.status];
+  }
+  return LEGACY_STATUS_STATES[transaction.status || ""] || "SUBMITTED";
+}
+
+/**
+ * The coarse Transaction.status a state is stored with on the main server
+ */
+export function toTransactionStatus(state: TransferState): "PENDING" | "COMPLETED" | "FAILED" {
+  switch (state) {
+    case "SUBMITTED":
+    case "HELD":
+    case "UNDER_REVIEW":
+      return "PENDING";
+    case "APPROVED":
+    case "SENT":
+    case "SETTLED":
+      return "COMPLETED";
+    default:
+      return "FAILED";
+  }
+}
+
+export type TransferEventStatus =
+  | "pending"
+  | "approved"
+  | "sent"
+  | "settled"
+  | "returned"
+  | "rejected"
+  | "cancelled";
+
+/**
+ * The lowercase status carried in transfer events, kept for clients that
+ * predate `state`
+ */
+export function toTransferEventStatus(state: TransferState): TransferEventStatus {
+  switch (state) {
+    case "SUBMITTED":
+    case "HELD":
+    case "UNDER_REVIEW":
+      return "pending";
+    default:
+      return state.toLowerCase() as TransferEventStatus;
+  }
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { moneySchema, positiveMoneySchema } from "./money";
 
 // User validation schemas
 export const createUserSchema = z.object({
@@ -30,7 +31,7 @@ export const updateUserSchema = z.object({
 export const createTransactionSchema = z.object({
   userId: z.string().uuid("Invalid user ID"),
   type: z.enum(["CREDIT", "DEBIT"]),
-  amount: z.number().positive("Amount must be positive"),
+  amount: positiveMoneySchema(),
   description: z.string().min(1, "Description is required"),
   reference: z.string().optional(),
 });
@@ -40,14 +41,15 @@ export const adminUpdateUserSchema = z.object({
   name: z.string().min(1).optional(),
   email: z.string().email().optional(),
   role: z.enum(["USER", "ADMIN"]).optional(),
-  balance: z.number().min(0).optional(),
+  balance: moneySchema().refine((balance) => !balance.isNegative(), "Balance cannot be negative").optional(),
   accountType: z.enum(["CHECKING", "SAVINGS", "BUSINESS"]).optional(),
   isActive: z.boolean().optional(),
 });
 
 export const adminUpdateBalanceSchema = z.object({
   userId: z.string().uuid("Invalid user ID"),
-  amount: z.number().positive("Amount must be positive"),
+  accountId: z.string().uuid("Invalid account ID").optional(), // Defaults to the primary account
+  amount: positiveMoneySchema(),
   action: z.enum(["ADD", "SUBTRACT"]),
   description: z.string().min(1, "Description is required"),
 });
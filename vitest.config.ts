@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the server and shared code; vite.config.ts is for the client bundle
+export default defineConfig({
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+  },
+});